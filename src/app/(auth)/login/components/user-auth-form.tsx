@@ -8,6 +8,7 @@ import { zodResolver } from "@hookform/resolvers/zod"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { useAuth } from "@/lib/auth/auth-context"
+import { getHomeRoute } from "@/lib/auth/demo-data"
 import { cn } from "@/lib/utils"
 import { useToast } from "@/hooks/use-toast"
 import { Button } from "@/components/ui/button"
@@ -63,8 +64,8 @@ export function UserAuthForm({
           description: `Welcome back, ${result.user?.firstName}!`,
         })
         
-        // Redirect to overview dashboard
-        router.push('/overview')
+        // Promoters land in their portal, staff on the overview dashboard
+        router.push(result.user ? getHomeRoute(result.user.role) : '/overview')
       } else {
         toast({
           title: "Login failed",
@@ -92,6 +93,7 @@ export function UserAuthForm({
           <p><strong>Admin:</strong> admin@prima.com / admin123</p>
           <p><strong>Manager:</strong> manager@prima.com / manager123</p>
           <p><strong>Coordinator:</strong> coordinator@prima.com / coordinator123</p>
+          <p><strong>Promoter:</strong> promoter@prima.com / promoter123</p>
         </div>
       </div>
       
@@ -0,0 +1,30 @@
+// Promoter Portal Route Group Layout
+// Based on RFC-007: Promoter Management & Performance
+
+import { Suspense } from 'react'
+import { ProtectedRoute } from '@/lib/auth/protected-route'
+import { PortalShell } from '@/components/portal/portal-shell'
+import { ErrorBoundary } from '@/components/error-boundary'
+
+interface PortalLayoutProps {
+  children: React.ReactNode
+}
+
+// Staff are sent back to the dashboard; promoters never see it
+export default function PortalLayout({ children }: PortalLayoutProps) {
+  return (
+    <ProtectedRoute allowedRoles={['PROMOTER']}>
+      <ErrorBoundary>
+        <PortalShell>
+          <Suspense fallback={
+            <div className="flex items-center justify-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          }>
+            {children}
+          </Suspense>
+        </PortalShell>
+      </ErrorBoundary>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,8 @@
+// PRIMA Promoter Portal Bookings Page
+// Based on RFC-007: Promoter Management & Performance
+
+import { PortalBookings } from '../components/portal-bookings'
+
+export default function PortalBookingsPage() {
+  return <PortalBookings />
+}
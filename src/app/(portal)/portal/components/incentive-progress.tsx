@@ -0,0 +1,82 @@
+'use client'
+
+// Promoter incentive progress for the PRIMA Promoter Portal
+// Based on RFC-009: Incentive Programs
+
+import { format, parseISO } from 'date-fns'
+import { AlertCircle } from 'lucide-react'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { formatRate } from '@/lib/promoters/promoter-metrics'
+import { useGetIncentivesQuery } from '@/lib/store/api'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Skeleton } from '@/components/ui/skeleton'
+import type { Incentive } from '@/types/data'
+
+export function IncentiveProgress() {
+  const { formatAmount } = useDataMasking()
+  // The API only returns the incentives this promoter is in, with their own progress
+  const { data: incentives, isLoading, isError } = useGetIncentivesQuery()
+
+  const formatTarget = (incentive: Incentive, value: number) => ({
+    BOOKING_TARGET: () => String(value),
+    REVENUE_TARGET: () => formatAmount(value),
+    CONVERSION_TARGET: () => formatRate(value),
+  }[incentive.type]())
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Incentives</CardTitle>
+        <CardDescription>Your progress towards each incentive you&apos;re part of.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : isError || !incentives ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load your incentives.
+          </p>
+        ) : incentives.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            You&apos;re not part of any incentives right now.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {incentives.map(incentive => {
+              const percent = incentive.targetValue > 0
+                ? Math.min(100, Math.round((incentive.currentProgress / incentive.targetValue) * 100))
+                : 0
+
+              return (
+                <div key={incentive.id} className="space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{incentive.name}</p>
+                      <p className="text-xs text-muted-foreground">{incentive.description}</p>
+                    </div>
+                    <Badge variant={incentive.status === 'ACTIVE' ? 'default' : 'secondary'}>
+                      {formatAmount(incentive.rewardAmount)} reward
+                    </Badge>
+                  </div>
+                  <Progress value={percent} aria-label={`${incentive.name} progress`} />
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>
+                      {formatTarget(incentive, incentive.currentProgress)} of {formatTarget(incentive, incentive.targetValue)}
+                      {incentive.type === 'BOOKING_TARGET' && ' bookings'}
+                    </span>
+                    <span>
+                      {format(parseISO(incentive.startDate), 'MMM d')} – {format(parseISO(incentive.endDate), 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
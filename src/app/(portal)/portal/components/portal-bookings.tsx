@@ -0,0 +1,146 @@
+'use client'
+
+// Promoter Portal Bookings for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { getBookingAmount } from '@/lib/bookings/booking-amounts'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { useGetBookingsQuery, useGetVenuesQuery } from '@/lib/store/api'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  BookingStatusBadge,
+  BookingTypeBadge,
+} from '@/components/prima/booking-status-badge'
+
+const PAGE_SIZE = 10
+
+export function PortalBookings() {
+  const { user } = useAuth()
+  const { maskBooking, formatAmount } = useDataMasking()
+  const [page, setPage] = useState(1)
+  const { data: venues } = useGetVenuesQuery()
+  const { data: bookings, isLoading, isFetching, isError } = useGetBookingsQuery({
+    promoterId: user?.promoterId,
+    sortBy: 'bookingDate',
+    sortOrder: 'desc',
+    page,
+    limit: PAGE_SIZE,
+  })
+
+  const getVenueName = (venueId: string) =>
+    venues?.find(v => v.id === venueId)?.name ?? venueId
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">My Bookings</h1>
+        <p className="text-muted-foreground">
+          Every booking you&apos;ve brought in, newest first.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table className={isFetching && !isLoading ? 'opacity-60' : undefined}>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Guest</TableHead>
+                <TableHead>Venue</TableHead>
+                <TableHead>Party</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Commission</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8}>
+                    <Skeleton className="h-4 w-full" />
+                  </TableCell>
+                </TableRow>
+              ) : isError || !bookings ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-16 text-center text-destructive">
+                    Failed to load your bookings.
+                  </TableCell>
+                </TableRow>
+              ) : bookings.data.length > 0 ? (
+                bookings.data.map(maskBooking).map(booking => (
+                  <TableRow key={booking.id}>
+                    <TableCell className="whitespace-nowrap">
+                      <span className="font-medium">{format(parseISO(booking.bookingDate), 'MMM dd, yyyy')}</span>
+                      <span className="text-muted-foreground"> {booking.bookingTime}</span>
+                    </TableCell>
+                    <TableCell>{booking.guestName}</TableCell>
+                    <TableCell>{getVenueName(booking.venueId)}</TableCell>
+                    <TableCell>{booking.partySize}</TableCell>
+                    <TableCell>
+                      <BookingTypeBadge type={booking.type} />
+                    </TableCell>
+                    <TableCell>
+                      <BookingStatusBadge status={booking.status} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(getBookingAmount(booking))}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(booking.commissionAmount)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-16 text-center text-muted-foreground">
+                    No bookings yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          {bookings && bookings.pagination.totalPages > 1 && (
+            <div className="mt-4 flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                Page {bookings.pagination.page} of {bookings.pagination.totalPages} • {bookings.pagination.total} bookings
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1 || isFetching}
+                  onClick={() => setPage(current => current - 1)}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= bookings.pagination.totalPages || isFetching}
+                  onClick={() => setPage(current => current + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
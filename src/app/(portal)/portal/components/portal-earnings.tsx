@@ -0,0 +1,160 @@
+'use client'
+
+// Promoter Portal Earnings for PRIMA Partner Dashboard
+// Based on RFC-008: Financial Operations
+
+import { format, parseISO } from 'date-fns'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { useGetPayoutsQuery, useGetTransactionsQuery } from '@/lib/store/api'
+import { cn } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { Payout, Transaction } from '@/types/data'
+
+// Enough to list a promoter's earnings without paging
+const MAX_RECORDS = 100
+
+const payoutStatusStyles: Record<Payout['status'], string> = {
+  PENDING: 'border-yellow-500/40 bg-yellow-500/10 text-yellow-700 dark:text-yellow-400',
+  APPROVED: 'border-blue-500/40 bg-blue-500/10 text-blue-700 dark:text-blue-400',
+  PROCESSED: 'border-green-500/40 bg-green-500/10 text-green-700 dark:text-green-400',
+  HOLD: 'border-red-500/40 bg-red-500/10 text-red-700 dark:text-red-400',
+}
+
+const transactionStatusStyles: Record<Transaction['status'], string> = {
+  PENDING: 'border-yellow-500/40 bg-yellow-500/10 text-yellow-700 dark:text-yellow-400',
+  COMPLETED: 'border-green-500/40 bg-green-500/10 text-green-700 dark:text-green-400',
+  FAILED: 'border-red-500/40 bg-red-500/10 text-red-700 dark:text-red-400',
+  CANCELLED: 'border-gray-500/40 bg-gray-500/10 text-gray-700 dark:text-gray-400',
+}
+
+function StatusBadge({ status, className }: { status: string; className: string }) {
+  return (
+    <Badge variant="outline" className={cn('capitalize', className)}>
+      {status.toLowerCase()}
+    </Badge>
+  )
+}
+
+export function PortalEarnings() {
+  const { user } = useAuth()
+  const { formatAmount } = useDataMasking()
+  const promoterId = user?.promoterId
+  const { data: payouts, isLoading: payoutsLoading, isError: payoutsError } = useGetPayoutsQuery({
+    promoterId,
+    limit: MAX_RECORDS,
+  })
+  const { data: transactions, isLoading: transactionsLoading, isError: transactionsError } = useGetTransactionsQuery({
+    promoterId,
+    limit: MAX_RECORDS,
+  })
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">My Earnings</h1>
+        <p className="text-muted-foreground">
+          Commission from your bookings and where each payout stands.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Payouts</CardTitle>
+          <CardDescription>Payouts are approved by the venue before they&apos;re processed.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {payoutsLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : payoutsError || !payouts ? (
+            <p className="text-sm text-destructive">Failed to load your payouts.</p>
+          ) : payouts.data.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">No payouts yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scheduled</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Processed</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payouts.data.map(payout => (
+                  <TableRow key={payout.id}>
+                    <TableCell>{format(parseISO(payout.scheduledDate), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      <StatusBadge status={payout.status} className={payoutStatusStyles[payout.status]} />
+                      {payout.holdReason && (
+                        <p className="mt-1 text-xs text-muted-foreground">{payout.holdReason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {payout.processedDate ? format(parseISO(payout.processedDate), 'MMM d, yyyy') : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(payout.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Commission</CardTitle>
+          <CardDescription>One entry per booking you&apos;ve been paid commission on.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {transactionsLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : transactionsError || !transactions ? (
+            <p className="text-sm text-destructive">Failed to load your commission.</p>
+          ) : transactions.data.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">No commission yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.data.map(transaction => (
+                  <TableRow key={transaction.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(parseISO(transaction.processedDate ?? transaction.createdAt), 'MMM d, yyyy')}
+                    </TableCell>
+                    <TableCell>{transaction.description}</TableCell>
+                    <TableCell>
+                      <StatusBadge
+                        status={transaction.status}
+                        className={transactionStatusStyles[transaction.status]}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(transaction.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
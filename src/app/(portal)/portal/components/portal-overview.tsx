@@ -0,0 +1,55 @@
+'use client'
+
+// Promoter Portal Overview for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { format, parseISO } from 'date-fns'
+import { AlertCircle } from 'lucide-react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { PROMOTER_TIER_LABELS } from '@/lib/promoters/tier-evaluation'
+import { useGetPromoterQuery } from '@/lib/store/api'
+import { Badge } from '@/components/ui/badge'
+import { PromoterSummaryCards, PromoterSummarySkeleton } from '@/components/prima/promoter-summary'
+import { PromoterTrendCharts } from '@/components/prima/promoter-trend-charts'
+import { IncentiveProgress } from './incentive-progress'
+
+export function PortalOverview() {
+  const { user } = useAuth()
+  const promoterId = user?.promoterId ?? ''
+  const { data: promoter, isLoading, isError } = useGetPromoterQuery(promoterId, { skip: !promoterId })
+
+  if (isLoading) {
+    return <PromoterSummarySkeleton />
+  }
+
+  if (isError || !promoter) {
+    return (
+      <p className="flex items-center gap-2 py-12 text-sm text-destructive">
+        <AlertCircle className="h-4 w-4" />
+        We couldn&apos;t load your promoter profile. Ask your venue contact to check your account.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-bold tracking-tight">Hi, {promoter.firstName}</h1>
+          <Badge variant="secondary">
+            {PROMOTER_TIER_LABELS[promoter.tier]}
+          </Badge>
+        </div>
+        <p className="text-muted-foreground">
+          Your bookings, earnings and payouts since you joined on {format(parseISO(promoter.joinedDate), 'MMM d, yyyy')}.
+        </p>
+      </div>
+
+      <PromoterSummaryCards promoter={promoter} />
+
+      <IncentiveProgress />
+
+      <PromoterTrendCharts promoterId={promoter.id} />
+    </div>
+  )
+}
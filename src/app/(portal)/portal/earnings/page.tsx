@@ -0,0 +1,8 @@
+// PRIMA Promoter Portal Earnings Page
+// Based on RFC-008: Financial Operations
+
+import { PortalEarnings } from '../components/portal-earnings'
+
+export default function PortalEarningsPage() {
+  return <PortalEarnings />
+}
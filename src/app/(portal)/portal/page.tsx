@@ -0,0 +1,8 @@
+// PRIMA Promoter Portal Page
+// Based on RFC-007: Promoter Management & Performance
+
+import { PortalOverview } from './components/portal-overview'
+
+export default function PortalPage() {
+  return <PortalOverview />
+}
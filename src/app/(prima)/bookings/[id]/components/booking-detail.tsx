@@ -0,0 +1,277 @@
+'use client'
+
+// Booking Detail Component for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Calendar,
+  Clock,
+  Mail,
+  MapPin,
+  Pencil,
+  Phone,
+  User,
+  Users,
+} from 'lucide-react'
+import { getBookingAmount } from '@/lib/bookings/booking-amounts'
+import { findCommissionRate } from '@/lib/bookings/booking-quote'
+import { isTerminalStatus } from '@/lib/bookings/status-transitions'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import {
+  useGetBookingQuery,
+  useGetCommissionRatesQuery,
+  useGetPricingConfigQuery,
+  useGetPromoterQuery,
+} from '@/lib/store/api'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  BookingStatusBadge,
+  BookingTypeBadge,
+} from '@/components/prima/booking-status-badge'
+import { NoShowRiskBadge } from '@/components/prima/no-show-risk-badge'
+import { BookingConflictList } from '../../components/booking-conflict-warning'
+import { BookingMutateDrawer } from '../../components/booking-mutate-drawer'
+import { BookingStatusActions } from '../../components/booking-status-actions'
+import { useBookingConflicts } from '../../hooks/use-booking-conflicts'
+import { BookingTimeline } from './booking-timeline'
+
+interface Props {
+  id: string
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-4 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium text-right">{children}</span>
+    </div>
+  )
+}
+
+export function BookingDetail({ id }: Props) {
+  const { availableVenues } = useVenueContext()
+  const { hasPermission } = useAuth()
+  const [editOpen, setEditOpen] = useState(false)
+  const { maskBooking, formatAmount } = useDataMasking()
+  const { data, isLoading, isError } = useGetBookingQuery(id)
+  const booking = data && maskBooking(data)
+  const { data: promoter } = useGetPromoterQuery(booking?.promoterId ?? '', {
+    skip: !booking,
+  })
+  // The pricing the booking was quoted under, not whatever is live today
+  const { data: pricing } = useGetPricingConfigQuery(
+    { venueId: booking?.venueId ?? '', date: booking?.bookingDate },
+    { skip: !booking }
+  )
+  const { data: commissionRates } = useGetCommissionRatesQuery()
+  const conflicts = useBookingConflicts(data)
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <div className="grid gap-4 md:grid-cols-2">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-48 w-full" />
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  if (isError || !booking) {
+    return (
+      <div className="space-y-4 text-center py-12">
+        <p className="text-muted-foreground">Booking not found.</p>
+        <Button variant="outline" asChild>
+          <Link href="/bookings">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to bookings
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const venue = availableVenues.find(v => v.id === booking.venueId)
+  const amount = getBookingAmount(booking)
+  const commissionRate = findCommissionRate(commissionRates, promoter?.tier)
+  const platformFee = pricing
+    ? amount * (pricing.platformFeePercentage / 100)
+    : undefined
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-2">
+          <Button variant="ghost" size="sm" className="-ml-3" asChild>
+            <Link href="/bookings">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Bookings
+            </Link>
+          </Button>
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-bold tracking-tight">{booking.guestName}</h1>
+            <BookingStatusBadge status={booking.status} />
+            <BookingTypeBadge type={booking.type} />
+            <NoShowRiskBadge risk={booking.noShowRisk} />
+          </div>
+          <p className="text-muted-foreground">
+            Booking {booking.id} • Last updated{' '}
+            {format(new Date(booking.updatedAt), 'MMM dd, yyyy HH:mm')}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {/* Closed bookings are part of the financial record */}
+          {hasPermission('WRITE_BOOKINGS') && !isTerminalStatus(booking.status) && (
+            <Button size="sm" variant="outline" onClick={() => setEditOpen(true)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+          <BookingStatusActions booking={booking} />
+        </div>
+      </div>
+
+      {/* Remount on every save so the form starts from the latest booking */}
+      <BookingMutateDrawer
+        key={booking.updatedAt}
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        currentRow={booking}
+      />
+
+      {conflicts.length > 0 && (
+        <Alert className="border-amber-500/50 [&>svg]:text-amber-600">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>This booking conflicts with others that night</AlertTitle>
+          <AlertDescription>
+            <BookingConflictList conflicts={conflicts} className="mt-2" />
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {/* Guest */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">Guest</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex items-center gap-2">
+              <User className="h-4 w-4 text-muted-foreground" />
+              {booking.guestName}
+            </div>
+            <div className="flex items-center gap-2">
+              <Mail className="h-4 w-4 text-muted-foreground" />
+              {booking.guestEmail}
+            </div>
+            <div className="flex items-center gap-2">
+              <Phone className="h-4 w-4 text-muted-foreground" />
+              {booking.guestPhone}
+            </div>
+            {booking.notes && (
+              <>
+                <Separator />
+                <p className="text-muted-foreground">{booking.notes}</p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Party */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">Party</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex items-center gap-2">
+              <Users className="h-4 w-4 text-muted-foreground" />
+              {booking.partySize} guests
+            </div>
+            <div className="flex items-center gap-2">
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+              {format(parseISO(booking.bookingDate), 'EEEE, MMM dd, yyyy')}
+            </div>
+            <div className="flex items-center gap-2">
+              <Clock className="h-4 w-4 text-muted-foreground" />
+              {booking.bookingTime}
+            </div>
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+              {venue?.name ?? booking.venueId}
+            </div>
+            <Separator />
+            <DetailRow label="Promoter">
+              {promoter ? `${promoter.firstName} ${promoter.lastName}` : booking.promoterId}
+            </DetailRow>
+          </CardContent>
+        </Card>
+
+        {/* Pricing */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">Pricing</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <DetailRow label="Prime total">{formatAmount(booking.primeTotal)}</DetailRow>
+            <DetailRow label="Non-Prime total">{formatAmount(booking.nonPrimeTotal)}</DetailRow>
+            <DetailRow label="Per guest">
+              {formatAmount(amount / Math.max(booking.partySize, 1))}
+            </DetailRow>
+            {platformFee !== undefined && (
+              <DetailRow label={`Platform fee (${pricing?.platformFeePercentage}%)`}>
+                {formatAmount(platformFee)}
+              </DetailRow>
+            )}
+            <Separator />
+            <DetailRow label={`Charged (${booking.type === 'PRIME' ? 'Prime' : 'Non-Prime'})`}>
+              {formatAmount(amount)}
+            </DetailRow>
+          </CardContent>
+        </Card>
+
+        {/* Commission */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">Commission</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <DetailRow label="Promoter tier">{promoter?.tier ?? '—'}</DetailRow>
+            <DetailRow label="Tier rate">
+              {commissionRate
+                ? commissionRate.type === 'PERCENTAGE'
+                  ? `${commissionRate.value}%`
+                  : formatAmount(commissionRate.value)
+                : '—'}
+            </DetailRow>
+            <DetailRow label="Effective rate">
+              {amount > 0
+                ? `${((booking.commissionAmount / amount) * 100).toFixed(1)}%`
+                : '—'}
+            </DetailRow>
+            <Separator />
+            <DetailRow label="Commission">{formatAmount(booking.commissionAmount)}</DetailRow>
+            <DetailRow label="Net to venue">
+              {formatAmount(amount - booking.commissionAmount - (platformFee ?? 0))}
+            </DetailRow>
+          </CardContent>
+        </Card>
+      </div>
+
+      <BookingTimeline bookingId={booking.id} />
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+'use client'
+
+// Booking activity timeline for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import {
+  AlertCircle,
+  ArrowRightLeft,
+  MessageSquare,
+  Pencil,
+  PlusCircle,
+  type LucideIcon,
+} from 'lucide-react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { getRoleById } from '@/lib/auth/demo-data'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useAddBookingNoteMutation, useGetBookingHistoryQuery } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Textarea } from '@/components/ui/textarea'
+import { BookingStatusBadge } from '@/components/prima/booking-status-badge'
+import type { BookingEvent, BookingEventType, BookingFieldChange } from '@/types/data'
+
+interface Props {
+  bookingId: string
+}
+
+const eventDisplay: Record<BookingEventType, { label: string; icon: LucideIcon }> = {
+  CREATED: { label: 'Booking created', icon: PlusCircle },
+  UPDATED: { label: 'Booking edited', icon: Pencil },
+  STATUS_CHANGED: { label: 'Status changed', icon: ArrowRightLeft },
+  NOTE_ADDED: { label: 'Note added', icon: MessageSquare },
+}
+
+const fieldLabels: Record<BookingFieldChange['field'], string> = {
+  venueId: 'Venue',
+  promoterId: 'Promoter',
+  guestName: 'Guest name',
+  guestEmail: 'Guest email',
+  guestPhone: 'Guest phone',
+  partySize: 'Party size',
+  bookingDate: 'Date',
+  bookingTime: 'Time',
+  type: 'Type',
+  notes: 'Notes',
+}
+
+function FieldChange({ change }: { change: BookingFieldChange }) {
+  const { availableVenues } = useVenueContext()
+
+  const formatValue = (value: BookingFieldChange['from']) => {
+    if (value === undefined || value === '') return '—'
+    if (change.field === 'venueId') {
+      return availableVenues.find(v => v.id === value)?.name ?? value
+    }
+    return value.toString()
+  }
+
+  return (
+    <li>
+      <span className="text-muted-foreground">{fieldLabels[change.field]}:</span>{' '}
+      <span className="line-through decoration-muted-foreground/60">{formatValue(change.from)}</span>
+      {' → '}
+      <span className="font-medium">{formatValue(change.to)}</span>
+    </li>
+  )
+}
+
+function TimelineEntry({ event }: { event: BookingEvent }) {
+  const { label, icon: Icon } = eventDisplay[event.type]
+  const roleName = event.actorRole && getRoleById(event.actorRole)?.name
+
+  return (
+    <li className="group relative flex gap-3 pb-6 last:pb-0">
+      {/* Connector to the next (older) entry */}
+      <span className="absolute bottom-0 left-4 top-8 w-px bg-border group-last:hidden" aria-hidden />
+      <div className="relative flex h-8 w-8 shrink-0 items-center justify-center rounded-full border bg-background">
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </div>
+      <div className="min-w-0 flex-1 space-y-1 text-sm">
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+          <span className="font-medium">{label}</span>
+          {event.type === 'STATUS_CHANGED' && event.fromStatus && event.toStatus && (
+            <span className="flex items-center gap-1">
+              <BookingStatusBadge status={event.fromStatus} />
+              →
+              <BookingStatusBadge status={event.toStatus} />
+            </span>
+          )}
+        </div>
+        <p className="text-muted-foreground">
+          {event.actorName}
+          {roleName && ` (${roleName})`} • {format(new Date(event.createdAt), 'MMM dd, yyyy HH:mm')}
+        </p>
+        {event.conflictsAcknowledged && (
+          <p className="flex items-center gap-1 text-amber-600">
+            <AlertCircle className="h-3.5 w-3.5" />
+            Confirmed with conflicts acknowledged
+          </p>
+        )}
+        {event.changes && event.changes.length > 0 && (
+          <ul className="space-y-0.5">
+            {event.changes.map(change => (
+              <FieldChange key={change.field} change={change} />
+            ))}
+          </ul>
+        )}
+        {event.note && (
+          <p className="whitespace-pre-wrap rounded-md bg-muted px-3 py-2">{event.note}</p>
+        )}
+      </div>
+    </li>
+  )
+}
+
+export function BookingTimeline({ bookingId }: Props) {
+  const { hasPermission } = useAuth()
+  const { data: history, isLoading, isError } = useGetBookingHistoryQuery(bookingId)
+  const [addNote, { isLoading: isAdding }] = useAddBookingNoteMutation()
+  const [note, setNote] = useState('')
+
+  const handleAddNote = async () => {
+    try {
+      await addNote({ id: bookingId, note }).unwrap()
+      setNote('')
+    } catch (error) {
+      toast({
+        title: 'Could not add note',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Activity</CardTitle>
+        <CardDescription>Every change to this booking, newest first.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {hasPermission('WRITE_BOOKINGS') && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Add a note for the team…"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              className="min-h-[72px]"
+            />
+            <div className="flex justify-end">
+              <Button size="sm" disabled={!note.trim() || isAdding} onClick={handleAddNote}>
+                {isAdding ? 'Adding…' : 'Add note'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : isError ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load booking history.
+          </p>
+        ) : history && history.length > 0 ? (
+          <ol>
+            {history.map(event => (
+              <TimelineEntry key={event.id} event={event} />
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-muted-foreground">No activity recorded yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
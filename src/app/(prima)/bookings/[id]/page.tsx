@@ -0,0 +1,14 @@
+// PRIMA Booking Detail Page
+// Based on RFC-005: Booking Management System
+
+import { BookingDetail } from './components/booking-detail'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+export default async function BookingDetailPage({ params }: Props) {
+  const id = (await params).id
+
+  return <BookingDetail id={id} />
+}
@@ -0,0 +1,274 @@
+'use client'
+
+// Booking calendar for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { useMemo, useState } from 'react'
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+import { AlertCircle, Building2, ChevronLeft, ChevronRight } from 'lucide-react'
+import { buildCapacityDays, type CapacitySlot } from '@/lib/bookings/booking-capacity'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { useGetBookingConflictsQuery, useGetBookingsQuery, useGetWaitlistQuery } from '@/lib/store/api'
+import CalendarDatePicker from '@/components/calendar-date-picker'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CalendarDayView } from './calendar-day-view'
+import { CalendarMonthView } from './calendar-month-view'
+import { CalendarWeekView } from './calendar-week-view'
+import { SlotBookingsSheet } from './slot-bookings-sheet'
+import { WaitlistEntrySheet } from './waitlist-entry-sheet'
+import { WaitlistPanel } from './waitlist-panel'
+
+type CalendarView = 'month' | 'week' | 'day'
+
+// One request covers the visible range; a month of slots at a single venue
+// stays well below this
+const CALENDAR_BOOKING_LIMIT = 500
+
+function getVisibleRange(view: CalendarView, anchor: Date) {
+  switch (view) {
+    case 'month':
+      return {
+        from: startOfWeek(startOfMonth(anchor)),
+        to: endOfWeek(endOfMonth(anchor)),
+      }
+    case 'week':
+      return { from: startOfWeek(anchor), to: endOfWeek(anchor) }
+    case 'day':
+      return { from: anchor, to: anchor }
+  }
+}
+
+function shiftAnchor(view: CalendarView, anchor: Date, step: 1 | -1) {
+  switch (view) {
+    case 'month':
+      return addMonths(anchor, step)
+    case 'week':
+      return addWeeks(anchor, step)
+    case 'day':
+      return addDays(anchor, step)
+  }
+}
+
+function getRangeLabel(view: CalendarView, anchor: Date, range: { from: Date; to: Date }) {
+  switch (view) {
+    case 'month':
+      return format(anchor, 'MMMM yyyy')
+    case 'week':
+      return `${format(range.from, 'MMM d')} – ${format(range.to, 'MMM d, yyyy')}`
+    case 'day':
+      return format(anchor, 'EEEE, MMMM d, yyyy')
+  }
+}
+
+export function BookingsCalendar() {
+  const { selectedVenue, isPortfolioView } = useVenueContext()
+  const [view, setView] = useState<CalendarView>('month')
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [selectedSlot, setSelectedSlot] = useState<CapacitySlot | null>(null)
+  // Null while closed; the slot is set when opened from a full slot
+  const [waitlistSheet, setWaitlistSheet] = useState<{ slot?: { date: string; time: string } } | null>(null)
+
+  const venue = isPortfolioView ? null : selectedVenue
+  const capacity = venue?.capacity ?? 0
+  const range = getVisibleRange(view, anchor)
+
+  const dateRange = {
+    from: format(range.from, 'yyyy-MM-dd'),
+    to: format(range.to, 'yyyy-MM-dd'),
+  }
+
+  const { data, isLoading, isFetching, isError } = useGetBookingsQuery(
+    { venueId: venue?.id, dateRange, limit: CALENDAR_BOOKING_LIMIT },
+    { skip: !venue }
+  )
+  const {
+    data: waitlist,
+    isLoading: isWaitlistLoading,
+    isError: isWaitlistError,
+  } = useGetWaitlistQuery(
+    { venueId: venue?.id, dateRange, status: ['WAITING'] },
+    { skip: !venue }
+  )
+
+  const days = useMemo(
+    () => buildCapacityDays(data?.data ?? [], capacity),
+    [data, capacity]
+  )
+
+  const { data: conflicts } = useGetBookingConflictsQuery(
+    { venueId: venue?.id, dateRange },
+    { skip: !venue }
+  )
+
+  // Capacity is already on screen; duplicates are marked in the drill-down.
+  // The API matches guests on unmasked contact details, which masked roles
+  // never receive, so the check can't run on the bookings loaded here.
+  const duplicateIds = useMemo(() => new Set(
+    (conflicts ?? [])
+      .filter(conflict => conflict.type === 'DUPLICATE_GUEST')
+      .flatMap(conflict => conflict.bookingIds)
+  ), [conflicts])
+
+  // Capacity only makes sense against a single venue's floor
+  if (!venue) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+          <Building2 className="h-8 w-8 text-muted-foreground" />
+          <p className="font-medium">Select a venue to see its calendar</p>
+          <p className="text-sm text-muted-foreground">
+            Capacity is tracked per venue, so the calendar isn&apos;t available in portfolio view.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const isTruncated = data && data.pagination.total > data.data.length
+
+  return (
+    <div className="grid gap-4 xl:grid-cols-[minmax(0,1fr)_20rem]">
+      <Card>
+        <CardHeader className="space-y-4">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>{getRangeLabel(view, anchor, range)}</CardTitle>
+              <CardDescription>
+                {venue.name} • capacity {capacity} guests per slot
+              </CardDescription>
+            </div>
+            <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+              <TabsList>
+                <TabsTrigger value="month">Month</TabsTrigger>
+                <TabsTrigger value="week">Week</TabsTrigger>
+                <TabsTrigger value="day">Day</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              <span className="sr-only">Previous</span>
+            </Button>
+            <Button variant="outline" size="sm" className="h-8" onClick={() => setAnchor(new Date())}>
+              Today
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}
+            >
+              <ChevronRight className="h-4 w-4" />
+              <span className="sr-only">Next</span>
+            </Button>
+            <CalendarDatePicker
+              date={{ from: anchor, to: anchor }}
+              numberOfMonths={1}
+              closeOnSelect
+              variant="outline"
+              className="h-8"
+              onDateSelect={({ from }) => setAnchor(from)}
+            />
+            {isFetching && !isLoading && (
+              <span className="text-sm text-muted-foreground">Updating…</span>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isTruncated && (
+            <p className="flex items-center gap-2 text-sm text-amber-600">
+              <AlertCircle className="h-4 w-4" />
+              Showing the first {data.data.length} of {data.pagination.total} bookings; narrow the view to see them all.
+            </p>
+          )}
+          {isError ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              Failed to load bookings
+            </div>
+          ) : isLoading ? (
+            <Skeleton className="h-96 w-full" />
+          ) : (
+            <>
+              {view === 'month' && (
+                <CalendarMonthView
+                  month={anchor}
+                  range={range}
+                  days={days}
+                  capacity={capacity}
+                  onSelectDay={(date) => {
+                    setAnchor(date)
+                    setView('day')
+                  }}
+                />
+              )}
+              {view === 'week' && (
+                <CalendarWeekView
+                  range={range}
+                  days={days}
+                  capacity={capacity}
+                  onSelectSlot={setSelectedSlot}
+                />
+              )}
+              {view === 'day' && (
+                <CalendarDayView
+                  day={days.get(format(anchor, 'yyyy-MM-dd'))}
+                  capacity={capacity}
+                  onSelectSlot={setSelectedSlot}
+                />
+              )}
+            </>
+          )}
+        </CardContent>
+
+        <SlotBookingsSheet
+          slot={selectedSlot}
+          capacity={capacity}
+          duplicateIds={duplicateIds}
+          waitlist={waitlist ?? []}
+          onOpenChange={(open) => !open && setSelectedSlot(null)}
+          onAddToWaitlist={(slot) => {
+            setSelectedSlot(null)
+            setWaitlistSheet({ slot: { date: slot.date, time: slot.time } })
+          }}
+        />
+      </Card>
+
+      <WaitlistPanel
+        entries={waitlist ?? []}
+        bookings={data?.data ?? []}
+        capacity={capacity}
+        isLoading={isWaitlistLoading}
+        isError={isWaitlistError}
+        onAddEntry={() => setWaitlistSheet({})}
+      />
+
+      {/* Remount per slot so the form picks up the prefilled date and time */}
+      <WaitlistEntrySheet
+        key={waitlistSheet?.slot ? `${waitlistSheet.slot.date}-${waitlistSheet.slot.time}` : 'new'}
+        open={waitlistSheet !== null}
+        onOpenChange={(open) => !open && setWaitlistSheet(null)}
+        venue={venue}
+        slot={waitlistSheet?.slot}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+'use client'
+
+// Day view for the PRIMA booking calendar
+// Based on RFC-005: Booking Management System
+
+import { AlertTriangle } from 'lucide-react'
+import type { CapacityDay, CapacitySlot } from '@/lib/bookings/booking-capacity'
+import { cn } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { CapacityMeter, getUtilizationClassName, PrimeMixBar } from './capacity-indicators'
+
+interface Props {
+  day: CapacityDay | undefined
+  capacity: number
+  onSelectSlot: (slot: CapacitySlot) => void
+}
+
+export function CalendarDayView({ day, capacity, onSelectSlot }: Props) {
+  if (!day || day.slots.length === 0) {
+    return (
+      <div className="rounded-md border py-12 text-center text-muted-foreground">
+        No bookings on this day.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {day.slots.map((slot) => (
+        <button
+          key={slot.time}
+          type="button"
+          onClick={() => onSelectSlot(slot)}
+          className={cn(
+            'grid w-full gap-3 rounded-md border p-3 text-left transition-colors hover:bg-accent sm:grid-cols-[80px_1fr_1fr_auto] sm:items-center',
+            getUtilizationClassName(slot.utilization, slot.isOverCapacity)
+          )}
+        >
+          <span className="text-lg font-semibold">{slot.time}</span>
+          <CapacityMeter guests={slot.guests} capacity={capacity} />
+          <PrimeMixBar primeGuests={slot.primeGuests} nonPrimeGuests={slot.nonPrimeGuests} showLabels />
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">{slot.bookings.length} booking(s)</span>
+            {slot.isOverCapacity && (
+              <Badge variant="outline" className="border-red-500/40 bg-red-500/10 text-red-700 dark:text-red-400">
+                <AlertTriangle className="mr-1 h-3 w-3" />
+                Over capacity
+              </Badge>
+            )}
+          </div>
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+// Month view for the PRIMA booking calendar
+// Based on RFC-005: Booking Management System
+
+import { eachDayOfInterval, format, isSameMonth, isToday } from 'date-fns'
+import type { CapacityDay } from '@/lib/bookings/booking-capacity'
+import { cn } from '@/lib/utils'
+import { getUtilizationClassName, PrimeMixBar } from './capacity-indicators'
+
+interface Props {
+  month: Date
+  range: { from: Date; to: Date }
+  days: Map<string, CapacityDay>
+  capacity: number
+  onSelectDay: (date: Date) => void
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export function CalendarMonthView({ month, range, days, capacity, onSelectDay }: Props) {
+  return (
+    <div className="overflow-hidden rounded-md border">
+      <div className="grid grid-cols-7 border-b bg-muted/50">
+        {WEEKDAYS.map((day) => (
+          <div key={day} className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
+            {day}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {eachDayOfInterval({ start: range.from, end: range.to }).map((date) => {
+          const summary = days.get(format(date, 'yyyy-MM-dd'))
+          const bookingCount = summary?.slots.reduce((sum, s) => sum + s.bookings.length, 0) ?? 0
+
+          return (
+            <button
+              key={date.toISOString()}
+              type="button"
+              onClick={() => onSelectDay(date)}
+              className={cn(
+                'flex min-h-24 flex-col gap-1 border-b border-r p-2 text-left transition-colors hover:bg-accent',
+                !isSameMonth(date, month) && 'text-muted-foreground opacity-60',
+                summary && getUtilizationClassName(summary.peakUtilization, summary.isOverCapacity)
+              )}
+            >
+              <span
+                className={cn(
+                  'text-sm',
+                  isToday(date) && 'flex h-6 w-6 items-center justify-center rounded-full bg-primary text-primary-foreground'
+                )}
+              >
+                {format(date, 'd')}
+              </span>
+              {summary && (
+                <>
+                  <span className="text-xs font-medium">
+                    {summary.guests} guests • {bookingCount} booking(s)
+                  </span>
+                  <span
+                    className={cn(
+                      'text-xs',
+                      summary.isOverCapacity ? 'font-semibold text-red-600' : 'text-muted-foreground'
+                    )}
+                  >
+                    Peak {Math.round(summary.peakUtilization * 100)}% of {capacity}
+                  </span>
+                  <PrimeMixBar
+                    primeGuests={summary.primeGuests}
+                    nonPrimeGuests={summary.nonPrimeGuests}
+                    className="mt-auto"
+                  />
+                </>
+              )}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
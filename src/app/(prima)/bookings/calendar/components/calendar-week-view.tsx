@@ -0,0 +1,86 @@
+'use client'
+
+// Week view for the PRIMA booking calendar
+// Based on RFC-005: Booking Management System
+
+import { eachDayOfInterval, format, isToday } from 'date-fns'
+import type { CapacityDay, CapacitySlot } from '@/lib/bookings/booking-capacity'
+import { cn } from '@/lib/utils'
+import { getUtilizationClassName, PrimeMixBar } from './capacity-indicators'
+
+interface Props {
+  range: { from: Date; to: Date }
+  days: Map<string, CapacityDay>
+  capacity: number
+  onSelectSlot: (slot: CapacitySlot) => void
+}
+
+export function CalendarWeekView({ range, days, capacity, onSelectSlot }: Props) {
+  const dates = eachDayOfInterval({ start: range.from, end: range.to })
+  const dayKeys = dates.map(date => format(date, 'yyyy-MM-dd'))
+
+  // Only times that have at least one booking this week get a row
+  const times = Array.from(
+    new Set(dayKeys.flatMap(key => days.get(key)?.slots.map(slot => slot.time) ?? []))
+  ).sort()
+
+  return (
+    <div className="overflow-x-auto rounded-md border">
+      <table className="w-full min-w-[720px] table-fixed text-sm">
+        <thead>
+          <tr className="border-b bg-muted/50">
+            <th className="w-16 px-2 py-1.5 text-left text-xs font-medium text-muted-foreground">Time</th>
+            {dates.map((date, i) => (
+              <th key={dayKeys[i]} className="px-2 py-1.5 text-left text-xs font-medium">
+                <span className={cn(isToday(date) && 'text-primary')}>
+                  {format(date, 'EEE d')}
+                </span>
+                <div className="font-normal text-muted-foreground">
+                  {days.get(dayKeys[i])?.guests ?? 0} guests
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {times.length === 0 ? (
+            <tr>
+              <td colSpan={dates.length + 1} className="h-24 text-center text-muted-foreground">
+                No bookings this week.
+              </td>
+            </tr>
+          ) : (
+            times.map((time) => (
+              <tr key={time} className="border-b last:border-b-0">
+                <td className="px-2 py-2 align-top text-xs text-muted-foreground">{time}</td>
+                {dayKeys.map((key) => {
+                  const slot = days.get(key)?.slots.find(s => s.time === time)
+                  return (
+                    <td key={key} className="p-1 align-top">
+                      {slot && (
+                        <button
+                          type="button"
+                          onClick={() => onSelectSlot(slot)}
+                          className={cn(
+                            'w-full space-y-1 rounded-md border p-1.5 text-left text-xs transition-colors hover:bg-accent',
+                            getUtilizationClassName(slot.utilization, slot.isOverCapacity)
+                          )}
+                        >
+                          <div className={cn('font-medium', slot.isOverCapacity && 'text-red-600')}>
+                            {slot.guests}/{capacity}
+                          </div>
+                          <div className="text-muted-foreground">{slot.bookings.length} booking(s)</div>
+                          <PrimeMixBar primeGuests={slot.primeGuests} nonPrimeGuests={slot.nonPrimeGuests} />
+                        </button>
+                      )}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+'use client'
+
+// Capacity indicators for the PRIMA booking calendar
+// Based on RFC-005: Booking Management System
+
+import { NEAR_CAPACITY_THRESHOLD } from '@/lib/bookings/booking-capacity'
+import { cn } from '@/lib/utils'
+
+// Background tint for a slot or day, by how full it is
+export function getUtilizationClassName(utilization: number, isOverCapacity: boolean) {
+  if (isOverCapacity) return 'border-red-500/50 bg-red-500/10'
+  if (utilization >= NEAR_CAPACITY_THRESHOLD) return 'border-amber-500/50 bg-amber-500/10'
+  if (utilization > 0) return 'border-green-500/40 bg-green-500/5'
+  return ''
+}
+
+interface CapacityMeterProps {
+  guests: number
+  capacity: number
+  className?: string
+}
+
+export function CapacityMeter({ guests, capacity, className }: CapacityMeterProps) {
+  const utilization = capacity > 0 ? guests / capacity : 0
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium">
+          {guests} / {capacity} guests
+        </span>
+        <span className={cn(guests > capacity ? 'text-red-600 font-semibold' : 'text-muted-foreground')}>
+          {Math.round(utilization * 100)}%
+        </span>
+      </div>
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className={cn(
+            'h-full rounded-full',
+            guests > capacity
+              ? 'bg-red-500'
+              : utilization >= NEAR_CAPACITY_THRESHOLD
+                ? 'bg-amber-500'
+                : 'bg-green-500'
+          )}
+          style={{ width: `${Math.min(utilization, 1) * 100}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+interface PrimeMixBarProps {
+  primeGuests: number
+  nonPrimeGuests: number
+  showLabels?: boolean
+  className?: string
+}
+
+// Share of seated guests on Prime vs Non-Prime bookings
+export function PrimeMixBar({ primeGuests, nonPrimeGuests, showLabels, className }: PrimeMixBarProps) {
+  const total = primeGuests + nonPrimeGuests
+  if (total === 0) return null
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <div className="h-full bg-primary" style={{ width: `${(primeGuests / total) * 100}%` }} />
+        <div className="h-full bg-secondary-foreground/30" style={{ width: `${(nonPrimeGuests / total) * 100}%` }} />
+      </div>
+      {showLabels && (
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Prime {primeGuests}</span>
+          <span>Non-Prime {nonPrimeGuests}</span>
+        </div>
+      )}
+    </div>
+  )
+}
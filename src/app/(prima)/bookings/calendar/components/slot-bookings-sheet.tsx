@@ -0,0 +1,128 @@
+'use client'
+
+// Slot drill-down for the PRIMA booking calendar
+// Based on RFC-005: Booking Management System
+
+import Link from 'next/link'
+import { AlertTriangle, ListPlus } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { getBookingAmount } from '@/lib/bookings/booking-amounts'
+import { occupiesCapacity, type CapacitySlot } from '@/lib/bookings/booking-capacity'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { cn } from '@/lib/utils'
+import { BookingStatusBadge, BookingTypeBadge } from '@/components/prima/booking-status-badge'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import type { WaitlistEntry } from '@/types/data'
+import { CapacityMeter, PrimeMixBar } from './capacity-indicators'
+
+interface Props {
+  slot: CapacitySlot | null
+  capacity: number
+  // Bookings that look like the same guest booked twice that night
+  duplicateIds: Set<string>
+  // Waiting entries in the visible range
+  waitlist: WaitlistEntry[]
+  onOpenChange: (open: boolean) => void
+  onAddToWaitlist: (slot: CapacitySlot) => void
+}
+
+export function SlotBookingsSheet({
+  slot,
+  capacity,
+  duplicateIds,
+  waitlist,
+  onOpenChange,
+  onAddToWaitlist,
+}: Props) {
+  const { hasPermission } = useAuth()
+  const { maskBooking, formatAmount } = useDataMasking()
+  const waiting = slot
+    ? waitlist.filter(entry =>
+        entry.bookingDate === slot.date && entry.bookingTime === slot.time
+      )
+    : []
+  const isFull = capacity > 0 && slot !== null && slot.guests >= capacity
+
+  return (
+    <Sheet open={slot !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col sm:max-w-md">
+        {slot && (
+          <>
+            <SheetHeader className="text-left">
+              <SheetTitle>
+                {format(parseISO(slot.date), 'EEEE, MMM d')} at {slot.time}
+              </SheetTitle>
+              <SheetDescription>
+                {slot.bookings.length} booking(s) in this slot. Cancelled and no-show bookings
+                don&apos;t count towards capacity.
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-3 rounded-md border p-3">
+              <CapacityMeter guests={slot.guests} capacity={capacity} />
+              <PrimeMixBar primeGuests={slot.primeGuests} nonPrimeGuests={slot.nonPrimeGuests} showLabels />
+            </div>
+
+            {(isFull || waiting.length > 0) && (
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  {waiting.length} {waiting.length === 1 ? 'party' : 'parties'} on the waitlist
+                </span>
+                {isFull && hasPermission('WRITE_BOOKINGS') && (
+                  <Button size="sm" variant="outline" className="h-8" onClick={() => onAddToWaitlist(slot)}>
+                    <ListPlus className="h-4 w-4 mr-2" />
+                    Add to waitlist
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <ScrollArea className="-mx-4 flex-1 px-4">
+              <ul className="space-y-2">
+                {slot.bookings.map((raw) => {
+                  const booking = maskBooking(raw)
+                  return (
+                    <li key={booking.id}>
+                      <Link
+                        href={`/bookings/${booking.id}`}
+                        className={cn(
+                          'block space-y-1 rounded-md border p-3 transition-colors hover:bg-accent',
+                          !occupiesCapacity(booking) && 'opacity-60'
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">{booking.guestName}</span>
+                          <span className="text-sm">{formatAmount(getBookingAmount(booking))}</span>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                          <span>Party of {booking.partySize}</span>
+                          <BookingTypeBadge type={booking.type} />
+                          <BookingStatusBadge status={booking.status} />
+                        </div>
+                        {duplicateIds.has(booking.id) && (
+                          <div className="flex items-center gap-1 text-xs font-medium text-amber-600">
+                            <AlertTriangle className="h-3.5 w-3.5" />
+                            Possible duplicate guest
+                          </div>
+                        )}
+                      </Link>
+                    </li>
+                  )
+                })}
+              </ul>
+            </ScrollArea>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,320 @@
+'use client'
+
+// Waitlist entry drawer for the PRIMA booking calendar
+// Based on RFC-005: Booking Management System
+
+import { useRef } from 'react'
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { format } from 'date-fns'
+import { getApiError } from '@/lib/store/api-error'
+import {
+  useAddWaitlistEntryMutation,
+  useGetAllPromotersQuery,
+  useGetPricingConfigQuery,
+} from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import {
+  Sheet,
+  SheetClose,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Textarea } from '@/components/ui/textarea'
+import SelectDropdown from '@/components/select-dropdown'
+import type { Venue } from '@/types/data'
+import { createWaitlistFormSchema, type WaitlistFormValues } from '../../data/schema'
+
+interface Props {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  venue: Venue
+  // Prefilled when the sheet is opened from a full slot
+  slot?: { date: string; time: string }
+}
+
+const priorityItems = [
+  { label: 'High', value: 'HIGH' },
+  { label: 'Normal', value: 'NORMAL' },
+  { label: 'Low', value: 'LOW' },
+]
+
+function toFormValues(venueId: string, slot: Props['slot']): WaitlistFormValues {
+  return {
+    venueId,
+    promoterId: '',
+    guestName: '',
+    guestEmail: '',
+    guestPhone: '',
+    partySize: 2,
+    bookingDate: slot?.date ?? format(new Date(), 'yyyy-MM-dd'),
+    bookingTime: slot?.time ?? '19:00',
+    type: 'PRIME',
+    priority: 'NORMAL',
+    notes: '',
+  }
+}
+
+export function WaitlistEntrySheet({ open, onOpenChange, venue, slot }: Props) {
+  const [addEntry, { isLoading }] = useAddWaitlistEntryMutation()
+  const { data: promoters, isFetching: isPromotersFetching } = useGetAllPromotersQuery({
+    venueId: venue.id,
+    status: ['ACTIVE'],
+  })
+
+  // Party size rules come from the pricing in force on the date picked below
+  const schemaRef = useRef(createWaitlistFormSchema(undefined))
+  const form = useForm<WaitlistFormValues>({
+    resolver: (values, context, options) =>
+      zodResolver(schemaRef.current)(values, context, options),
+    defaultValues: toFormValues(venue.id, slot),
+  })
+  const [partySize, bookingDate] = useWatch({ control: form.control, name: ['partySize', 'bookingDate'] })
+  const { data: pricing, isFetching: isPricingFetching } = useGetPricingConfigQuery(
+    { venueId: venue.id, date: bookingDate || undefined }
+  )
+  schemaRef.current = createWaitlistFormSchema(pricing)
+
+  const closeSheet = (value: boolean) => {
+    onOpenChange(value)
+    form.reset(toFormValues(venue.id, slot))
+  }
+
+  const onSubmit = async (values: WaitlistFormValues) => {
+    try {
+      const entry = await addEntry({
+        ...values,
+        notes: values.notes?.trim() || undefined,
+      }).unwrap()
+
+      toast({
+        title: 'Added to waitlist',
+        description: `${entry.guestName} • party of ${entry.partySize} at ${entry.bookingTime}`,
+      })
+      closeSheet(false)
+    } catch (error) {
+      toast({
+        title: 'Could not add to waitlist',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={closeSheet}>
+      <SheetContent className="flex flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Add to Waitlist</SheetTitle>
+          <SheetDescription>
+            {venue.name} • The party becomes a pending booking as soon as a cancellation frees
+            enough seats, highest priority first.
+          </SheetDescription>
+        </SheetHeader>
+        <Form {...form}>
+          <form
+            id="waitlist-form"
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="flex-1 space-y-5 overflow-y-auto px-1"
+          >
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="promoterId"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Promoter</FormLabel>
+                    <SelectDropdown
+                      isControlled
+                      defaultValue={field.value}
+                      onValueChange={field.onChange}
+                      placeholder="Select a promoter"
+                      isPending={isPromotersFetching}
+                      items={promoters?.map(p => ({
+                        label: `${p.firstName} ${p.lastName} (${p.tier})`,
+                        value: p.id,
+                      }))}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Priority</FormLabel>
+                    <SelectDropdown
+                      isControlled
+                      defaultValue={field.value}
+                      onValueChange={field.onChange}
+                      items={priorityItems}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="guestName"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Guest name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Jane Doe" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="guestEmail"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="email" placeholder="jane@example.com" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="guestPhone"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="tel" placeholder="+1 (555) 000-0000" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="bookingDate"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bookingTime"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Time</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="time" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="partySize"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Party size</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min={pricing?.minimumPartySize ?? 1}
+                        max={pricing?.maximumPartySize}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel>Booking type</FormLabel>
+                  <FormControl>
+                    <RadioGroup
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      className="flex gap-6"
+                    >
+                      <FormItem className="flex items-center space-y-0 space-x-2">
+                        <FormControl>
+                          <RadioGroupItem value="PRIME" />
+                        </FormControl>
+                        <FormLabel className="font-normal">Prime</FormLabel>
+                      </FormItem>
+                      <FormItem className="flex items-center space-y-0 space-x-2">
+                        <FormControl>
+                          <RadioGroupItem value="NON_PRIME" />
+                        </FormControl>
+                        <FormLabel className="font-normal">Non-Prime</FormLabel>
+                      </FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={3} placeholder="Flexible on time, occasion…" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <p className="text-sm text-muted-foreground">
+              A party of {Number(partySize) || 0} can only be added when the slot doesn&apos;t
+              have that many seats free; otherwise create a booking instead.
+            </p>
+          </form>
+        </Form>
+        <SheetFooter className="gap-2">
+          <SheetClose asChild>
+            <Button variant="outline">Close</Button>
+          </SheetClose>
+          <Button form="waitlist-form" type="submit" disabled={isLoading || isPricingFetching}>
+            Add to waitlist
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  )
+}
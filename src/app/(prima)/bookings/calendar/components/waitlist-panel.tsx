@@ -0,0 +1,227 @@
+'use client'
+
+// Waitlist panel for the PRIMA booking calendar
+// Based on RFC-005: Booking Management System
+
+import { useMemo, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { AlertCircle, ArrowUpCircle, ListPlus, X } from 'lucide-react'
+import {
+  getFreeSeats,
+  getPromotableEntries,
+  getSlotKey,
+  isOpenWaitlistEntry,
+} from '@/lib/bookings/waitlist'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { getApiError } from '@/lib/store/api-error'
+import {
+  usePromoteWaitlistEntryMutation,
+  useRemoveWaitlistEntryMutation,
+} from '@/lib/store/api'
+import { cn } from '@/lib/utils'
+import { toast } from '@/hooks/use-toast'
+import { ConfirmDialog } from '@/components/confirm-dialog'
+import { BookingTypeBadge } from '@/components/prima/booking-status-badge'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import type { Booking, WaitlistEntry, WaitlistPriority } from '@/types/data'
+
+interface Props {
+  // Waiting entries in the visible range, in the order they'll be offered a table
+  entries: WaitlistEntry[]
+  bookings: Booking[]
+  capacity: number
+  isLoading: boolean
+  isError: boolean
+  onAddEntry: () => void
+}
+
+const priorityStyles: Record<WaitlistPriority, string> = {
+  HIGH: 'border-orange-500/40 bg-orange-500/10 text-orange-700 dark:text-orange-400',
+  NORMAL: 'border-blue-500/40 bg-blue-500/10 text-blue-700 dark:text-blue-400',
+  LOW: 'border-gray-500/40 bg-gray-500/10 text-gray-700 dark:text-gray-400',
+}
+
+export function WaitlistPanel({ entries, bookings, capacity, isLoading, isError, onAddEntry }: Props) {
+  const { hasPermission } = useAuth()
+  const { maskWaitlistEntry } = useDataMasking()
+  const [promoteEntry, { isLoading: isPromoting }] = usePromoteWaitlistEntryMutation()
+  const [removeEntry, { isLoading: isRemoving }] = useRemoveWaitlistEntryMutation()
+  const [entryToRemove, setEntryToRemove] = useState<WaitlistEntry | null>(null)
+  const canManage = hasPermission('WRITE_BOOKINGS')
+
+  // Normally promoted automatically on a cancellation; anything still fitting
+  // here was freed some other way (e.g. capacity raised) and can be seated by hand
+  const promotableIds = useMemo(
+    () => new Set(getPromotableEntries(entries, bookings, capacity).map(entry => entry.id)),
+    [entries, bookings, capacity]
+  )
+
+  const slots = useMemo(() => {
+    const groups = new Map<string, WaitlistEntry[]>()
+    entries.forEach(entry => {
+      const key = getSlotKey(entry)
+      groups.set(key, [...(groups.get(key) ?? []), entry])
+    })
+    return Array.from(groups.values())
+  }, [entries])
+
+  const handlePromote = async (entry: WaitlistEntry) => {
+    try {
+      const booking = await promoteEntry(entry.id).unwrap()
+      toast({
+        title: 'Promoted to booking',
+        description: `${booking.guestName} is now a pending booking at ${booking.bookingTime}.`,
+      })
+    } catch (error) {
+      toast({
+        title: 'Could not promote party',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!entryToRemove) return
+
+    try {
+      await removeEntry(entryToRemove.id).unwrap()
+      setEntryToRemove(null)
+    } catch (error) {
+      toast({
+        title: 'Could not remove party',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg font-semibold">Waitlist</CardTitle>
+          {canManage && (
+            <Button size="sm" variant="outline" className="h-8" onClick={onAddEntry}>
+              <ListPlus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          {entries.length} {entries.length === 1 ? 'party' : 'parties'} waiting in this view.
+          Cancellations promote them automatically, highest priority first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : isError ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load the waitlist.
+          </p>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nobody is waiting for a table.</p>
+        ) : (
+          <div className="space-y-4">
+            {slots.map(slotEntries => {
+              const [first] = slotEntries
+              const freeSeats = getFreeSeats(first, bookings, capacity)
+              return (
+                <section key={getSlotKey(first)} className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">
+                      {format(parseISO(first.bookingDate), 'EEE, MMM d')} at {first.bookingTime}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {freeSeats > 0 ? `${freeSeats} seat(s) free` : 'Full'}
+                    </span>
+                  </div>
+                  <ul className="space-y-2">
+                    {slotEntries.map((raw, index) => {
+                      const entry = maskWaitlistEntry(raw)
+                      const isOpen = isOpenWaitlistEntry(entry)
+                      const canPromote = promotableIds.has(entry.id)
+                      return (
+                        <li
+                          key={entry.id}
+                          className={cn('space-y-2 rounded-md border p-3', !isOpen && 'opacity-60')}
+                        >
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="min-w-0">
+                              <div className="truncate font-medium">
+                                <span className="text-muted-foreground">{index + 1}.</span>{' '}
+                                {entry.guestName}
+                              </div>
+                              <div className="text-sm text-muted-foreground">
+                                Party of {entry.partySize}
+                                {!isOpen && ' • night has passed'}
+                              </div>
+                            </div>
+                            {canManage && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7 shrink-0"
+                                onClick={() => setEntryToRemove(entry)}
+                              >
+                                <X className="h-4 w-4" />
+                                <span className="sr-only">Remove from waitlist</span>
+                              </Button>
+                            )}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant="outline" className={priorityStyles[entry.priority]}>
+                              {entry.priority}
+                            </Badge>
+                            <BookingTypeBadge type={entry.type} />
+                            {canManage && canPromote && (
+                              <Button
+                                size="sm"
+                                className="ml-auto h-7"
+                                disabled={isPromoting}
+                                onClick={() => handlePromote(entry)}
+                              >
+                                <ArrowUpCircle className="h-4 w-4 mr-1" />
+                                Promote
+                              </Button>
+                            )}
+                          </div>
+                          {entry.notes && (
+                            <p className="text-sm text-muted-foreground">{entry.notes}</p>
+                          )}
+                        </li>
+                      )
+                    })}
+                  </ul>
+                </section>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={entryToRemove !== null}
+        onOpenChange={(open) => !open && setEntryToRemove(null)}
+        title="Remove from waitlist?"
+        desc={entryToRemove
+          ? `${entryToRemove.guestName} will no longer be offered a table at ${entryToRemove.bookingTime}.`
+          : ''}
+        confirmText="Remove"
+        destructive
+        isLoading={isRemoving}
+        handleConfirm={handleRemove}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,19 @@
+// PRIMA Booking Calendar Page
+// Based on RFC-005: Booking Management System
+
+import { BookingsCalendar } from './components/bookings-calendar'
+
+export default function BookingsCalendarPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Booking Calendar</h1>
+        <p className="text-muted-foreground">
+          See how each night fills up against venue capacity and who is waiting for a table.
+        </p>
+      </div>
+
+      <BookingsCalendar />
+    </div>
+  )
+}
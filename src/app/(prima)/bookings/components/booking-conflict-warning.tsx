@@ -0,0 +1,73 @@
+'use client'
+
+// Booking conflict warnings for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { AlertTriangle, Copy, Users } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import type { Booking, BookingConflict } from '@/types/data'
+import { useBookingConflicts } from '../hooks/use-booking-conflicts'
+
+const conflictLabels: Record<BookingConflict['type'], string> = {
+  DUPLICATE_GUEST: 'Possible duplicate',
+  OVER_CAPACITY: 'Over capacity',
+}
+
+export function BookingConflictList({
+  conflicts,
+  className,
+}: {
+  conflicts: BookingConflict[]
+  className?: string
+}) {
+  return (
+    <ul className={cn('space-y-2 text-sm', className)}>
+      {conflicts.map((conflict) => {
+        const Icon = conflict.type === 'DUPLICATE_GUEST' ? Copy : Users
+        return (
+          <li key={conflict.id} className="flex items-start gap-2">
+            <Icon className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+            <div>
+              <div className="font-medium">{conflictLabels[conflict.type]}</div>
+              <div className="text-muted-foreground">{conflict.message}</div>
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+// Compact marker for table rows; renders nothing when there is no conflict
+export function BookingConflictIndicator({ booking }: { booking: Booking }) {
+  const conflicts = useBookingConflicts(booking)
+
+  if (conflicts.length === 0) return null
+
+  return (
+    <TooltipProvider>
+      <Tooltip delayDuration={0}>
+        <TooltipTrigger asChild>
+          <span
+            className="inline-flex items-center gap-1 text-xs font-medium text-amber-600"
+            aria-label="Booking has conflicts"
+          >
+            <AlertTriangle className="h-3.5 w-3.5" />
+            {conflicts.length === 1 ? conflictLabels[conflicts[0].type] : `${conflicts.length} conflicts`}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          {conflicts.map(conflict => (
+            <p key={conflict.id}>{conflict.message}</p>
+          ))}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
@@ -0,0 +1,477 @@
+'use client'
+
+// Booking create/edit drawer for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { useRef } from 'react'
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { format } from 'date-fns'
+import {
+  findCommissionRate,
+  getPricingViolation,
+  quoteBooking,
+} from '@/lib/bookings/booking-quote'
+import { applyPriceMultiplier, formatMultiplier } from '@/lib/pricing/dynamic-pricing'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { getApiError } from '@/lib/store/api-error'
+import {
+  useCreateBookingMutation,
+  useGetAllPromotersQuery,
+  useGetCommissionRatesQuery,
+  useGetPriceResolutionQuery,
+  useGetPricingConfigQuery,
+  useGetPromoterQuery,
+  useUpdateBookingMutation,
+} from '@/lib/store/api'
+import { cn } from '@/lib/utils'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Separator } from '@/components/ui/separator'
+import {
+  Sheet,
+  SheetClose,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Textarea } from '@/components/ui/textarea'
+import SelectDropdown from '@/components/select-dropdown'
+import type { Booking, BookingInput } from '@/types/data'
+import { BookingFormValues, createBookingFormSchema } from '../data/schema'
+
+interface Props {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentRow?: Booking
+}
+
+function toFormValues(booking: Booking | undefined, venueId: string): BookingFormValues {
+  if (booking) {
+    return {
+      venueId: booking.venueId,
+      promoterId: booking.promoterId,
+      guestName: booking.guestName,
+      guestEmail: booking.guestEmail,
+      guestPhone: booking.guestPhone,
+      partySize: booking.partySize,
+      bookingDate: booking.bookingDate,
+      bookingTime: booking.bookingTime,
+      type: booking.type,
+      notes: booking.notes ?? '',
+    }
+  }
+
+  return {
+    venueId,
+    promoterId: '',
+    guestName: '',
+    guestEmail: '',
+    guestPhone: '',
+    partySize: 2,
+    bookingDate: format(new Date(), 'yyyy-MM-dd'),
+    bookingTime: '19:00',
+    type: 'PRIME',
+    notes: '',
+  }
+}
+
+function QuoteRow({
+  label,
+  value,
+  highlight,
+}: {
+  label: string
+  value: number
+  highlight?: boolean
+}) {
+  const { formatAmount } = useDataMasking()
+
+  return (
+    <div
+      className={cn(
+        'flex items-center justify-between text-sm',
+        highlight ? 'font-semibold' : 'text-muted-foreground'
+      )}
+    >
+      <span>{label}</span>
+      <span>{formatAmount(value)}</span>
+    </div>
+  )
+}
+
+export function BookingMutateDrawer({ open, onOpenChange, currentRow }: Props) {
+  const isUpdate = !!currentRow
+  const { selectedVenueId, isPortfolioView, availableVenues } = useVenueContext()
+  const defaultVenueId = isPortfolioView ? '' : selectedVenueId ?? ''
+  const { canViewGuestContact, canViewFinancials, formatAmount } = useDataMasking()
+  // Masked users only ever hold masked contact details, so they can't edit them
+  const lockGuestContact = isUpdate && !canViewGuestContact
+
+  const [createBooking, { isLoading: isCreating }] = useCreateBookingMutation()
+  const [updateBooking, { isLoading: isUpdating }] = useUpdateBookingMutation()
+
+  // Party size rules depend on the venue picked in this same form, so the
+  // resolver reads whichever schema matches the latest pricing config
+  const schemaRef = useRef(createBookingFormSchema(undefined))
+  const form = useForm<BookingFormValues>({
+    resolver: (values, context, options) =>
+      zodResolver(schemaRef.current)(values, context, options),
+    defaultValues: toFormValues(currentRow, defaultVenueId),
+  })
+  const [venueId, promoterId, partySize, type, bookingDate, bookingTime] = useWatch({
+    control: form.control,
+    name: ['venueId', 'promoterId', 'partySize', 'type', 'bookingDate', 'bookingTime'],
+  })
+
+  // Priced from the config in force on the booking date, which may be a scheduled one
+  const { data: pricing, isFetching: isPricingFetching } = useGetPricingConfigQuery(
+    { venueId, date: bookingDate || undefined },
+    { skip: !venueId }
+  )
+  const { data: activePromoters, isFetching: isPromotersFetching } = useGetAllPromotersQuery(
+    { venueId, status: ['ACTIVE'] },
+    { skip: !venueId }
+  )
+  // An edited booking keeps its promoter, even one who has since been deactivated
+  const { data: bookingPromoter } = useGetPromoterQuery(currentRow?.promoterId ?? '', {
+    skip: !currentRow?.promoterId,
+  })
+  const promoters = bookingPromoter &&
+    venueId === currentRow?.venueId &&
+    !activePromoters?.some(p => p.id === bookingPromoter.id)
+    ? [...(activePromoters ?? []), bookingPromoter]
+    : activePromoters
+  const { data: commissionRates } = useGetCommissionRatesQuery()
+  // Dynamic pricing for the slot; an edited booking's own seats don't count as demand
+  const { data: resolution, isFetching: isResolutionFetching } = useGetPriceResolutionQuery(
+    { venueId, date: bookingDate, time: bookingTime, excludeBookingId: currentRow?.id },
+    { skip: !venueId || !bookingDate || !bookingTime }
+  )
+  const multiplier = resolution?.multiplier ?? 1
+
+  schemaRef.current = createBookingFormSchema(pricing, { lockGuestContact })
+
+  const promoter = promoters?.find(p => p.id === promoterId)
+  const partySizeValue = Number(partySize)
+  const violation = venueId ? getPricingViolation(partySizeValue, pricing) : undefined
+  const quote =
+    pricing && !violation && type
+      ? quoteBooking(
+          { type, partySize: partySizeValue },
+          applyPriceMultiplier(pricing, multiplier),
+          findCommissionRate(commissionRates, promoter?.tier)
+        )
+      : undefined
+
+  const closeDrawer = (value: boolean) => {
+    onOpenChange(value)
+    form.reset(toFormValues(currentRow, defaultVenueId))
+  }
+
+  const onSubmit = async (values: BookingFormValues) => {
+    const booking: BookingInput = {
+      ...values,
+      notes: values.notes?.trim() || undefined,
+    }
+
+    try {
+      const saved = isUpdate
+        ? await updateBooking({ id: currentRow.id, booking }).unwrap()
+        : await createBooking(booking).unwrap()
+
+      toast({
+        title: isUpdate ? 'Booking updated' : 'Booking created',
+        description: `${saved.guestName} • ${formatAmount(
+          saved.type === 'PRIME' ? saved.primeTotal : saved.nonPrimeTotal
+        )}`,
+      })
+      closeDrawer(false)
+    } catch (error) {
+      toast({
+        title: isUpdate ? 'Could not update booking' : 'Could not create booking',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={closeDrawer}>
+      <SheetContent className="flex flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>{isUpdate ? 'Edit' : 'New'} Booking</SheetTitle>
+          <SheetDescription>
+            {isUpdate
+              ? 'Update the booking details. Totals are re-priced from the venue\'s pricing on the booking date.'
+              : 'Create a booking on behalf of a promoter. Totals are priced from the venue\'s pricing on the booking date.'}
+          </SheetDescription>
+        </SheetHeader>
+        <Form {...form}>
+          <form
+            id="booking-form"
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="flex-1 space-y-5 overflow-y-auto px-1"
+          >
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="venueId"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Venue</FormLabel>
+                    <SelectDropdown
+                      isControlled
+                      defaultValue={field.value}
+                      onValueChange={(value) => {
+                        field.onChange(value)
+                        // Promoter access is per venue
+                        form.setValue('promoterId', '')
+                      }}
+                      placeholder="Select a venue"
+                      items={availableVenues.map(v => ({ label: v.name, value: v.id }))}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="promoterId"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Promoter</FormLabel>
+                    <SelectDropdown
+                      isControlled
+                      defaultValue={field.value}
+                      onValueChange={field.onChange}
+                      placeholder="Select a promoter"
+                      disabled={!venueId}
+                      isPending={isPromotersFetching}
+                      items={promoters?.map(p => ({
+                        label: p.status === 'ACTIVE'
+                          ? `${p.firstName} ${p.lastName} (${p.tier})`
+                          : `${p.firstName} ${p.lastName} (${p.tier}, ${p.status.toLowerCase()})`,
+                        value: p.id,
+                      }))}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {lockGuestContact && (
+              <p className="text-sm text-muted-foreground">
+                Guest contact details are masked for your role and can&apos;t be edited.
+              </p>
+            )}
+            <FormField
+              control={form.control}
+              name="guestName"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Guest name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Jane Doe" disabled={lockGuestContact} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="guestEmail"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="email"
+                        placeholder="jane@example.com"
+                        disabled={lockGuestContact}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="guestPhone"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="tel"
+                        placeholder="+1 (555) 000-0000"
+                        disabled={lockGuestContact}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="bookingDate"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bookingTime"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Time</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="time" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="partySize"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Party size</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min={pricing?.minimumPartySize ?? 1}
+                        max={pricing?.maximumPartySize}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel>Booking type</FormLabel>
+                  <FormControl>
+                    <RadioGroup
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      className="flex gap-6"
+                    >
+                      <FormItem className="flex items-center space-y-0 space-x-2">
+                        <FormControl>
+                          <RadioGroupItem value="PRIME" />
+                        </FormControl>
+                        <FormLabel className="font-normal">Prime</FormLabel>
+                      </FormItem>
+                      <FormItem className="flex items-center space-y-0 space-x-2">
+                        <FormControl>
+                          <RadioGroupItem value="NON_PRIME" />
+                        </FormControl>
+                        <FormLabel className="font-normal">Non-Prime</FormLabel>
+                      </FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={3} placeholder="Dietary requirements, occasion…" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Live quote */}
+            <div className="space-y-2 rounded-md border bg-muted/40 p-4">
+              <div className="text-sm font-medium">Quote</div>
+              {!venueId ? (
+                <p className="text-sm text-muted-foreground">Select a venue to see pricing.</p>
+              ) : isPricingFetching || isResolutionFetching ? (
+                <p className="text-sm text-muted-foreground">Loading venue pricing…</p>
+              ) : violation || !quote ? (
+                <p className="text-sm text-destructive">{violation}</p>
+              ) : !canViewFinancials ? (
+                <p className="text-sm text-muted-foreground">
+                  Party size is within the venue&apos;s limits. Amounts are hidden for your role.
+                </p>
+              ) : (
+                <>
+                  <QuoteRow label="Prime total" value={quote.primeTotal} highlight={type === 'PRIME'} />
+                  <QuoteRow label="Non-Prime total" value={quote.nonPrimeTotal} highlight={type === 'NON_PRIME'} />
+                  {resolution && multiplier !== 1 && (
+                    <p className="text-xs text-muted-foreground">
+                      Includes dynamic pricing {formatMultiplier(multiplier)} (
+                      {resolution.steps.filter(step => step.applied).map(step => step.label).join(', ')})
+                    </p>
+                  )}
+                  <Separator />
+                  <QuoteRow label={`Platform fee (${pricing?.platformFeePercentage}%)`} value={quote.platformFee} />
+                  <QuoteRow
+                    label={promoter ? `Commission (${promoter.tier})` : 'Commission'}
+                    value={quote.commissionAmount}
+                  />
+                  <QuoteRow label="Net to venue" value={quote.netToVenue} highlight />
+                  {!promoter && (
+                    <p className="text-xs text-muted-foreground">
+                      Select a promoter to include their commission.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </form>
+        </Form>
+        <SheetFooter className="gap-2">
+          <SheetClose asChild>
+            <Button variant="outline">Close</Button>
+          </SheetClose>
+          <Button
+            form="booking-form"
+            type="submit"
+            disabled={isCreating || isUpdating || isPricingFetching}
+          >
+            {isUpdate ? 'Save changes' : 'Create booking'}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  )
+}
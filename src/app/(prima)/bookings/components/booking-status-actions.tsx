@@ -0,0 +1,138 @@
+'use client'
+
+// Booking status transition controls for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { useState } from 'react'
+import {
+  getConflictsFromError,
+  requiresConflictAcknowledgement,
+} from '@/lib/bookings/booking-conflicts'
+import { getAllowedTransitions } from '@/lib/bookings/status-transitions'
+import { getApiError } from '@/lib/store/api-error'
+import { useUpdateBookingStatusMutation } from '@/lib/store/api'
+import { useAuth } from '@/lib/auth/auth-context'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { ConfirmDialog } from '@/components/confirm-dialog'
+import type { Booking, BookingConflict, BookingStatus } from '@/types/data'
+import { bookingStatusActions } from '../data/data'
+import { useBookingConflicts } from '../hooks/use-booking-conflicts'
+import { BookingConflictList } from './booking-conflict-warning'
+
+interface Props {
+  booking: Booking
+}
+
+export function BookingStatusActions({ booking }: Props) {
+  const { hasPermission } = useAuth()
+  const [updateStatus, { isLoading }] = useUpdateBookingStatusMutation()
+  const [pendingStatus, setPendingStatus] = useState<BookingStatus | null>(null)
+  const conflicts = useBookingConflicts(booking)
+  // Conflicts awaiting acknowledgement before the booking can be confirmed
+  const [conflictReview, setConflictReview] = useState<BookingConflict[] | null>(null)
+  const [acknowledged, setAcknowledged] = useState(false)
+
+  const transitions = getAllowedTransitions(booking.status)
+
+  if (!hasPermission('WRITE_BOOKINGS') || transitions.length === 0) {
+    return null
+  }
+
+  const reviewConflicts = (items: BookingConflict[]) => {
+    setAcknowledged(false)
+    setConflictReview(items)
+  }
+
+  const applyStatus = async (status: BookingStatus, acknowledgeConflicts = false) => {
+    try {
+      await updateStatus({ id: booking.id, status, acknowledgeConflicts }).unwrap()
+      setConflictReview(null)
+      toast({
+        title: 'Booking updated',
+        description: `${booking.guestName}'s booking is now ${status.replace('_', ' ').toLowerCase()}.`,
+      })
+    } catch (error) {
+      // Conflicts we hadn't loaded yet; the server still wants them reviewed
+      const serverConflicts = getConflictsFromError(getApiError(error))
+      if (serverConflicts.length > 0) {
+        reviewConflicts(serverConflicts)
+        return
+      }
+      toast({
+        title: 'Status change rejected',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    } finally {
+      setPendingStatus(null)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {transitions.map((status) => {
+          const action = bookingStatusActions[status]
+          return (
+            <Button
+              key={status}
+              size="sm"
+              variant={action.destructive ? 'outline' : 'default'}
+              disabled={isLoading}
+              onClick={() => {
+                if (requiresConflictAcknowledgement(status) && conflicts.length > 0) {
+                  reviewConflicts(conflicts)
+                } else if (action.destructive) {
+                  setPendingStatus(status)
+                } else {
+                  applyStatus(status)
+                }
+              }}
+            >
+              {action.label}
+            </Button>
+          )
+        })}
+      </div>
+
+      <ConfirmDialog
+        open={pendingStatus !== null}
+        onOpenChange={(open) => !open && setPendingStatus(null)}
+        title={pendingStatus ? `${bookingStatusActions[pendingStatus].label}?` : ''}
+        desc={`This moves ${booking.guestName}'s booking to ${pendingStatus?.replace('_', ' ')}. The change cannot be reversed.`}
+        confirmText={pendingStatus ? bookingStatusActions[pendingStatus].label : undefined}
+        destructive
+        isLoading={isLoading}
+        handleConfirm={() => pendingStatus && applyStatus(pendingStatus)}
+      />
+
+      <ConfirmDialog
+        open={conflictReview !== null}
+        onOpenChange={(open) => !open && setConflictReview(null)}
+        title="Confirm despite conflicts?"
+        desc={`${booking.guestName}'s booking overlaps with other bookings that night. Check with the promoter before confirming.`}
+        confirmText="Confirm anyway"
+        disabled={!acknowledged}
+        isLoading={isLoading}
+        handleConfirm={() => applyStatus('CONFIRMED', true)}
+      >
+        <div className="space-y-4">
+          <BookingConflictList conflicts={conflictReview ?? []} className="rounded-md border p-3" />
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="acknowledge-booking-conflicts"
+              checked={acknowledged}
+              onCheckedChange={(value) => setAcknowledged(value === true)}
+            />
+            <Label htmlFor="acknowledge-booking-conflicts" className="font-normal">
+              I&apos;ve reviewed these conflicts
+            </Label>
+          </div>
+        </div>
+      </ConfirmDialog>
+    </>
+  )
+}
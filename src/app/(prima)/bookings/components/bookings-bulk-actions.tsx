@@ -0,0 +1,193 @@
+'use client'
+
+// Bulk status actions for the PRIMA bookings table
+// Based on RFC-005: Booking Management System
+
+import { useState } from 'react'
+import { CheckCircle2, X, XCircle } from 'lucide-react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { BOOKING_CONFLICT } from '@/lib/bookings/booking-conflicts'
+import { getApiError } from '@/lib/store/api-error'
+import { useBulkUpdateBookingStatusMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { ConfirmDialog } from '@/components/confirm-dialog'
+import type { Booking, BookingStatus, BulkBookingStatusResult } from '@/types/data'
+import { bookingStatusActions } from '../data/data'
+
+interface Props {
+  selectedIds: string[]
+  // Bookings loaded on the current page, used to label results by guest
+  bookings: Booking[]
+  onSelectionChange: (ids: string[]) => void
+}
+
+// Statuses a coordinator can move a batch of bookings into
+const BULK_TARGET_STATUSES: BookingStatus[] = ['CONFIRMED', 'COMPLETED', 'NO_SHOW', 'CANCELLED']
+
+export function BookingsBulkActions({ selectedIds, bookings, onSelectionChange }: Props) {
+  const { hasPermission } = useAuth()
+  const [bulkUpdate, { isLoading }] = useBulkUpdateBookingStatusMutation()
+  const [pendingStatus, setPendingStatus] = useState<BookingStatus | null>(null)
+  const [lastResult, setLastResult] = useState<BulkBookingStatusResult | null>(null)
+  // Remember guest names at submit time; rows may move off the page afterwards
+  const [guestNames, setGuestNames] = useState<Record<string, string>>({})
+  const [acknowledged, setAcknowledged] = useState(false)
+
+  // Rows refused only because of conflicts can be retried once acknowledged
+  const conflictedIds = lastResult?.status === 'CONFIRMED'
+    ? lastResult.results
+      .filter(r => r.error?.code === BOOKING_CONFLICT)
+      .map(r => r.id)
+    : []
+
+  if (selectedIds.length === 0 || !hasPermission('WRITE_BOOKINGS')) {
+    return null
+  }
+
+  const applyStatus = async (status: BookingStatus, ids = selectedIds, acknowledgeConflicts = false) => {
+    if (!acknowledgeConflicts) {
+      setGuestNames(Object.fromEntries(bookings.map(b => [b.id, b.guestName])))
+    }
+    setAcknowledged(false)
+
+    try {
+      const result = await bulkUpdate({ ids, status, acknowledgeConflicts }).unwrap()
+
+      // Keep failed rows selected so they can be retried or inspected
+      onSelectionChange(result.results.filter(r => !r.success).map(r => r.id))
+
+      if (result.failed > 0) {
+        setLastResult(result)
+      } else {
+        setLastResult(null)
+        toast({
+          title: 'Bookings updated',
+          description: `${result.succeeded} booking(s) marked ${status.replace('_', ' ').toLowerCase()}.`,
+        })
+      }
+    } catch (error) {
+      toast({
+        title: 'Bulk update failed',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    } finally {
+      setPendingStatus(null)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-3 py-2">
+        <span className="text-sm font-medium">
+          {selectedIds.length} selected
+        </span>
+        <div className="flex flex-wrap gap-2 sm:ml-4">
+          {BULK_TARGET_STATUSES.map((status) => (
+            <Button
+              key={status}
+              size="sm"
+              variant={bookingStatusActions[status].destructive ? 'outline' : 'secondary'}
+              className="h-8"
+              disabled={isLoading}
+              onClick={() => setPendingStatus(status)}
+            >
+              {bookingStatusActions[status].label}
+            </Button>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="ml-auto h-8"
+          onClick={() => onSelectionChange([])}
+        >
+          Clear
+          <X className="ml-2 h-4 w-4" />
+        </Button>
+      </div>
+
+      <ConfirmDialog
+        open={pendingStatus !== null}
+        onOpenChange={(open) => !open && setPendingStatus(null)}
+        title={pendingStatus ? `${bookingStatusActions[pendingStatus].label} ${selectedIds.length} booking(s)?` : ''}
+        desc={`Bookings that cannot move to this status from their current one will be skipped and reported individually.${
+          pendingStatus === 'CONFIRMED' ? ' Duplicates and overbooked slots are held back for review.' : ''
+        }`}
+        confirmText={pendingStatus ? bookingStatusActions[pendingStatus].label : undefined}
+        destructive={pendingStatus ? bookingStatusActions[pendingStatus].destructive : false}
+        isLoading={isLoading}
+        handleConfirm={() => pendingStatus && applyStatus(pendingStatus)}
+      />
+
+      <Dialog open={lastResult !== null} onOpenChange={(open) => !open && setLastResult(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Bulk update partially applied</DialogTitle>
+            <DialogDescription>
+              {lastResult?.succeeded} succeeded, {lastResult?.failed} failed. Failed
+              bookings are still selected.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-80">
+            <ul className="space-y-2 pr-3">
+              {lastResult?.results.map((result) => (
+                <li key={result.id} className="flex items-start gap-2 text-sm">
+                  {result.success ? (
+                    <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+                  ) : (
+                    <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" />
+                  )}
+                  <div>
+                    <div className="font-medium">
+                      {guestNames[result.id] ?? result.id}
+                    </div>
+                    {result.error && (
+                      <div className="text-muted-foreground">{result.error.message}</div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+          {conflictedIds.length > 0 && (
+            <div className="flex items-center space-x-2 rounded-md border p-3">
+              <Checkbox
+                id="acknowledge-bulk-conflicts"
+                checked={acknowledged}
+                onCheckedChange={(value) => setAcknowledged(value === true)}
+              />
+              <Label htmlFor="acknowledge-bulk-conflicts" className="font-normal">
+                I&apos;ve reviewed the conflicts on {conflictedIds.length} booking(s) and want to confirm them anyway
+              </Label>
+            </div>
+          )}
+          <DialogFooter className="flex gap-2">
+            {conflictedIds.length > 0 && (
+              <Button
+                variant="outline"
+                disabled={!acknowledged || isLoading}
+                onClick={() => applyStatus('CONFIRMED', conflictedIds, true)}
+              >
+                Confirm anyway
+              </Button>
+            )}
+            <Button onClick={() => setLastResult(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+// Column definitions for the PRIMA bookings table
+// Based on RFC-005: Booking Management System
+
+import { format, parseISO } from 'date-fns'
+import { ColumnDef } from '@tanstack/react-table'
+import { Calendar, Users } from 'lucide-react'
+import Link from 'next/link'
+import { getBookingAmount } from '@/lib/bookings/booking-amounts'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { useGetPromoterQuery } from '@/lib/store/api'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  BookingStatusBadge,
+  BookingTypeBadge,
+} from '@/components/prima/booking-status-badge'
+import { NoShowRiskBadge } from '@/components/prima/no-show-risk-badge'
+import type { Booking } from '@/types/data'
+import { BookingConflictIndicator } from './booking-conflict-warning'
+import { DataTableColumnHeader } from './data-table-column-header'
+
+function PromoterCell({ promoterId }: { promoterId: string }) {
+  const { data: promoter, isLoading } = useGetPromoterQuery(promoterId)
+
+  if (isLoading) return <Skeleton className="h-4 w-24" />
+
+  return (
+    <span className="whitespace-nowrap">
+      {promoter ? `${promoter.firstName} ${promoter.lastName}` : promoterId}
+    </span>
+  )
+}
+
+function GuestCell({ booking }: { booking: Booking }) {
+  const { maskBooking } = useDataMasking()
+  const { guestName, guestEmail } = maskBooking(booking)
+
+  return (
+    <div>
+      <Link
+        href={`/bookings/${booking.id}`}
+        className="font-medium hover:text-primary hover:underline"
+      >
+        {guestName}
+      </Link>
+      <div className="text-sm text-muted-foreground">{guestEmail}</div>
+      <BookingConflictIndicator booking={booking} />
+    </div>
+  )
+}
+
+function AmountCell({ value, className }: { value: number; className?: string }) {
+  const { formatAmount } = useDataMasking()
+
+  return <div className={className}>{formatAmount(value)}</div>
+}
+
+function VenueCell({ venueId }: { venueId: string }) {
+  const { availableVenues } = useVenueContext()
+  const venue = availableVenues.find(v => v.id === venueId)
+
+  return <span className="whitespace-nowrap">{venue?.name ?? venueId}</span>
+}
+
+export const columns: ColumnDef<Booking>[] = [
+  {
+    id: 'select',
+    header: ({ table }) => (
+      <Checkbox
+        checked={
+          table.getIsAllPageRowsSelected() ||
+          (table.getIsSomePageRowsSelected() && 'indeterminate')
+        }
+        onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+        aria-label="Select all"
+        className="translate-y-[2px]"
+      />
+    ),
+    cell: ({ row }) => (
+      <Checkbox
+        checked={row.getIsSelected()}
+        onCheckedChange={(value) => row.toggleSelected(!!value)}
+        aria-label="Select row"
+        className="translate-y-[2px]"
+      />
+    ),
+    enableSorting: false,
+    enableHiding: false,
+  },
+  {
+    accessorKey: 'guestName',
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Guest" />
+    ),
+    cell: ({ row }) => <GuestCell booking={row.original} />,
+    enableHiding: false,
+  },
+  {
+    accessorKey: 'venueId',
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Venue" />
+    ),
+    cell: ({ row }) => <VenueCell venueId={row.original.venueId} />,
+  },
+  {
+    accessorKey: 'bookingDate',
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Date & Time" />
+    ),
+    cell: ({ row }) => (
+      <div className="flex items-center space-x-2">
+        <Calendar className="h-4 w-4 text-muted-foreground" />
+        <div>
+          <div className="font-medium whitespace-nowrap">
+            {format(parseISO(row.original.bookingDate), 'MMM dd, yyyy')}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {row.original.bookingTime}
+          </div>
+        </div>
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'partySize',
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Party Size" />
+    ),
+    cell: ({ row }) => (
+      <div className="flex items-center space-x-1">
+        <Users className="h-4 w-4 text-muted-foreground" />
+        <span>{row.original.partySize}</span>
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'status',
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Status" />
+    ),
+    cell: ({ row }) => <BookingStatusBadge status={row.original.status} />,
+  },
+  {
+    accessorKey: 'type',
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Type" />
+    ),
+    cell: ({ row }) => <BookingTypeBadge type={row.original.type} />,
+  },
+  {
+    id: 'risk',
+    accessorFn: (booking) => booking.noShowRisk?.level,
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="No-show Risk" />
+    ),
+    cell: ({ row }) => <NoShowRiskBadge risk={row.original.noShowRisk} />,
+    enableSorting: false,
+  },
+  {
+    accessorKey: 'promoterId',
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Promoter" />
+    ),
+    cell: ({ row }) => <PromoterCell promoterId={row.original.promoterId} />,
+    enableSorting: false,
+  },
+  {
+    id: 'amount',
+    accessorFn: getBookingAmount,
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Amount" className="justify-end" />
+    ),
+    cell: ({ row }) => (
+      <AmountCell
+        value={getBookingAmount(row.original)}
+        className="text-right font-medium"
+      />
+    ),
+    enableSorting: false,
+  },
+  {
+    accessorKey: 'commissionAmount',
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Commission" className="justify-end" />
+    ),
+    cell: ({ row }) => (
+      <AmountCell value={row.original.commissionAmount} className="text-right" />
+    ),
+  },
+]
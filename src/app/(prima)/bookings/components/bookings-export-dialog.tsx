@@ -0,0 +1,183 @@
+'use client'
+
+// Export dialog for the PRIMA bookings table
+// Based on RFC-005: Booking Management System
+
+import { useState } from 'react'
+import { Download, ShieldAlert } from 'lucide-react'
+import { canViewFinancials, canViewGuestContact } from '@/lib/auth/data-masking'
+import {
+  getExportableColumns,
+  type BookingExportFormat,
+} from '@/lib/bookings/booking-export'
+import { useAuth } from '@/lib/auth/auth-context'
+import { getApiError } from '@/lib/store/api-error'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import type { BookingQueryParams } from '@/types/data'
+import { useBookingExport } from '../hooks/use-booking-export'
+
+interface Props {
+  // Current table filters and sort; pagination is ignored
+  queryParams: BookingQueryParams
+  totalRows: number
+}
+
+export function BookingsExportDialog({ queryParams, totalRows }: Props) {
+  const { getDataAccessLevel } = useAuth()
+  const { exportBookings, progress, isExporting } = useBookingExport()
+  const [open, setOpen] = useState(false)
+  const [fileFormat, setFileFormat] = useState<BookingExportFormat>('csv')
+
+  const accessLevel = getDataAccessLevel()
+  const columns = getExportableColumns(accessLevel)
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(() =>
+    columns.map(column => column.id)
+  )
+  // Only offer columns this role can export, even if the role changed
+  const columnIds = selectedColumns.filter(id => columns.some(column => column.id === id))
+
+  const toggleColumn = (id: string, checked: boolean) => {
+    setSelectedColumns(current =>
+      checked ? [...current, id] : current.filter(columnId => columnId !== id)
+    )
+  }
+
+  const handleExport = async () => {
+    const { page: _page, limit: _limit, ...filters } = queryParams
+
+    try {
+      const count = await exportBookings(filters, columnIds, fileFormat)
+      toast({
+        title: 'Export ready',
+        description: `${count} booking(s) exported to ${fileFormat.toUpperCase()}.`,
+      })
+      setOpen(false)
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8"
+        onClick={() => setOpen(true)}
+      >
+        <Download className="mr-2 h-4 w-4" />
+        Export
+      </Button>
+
+      <Dialog open={open} onOpenChange={(value) => !isExporting && setOpen(value)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Export bookings</DialogTitle>
+            <DialogDescription>
+              Exports all {totalRows} booking(s) matching the current filters, not
+              just the visible page.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <RadioGroup
+                value={fileFormat}
+                onValueChange={(value) => setFileFormat(value as BookingExportFormat)}
+                className="flex gap-6"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="csv" id="export-csv" />
+                  <Label htmlFor="export-csv" className="font-normal">CSV</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="xlsx" id="export-xlsx" />
+                  <Label htmlFor="export-xlsx" className="font-normal">Excel (XLSX)</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Columns</Label>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() =>
+                    setSelectedColumns(
+                      columnIds.length === columns.length ? [] : columns.map(c => c.id)
+                    )
+                  }
+                >
+                  {columnIds.length === columns.length ? 'Clear all' : 'Select all'}
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {columns.map((column) => (
+                  <div key={column.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`export-column-${column.id}`}
+                      checked={columnIds.includes(column.id)}
+                      onCheckedChange={(checked) => toggleColumn(column.id, !!checked)}
+                    />
+                    <Label htmlFor={`export-column-${column.id}`} className="font-normal">
+                      {column.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {(!canViewGuestContact(accessLevel) || !canViewFinancials(accessLevel)) && (
+              <div className="flex items-start gap-2 rounded-md border bg-muted/50 p-3 text-sm text-muted-foreground">
+                <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0" />
+                Your role exports masked guest emails and phone numbers, and
+                financial columns are not available.
+              </div>
+            )}
+
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={progress.total ? (progress.loaded / progress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  Fetched {progress.loaded} of {progress.total || totalRows} booking(s)…
+                </p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" disabled={isExporting} onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={isExporting || columnIds.length === 0 || totalRows === 0}
+              onClick={handleExport}
+            >
+              {isExporting ? 'Exporting…' : `Export ${fileFormat.toUpperCase()}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,347 @@
+'use client'
+
+// CSV import dialog for PRIMA bookings
+// Based on RFC-005: Booking Management System
+
+import { useState } from 'react'
+import { AlertCircle, CheckCircle2, XCircle } from 'lucide-react'
+import {
+  autoMapColumns,
+  BOOKING_IMPORT_FIELDS,
+  parseCsv,
+  type BookingImportField,
+  type BookingImportMapping,
+} from '@/lib/bookings/booking-import'
+import { getApiError } from '@/lib/store/api-error'
+import { useBatchCreateBookingsMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { BatchCreateBookingsResult } from '@/types/data'
+import { useBookingImportValidation, type BookingImportRow } from '../hooks/use-booking-import'
+
+interface Props {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+type Step = 'upload' | 'map' | 'preview'
+
+// Keeps the import a reviewable size for a single preview
+const MAX_IMPORT_ROWS = 500
+const UNMAPPED = 'unmapped'
+
+export function BookingsImportDialog({ open, onOpenChange }: Props) {
+  const { validateRows, isValidating } = useBookingImportValidation()
+  const [batchCreate, { isLoading: isSubmitting }] = useBatchCreateBookingsMutation()
+
+  const [step, setStep] = useState<Step>('upload')
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<BookingImportMapping>({})
+  const [rows, setRows] = useState<BookingImportRow[]>([])
+  const [dryRun, setDryRun] = useState(true)
+  const [result, setResult] = useState<BatchCreateBookingsResult | null>(null)
+
+  const validRows = rows.filter(row => row.booking)
+  const missingFields = BOOKING_IMPORT_FIELDS.filter(
+    ({ field, required }) => required && mapping[field] === undefined
+  )
+
+  const reset = () => {
+    setStep('upload')
+    setFileError(null)
+    setHeaders([])
+    setDataRows([])
+    setMapping({})
+    setRows([])
+    setDryRun(true)
+    setResult(null)
+  }
+
+  const handleOpenChange = (value: boolean) => {
+    if (isSubmitting) return
+    onOpenChange(value)
+    if (!value) reset()
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    setFileError(null)
+    if (!file) return
+
+    // Browsers disagree on the CSV MIME type, so check the extension too
+    if (!file.name.toLowerCase().endsWith('.csv') && file.type !== 'text/csv') {
+      setFileError('Please upload a .csv file.')
+      return
+    }
+
+    const [headerRow, ...body] = parseCsv(await file.text())
+    if (!headerRow || body.length === 0) {
+      setFileError('The file has no booking rows.')
+      return
+    }
+    if (body.length > MAX_IMPORT_ROWS) {
+      setFileError(`Imports are limited to ${MAX_IMPORT_ROWS} rows; this file has ${body.length}.`)
+      return
+    }
+
+    setHeaders(headerRow)
+    setDataRows(body)
+    setMapping(autoMapColumns(headerRow))
+    setStep('map')
+  }
+
+  const handleValidate = async () => {
+    try {
+      setRows(await validateRows(dataRows, mapping))
+      setResult(null)
+      setStep('preview')
+    } catch (error) {
+      toast({
+        title: 'Could not validate rows',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleSubmit = async () => {
+    try {
+      const response = await batchCreate({
+        bookings: validRows.map(row => row.booking!),
+        dryRun,
+      }).unwrap()
+
+      if (!response.dryRun && response.failed === 0) {
+        toast({
+          title: 'Import complete',
+          description: `${response.created} booking(s) created.`,
+        })
+        handleOpenChange(false)
+        return
+      }
+
+      setResult(response)
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  // Server results are indexed by position in the submitted batch
+  const serverErrors = new Map(
+    result?.results
+      .filter(r => !r.success)
+      .map(r => [validRows[r.index]?.line, r.error?.message]) ?? []
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader className="text-left">
+          <DialogTitle>Import Bookings</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV with one booking per row and a header row.'}
+            {step === 'map' && 'Match each booking field to a column in your file.'}
+            {step === 'preview' && 'Review validation results before importing. Only valid rows are submitted.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="booking-import-file">File</Label>
+            <Input
+              id="booking-import-file"
+              type="file"
+              accept=".csv,text/csv"
+              className="h-9"
+              onChange={(event) => handleFile(event.target.files?.[0])}
+            />
+            {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+            <p className="text-xs text-muted-foreground">
+              Expected columns: {BOOKING_IMPORT_FIELDS.map(f => f.field).join(', ')}.
+              Dates use YYYY-MM-DD and times HH:mm.
+            </p>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              {BOOKING_IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="flex items-center justify-between gap-3">
+                  <Label className="whitespace-nowrap">
+                    {label}
+                    {required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field]?.toString() ?? UNMAPPED}
+                    onValueChange={(value) =>
+                      setMapping(current => ({
+                        ...current,
+                        [field as BookingImportField]: value === UNMAPPED ? undefined : Number(value),
+                      }))
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {dataRows.length} row(s) found.
+              {missingFields.length > 0 &&
+                ` Map ${missingFields.map(f => f.label).join(', ')} to continue.`}
+            </p>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline" className="border-green-500/40 text-green-700 dark:text-green-400">
+                {validRows.length} valid
+              </Badge>
+              <Badge variant="outline" className="border-red-500/40 text-red-700 dark:text-red-400">
+                {rows.length - validRows.length} invalid
+              </Badge>
+              {result && (
+                <span className="text-muted-foreground">
+                  {result.dryRun
+                    ? `Dry run: ${result.created} would be created, ${result.failed} would fail.`
+                    : `${result.created} created, ${result.failed} rejected by the server.`}
+                </span>
+              )}
+            </div>
+            <ScrollArea className="h-72 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Line</TableHead>
+                    <TableHead>Guest</TableHead>
+                    <TableHead>Venue</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Party</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const errors = serverErrors.has(row.line)
+                      ? [serverErrors.get(row.line) ?? 'Rejected by the server']
+                      : row.errors
+                    return (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell className="font-medium">{row.values.guestName || '—'}</TableCell>
+                        <TableCell>{row.values.venueId || '—'}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {row.values.bookingDate} {row.values.bookingTime}
+                        </TableCell>
+                        <TableCell>{row.values.partySize}</TableCell>
+                        <TableCell>
+                          {errors.length === 0 ? (
+                            <CheckCircle2 className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <div className="flex items-start gap-1 text-sm text-destructive">
+                              <XCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                              <ul>
+                                {errors.map((error, i) => <li key={i}>{error}</li>)}
+                              </ul>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            <div className="flex items-center space-x-2">
+              <Switch id="booking-import-dry-run" checked={dryRun} onCheckedChange={setDryRun} />
+              <Label htmlFor="booking-import-dry-run" className="font-normal">
+                Dry run — check rows against the server without creating bookings
+              </Label>
+            </div>
+            {result && !result.dryRun && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <AlertCircle className="h-4 w-4" />
+                Created bookings are already saved; fix the rejected rows and import them separately.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex gap-2">
+          {step !== 'upload' && (
+            <Button
+              variant="outline"
+              disabled={isSubmitting || (result !== null && !result.dryRun)}
+              onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+            >
+              Back
+            </Button>
+          )}
+          {step === 'map' && (
+            <Button disabled={missingFields.length > 0 || isValidating} onClick={handleValidate}>
+              {isValidating ? 'Validating…' : 'Validate rows'}
+            </Button>
+          )}
+          {step === 'preview' && (result === null || result.dryRun) && (
+            <Button disabled={validRows.length === 0 || isSubmitting} onClick={handleSubmit}>
+              {isSubmitting
+                ? 'Submitting…'
+                : dryRun
+                  ? `Dry run ${validRows.length} row(s)`
+                  : `Import ${validRows.length} booking(s)`}
+            </Button>
+          )}
+          {step === 'preview' && result !== null && !result.dryRun && (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+// Primary actions for the PRIMA bookings page
+// Based on RFC-005: Booking Management System
+
+import { useState } from 'react'
+import { Plus, Upload } from 'lucide-react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { Button } from '@/components/ui/button'
+import { BookingMutateDrawer } from './booking-mutate-drawer'
+import { BookingsImportDialog } from './bookings-import-dialog'
+
+export function BookingsPrimaryActions() {
+  const { hasPermission } = useAuth()
+  const { selectedVenueId, isPortfolioView } = useVenueContext()
+  const [open, setOpen] = useState(false)
+  const [openImport, setOpenImport] = useState(false)
+
+  if (!hasPermission('WRITE_BOOKINGS')) {
+    return null
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button
+          variant="outline"
+          className="font-semibold"
+          onClick={() => setOpenImport(true)}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+        <Button className="font-semibold" onClick={() => setOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Booking
+        </Button>
+      </div>
+
+      {/* Remount when the venue changes so the form defaults to it */}
+      <BookingMutateDrawer
+        key={isPortfolioView ? 'portfolio' : selectedVenueId ?? 'none'}
+        open={open}
+        onOpenChange={setOpen}
+      />
+      <BookingsImportDialog open={openImport} onOpenChange={setOpenImport} />
+    </>
+  )
+}
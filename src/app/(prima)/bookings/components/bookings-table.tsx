@@ -0,0 +1,190 @@
+'use client'
+
+// Bookings Table Component for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { useEffect, useRef, useState } from 'react'
+import {
+  RowSelectionState,
+  VisibilityState,
+  flexRender,
+  functionalUpdate,
+  getCoreRowModel,
+  useReactTable,
+} from '@tanstack/react-table'
+import { AlertCircle } from 'lucide-react'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { useGetBookingsQuery } from '@/lib/store/api'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useBookingsTableState } from '../hooks/use-bookings-table-state'
+import { BookingsBulkActions } from './bookings-bulk-actions'
+import { BookingsExportDialog } from './bookings-export-dialog'
+import { columns } from './bookings-columns'
+import { DataTablePagination } from './data-table-pagination'
+import { DataTableToolbar } from './data-table-toolbar'
+
+export function BookingsTable() {
+  const { selectedVenueId, isPortfolioView } = useVenueContext()
+  const { state, setState, queryParams, canFilterRisk } = useBookingsTableState()
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+
+  const venueId = isPortfolioView ? undefined : selectedVenueId || undefined
+
+  const { data, isLoading, isFetching, isError } = useGetBookingsQuery({
+    ...queryParams,
+    venueId,
+  })
+
+  // Switching venues changes the result set, so start again from page one
+  const previousVenueId = useRef(venueId)
+  useEffect(() => {
+    if (previousVenueId.current === venueId) return
+    previousVenueId.current = venueId
+    setRowSelection({})
+    if (state.pagination.pageIndex > 0) {
+      setState({ pagination: { ...state.pagination, pageIndex: 0 } })
+    }
+  }, [venueId, state.pagination, setState])
+
+  const table = useReactTable({
+    data: data?.data ?? [],
+    columns,
+    pageCount: data?.pagination.totalPages ?? -1,
+    state: {
+      sorting: state.sorting,
+      columnFilters: state.columnFilters,
+      pagination: state.pagination,
+      columnVisibility: {
+        // The venue column only adds information in portfolio view
+        venueId: isPortfolioView,
+        ...columnVisibility,
+      },
+      rowSelection,
+    },
+    getRowId: (row) => row.id,
+    enableRowSelection: true,
+    enableMultiSort: false,
+    manualPagination: true,
+    manualSorting: true,
+    manualFiltering: true,
+    onRowSelectionChange: setRowSelection,
+    onColumnVisibilityChange: setColumnVisibility,
+    onSortingChange: (updater) =>
+      setState({ sorting: functionalUpdate(updater, state.sorting) }),
+    onColumnFiltersChange: (updater) =>
+      setState({ columnFilters: functionalUpdate(updater, state.columnFilters) }),
+    onPaginationChange: (updater) =>
+      setState({ pagination: functionalUpdate(updater, state.pagination) }),
+    getCoreRowModel: getCoreRowModel(),
+  })
+
+  return (
+    <div className="space-y-4">
+      <DataTableToolbar
+        table={table}
+        search={state.search}
+        dateRange={state.dateRange}
+        canFilterRisk={canFilterRisk}
+        onSearchChange={(search) => setState({ search })}
+        onDateRangeChange={(dateRange) => setState({ dateRange })}
+        onReset={() => setState({ columnFilters: [], search: '', dateRange: undefined })}
+        actions={
+          <BookingsExportDialog
+            queryParams={{ ...queryParams, venueId }}
+            totalRows={data?.pagination.total ?? 0}
+          />
+        }
+      />
+      <BookingsBulkActions
+        selectedIds={Object.keys(rowSelection).filter(id => rowSelection[id])}
+        bookings={data?.data ?? []}
+        onSelectionChange={(ids) =>
+          setRowSelection(Object.fromEntries(ids.map(id => [id, true])))
+        }
+      />
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => {
+                  return (
+                    <TableHead key={header.id} colSpan={header.colSpan}>
+                      {header.isPlaceholder
+                        ? null
+                        : flexRender(
+                            header.column.columnDef.header,
+                            header.getContext()
+                          )}
+                    </TableHead>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody className={isFetching && !isLoading ? 'opacity-60' : undefined}>
+            {isLoading ? (
+              [...Array(5)].map((_, i) => (
+                <TableRow key={i}>
+                  {table.getVisibleLeafColumns().map((column) => (
+                    <TableCell key={column.id}>
+                      <Skeleton className="h-4 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : isError ? (
+              <TableRow>
+                <TableCell
+                  colSpan={table.getVisibleLeafColumns().length}
+                  className="h-24 text-center text-destructive"
+                >
+                  <AlertCircle className="h-5 w-5 mx-auto mb-1" />
+                  Failed to load bookings.
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow
+                  key={row.id}
+                  data-state={row.getIsSelected() && 'selected'}
+                >
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext()
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={table.getVisibleLeafColumns().length}
+                  className="h-24 text-center"
+                >
+                  No bookings match the current filters.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <DataTablePagination
+        table={table}
+        totalRows={data?.pagination.total ?? 0}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+// Booking date range filter for the PRIMA bookings table
+// Based on RFC-005: Booking Management System
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { CalendarIcon } from '@radix-ui/react-icons'
+import type { DateRange } from 'react-day-picker'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { Separator } from '@/components/ui/separator'
+
+interface Props {
+  title?: string
+  value: { from: string; to: string } | undefined
+  onChange: (value: { from: string; to: string } | undefined) => void
+}
+
+export function DataTableDateFilter({ title = 'Date', value, onChange }: Props) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<DateRange | undefined>()
+
+  const selected: DateRange | undefined = draft ?? (value
+    ? { from: parseISO(value.from), to: parseISO(value.to) }
+    : undefined)
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen)
+        setDraft(undefined)
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 border-dashed">
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {title}
+          {value && (
+            <>
+              <Separator orientation="vertical" className="mx-2 h-4" />
+              <Badge variant="secondary" className="rounded-sm px-1 font-normal">
+                {format(parseISO(value.from), 'MMM d')} –{' '}
+                {format(parseISO(value.to), 'MMM d')}
+              </Badge>
+            </>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={selected?.from}
+          selected={selected}
+          onSelect={setDraft}
+          initialFocus
+        />
+        <div className="flex justify-end gap-2 border-t p-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              onChange(undefined)
+              setOpen(false)
+            }}
+          >
+            Clear
+          </Button>
+          <Button
+            size="sm"
+            disabled={!draft?.from}
+            onClick={() => {
+              if (draft?.from) {
+                onChange({
+                  from: format(draft.from, 'yyyy-MM-dd'),
+                  to: format(draft.to ?? draft.from, 'yyyy-MM-dd'),
+                })
+              }
+              setOpen(false)
+            }}
+          >
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
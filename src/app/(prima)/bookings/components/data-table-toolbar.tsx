@@ -0,0 +1,112 @@
+'use client'
+
+// Toolbar for the PRIMA bookings table
+// Based on RFC-005: Booking Management System
+
+import { useEffect, useState } from 'react'
+import { Cross2Icon } from '@radix-ui/react-icons'
+import { Table } from '@tanstack/react-table'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { bookingRiskLevels, bookingStatuses, bookingTypes } from '../data/data'
+import type { BookingsTableState } from '../hooks/use-bookings-table-state'
+import { DataTableDateFilter } from './data-table-date-filter'
+import { DataTableFacetedFilter } from './data-table-faceted-filter'
+import { DataTableViewOptions } from './data-table-view-options'
+
+interface Props<TData> {
+  table: Table<TData>
+  search: string
+  dateRange: BookingsTableState['dateRange']
+  // Whether the viewer's role gets the no-show risk facet
+  canFilterRisk: boolean
+  onSearchChange: (search: string) => void
+  onDateRangeChange: (dateRange: BookingsTableState['dateRange']) => void
+  onReset: () => void
+  // Extra controls rendered next to the view options, e.g. export
+  actions?: React.ReactNode
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+export function DataTableToolbar<TData>({
+  table,
+  search,
+  dateRange,
+  canFilterRisk,
+  onSearchChange,
+  onDateRangeChange,
+  onReset,
+  actions,
+}: Props<TData>) {
+  const [searchInput, setSearchInput] = useState(search)
+  const isFiltered =
+    table.getState().columnFilters.length > 0 || !!search || !!dateRange
+
+  // Keep the input in sync when the URL changes underneath us (e.g. reset)
+  useEffect(() => {
+    setSearchInput(search)
+  }, [search])
+
+  // Debounce search so every keystroke doesn't trigger a bookings request
+  useEffect(() => {
+    if (searchInput === search) return
+    const timeout = setTimeout(() => onSearchChange(searchInput), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput, search, onSearchChange])
+
+  return (
+    <div className="flex items-center justify-between">
+      <div className="flex flex-1 flex-col-reverse items-start gap-y-2 sm:flex-row sm:items-center sm:space-x-2">
+        <Input
+          placeholder="Search guest name or email..."
+          value={searchInput}
+          onChange={(event) => setSearchInput(event.target.value)}
+          className="h-8 w-[150px] lg:w-[250px]"
+        />
+        <div className="flex flex-wrap gap-2">
+          {table.getColumn('status') && (
+            <DataTableFacetedFilter
+              column={table.getColumn('status')}
+              title="Status"
+              options={bookingStatuses}
+            />
+          )}
+          {table.getColumn('type') && (
+            <DataTableFacetedFilter
+              column={table.getColumn('type')}
+              title="Type"
+              options={bookingTypes}
+            />
+          )}
+          {canFilterRisk && table.getColumn('risk') && (
+            <DataTableFacetedFilter
+              column={table.getColumn('risk')}
+              title="No-show Risk"
+              options={bookingRiskLevels}
+            />
+          )}
+          <DataTableDateFilter
+            title="Date"
+            value={dateRange}
+            onChange={onDateRangeChange}
+          />
+        </div>
+        {isFiltered && (
+          <Button
+            variant="ghost"
+            onClick={onReset}
+            className="h-8 px-2 lg:px-3"
+          >
+            Reset
+            <Cross2Icon className="ml-2 h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        {actions}
+        <DataTableViewOptions table={table} />
+      </div>
+    </div>
+  )
+}
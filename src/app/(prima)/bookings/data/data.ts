@@ -0,0 +1,116 @@
+// Booking table option sets for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import {
+  IconAlertTriangle,
+  IconCircleCheck,
+  IconCircleX,
+  IconClock,
+  IconCrown,
+  IconShieldCheck,
+  IconShieldHalf,
+  IconTicket,
+  IconUserOff,
+  IconUsers,
+} from '@tabler/icons-react'
+import type { BookingStatus, BookingType, NoShowRiskLevel } from '@/types/data'
+
+export const bookingStatuses: {
+  value: BookingStatus
+  label: string
+  icon: React.ComponentType<{ className?: string }>
+}[] = [
+  {
+    value: 'PENDING',
+    label: 'Pending',
+    icon: IconClock,
+  },
+  {
+    value: 'CONFIRMED',
+    label: 'Confirmed',
+    icon: IconCircleCheck,
+  },
+  {
+    value: 'COMPLETED',
+    label: 'Completed',
+    icon: IconUsers,
+  },
+  {
+    value: 'CANCELLED',
+    label: 'Cancelled',
+    icon: IconCircleX,
+  },
+  {
+    value: 'NO_SHOW',
+    label: 'No Show',
+    icon: IconUserOff,
+  },
+]
+
+export const bookingTypes: {
+  value: BookingType
+  label: string
+  icon: React.ComponentType<{ className?: string }>
+}[] = [
+  {
+    value: 'PRIME',
+    label: 'Prime',
+    icon: IconCrown,
+  },
+  {
+    value: 'NON_PRIME',
+    label: 'Non-Prime',
+    icon: IconTicket,
+  },
+]
+
+export const bookingRiskLevels: {
+  value: NoShowRiskLevel
+  label: string
+  icon: React.ComponentType<{ className?: string }>
+}[] = [
+  {
+    value: 'HIGH',
+    label: 'High risk',
+    icon: IconAlertTriangle,
+  },
+  {
+    value: 'MEDIUM',
+    label: 'Medium risk',
+    icon: IconShieldHalf,
+  },
+  {
+    value: 'LOW',
+    label: 'Low risk',
+    icon: IconShieldCheck,
+  },
+]
+
+// Page sizes offered by the bookings table
+export const bookingPageSizes = [10, 20, 30, 40, 50]
+
+// Human-readable column names, used by the column visibility menu
+export const bookingColumnLabels: Record<string, string> = {
+  guestName: 'Guest',
+  venueId: 'Venue',
+  bookingDate: 'Date & Time',
+  partySize: 'Party Size',
+  status: 'Status',
+  type: 'Type',
+  risk: 'No-show Risk',
+  promoterId: 'Promoter',
+  amount: 'Amount',
+  commissionAmount: 'Commission',
+}
+
+// Verb used on the button that moves a booking into each status
+export const bookingStatusActions: Record<BookingStatus, {
+  label: string
+  destructive: boolean
+}> = {
+  PENDING: { label: 'Mark pending', destructive: false },
+  CONFIRMED: { label: 'Confirm', destructive: false },
+  COMPLETED: { label: 'Mark completed', destructive: false },
+  CANCELLED: { label: 'Cancel booking', destructive: true },
+  NO_SHOW: { label: 'Mark no-show', destructive: true },
+}
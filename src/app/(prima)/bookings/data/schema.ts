@@ -0,0 +1,147 @@
+// Booking form and import schemas for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { z } from 'zod'
+import { getPricingViolation } from '@/lib/bookings/booking-quote'
+import type { PricingConfig, Promoter, Venue } from '@/types/data'
+
+const bookingFormBaseSchema = z.object({
+  venueId: z.string().min(1, 'Please select a venue.'),
+  promoterId: z.string().min(1, 'Please select a promoter.'),
+  guestName: z.string().trim().min(1, 'Guest name is required.'),
+  guestEmail: z.string().trim().email('Enter a valid email address.'),
+  guestPhone: z.string().trim().min(1, 'Guest phone is required.'),
+  partySize: z.coerce
+    .number({ invalid_type_error: 'Party size must be a number.' })
+    .int('Party size must be a whole number.')
+    .positive('Party size must be at least 1.'),
+  bookingDate: z.string().min(1, 'Please pick a date.'),
+  bookingTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Please pick a time.'),
+  type: z.enum(['PRIME', 'NON_PRIME'], {
+    required_error: 'Please choose a booking type.',
+  }),
+  notes: z.string().optional(),
+})
+
+export type BookingFormValues = z.infer<typeof bookingFormBaseSchema>
+
+/**
+ * The party size rules come from the selected venue's pricing config, so the
+ * schema is rebuilt whenever that config changes. When guest contact details
+ * are locked (a masked user editing a booking) they are sent back unchanged
+ * and ignored by the API, so they aren't validated.
+ */
+export function createBookingFormSchema(
+  pricing: PricingConfig | undefined,
+  { lockGuestContact = false }: { lockGuestContact?: boolean } = {}
+) {
+  const schema = lockGuestContact
+    ? bookingFormBaseSchema.extend({
+        guestName: z.string(),
+        guestEmail: z.string(),
+        guestPhone: z.string(),
+      })
+    : bookingFormBaseSchema
+
+  return schema.superRefine(refinePartySize(pricing))
+}
+
+function refinePartySize(pricing: PricingConfig | undefined) {
+  return (values: Pick<BookingFormValues, 'venueId' | 'partySize'>, ctx: z.RefinementCtx) => {
+    if (!values.venueId) return
+
+    const violation = getPricingViolation(values.partySize, pricing)
+    if (violation) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        // Missing or inactive pricing is a venue problem, not a party size one
+        path: !pricing || !pricing.isActive ? ['venueId'] : ['partySize'],
+        message: violation,
+      })
+    }
+  }
+}
+
+const waitlistFormBaseSchema = bookingFormBaseSchema.extend({
+  priority: z.enum(['HIGH', 'NORMAL', 'LOW'], {
+    required_error: 'Please choose a priority.',
+  }),
+})
+
+export type WaitlistFormValues = z.infer<typeof waitlistFormBaseSchema>
+
+// A waitlisted party has to be bookable once seats free up, so it follows
+// the same party size rules as a booking
+export function createWaitlistFormSchema(pricing: PricingConfig | undefined) {
+  return waitlistFormBaseSchema.superRefine(refinePartySize(pricing))
+}
+
+// Lookups an imported row is checked against
+export interface BookingImportContext {
+  venues: Venue[]
+  promoters: Promoter[]
+  // Keyed by venue id, then booking date; a missing entry means the venue
+  // has no pricing in force that day
+  pricingByVenue: Record<string, Record<string, PricingConfig | undefined>>
+}
+
+/**
+ * Validates one mapped CSV row. Rows arrive as strings, so the booking type
+ * is normalized ("non-prime" -> NON_PRIME) and the date must be ISO.
+ */
+export function createBookingImportRowSchema(context: BookingImportContext) {
+  return bookingFormBaseSchema
+    .extend({
+      bookingDate: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format.'),
+      type: z.preprocess(
+        (value) => typeof value === 'string'
+          ? value.trim().toUpperCase().replace(/[\s-]/g, '_')
+          : value,
+        z.enum(['PRIME', 'NON_PRIME'], {
+          errorMap: () => ({ message: 'Type must be PRIME or NON_PRIME.' }),
+        })
+      ),
+      notes: z.string().optional().transform(value => value || undefined),
+    })
+    .superRefine((values, ctx) => {
+      if (!context.venues.some(venue => venue.id === values.venueId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['venueId'],
+          message: `Unknown venue "${values.venueId}".`,
+        })
+        return
+      }
+
+      const promoter = context.promoters.find(p => p.id === values.promoterId)
+      if (!promoter) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['promoterId'],
+          message: `Unknown promoter "${values.promoterId}".`,
+        })
+      } else if (!promoter.venueAccess.includes(values.venueId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['promoterId'],
+          message: 'Promoter does not have access to this venue.',
+        })
+      }
+
+      const violation = getPricingViolation(
+        values.partySize,
+        context.pricingByVenue[values.venueId]?.[values.bookingDate]
+      )
+      if (violation) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['partySize'],
+          message: violation,
+        })
+      }
+    })
+}
@@ -0,0 +1,29 @@
+// Conflict lookup for a single booking
+// Based on RFC-005: Booking Management System
+
+import { useMemo } from 'react'
+import { getConflictsForBooking } from '@/lib/bookings/booking-conflicts'
+import { useGetBookingConflictsQuery } from '@/lib/store/api'
+import type { Booking } from '@/types/data'
+
+/**
+ * Conflicts are only ever between bookings on the same night at the same
+ * venue, so the query is scoped to that. Rows sharing a night share one
+ * cached request.
+ */
+export function useBookingConflicts(
+  booking: Pick<Booking, 'id' | 'venueId' | 'bookingDate'> | undefined
+) {
+  const { data } = useGetBookingConflictsQuery(
+    {
+      venueId: booking?.venueId,
+      dateRange: booking && { from: booking.bookingDate, to: booking.bookingDate },
+    },
+    { skip: !booking }
+  )
+
+  return useMemo(
+    () => (booking && data ? getConflictsForBooking(data, booking.id) : []),
+    [booking, data]
+  )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+// Export of every booking matching the current filters
+// Based on RFC-005: Booking Management System
+
+import { useCallback, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  buildBookingExport,
+  createBookingExportFile,
+  downloadBlob,
+  type BookingExportFormat,
+} from '@/lib/bookings/booking-export'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { useLazyGetAllPromotersQuery, useLazyGetBookingsQuery } from '@/lib/store/api'
+import type { Booking, BookingQueryParams } from '@/types/data'
+
+// Large pages keep the number of round trips down without one huge response
+const EXPORT_PAGE_SIZE = 100
+
+export interface BookingExportProgress {
+  loaded: number
+  total: number
+}
+
+export function useBookingExport() {
+  const { getDataAccessLevel } = useAuth()
+  const { availableVenues } = useVenueContext()
+  const [fetchBookings] = useLazyGetBookingsQuery()
+  const [fetchPromoters] = useLazyGetAllPromotersQuery()
+  const [progress, setProgress] = useState<BookingExportProgress | null>(null)
+
+  const exportBookings = useCallback(async (
+    params: BookingQueryParams,
+    columnIds: string[],
+    fileFormat: BookingExportFormat
+  ) => {
+    try {
+      setProgress({ loaded: 0, total: 0 })
+
+      // The first page tells us how many more to fetch; the rest go in parallel
+      const fetchPage = (page: number) =>
+        fetchBookings({ ...params, page, limit: EXPORT_PAGE_SIZE }).unwrap()
+      const first = await fetchPage(1)
+      const { total, totalPages } = first.pagination
+      let loaded = first.data.length
+      setProgress({ loaded, total })
+
+      const remaining = await Promise.all(
+        Array.from({ length: Math.max(totalPages - 1, 0) }, (_, i) =>
+          fetchPage(i + 2).then(result => {
+            loaded += result.data.length
+            setProgress({ loaded, total })
+            return result.data
+          })
+        )
+      )
+      const bookings: Booking[] = [...first.data, ...remaining.flat()]
+
+      // Every promoter, so bookings from any of them are exported by name
+      const promoters = await fetchPromoters({}, true).unwrap()
+
+      const { header, rows } = buildBookingExport(bookings, columnIds, getDataAccessLevel(), {
+        venueNames: Object.fromEntries(availableVenues.map(v => [v.id, v.name])),
+        promoterNames: Object.fromEntries(
+          promoters.map(p => [p.id, `${p.firstName} ${p.lastName}`])
+        ),
+      })
+
+      const blob = await createBookingExportFile(fileFormat, header, rows)
+      downloadBlob(blob, `bookings-${format(new Date(), 'yyyy-MM-dd-HHmm')}.${fileFormat}`)
+
+      return bookings.length
+    } finally {
+      setProgress(null)
+    }
+  }, [fetchBookings, fetchPromoters, getDataAccessLevel, availableVenues])
+
+  return { exportBookings, progress, isExporting: progress !== null }
+}
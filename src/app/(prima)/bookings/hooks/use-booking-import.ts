@@ -0,0 +1,97 @@
+'use client'
+
+// Validation of mapped CSV rows before a booking import
+// Based on RFC-005: Booking Management System
+
+import { useCallback, useState } from 'react'
+import {
+  applyMapping,
+  BOOKING_IMPORT_FIELDS,
+  type BookingImportMapping,
+} from '@/lib/bookings/booking-import'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { useLazyGetAllPromotersQuery, useLazyGetPricingConfigQuery } from '@/lib/store/api'
+import type { BookingInput, PricingConfig } from '@/types/data'
+import { type BookingImportContext, createBookingImportRowSchema } from '../data/schema'
+
+export interface BookingImportRow {
+  // 1-based line in the CSV file, counting the header
+  line: number
+  values: ReturnType<typeof applyMapping>
+  // Present only when the row passed validation
+  booking?: BookingInput
+  errors: string[]
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const fieldLabels = Object.fromEntries(
+  BOOKING_IMPORT_FIELDS.map(({ field, label }) => [field, label])
+)
+
+export function useBookingImportValidation() {
+  const { availableVenues } = useVenueContext()
+  const [fetchPricing] = useLazyGetPricingConfigQuery()
+  const [fetchPromoters] = useLazyGetAllPromotersQuery()
+  const [isValidating, setIsValidating] = useState(false)
+
+  const validateRows = useCallback(async (
+    dataRows: string[][],
+    mapping: BookingImportMapping
+  ): Promise<BookingImportRow[]> => {
+    setIsValidating(true)
+
+    try {
+      const mapped = dataRows.map(row => applyMapping(row, mapping))
+      // Each row is priced from the config in force on its own date
+      const pricingKeys = Array.from(new Set(
+        mapped
+          .filter(({ venueId, bookingDate }) => venueId && bookingDate && ISO_DATE.test(bookingDate))
+          .map(({ venueId, bookingDate }) => `${venueId}|${bookingDate}`)
+      ))
+
+      // A venue without pricing that day responds 404; treat that as "no pricing"
+      const [promoters, ...pricing] = await Promise.all([
+        fetchPromoters({}, true).unwrap(),
+        ...pricingKeys.map(key => {
+          const [venueId, date] = key.split('|')
+          return fetchPricing({ venueId, date }, true).unwrap().catch((): PricingConfig | undefined => undefined)
+        }),
+      ])
+
+      const pricingByVenue: BookingImportContext['pricingByVenue'] = {}
+      pricingKeys.forEach((key, i) => {
+        const [venueId, date] = key.split('|')
+        pricingByVenue[venueId] = { ...pricingByVenue[venueId], [date]: pricing[i] }
+      })
+
+      const schema = createBookingImportRowSchema({
+        venues: availableVenues,
+        promoters,
+        pricingByVenue,
+      })
+
+      return mapped.map((values, i) => {
+        const result = schema.safeParse(values)
+        const line = i + 2
+
+        if (result.success) {
+          return { line, values, booking: result.data, errors: [] }
+        }
+
+        return {
+          line,
+          values,
+          errors: result.error.issues.map(issue => {
+            const field = issue.path[0]
+            return field ? `${fieldLabels[field] ?? field}: ${issue.message}` : issue.message
+          }),
+        }
+      })
+    } finally {
+      setIsValidating(false)
+    }
+  }, [availableVenues, fetchPricing, fetchPromoters])
+
+  return { validateRows, isValidating }
+}
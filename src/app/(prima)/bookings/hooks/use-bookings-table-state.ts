@@ -0,0 +1,170 @@
+'use client'
+
+// URL-synced table state for the PRIMA bookings table
+// Based on RFC-005: Booking Management System
+
+import { useCallback, useMemo } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import type {
+  ColumnFiltersState,
+  PaginationState,
+  SortingState,
+} from '@tanstack/react-table'
+import { useAuth } from '@/lib/auth/auth-context'
+import type { UserRoleId } from '@/types/auth'
+import type {
+  Booking,
+  BookingQueryParams,
+  BookingStatus,
+  BookingType,
+  NoShowRiskLevel,
+} from '@/types/data'
+import { bookingPageSizes } from '../data/data'
+
+const DEFAULT_PAGE_SIZE = bookingPageSizes[0]
+
+// Reconfirming a risky booking goes through its promoter, so the risk filter
+// is for the roles that manage promoters as well as bookings
+const RISK_FILTER_ROLES: UserRoleId[] = ['ADMIN', 'MANAGER']
+
+// Query string keys owned by the bookings table. Anything else in the URL
+// (e.g. the `venue` param written by VenueContext) is left untouched.
+const PARAM_KEYS = {
+  status: 'status',
+  type: 'type',
+  risk: 'risk',
+  search: 'q',
+  from: 'from',
+  to: 'to',
+  page: 'page',
+  size: 'size',
+  sort: 'sort',
+} as const
+
+export interface BookingsTableState {
+  sorting: SortingState
+  columnFilters: ColumnFiltersState
+  pagination: PaginationState
+  search: string
+  dateRange: { from: string; to: string } | undefined
+}
+
+function readState(searchParams: URLSearchParams, canFilterRisk: boolean): BookingsTableState {
+  const status = searchParams.getAll(PARAM_KEYS.status)
+  const type = searchParams.getAll(PARAM_KEYS.type)
+  const risk = searchParams.getAll(PARAM_KEYS.risk)
+  const from = searchParams.get(PARAM_KEYS.from)
+  const to = searchParams.get(PARAM_KEYS.to)
+  const page = parseInt(searchParams.get(PARAM_KEYS.page) || '1')
+  const size = parseInt(searchParams.get(PARAM_KEYS.size) || `${DEFAULT_PAGE_SIZE}`)
+  const sort = searchParams.get(PARAM_KEYS.sort)
+
+  const columnFilters: ColumnFiltersState = []
+  if (status.length > 0) columnFilters.push({ id: 'status', value: status })
+  if (type.length > 0) columnFilters.push({ id: 'type', value: type })
+  // A shared link can carry a risk filter the viewer has no control for
+  if (canFilterRisk && risk.length > 0) columnFilters.push({ id: 'risk', value: risk })
+
+  const sorting: SortingState = []
+  if (sort) {
+    const [id, order] = sort.split('.')
+    sorting.push({ id, desc: order === 'desc' })
+  }
+
+  return {
+    sorting,
+    columnFilters,
+    pagination: {
+      pageIndex: Number.isNaN(page) || page < 1 ? 0 : page - 1,
+      pageSize: bookingPageSizes.includes(size) ? size : DEFAULT_PAGE_SIZE,
+    },
+    search: searchParams.get(PARAM_KEYS.search) || '',
+    dateRange: from && to ? { from, to } : undefined,
+  }
+}
+
+function writeState(searchParams: URLSearchParams, state: BookingsTableState) {
+  const params = new URLSearchParams(searchParams.toString())
+  Object.values(PARAM_KEYS).forEach(key => params.delete(key))
+
+  state.columnFilters.forEach(filter => {
+    if (filter.id === 'status' || filter.id === 'type' || filter.id === 'risk') {
+      (filter.value as string[]).forEach(value => params.append(filter.id, value))
+    }
+  })
+  if (state.search) params.set(PARAM_KEYS.search, state.search)
+  if (state.dateRange) {
+    params.set(PARAM_KEYS.from, state.dateRange.from)
+    params.set(PARAM_KEYS.to, state.dateRange.to)
+  }
+  if (state.pagination.pageIndex > 0) {
+    params.set(PARAM_KEYS.page, `${state.pagination.pageIndex + 1}`)
+  }
+  if (state.pagination.pageSize !== DEFAULT_PAGE_SIZE) {
+    params.set(PARAM_KEYS.size, `${state.pagination.pageSize}`)
+  }
+  if (state.sorting.length > 0) {
+    const [{ id, desc }] = state.sorting
+    params.set(PARAM_KEYS.sort, `${id}.${desc ? 'desc' : 'asc'}`)
+  }
+
+  return params
+}
+
+/**
+ * Keeps the bookings table's sorting, faceted filters, search, date range and
+ * pagination in the query string so filtered views survive reloads and can be
+ * shared between coordinators.
+ */
+export function useBookingsTableState() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { user, hasPermission } = useAuth()
+  const canFilterRisk = !!user && hasPermission('READ_BOOKINGS') && RISK_FILTER_ROLES.includes(user.role)
+
+  const state = useMemo(
+    () => readState(new URLSearchParams(searchParams.toString()), canFilterRisk),
+    [searchParams, canFilterRisk]
+  )
+
+  const setState = useCallback((updates: Partial<BookingsTableState>) => {
+    const next = { ...state, ...updates }
+
+    // Changing filters or sort order sends the user back to the first page
+    const filtersChanged =
+      'columnFilters' in updates ||
+      'search' in updates ||
+      'dateRange' in updates ||
+      'sorting' in updates
+    if (filtersChanged && !('pagination' in updates)) {
+      next.pagination = { ...next.pagination, pageIndex: 0 }
+    }
+
+    const params = writeState(new URLSearchParams(searchParams.toString()), next)
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }, [state, searchParams, router, pathname])
+
+  // Translate table state into getBookings query arguments
+  const queryParams = useMemo((): BookingQueryParams => {
+    const statusFilter = state.columnFilters.find(f => f.id === 'status')
+    const typeFilter = state.columnFilters.find(f => f.id === 'type')
+    const riskFilter = state.columnFilters.find(f => f.id === 'risk')
+    const [sort] = state.sorting
+
+    return {
+      status: statusFilter?.value as BookingStatus[] | undefined,
+      type: typeFilter?.value as BookingType[] | undefined,
+      risk: riskFilter?.value as NoShowRiskLevel[] | undefined,
+      search: state.search || undefined,
+      dateRange: state.dateRange,
+      page: state.pagination.pageIndex + 1,
+      limit: state.pagination.pageSize,
+      sortBy: sort?.id as keyof Booking | undefined,
+      sortOrder: sort ? (sort.desc ? 'desc' : 'asc') : undefined,
+    }
+  }, [state])
+
+  return { state, setState, queryParams, canFilterRisk }
+}
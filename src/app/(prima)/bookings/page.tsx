@@ -1,38 +1,34 @@
 // PRIMA Bookings Management Page
-// Based on RFC-001: Authentication & Base Infrastructure
-// This is a placeholder - will be fully implemented in RFC-005
+// Based on RFC-005: Booking Management System
 
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import Link from 'next/link'
+import { CalendarDays } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { BookingsPrimaryActions } from './components/bookings-primary-actions'
+import { BookingsTable } from './components/bookings-table'
 
 export default function BookingsPage() {
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">Booking Management</h1>
-        <p className="text-muted-foreground">
-          Comprehensive booking CRUD with status management.
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Booking Management</h1>
+          <p className="text-muted-foreground">
+            Review, filter and work the booking queue for your venues.
+          </p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" className="font-semibold" asChild>
+            <Link href="/bookings/calendar">
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Calendar
+            </Link>
+          </Button>
+          <BookingsPrimaryActions />
+        </div>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>RFC-005: Booking Management System</CardTitle>
-          <CardDescription>
-            This module will be implemented in RFC-005 with advanced data table, 
-            status management, filtering, search, and bulk operations.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-2 text-sm text-muted-foreground">
-            <p>• Advanced data table with TanStack Table and virtual scrolling</p>
-            <p>• Status management with optimistic updates</p>
-            <p>• Comprehensive filtering (venue, status, date range, promoter, guest)</p>
-            <p>• Bulk operations for status updates and exports</p>
-            <p>• Real-time updates with conflict resolution</p>
-            <p>• Role-based data masking for PII protection</p>
-          </div>
-        </CardContent>
-      </Card>
+      <BookingsTable />
     </div>
   )
 }
@@ -0,0 +1,89 @@
+'use client'
+
+// Guest notes for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { useAuth } from '@/lib/auth/auth-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useAddGuestNoteMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import type { GuestNote } from '@/types/data'
+
+interface Props {
+  guestId: string
+  notes: GuestNote[]
+}
+
+export function GuestNotes({ guestId, notes }: Props) {
+  const { hasPermission } = useAuth()
+  const [addNote, { isLoading: isAdding }] = useAddGuestNoteMutation()
+  const [note, setNote] = useState('')
+
+  const handleAddNote = async () => {
+    try {
+      await addNote({ id: guestId, note }).unwrap()
+      setNote('')
+    } catch (error) {
+      toast({
+        title: 'Could not add note',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Notes</CardTitle>
+        <CardDescription>Guest notes and notes left on their bookings, newest first.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {hasPermission('WRITE_BOOKINGS') && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Preferences, allergies, regular table…"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              className="min-h-[72px]"
+            />
+            <div className="flex justify-end">
+              <Button size="sm" disabled={!note.trim() || isAdding} onClick={handleAddNote}>
+                {isAdding ? 'Adding…' : 'Add note'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {notes.length > 0 ? (
+          <ul className="space-y-3">
+            {notes.map(item => (
+              <li key={item.id} className="space-y-1 text-sm">
+                <p className="whitespace-pre-wrap rounded-md bg-muted px-3 py-2">{item.note}</p>
+                <p className="text-muted-foreground">
+                  {item.authorName ?? 'Booking note'} • {format(new Date(item.createdAt), 'MMM dd, yyyy HH:mm')}
+                  {item.bookingId && (
+                    <>
+                      {' • '}
+                      <Link href={`/bookings/${item.bookingId}`} className="hover:text-primary hover:underline">
+                        {item.bookingId}
+                      </Link>
+                    </>
+                  )}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No notes yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
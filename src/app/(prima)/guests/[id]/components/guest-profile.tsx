@@ -0,0 +1,220 @@
+'use client'
+
+// Guest Profile Component for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { ArrowLeft, Mail, Phone } from 'lucide-react'
+import { getBookingAmount } from '@/lib/bookings/booking-amounts'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { useGetGuestQuery, useGetPromoterQuery } from '@/lib/store/api'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  BookingStatusBadge,
+  BookingTypeBadge,
+} from '@/components/prima/booking-status-badge'
+import { NoShowRiskBadge } from '@/components/prima/no-show-risk-badge'
+import { GuestVipBadge } from '../../components/guest-vip-badge'
+import { GuestNotes } from './guest-notes'
+
+interface Props {
+  id: string
+}
+
+function StatCard({ label, value, hint }: { label: string; value: React.ReactNode; hint?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{label}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{value}</div>
+        {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function GuestProfile({ id }: Props) {
+  const { availableVenues } = useVenueContext()
+  const { maskBooking, maskGuest, formatAmount } = useDataMasking()
+  const { data, isLoading, isError } = useGetGuestQuery(id)
+  const guest = data && maskGuest(data)
+  const { data: promoter } = useGetPromoterQuery(guest?.preferredPromoterId ?? '', {
+    skip: !guest?.preferredPromoterId,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <div className="grid gap-4 md:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-28 w-full" />
+          ))}
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    )
+  }
+
+  if (isError || !guest) {
+    return (
+      <div className="space-y-4 text-center py-12">
+        <p className="text-muted-foreground">Guest not found.</p>
+        <Button variant="outline" asChild>
+          <Link href="/guests">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to guests
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const getVenueName = (venueId: string) =>
+    availableVenues.find(v => v.id === venueId)?.name ?? venueId
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <Button variant="ghost" size="sm" className="-ml-3" asChild>
+          <Link href="/guests">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Guests
+          </Link>
+        </Button>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-bold tracking-tight">{guest.name}</h1>
+          {guest.isVip && <GuestVipBadge />}
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Mail className="h-4 w-4" />
+            {guest.email}
+          </span>
+          <span className="flex items-center gap-1">
+            <Phone className="h-4 w-4" />
+            {guest.phone}
+          </span>
+          <span>Guest since {format(parseISO(guest.firstBookingDate), 'MMM yyyy')}</span>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          label="Visits"
+          value={guest.visits}
+          hint={`${guest.bookingCount} booking(s) • avg party of ${guest.averagePartySize.toFixed(1)}`}
+        />
+        <StatCard label="Lifetime spend" value={formatAmount(guest.lifetimeSpend)} />
+        <StatCard
+          label="No-shows"
+          value={guest.noShows}
+          hint={`${guest.cancellations} cancellation(s)`}
+        />
+        <StatCard
+          label="Last visit"
+          value={guest.lastVisitDate ? format(parseISO(guest.lastVisitDate), 'MMM dd, yyyy') : '—'}
+          hint={guest.nextBookingDate
+            ? `Next booking ${format(parseISO(guest.nextBookingDate), 'MMM dd, yyyy')}`
+            : undefined}
+        />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="space-y-4 lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold">Bookings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Venue</TableHead>
+                    <TableHead>Party</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {guest.bookings.map(maskBooking).map(booking => (
+                    <TableRow key={booking.id}>
+                      <TableCell className="whitespace-nowrap">
+                        <Link
+                          href={`/bookings/${booking.id}`}
+                          className="font-medium hover:text-primary hover:underline"
+                        >
+                          {format(parseISO(booking.bookingDate), 'MMM dd, yyyy')}
+                        </Link>
+                        <span className="text-muted-foreground"> {booking.bookingTime}</span>
+                      </TableCell>
+                      <TableCell>{getVenueName(booking.venueId)}</TableCell>
+                      <TableCell>{booking.partySize}</TableCell>
+                      <TableCell>
+                        <BookingTypeBadge type={booking.type} />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <BookingStatusBadge status={booking.status} />
+                          <NoShowRiskBadge risk={booking.noShowRisk} />
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatAmount(getBookingAmount(booking))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold">Regular at</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex flex-wrap gap-2">
+                {guest.venueIds.map(venueId => (
+                  <Badge key={venueId} variant="secondary">{getVenueName(venueId)}</Badge>
+                ))}
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-muted-foreground">Preferred promoter</span>
+                <span className="font-medium text-right">
+                  {guest.preferredPromoterId
+                    ? promoter
+                      ? `${promoter.firstName} ${promoter.lastName}`
+                      : guest.preferredPromoterId
+                    : '—'}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <GuestNotes guestId={guest.id} notes={guest.notes} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+// PRIMA Guest Profile Page
+// Based on RFC-005: Booking Management System
+
+import { GuestProfile } from './components/guest-profile'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+export default async function GuestProfilePage({ params }: Props) {
+  const id = (await params).id
+
+  return <GuestProfile id={id} />
+}
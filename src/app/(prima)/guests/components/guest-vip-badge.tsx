@@ -0,0 +1,20 @@
+'use client'
+
+// VIP marker for PRIMA guests
+// Based on RFC-005: Booking Management System
+
+import { Crown } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+
+export function GuestVipBadge({ className }: { className?: string }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn('border-amber-500/40 bg-amber-500/10 text-amber-700 dark:text-amber-400', className)}
+    >
+      <Crown className="mr-1 h-3 w-3" />
+      VIP
+    </Badge>
+  )
+}
@@ -0,0 +1,231 @@
+'use client'
+
+// Guests Table Component for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { useGetGuestsQuery, useGetPromoterQuery } from '@/lib/store/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Switch } from '@/components/ui/switch'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { Guest } from '@/types/data'
+import { GuestVipBadge } from './guest-vip-badge'
+
+const PAGE_SIZE = 20
+const SEARCH_DEBOUNCE_MS = 300
+
+const sortOptions: { value: keyof Guest; label: string; financial?: boolean }[] = [
+  { value: 'visits', label: 'Most visits' },
+  { value: 'lifetimeSpend', label: 'Highest spend', financial: true },
+  { value: 'lastVisitDate', label: 'Latest visit' },
+  { value: 'bookingCount', label: 'Most bookings' },
+  { value: 'noShows', label: 'Most no-shows' },
+]
+
+function PromoterName({ promoterId }: { promoterId: string }) {
+  const { data: promoter, isLoading } = useGetPromoterQuery(promoterId)
+
+  if (isLoading) return <Skeleton className="h-4 w-24" />
+
+  return <>{promoter ? `${promoter.firstName} ${promoter.lastName}` : promoterId}</>
+}
+
+export function GuestsTable() {
+  const { selectedVenueId, isPortfolioView, availableVenues } = useVenueContext()
+  const { canViewFinancials, maskGuest, formatAmount } = useDataMasking()
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [vipOnly, setVipOnly] = useState(false)
+  const [sortBy, setSortBy] = useState<keyof Guest>('visits')
+  const [page, setPage] = useState(1)
+
+  const venueId = isPortfolioView ? undefined : selectedVenueId || undefined
+
+  // Debounce search so every keystroke doesn't trigger a request
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  // Any change to what's listed starts again from page one
+  useEffect(() => {
+    setPage(1)
+  }, [venueId, search, vipOnly, sortBy])
+
+  const { data, isLoading, isFetching, isError } = useGetGuestsQuery({
+    venueId,
+    search: search || undefined,
+    vipOnly,
+    sortBy,
+    sortOrder: 'desc',
+    page,
+    limit: PAGE_SIZE,
+  })
+
+  const totalPages = data?.pagination.totalPages ?? 1
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Input
+          placeholder="Search guest name, email or phone..."
+          value={searchInput}
+          onChange={(event) => setSearchInput(event.target.value)}
+          className="h-8 w-[200px] lg:w-[300px]"
+        />
+        <div className="flex items-center space-x-2">
+          <Switch id="guests-vip-only" checked={vipOnly} onCheckedChange={setVipOnly} />
+          <Label htmlFor="guests-vip-only" className="font-normal">VIP only</Label>
+        </div>
+        <Select value={sortBy} onValueChange={(value) => setSortBy(value as keyof Guest)}>
+          <SelectTrigger className="h-8 w-[160px] sm:ml-auto">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions
+              // Ordering by spend would reveal it
+              .filter(option => canViewFinancials || !option.financial)
+              .map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Guest</TableHead>
+              <TableHead className="text-right">Visits</TableHead>
+              <TableHead className="text-right">No-shows</TableHead>
+              <TableHead className="text-right">Lifetime spend</TableHead>
+              <TableHead>Venues</TableHead>
+              <TableHead>Last visit</TableHead>
+              <TableHead>Preferred promoter</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody className={isFetching && !isLoading ? 'opacity-60' : undefined}>
+            {isLoading ? (
+              [...Array(5)].map((_, i) => (
+                <TableRow key={i}>
+                  {[...Array(7)].map((_, j) => (
+                    <TableCell key={j}>
+                      <Skeleton className="h-4 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : isError ? (
+              <TableRow>
+                <TableCell colSpan={7} className="h-24 text-center text-destructive">
+                  <AlertCircle className="h-5 w-5 mx-auto mb-1" />
+                  Failed to load guests.
+                </TableCell>
+              </TableRow>
+            ) : data && data.data.length > 0 ? (
+              data.data.map(maskGuest).map((guest) => (
+                <TableRow key={guest.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Link
+                        href={`/guests/${guest.id}`}
+                        className="font-medium hover:text-primary hover:underline"
+                      >
+                        {guest.name}
+                      </Link>
+                      {guest.isVip && <GuestVipBadge />}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{guest.email}</div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {guest.visits}
+                    <span className="text-muted-foreground"> / {guest.bookingCount}</span>
+                  </TableCell>
+                  <TableCell className="text-right">{guest.noShows}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatAmount(guest.lifetimeSpend)}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {guest.venueIds
+                      .map(id => availableVenues.find(v => v.id === id)?.name ?? id)
+                      .join(', ')}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {guest.lastVisitDate
+                      ? format(parseISO(guest.lastVisitDate), 'MMM dd, yyyy')
+                      : '—'}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {guest.preferredPromoterId
+                      ? <PromoterName promoterId={guest.preferredPromoterId} />
+                      : '—'}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={7} className="h-24 text-center">
+                  No guests match the current filters.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between px-2 text-sm">
+        <span className="text-muted-foreground">
+          {data?.pagination.total ?? 0} guest(s)
+        </span>
+        <div className="flex items-center gap-2">
+          <span>
+            Page {page} of {Math.max(totalPages, 1)}
+          </span>
+          <Button
+            variant="outline"
+            className="h-8 w-8 p-0"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+          >
+            <span className="sr-only">Go to previous page</span>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            className="h-8 w-8 p-0"
+            disabled={page >= totalPages}
+            onClick={() => setPage(page + 1)}
+          >
+            <span className="sr-only">Go to next page</span>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
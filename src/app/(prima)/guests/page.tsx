@@ -0,0 +1,19 @@
+// PRIMA Guests Page
+// Based on RFC-005: Booking Management System
+
+import { GuestsTable } from './components/guests-table'
+
+export default function GuestsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Guests</h1>
+        <p className="text-muted-foreground">
+          Every guest across your venues, built from their booking history.
+        </p>
+      </div>
+
+      <GuestsTable />
+    </div>
+  )
+}
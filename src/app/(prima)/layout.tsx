@@ -3,6 +3,7 @@
 
 import { Suspense } from 'react'
 import { ProtectedRoute } from '@/lib/auth/protected-route'
+import { STAFF_ROLE_IDS } from '@/lib/auth/demo-data'
 import { PrimaLayoutShell } from '@/components/prima/layout-shell'
 import { VenueContextProvider } from '@/lib/contexts/venue-context'
 import { ErrorBoundary } from '@/components/error-boundary'
@@ -13,7 +14,7 @@ interface PrimaLayoutProps {
 
 export default function PrimaLayout({ children }: PrimaLayoutProps) {
   return (
-    <ProtectedRoute>
+    <ProtectedRoute allowedRoles={STAFF_ROLE_IDS}>
       <ErrorBoundary>
         <VenueContextProvider>
           <PrimaLayoutShell>
@@ -0,0 +1,202 @@
+'use client'
+
+// Dynamic pricing rule-precedence preview for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { quoteBooking } from '@/lib/bookings/booking-quote'
+import {
+  applyPriceMultiplier,
+  formatMultiplier,
+  resolvePriceMultiplier,
+} from '@/lib/pricing/dynamic-pricing'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { getApiError } from '@/lib/store/api-error'
+import { useGetPriceResolutionQuery, useGetPricingConfigQuery } from '@/lib/store/api'
+import { cn } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import type { BookingType, DynamicPricingRulesInput, PriceRuleKind } from '@/types/data'
+
+interface Props {
+  venueId: string
+  // Undefined while the form holds rules that can't be applied
+  rules: DynamicPricingRulesInput | undefined
+}
+
+const ruleKindLabels: Record<PriceRuleKind, string> = {
+  DATE_OVERRIDE: 'Holiday / event',
+  DAY_OF_WEEK: 'Day of week',
+  TIME_WINDOW: 'Time window',
+  SURGE: 'Demand surge',
+  CAP: 'Cap',
+}
+
+export function DynamicPricingPreview({ venueId, rules }: Props) {
+  const { formatAmount } = useDataMasking()
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  const [time, setTime] = useState('20:00')
+  const [partySize, setPartySize] = useState(4)
+  const [type, setType] = useState<BookingType>('PRIME')
+  const hasSlot = Boolean(date && time)
+
+  const { data: pricing, error: pricingError } = useGetPricingConfigQuery(
+    { venueId, date },
+    { skip: !date }
+  )
+  // Only the current demand is taken from the server; the draft rules are applied here
+  const { data: resolution } = useGetPriceResolutionQuery({ venueId, date, time }, { skip: !hasSlot })
+  const { multiplier, steps } = resolvePriceMultiplier(rules, {
+    date,
+    time,
+    occupancy: resolution?.occupancy ?? 0,
+  })
+
+  const base = pricing && quoteBooking({ type, partySize }, pricing, undefined)
+  const resolved =
+    pricing && quoteBooking({ type, partySize }, applyPriceMultiplier(pricing, multiplier), undefined)
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1">
+            <CardTitle className="text-lg font-semibold">Resolved price</CardTitle>
+            <CardDescription>How the rules above combine for one booking.</CardDescription>
+          </div>
+          <Tabs value={type} onValueChange={(value) => setType(value as BookingType)}>
+            <TabsList>
+              <TabsTrigger value="PRIME">Prime</TabsTrigger>
+              <TabsTrigger value="NON_PRIME">Non-Prime</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="dynamic-preview-date" className="text-xs text-muted-foreground">Date</Label>
+            <Input id="dynamic-preview-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dynamic-preview-time" className="text-xs text-muted-foreground">Time</Label>
+            <Input id="dynamic-preview-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dynamic-preview-party" className="text-xs text-muted-foreground">Party</Label>
+            <Input
+              id="dynamic-preview-party"
+              type="number"
+              min={1}
+              value={partySize}
+              onChange={(e) => setPartySize(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!rules ? (
+          <p className="text-sm text-muted-foreground">Fix the highlighted rules to see a preview.</p>
+        ) : !hasSlot ? (
+          <p className="text-sm text-muted-foreground">Pick a date and time.</p>
+        ) : pricingError ? (
+          <p className="text-sm text-muted-foreground">
+            {getApiError(pricingError).code === 'HTTP_404'
+              ? 'This venue has no pricing in force on that date.'
+              : 'Failed to load pricing for that date.'}
+          </p>
+        ) : !base || !resolved ? (
+          <p className="text-sm text-muted-foreground">Loading pricing…</p>
+        ) : (
+          <>
+            {resolution && (
+              <p className="text-sm text-muted-foreground">
+                {`${resolution.seatedGuests} of ${resolution.capacity} seats booked at ${time} `}
+                {`(${Math.round(resolution.occupancy * 100)}%)`}
+              </p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead className="text-right">Multiplier</TableHead>
+                  <TableHead className="text-right">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell>
+                    <div className="font-medium">Base pricing</div>
+                    <div className="text-xs text-muted-foreground">In force on this date</div>
+                  </TableCell>
+                  <TableCell className="text-right">{formatMultiplier(1)}</TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant="secondary">Applied</Badge>
+                  </TableCell>
+                </TableRow>
+                {steps.map(step => (
+                  <TableRow key={step.kind} className={cn(!step.applied && 'text-muted-foreground')}>
+                    <TableCell>
+                      <div className={cn('font-medium', !step.applied && 'line-through')}>{step.label}</div>
+                      <div className="text-xs text-muted-foreground">{ruleKindLabels[step.kind]}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatMultiplier(step.multiplier)}</TableCell>
+                    <TableCell className="text-right">
+                      {step.applied ? (
+                        <Badge variant="secondary">Applied</Badge>
+                      ) : (
+                        <Badge variant="outline">Overridden</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {!rules.isActive && (
+              <p className="text-sm text-muted-foreground">
+                Dynamic pricing is off, so bookings pay the base price.
+              </p>
+            )}
+            <Separator />
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Base guest total</span>
+                <span>{formatAmount(base.amount)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Guest total ({formatMultiplier(multiplier)})</span>
+                <span>{formatAmount(resolved.amount)}</span>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>Per guest</span>
+                <span>{formatAmount(resolved.amount / partySize)}</span>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>Platform fee</span>
+                <span>{formatAmount(resolved.platformFee)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Net to venue</span>
+                <span>{formatAmount(resolved.netToVenue)}</span>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Party size limits still come from the base pricing. Promoter commission is deducted from the net.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,316 @@
+'use client'
+
+// Dynamic pricing rules editor for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { useFieldArray, useForm, useWatch, type FieldPath } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { AlertCircle, Plus, Trash2, TrendingUp } from 'lucide-react'
+import {
+  DAY_OF_WEEK_LABELS,
+  MAX_PRICE_MULTIPLIER,
+  MIN_PRICE_MULTIPLIER,
+} from '@/lib/pricing/dynamic-pricing'
+import { useAuth } from '@/lib/auth/auth-context'
+import { getApiError } from '@/lib/store/api-error'
+import {
+  useGetDynamicPricingRulesQuery,
+  useUpdateDynamicPricingRulesMutation,
+} from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Switch } from '@/components/ui/switch'
+import type { DynamicPricingRules, Venue } from '@/types/data'
+import { dynamicPricingFormSchema, type DynamicPricingFormValues } from '../data/schema'
+import { DynamicPricingPreview } from './dynamic-pricing-preview'
+
+type RulesForm = ReturnType<typeof useForm<DynamicPricingFormValues>>
+
+function toFormValues(rules: DynamicPricingRules): DynamicPricingFormValues {
+  return {
+    isActive: rules.isActive,
+    dayOfWeekMultipliers: rules.dayOfWeekMultipliers,
+    timeWindows: rules.timeWindows,
+    dateOverrides: rules.dateOverrides,
+    surgeTiers: rules.surgeTiers,
+    maxMultiplier: rules.maxMultiplier,
+  }
+}
+
+function RuleInput({
+  form,
+  name,
+  label,
+  type = 'number',
+  step,
+  className,
+}: {
+  form: RulesForm
+  name: FieldPath<DynamicPricingFormValues>
+  label: string
+  type?: 'number' | 'text' | 'time' | 'date'
+  step?: number
+  className?: string
+}) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className={className ?? 'space-y-1'}>
+          <FormLabel className="text-xs text-muted-foreground">{label}</FormLabel>
+          <FormControl>
+            <Input
+              {...field}
+              value={field.value as string | number}
+              type={type}
+              step={step ?? (type === 'number' ? 0.05 : undefined)}
+              inputMode={type === 'number' ? 'decimal' : undefined}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+function RemoveButton({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <Button type="button" variant="ghost" size="icon" className="mt-5 h-9 w-9 shrink-0" onClick={onClick}>
+      <Trash2 className="h-4 w-4" />
+      <span className="sr-only">{label}</span>
+    </Button>
+  )
+}
+
+function SectionHeader({ title, description, onAdd }: { title: string; description: string; onAdd: () => void }) {
+  return (
+    <div className="flex items-start justify-between gap-2">
+      <div>
+        <div className="text-sm font-medium">{title}</div>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+      <Button type="button" size="sm" variant="outline" className="h-8 shrink-0" onClick={onAdd}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add
+      </Button>
+    </div>
+  )
+}
+
+function DynamicPricingForm({ venue, rules }: { venue: Venue; rules: DynamicPricingRules }) {
+  const { hasPermission } = useAuth()
+  const canEdit = hasPermission('WRITE_PRICING')
+  const [updateRules, { isLoading: isSaving }] = useUpdateDynamicPricingRulesMutation()
+
+  const form = useForm<DynamicPricingFormValues>({
+    resolver: zodResolver(dynamicPricingFormSchema),
+    defaultValues: toFormValues(rules),
+    mode: 'onChange',
+  })
+  const timeWindows = useFieldArray({ control: form.control, name: 'timeWindows' })
+  const dateOverrides = useFieldArray({ control: form.control, name: 'dateOverrides' })
+  const surgeTiers = useFieldArray({ control: form.control, name: 'surgeTiers' })
+  const values = useWatch({ control: form.control })
+  const candidate = dynamicPricingFormSchema.safeParse(values)
+
+  const onSubmit = async (values: DynamicPricingFormValues) => {
+    try {
+      await updateRules({ venueId: venue.id, rules: values }).unwrap()
+      toast({
+        title: 'Dynamic pricing saved',
+        description: `New ${venue.name} bookings are priced with these rules.`,
+      })
+    } catch (error) {
+      toast({
+        title: 'Could not save dynamic pricing',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+                <TrendingUp className="h-5 w-5" />
+                Dynamic pricing
+              </CardTitle>
+              <CardDescription>
+                Multipliers on the base prices for busy days, peak times, events and high demand.
+                Multipliers run from {MIN_PRICE_MULTIPLIER} to {MAX_PRICE_MULTIPLIER}; 1 leaves the price unchanged.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <fieldset disabled={!canEdit} className="space-y-5">
+                <FormField
+                  control={form.control}
+                  name="isActive"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>Use dynamic pricing</FormLabel>
+                        <FormDescription>When off, bookings pay the base price.</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} disabled={!canEdit} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-3">
+                  <div>
+                    <div className="text-sm font-medium">Day of week</div>
+                    <p className="text-sm text-muted-foreground">Stacks with the time window below.</p>
+                  </div>
+                  <div className="grid grid-cols-4 gap-3 sm:grid-cols-7">
+                    {DAY_OF_WEEK_LABELS.map((day, index) => (
+                      <RuleInput
+                        key={day}
+                        form={form}
+                        name={`dayOfWeekMultipliers.${index}`}
+                        label={day.slice(0, 3)}
+                      />
+                    ))}
+                  </div>
+                </div>
+                <Separator />
+
+                <div className="space-y-3">
+                  <SectionHeader
+                    title="Time windows"
+                    description="From the start time up to, not including, the end time. Windows can't overlap."
+                    onAdd={() => timeWindows.append({ label: '', startTime: '20:00', endTime: '22:00', multiplier: 1.1 })}
+                  />
+                  {timeWindows.fields.map((item, index) => (
+                    <div key={item.id} className="flex items-start gap-2">
+                      <div className="grid flex-1 grid-cols-2 gap-2 sm:grid-cols-4">
+                        <RuleInput form={form} name={`timeWindows.${index}.label`} label="Name" type="text" />
+                        <RuleInput form={form} name={`timeWindows.${index}.startTime`} label="From" type="time" />
+                        <RuleInput form={form} name={`timeWindows.${index}.endTime`} label="Until" type="time" />
+                        <RuleInput form={form} name={`timeWindows.${index}.multiplier`} label="Multiplier" />
+                      </div>
+                      {canEdit && (
+                        <RemoveButton label="Remove time window" onClick={() => timeWindows.remove(index)} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <Separator />
+
+                <div className="space-y-3">
+                  <SectionHeader
+                    title="Holidays and events"
+                    description="Replace the day-of-week and time-window multipliers on that date."
+                    onAdd={() => dateOverrides.append({ date: '', label: '', multiplier: 1.5 })}
+                  />
+                  {dateOverrides.fields.map((item, index) => (
+                    <div key={item.id} className="flex items-start gap-2">
+                      <div className="grid flex-1 grid-cols-3 gap-2">
+                        <RuleInput form={form} name={`dateOverrides.${index}.date`} label="Date" type="date" />
+                        <RuleInput form={form} name={`dateOverrides.${index}.label`} label="Name" type="text" />
+                        <RuleInput form={form} name={`dateOverrides.${index}.multiplier`} label="Multiplier" />
+                      </div>
+                      {canEdit && (
+                        <RemoveButton label="Remove date override" onClick={() => dateOverrides.remove(index)} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <Separator />
+
+                <div className="space-y-3">
+                  <SectionHeader
+                    title="Demand surge"
+                    description="Applies on top of everything else once a time slot is this full. The highest tier reached wins."
+                    onAdd={() => surgeTiers.append({ minOccupancy: 80, multiplier: 1.1 })}
+                  />
+                  {surgeTiers.fields.map((item, index) => (
+                    <div key={item.id} className="flex items-start gap-2">
+                      <div className="grid flex-1 grid-cols-2 gap-2">
+                        <RuleInput
+                          form={form}
+                          name={`surgeTiers.${index}.minOccupancy`}
+                          label="Capacity booked (%)"
+                          step={1}
+                        />
+                        <RuleInput form={form} name={`surgeTiers.${index}.multiplier`} label="Multiplier" />
+                      </div>
+                      {canEdit && (
+                        <RemoveButton label="Remove surge tier" onClick={() => surgeTiers.remove(index)} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <Separator />
+
+                <RuleInput form={form} name="maxMultiplier" label="Never charge more than (×)" className="w-48 space-y-1" />
+              </fieldset>
+            </CardContent>
+            {canEdit && (
+              <CardFooter className="justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={!form.formState.isDirty || isSaving}
+                  onClick={() => form.reset(toFormValues(rules))}
+                >
+                  Reset
+                </Button>
+                <Button type="submit" disabled={!form.formState.isDirty || isSaving}>
+                  {isSaving ? 'Saving…' : 'Save rules'}
+                </Button>
+              </CardFooter>
+            )}
+          </form>
+        </Form>
+      </Card>
+
+      <DynamicPricingPreview venueId={venue.id} rules={candidate.success ? candidate.data : undefined} />
+    </div>
+  )
+}
+
+export function DynamicPricingRulesEditor({ venue }: { venue: Venue }) {
+  const { data: rules, isLoading, isError } = useGetDynamicPricingRulesQuery(venue.id)
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Skeleton className="h-[480px] w-full" />
+        <Skeleton className="h-[360px] w-full" />
+      </div>
+    )
+  }
+
+  if (isError || !rules) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-destructive">
+        <AlertCircle className="h-4 w-4" />
+        Failed to load dynamic pricing
+      </div>
+    )
+  }
+
+  // Remount on every save so the form starts from the saved rules
+  return <DynamicPricingForm key={`${venue.id}-${rules.updatedAt ?? 'new'}`} venue={venue} rules={rules} />
+}
@@ -0,0 +1,412 @@
+'use client'
+
+// Pricing configuration editor for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { format, parseISO } from 'date-fns'
+import { AlertCircle, Building2, Lock } from 'lucide-react'
+import { MAX_PARTY_SIZE, MAX_PLATFORM_FEE_PERCENTAGE } from '@/lib/pricing/pricing-rules'
+import { toPricingConfigInput } from '@/lib/pricing/pricing-versions'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useGetPricingConfigQuery, useUpdatePricingConfigMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Switch } from '@/components/ui/switch'
+import type { PricingConfig, Venue } from '@/types/data'
+import { pricingFormSchema, type PricingFormValues } from '../data/schema'
+import { DynamicPricingRulesEditor } from './dynamic-pricing-rules'
+import { PricingHistory } from './pricing-history'
+import { PricingPreview } from './pricing-preview'
+import { PricingSchedule } from './pricing-schedule'
+import { RevenueImpact } from './revenue-impact'
+
+// Starting point for a venue that has never been priced
+const DEFAULT_PRICING: PricingFormValues = {
+  primeBasePrice: 50,
+  primePerPersonPrice: 40,
+  nonPrimePerPersonPrice: 35,
+  platformFeePercentage: 5,
+  minimumPartySize: 2,
+  maximumPartySize: 10,
+  isActive: false,
+  reason: '',
+  effectiveDate: '',
+}
+
+function toFormValues(pricing: PricingConfig | undefined): PricingFormValues {
+  if (!pricing) return DEFAULT_PRICING
+
+  return {
+    primeBasePrice: pricing.primeBasePrice,
+    primePerPersonPrice: pricing.primePerPersonPrice,
+    nonPrimePerPersonPrice: pricing.nonPrimePerPersonPrice,
+    platformFeePercentage: pricing.platformFeePercentage,
+    minimumPartySize: pricing.minimumPartySize,
+    maximumPartySize: pricing.maximumPartySize,
+    isActive: pricing.isActive,
+    reason: '',
+    effectiveDate: '',
+  }
+}
+
+interface NumberFieldProps {
+  form: ReturnType<typeof useForm<PricingFormValues>>
+  name: Exclude<keyof PricingFormValues, 'isActive' | 'reason' | 'effectiveDate'>
+  label: string
+  description?: string
+  unit?: '$' | '%'
+  step?: number
+  min?: number
+  max?: number
+  disabled: boolean
+}
+
+function NumberField({ form, name, label, description, unit, step = 1, min = 0, max, disabled }: NumberFieldProps) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="space-y-1">
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <div className="relative">
+              {unit === '$' && (
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+              )}
+              <Input
+                {...field}
+                type="number"
+                inputMode="decimal"
+                step={step}
+                min={min}
+                max={max}
+                disabled={disabled}
+                className={unit === '$' ? 'pl-7' : unit === '%' ? 'pr-7' : undefined}
+              />
+              {unit === '%' && (
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">%</span>
+              )}
+            </div>
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+function PricingForm({ venue, pricing }: { venue: Venue; pricing: PricingConfig | undefined }) {
+  const { hasPermission } = useAuth()
+  const canEdit = hasPermission('WRITE_PRICING')
+  const [updatePricing, { isLoading: isSaving }] = useUpdatePricingConfigMutation()
+
+  const form = useForm<PricingFormValues>({
+    resolver: zodResolver(pricingFormSchema),
+    defaultValues: toFormValues(pricing),
+    mode: 'onChange',
+  })
+  const values = useWatch({ control: form.control })
+  const candidate = pricingFormSchema.safeParse(values)
+  const effectiveDate = candidate.success ? candidate.data.effectiveDate || undefined : undefined
+
+  // A scheduled change is compared against whatever would otherwise be in force that day
+  const { data: pricingOnDate } = useGetPricingConfigQuery(
+    { venueId: venue.id, date: effectiveDate },
+    { skip: !effectiveDate }
+  )
+
+  const onSubmit = async ({ reason, effectiveDate, ...config }: PricingFormValues) => {
+    try {
+      await updatePricing({
+        venueId: venue.id,
+        config,
+        reason: reason?.trim() || undefined,
+        effectiveDate: effectiveDate || undefined,
+      }).unwrap()
+
+      if (effectiveDate) {
+        toast({
+          title: 'Pricing change scheduled',
+          description: `${venue.name} pricing changes on ${format(parseISO(effectiveDate), 'MMM d, yyyy')}.`,
+        })
+        // The live config didn't change, so the form won't remount on its own
+        form.reset(toFormValues(pricing))
+        return
+      }
+
+      toast({
+        title: pricing ? 'Pricing updated' : 'Pricing created',
+        description: `${venue.name} pricing has been saved.`,
+      })
+    } catch (error) {
+      toast({
+        title: 'Could not save pricing',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold">{venue.name}</CardTitle>
+              <CardDescription>
+                {pricing
+                  ? `Last updated ${format(new Date(pricing.updatedAt), 'MMM dd, yyyy HH:mm')}`
+                  : 'This venue has no pricing yet. Bookings can\'t be taken until it is saved and active.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              {!canEdit && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Lock className="h-4 w-4" />
+                  Your role can view pricing but not change it.
+                </p>
+              )}
+              <div className="space-y-3">
+                <div className="text-sm font-medium">Prime</div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <NumberField
+                    form={form}
+                    name="primeBasePrice"
+                    label="Base price"
+                    description="Charged once per Prime booking"
+                    unit="$"
+                    step={0.01}
+                    disabled={!canEdit}
+                  />
+                  <NumberField
+                    form={form}
+                    name="primePerPersonPrice"
+                    label="Per person"
+                    unit="$"
+                    step={0.01}
+                    disabled={!canEdit}
+                  />
+                </div>
+              </div>
+              <Separator />
+              <div className="space-y-3">
+                <div className="text-sm font-medium">Non-Prime</div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <NumberField
+                    form={form}
+                    name="nonPrimePerPersonPrice"
+                    label="Per person"
+                    unit="$"
+                    step={0.01}
+                    disabled={!canEdit}
+                  />
+                </div>
+              </div>
+              <Separator />
+              <div className="grid gap-4 sm:grid-cols-3">
+                <NumberField
+                  form={form}
+                  name="platformFeePercentage"
+                  label="Platform fee"
+                  unit="%"
+                  step={0.1}
+                  max={MAX_PLATFORM_FEE_PERCENTAGE}
+                  disabled={!canEdit}
+                />
+                <NumberField
+                  form={form}
+                  name="minimumPartySize"
+                  label="Min party"
+                  min={1}
+                  max={MAX_PARTY_SIZE}
+                  disabled={!canEdit}
+                />
+                <NumberField
+                  form={form}
+                  name="maximumPartySize"
+                  label="Max party"
+                  min={1}
+                  max={MAX_PARTY_SIZE}
+                  disabled={!canEdit}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Accept bookings</FormLabel>
+                      <FormDescription>
+                        New bookings are refused while pricing is inactive.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={!canEdit}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              {canEdit && (
+                <FormField
+                  control={form.control}
+                  name="reason"
+                  render={({ field }) => (
+                    <FormItem className="space-y-1">
+                      <FormLabel>Reason for change</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g. Summer season rates" />
+                      </FormControl>
+                      <FormDescription>Shown next to this version in the pricing history.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {canEdit && (
+                <FormField
+                  control={form.control}
+                  name="effectiveDate"
+                  render={({ field }) => (
+                    <FormItem className="space-y-1">
+                      <FormLabel>Takes effect</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="date" className="w-[180px]" />
+                      </FormControl>
+                      <FormDescription>
+                        Leave empty to apply now. A later date schedules the change for bookings from that day.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </CardContent>
+            {canEdit && (
+              <CardFooter className="justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={!form.formState.isDirty || isSaving}
+                  onClick={() => form.reset(toFormValues(pricing))}
+                >
+                  Reset
+                </Button>
+                <Button type="submit" disabled={(pricing && !form.formState.isDirty) || isSaving}>
+                  {isSaving
+                    ? 'Saving…'
+                    : values.effectiveDate
+                      ? 'Schedule change'
+                      : pricing ? 'Save changes' : 'Create pricing'}
+                </Button>
+              </CardFooter>
+            )}
+          </form>
+        </Form>
+      </Card>
+
+      <PricingPreview
+        config={candidate.success ? candidate.data : undefined}
+        saved={effectiveDate ? pricingOnDate : pricing}
+      />
+
+      <RevenueImpact
+        venueId={venue.id}
+        config={candidate.success ? toPricingConfigInput(candidate.data) : undefined}
+      />
+    </div>
+  )
+}
+
+export function PricingEditor() {
+  const { hasPermission } = useAuth()
+  const { selectedVenue, isPortfolioView } = useVenueContext()
+  const venue = isPortfolioView ? null : selectedVenue
+  const { data: pricing, isLoading, error } = useGetPricingConfigQuery(
+    { venueId: venue?.id ?? '' },
+    { skip: !venue }
+  )
+
+  if (!hasPermission('READ_PRICING')) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+          <Lock className="h-8 w-8 text-muted-foreground" />
+          <p className="font-medium">Pricing isn&apos;t available for your role</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Pricing is configured per venue
+  if (!venue) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+          <Building2 className="h-8 w-8 text-muted-foreground" />
+          <p className="font-medium">Select a venue to edit its pricing</p>
+          <p className="text-sm text-muted-foreground">
+            Each venue has its own pricing, so the editor isn&apos;t available in portfolio view.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Skeleton className="h-[520px] w-full" />
+        <Skeleton className="h-[320px] w-full" />
+      </div>
+    )
+  }
+
+  // A 404 just means the venue hasn't been priced yet
+  if (error && getApiError(error).code !== 'HTTP_404') {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-destructive">
+        <AlertCircle className="h-4 w-4" />
+        Failed to load pricing
+      </div>
+    )
+  }
+
+  // Remount on every save so the form starts from the saved config
+  return (
+    <div className="space-y-4">
+      <PricingForm
+        key={`${venue.id}-${pricing?.updatedAt ?? 'new'}`}
+        venue={venue}
+        pricing={pricing}
+      />
+      <PricingSchedule venueId={venue.id} />
+      <DynamicPricingRulesEditor venue={venue} />
+      {pricing && <PricingHistory venueId={venue.id} />}
+    </div>
+  )
+}
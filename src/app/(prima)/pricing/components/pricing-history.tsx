@@ -0,0 +1,280 @@
+'use client'
+
+// Pricing version history for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { AlertCircle, History, RotateCcw } from 'lucide-react'
+import { getEffectiveDay } from '@/lib/pricing/pricing-schedule'
+import { getChangedPricingFields, PRICING_FIELDS } from '@/lib/pricing/pricing-versions'
+import { useAuth } from '@/lib/auth/auth-context'
+import { getRoleById } from '@/lib/auth/demo-data'
+import { getApiError } from '@/lib/store/api-error'
+import { useGetPricingHistoryQuery, useRollbackPricingConfigMutation } from '@/lib/store/api'
+import { cn } from '@/lib/utils'
+import { toast } from '@/hooks/use-toast'
+import { ConfirmDialog } from '@/components/confirm-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Textarea } from '@/components/ui/textarea'
+import type { PricingVersion } from '@/types/data'
+import { usePricingValueFormatter } from '../hooks/use-pricing-value-formatter'
+
+interface Props {
+  venueId: string
+}
+
+// Immediate saves go live when made; scheduled ones on their effective date
+function getTakesEffectAt(version: PricingVersion): string {
+  return version.effectiveDate ?? version.createdAt
+}
+
+function VersionSelect({
+  label,
+  value,
+  versions,
+  onChange,
+}: {
+  label: string
+  value: string
+  versions: PricingVersion[]
+  onChange: (id: string) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 w-[180px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map(v => (
+            <SelectItem key={v.id} value={v.id}>
+              Version {v.version} • {format(new Date(v.createdAt), 'MMM d')}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+export function PricingHistory({ venueId }: Props) {
+  const { hasPermission } = useAuth()
+  const formatValue = usePricingValueFormatter()
+  const { data: versions, isLoading, isError } = useGetPricingHistoryQuery(venueId)
+  const [rollback, { isLoading: isRollingBack }] = useRollbackPricingConfigMutation()
+  // Unset until the user picks; defaults to the current version against the one before it
+  const [fromId, setFromId] = useState<string>()
+  const [toId, setToId] = useState<string>()
+  const [rollbackTarget, setRollbackTarget] = useState<PricingVersion | null>(null)
+  const [reason, setReason] = useState('')
+
+  // The newest version to have gone live; a scheduled one may be newer but still pending
+  const now = new Date().toISOString()
+  const current = versions
+    ?.filter(v => getTakesEffectAt(v) <= now)
+    .reduce<PricingVersion | undefined>(
+      (latest, v) => !latest || getTakesEffectAt(v) > getTakesEffectAt(latest) ? v : latest,
+      undefined
+    )
+  const previous = current && versions?.[versions.indexOf(current) + 1]
+  const from = versions?.find(v => v.id === fromId) ?? previous ?? current
+  const to = versions?.find(v => v.id === toId) ?? current
+  const changedFields = from && to ? getChangedPricingFields(from.config, to.config) : []
+
+  const closeRollback = () => {
+    setRollbackTarget(null)
+    setReason('')
+  }
+
+  const handleRollback = async () => {
+    if (!rollbackTarget) return
+
+    try {
+      await rollback({
+        venueId,
+        versionId: rollbackTarget.id,
+        reason: reason.trim() || undefined,
+      }).unwrap()
+      toast({
+        title: 'Pricing rolled back',
+        description: `Version ${rollbackTarget.version} is live again as a new version.`,
+      })
+      // Show what the rollback changed
+      setFromId(undefined)
+      setToId(undefined)
+      closeRollback()
+    } catch (error) {
+      toast({
+        title: 'Could not roll back pricing',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <History className="h-5 w-5" />
+          Version history
+        </CardTitle>
+        <CardDescription>
+          Every saved version of this venue&apos;s pricing. Rolling back saves the older version again,
+          so nothing is lost.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : isError || !versions ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load pricing history.
+          </p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <ol className="space-y-2">
+              {versions.map(version => {
+                const roleName = version.authorRole && getRoleById(version.authorRole)?.name
+                const isCurrent = version.id === current?.id
+                return (
+                  <li
+                    key={version.id}
+                    className={cn(
+                      'flex items-start justify-between gap-3 rounded-md border p-3 text-sm',
+                      (version.id === from?.id || version.id === to?.id) && 'border-primary/50 bg-muted/40'
+                    )}
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">Version {version.version}</span>
+                        {isCurrent && <Badge variant="secondary">Current</Badge>}
+                        {version.effectiveDate && (
+                          <Badge variant="outline">
+                            {version.effectiveDate > now ? 'Scheduled for' : 'Took effect'}{' '}
+                            {format(parseISO(getEffectiveDay({ effectiveDate: version.effectiveDate })), 'MMM d, yyyy')}
+                          </Badge>
+                        )}
+                        {version.rolledBackFrom && (
+                          <Badge variant="outline">Rollback to v{version.rolledBackFrom}</Badge>
+                        )}
+                      </div>
+                      {version.reason && <p>{version.reason}</p>}
+                      <p className="text-muted-foreground">
+                        {version.authorName}
+                        {roleName && ` (${roleName})`} • {format(new Date(version.createdAt), 'MMM dd, yyyy HH:mm')}
+                      </p>
+                    </div>
+                    {!isCurrent && hasPermission('WRITE_PRICING') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8 shrink-0"
+                        onClick={() => setRollbackTarget(version)}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Roll back
+                      </Button>
+                    )}
+                  </li>
+                )
+              })}
+            </ol>
+
+            {from && to && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-end gap-3">
+                  <VersionSelect label="Compare" value={from.id} versions={versions} onChange={setFromId} />
+                  <VersionSelect label="With" value={to.id} versions={versions} onChange={setToId} />
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead className="text-right">Version {from.version}</TableHead>
+                      <TableHead className="text-right">Version {to.version}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {PRICING_FIELDS.map(({ field, label, format: valueFormat }) => {
+                      const isChanged = changedFields.includes(field)
+                      return (
+                        <TableRow key={field} className={cn(isChanged && 'bg-amber-500/10')}>
+                          <TableCell className={cn(isChanged && 'font-medium')}>{label}</TableCell>
+                          <TableCell
+                            className={cn(
+                              'text-right',
+                              isChanged && 'text-muted-foreground line-through decoration-muted-foreground/60'
+                            )}
+                          >
+                            {formatValue(from.config[field], valueFormat)}
+                          </TableCell>
+                          <TableCell className={cn('text-right', isChanged && 'font-medium')}>
+                            {formatValue(to.config[field], valueFormat)}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+                <p className="text-sm text-muted-foreground">
+                  {from.id === to.id
+                    ? 'Pick two different versions to compare.'
+                    : `${changedFields.length} field(s) differ.`}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={rollbackTarget !== null}
+        onOpenChange={(open) => !open && closeRollback()}
+        title={`Roll back to version ${rollbackTarget?.version}?`}
+        desc={
+          rollbackTarget && current
+            ? `${getChangedPricingFields(current.config, rollbackTarget.config).length} field(s) will change. ` +
+              'New bookings are priced from the rolled-back version straight away; existing bookings keep their totals.'
+            : ''
+        }
+        confirmText="Roll back"
+        isLoading={isRollingBack}
+        handleConfirm={handleRollback}
+      >
+        <div className="space-y-1">
+          <Label htmlFor="pricing-rollback-reason">Reason</Label>
+          <Textarea
+            id="pricing-rollback-reason"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder={`Rolled back to version ${rollbackTarget?.version}`}
+            className="min-h-[72px]"
+          />
+        </div>
+      </ConfirmDialog>
+    </Card>
+  )
+}
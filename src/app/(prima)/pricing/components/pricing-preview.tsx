@@ -0,0 +1,144 @@
+'use client'
+
+// Live pricing scenario preview for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { useState } from 'react'
+import { quoteBooking } from '@/lib/bookings/booking-quote'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { cn } from '@/lib/utils'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import type { BookingType, PricingConfig, PricingConfigInput } from '@/types/data'
+
+interface Props {
+  // Undefined while the form holds values that can't be priced
+  config: PricingConfigInput | undefined
+  // The saved config, to show how each scenario moves
+  saved?: PricingConfig
+}
+
+// The last scenario stands for every larger party
+const SCENARIO_PARTY_SIZES = [2, 4, 6, 8]
+
+function toPricingConfig(config: PricingConfigInput): PricingConfig {
+  return {
+    ...config,
+    id: '',
+    venueId: '',
+    effectiveDate: '',
+    createdAt: '',
+    updatedAt: '',
+  }
+}
+
+export function PricingPreview({ config, saved }: Props) {
+  const { formatAmount } = useDataMasking()
+  const [type, setType] = useState<BookingType>('PRIME')
+
+  const formatDelta = (value: number) => {
+    if (Math.abs(value) < 0.005) return null
+    return `${value > 0 ? '+' : '−'}${formatAmount(Math.abs(value))}`
+  }
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1">
+            <CardTitle className="text-lg font-semibold">Scenario preview</CardTitle>
+            <CardDescription>What a party pays and what the venue keeps, before commission.</CardDescription>
+          </div>
+          <Tabs value={type} onValueChange={(value) => setType(value as BookingType)}>
+            <TabsList>
+              <TabsTrigger value="PRIME">Prime</TabsTrigger>
+              <TabsTrigger value="NON_PRIME">Non-Prime</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!config ? (
+          <p className="text-sm text-muted-foreground">
+            Fix the highlighted fields to see a preview.
+          </p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Party</TableHead>
+                  <TableHead className="text-right">Guest total</TableHead>
+                  <TableHead className="text-right">Per guest</TableHead>
+                  <TableHead className="text-right">Platform fee</TableHead>
+                  <TableHead className="text-right">Net to venue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {SCENARIO_PARTY_SIZES.map((partySize, index) => {
+                  const label = index === SCENARIO_PARTY_SIZES.length - 1 ? `${partySize}+` : `${partySize}`
+                  const isBookable =
+                    partySize >= config.minimumPartySize && partySize <= config.maximumPartySize
+
+                  if (!isBookable) {
+                    return (
+                      <TableRow key={partySize} className="text-muted-foreground">
+                        <TableCell>{label}</TableCell>
+                        <TableCell colSpan={4} className="text-right">
+                          Outside the {config.minimumPartySize}–{config.maximumPartySize} party size range
+                        </TableCell>
+                      </TableRow>
+                    )
+                  }
+
+                  const quote = quoteBooking({ type, partySize }, toPricingConfig(config), undefined)
+                  const previous = saved && quoteBooking({ type, partySize }, saved, undefined)
+                  const delta = previous && formatDelta(quote.netToVenue - previous.netToVenue)
+
+                  return (
+                    <TableRow key={partySize}>
+                      <TableCell className="font-medium">{label}</TableCell>
+                      <TableCell className="text-right">{formatAmount(quote.amount)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {formatAmount(quote.amount / partySize)}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {formatAmount(quote.platformFee)}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatAmount(quote.netToVenue)}
+                        {delta && (
+                          <div
+                            className={cn(
+                              'text-xs font-normal',
+                              quote.netToVenue > previous.netToVenue ? 'text-green-600' : 'text-red-600'
+                            )}
+                          >
+                            {delta} vs saved
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              Each guest beyond {SCENARIO_PARTY_SIZES.at(-1)} adds{' '}
+              {formatAmount(type === 'PRIME' ? config.primePerPersonPrice : config.nonPrimePerPersonPrice)}
+              {' '}to the guest total. Promoter commission is deducted from the net per booking.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,157 @@
+'use client'
+
+// Scheduled pricing timeline for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { AlertCircle, CalendarClock, X } from 'lucide-react'
+import { getEffectiveDay } from '@/lib/pricing/pricing-schedule'
+import {
+  getChangedPricingFields,
+  PRICING_FIELDS,
+  toPricingConfigInput,
+} from '@/lib/pricing/pricing-versions'
+import { useAuth } from '@/lib/auth/auth-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useCancelScheduledPricingMutation, useGetPricingScheduleQuery } from '@/lib/store/api'
+import { cn } from '@/lib/utils'
+import { toast } from '@/hooks/use-toast'
+import { ConfirmDialog } from '@/components/confirm-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import type { PricingConfig } from '@/types/data'
+import { usePricingValueFormatter } from '../hooks/use-pricing-value-formatter'
+
+interface Props {
+  venueId: string
+}
+
+function formatDay(config: PricingConfig) {
+  return format(parseISO(getEffectiveDay(config)), 'EEE, MMM d, yyyy')
+}
+
+export function PricingSchedule({ venueId }: Props) {
+  const { hasPermission } = useAuth()
+  const formatValue = usePricingValueFormatter()
+  const { data: schedule, isLoading, isError } = useGetPricingScheduleQuery(venueId)
+  const [cancelScheduled, { isLoading: isCancelling }] = useCancelScheduledPricingMutation()
+  const [configToCancel, setConfigToCancel] = useState<PricingConfig | null>(null)
+  const today = format(new Date(), 'yyyy-MM-dd')
+
+  const handleCancel = async () => {
+    if (!configToCancel) return
+
+    try {
+      await cancelScheduled({ venueId, configId: configToCancel.id }).unwrap()
+      toast({
+        title: 'Scheduled change cancelled',
+        description: `Pricing will no longer change on ${formatDay(configToCancel)}.`,
+      })
+      setConfigToCancel(null)
+    } catch (error) {
+      toast({
+        title: 'Could not cancel the scheduled change',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <CalendarClock className="h-5 w-5" />
+          Upcoming changes
+        </CardTitle>
+        <CardDescription>
+          Bookings are priced from whichever config is in force on the booking date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : isError || !schedule ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load scheduled pricing.
+          </p>
+        ) : (
+          <ol className="relative space-y-4 border-l pl-6">
+            {schedule.map((config, index) => {
+              const isLive = getEffectiveDay(config) <= today
+              const previous = schedule[index - 1]
+              const changes = previous
+                ? getChangedPricingFields(toPricingConfigInput(previous), toPricingConfigInput(config))
+                : []
+              return (
+                <li key={config.id} className="relative">
+                  <span
+                    className={cn(
+                      'absolute -left-[1.95rem] top-1 h-3 w-3 rounded-full border-2 border-background',
+                      isLive ? 'bg-green-500' : 'bg-primary'
+                    )}
+                  />
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1 text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{isLive ? 'In force since' : 'From'} {formatDay(config)}</span>
+                        {isLive && <Badge variant="secondary">Live</Badge>}
+                      </div>
+                      {isLive ? null : changes.length === 0 ? (
+                        <p className="text-muted-foreground">Same as the config before it.</p>
+                      ) : (
+                        <ul className="space-y-0.5 text-muted-foreground">
+                          {PRICING_FIELDS.filter(({ field }) => changes.includes(field)).map(
+                            ({ field, label, format: valueFormat }) => (
+                              <li key={field}>
+                                {label}: {formatValue(previous[field], valueFormat)} →{' '}
+                                <span className="font-medium text-foreground">
+                                  {formatValue(config[field], valueFormat)}
+                                </span>
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      )}
+                    </div>
+                    {!isLive && hasPermission('WRITE_PRICING') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8 shrink-0"
+                        onClick={() => setConfigToCancel(config)}
+                      >
+                        <X className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+            {schedule.every(config => getEffectiveDay(config) <= today) && (
+              <li className="text-sm text-muted-foreground">No changes scheduled.</li>
+            )}
+          </ol>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={configToCancel !== null}
+        onOpenChange={(open) => !open && setConfigToCancel(null)}
+        title="Cancel scheduled change?"
+        desc={configToCancel
+          ? `Bookings on or after ${formatDay(configToCancel)} will be priced from the config before it instead.`
+          : ''}
+        confirmText="Cancel change"
+        destructive
+        isLoading={isCancelling}
+        handleConfirm={handleCancel}
+      />
+    </Card>
+  )
+}
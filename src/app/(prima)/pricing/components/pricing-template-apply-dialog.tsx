@@ -0,0 +1,294 @@
+'use client'
+
+// Bulk apply a pricing template for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { useState } from 'react'
+import { AlertCircle, CheckCircle2, XCircle } from 'lucide-react'
+import {
+  getTemplateAdjustmentViolation,
+  MAX_TEMPLATE_ADJUSTMENT_PERCENTAGE,
+} from '@/lib/pricing/pricing-templates'
+import { getChangedPricingFields, PRICING_FIELDS } from '@/lib/pricing/pricing-versions'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useApplyPricingTemplateMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import type { ApplyPricingTemplateResult, PricingTemplate, PricingTemplateTarget } from '@/types/data'
+import { usePricingValueFormatter } from '../hooks/use-pricing-value-formatter'
+
+interface Props {
+  template: PricingTemplate | null
+  onOpenChange: (open: boolean) => void
+}
+
+type Step = 'select' | 'review'
+
+export function PricingTemplateApplyDialog({ template, onOpenChange }: Props) {
+  const { availableVenues } = useVenueContext()
+  const formatValue = usePricingValueFormatter()
+  const [applyTemplate, { isLoading }] = useApplyPricingTemplateMutation()
+
+  const [step, setStep] = useState<Step>('select')
+  // Adjustment percentage per selected venue, kept as typed so the input can be cleared
+  const [adjustments, setAdjustments] = useState<Record<string, string>>({})
+  const [reason, setReason] = useState('')
+  const [preview, setPreview] = useState<ApplyPricingTemplateResult | null>(null)
+
+  const selectedIds = availableVenues.map(v => v.id).filter(id => id in adjustments)
+  const targets: PricingTemplateTarget[] = selectedIds.map(venueId => ({
+    venueId,
+    priceAdjustmentPercentage: Number(adjustments[venueId] || 0),
+  }))
+  const adjustmentErrors = new Map(
+    targets.map(t => [t.venueId, getTemplateAdjustmentViolation(t.priceAdjustmentPercentage)])
+  )
+  const hasAdjustmentErrors = [...adjustmentErrors.values()].some(Boolean)
+  const venueName = (venueId: string) => availableVenues.find(v => v.id === venueId)?.name ?? venueId
+
+  const reset = () => {
+    setStep('select')
+    setAdjustments({})
+    setReason('')
+    setPreview(null)
+  }
+
+  const handleOpenChange = (value: boolean) => {
+    if (isLoading) return
+    onOpenChange(value)
+    if (!value) reset()
+  }
+
+  const toggleVenue = (venueId: string, checked: boolean) => {
+    setAdjustments(current => {
+      const { [venueId]: _removed, ...rest } = current
+      return checked ? { ...current, [venueId]: '0' } : rest
+    })
+  }
+
+  const handleReview = async () => {
+    if (!template) return
+
+    try {
+      setPreview(await applyTemplate({ templateId: template.id, targets, dryRun: true }).unwrap())
+      setStep('review')
+    } catch (error) {
+      toast({
+        title: 'Could not preview the changes',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleApply = async () => {
+    if (!template || !preview) return
+
+    // Venues the preview rejected are left out rather than failing again
+    const validTargets = targets.filter(t =>
+      preview.results.some(r => r.venueId === t.venueId && r.success)
+    )
+
+    try {
+      const result = await applyTemplate({
+        templateId: template.id,
+        targets: validTargets,
+        reason: reason.trim() || undefined,
+        dryRun: false,
+      }).unwrap()
+
+      if (result.failed === 0) {
+        toast({
+          title: 'Template applied',
+          description: `"${template.name}" is now live at ${result.applied} venue(s).`,
+        })
+        handleOpenChange(false)
+        return
+      }
+
+      setPreview(result)
+    } catch (error) {
+      toast({
+        title: 'Could not apply template',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const applicable = preview?.results.filter(r => r.success).length ?? 0
+  const isDone = preview !== null && !preview.dryRun
+
+  return (
+    <Dialog open={template !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader className="text-left">
+          <DialogTitle>Apply &ldquo;{template?.name}&rdquo;</DialogTitle>
+          <DialogDescription>
+            {step === 'select' &&
+              `Pick the venues to update. Each can move the template's prices by up to ±${MAX_TEMPLATE_ADJUSTMENT_PERCENTAGE}%.`}
+            {step === 'review' && !isDone &&
+              'Review what changes at each venue. Nothing is saved until you confirm.'}
+            {isDone && 'Some venues could not be updated. The others are already saved.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'select' && (
+          <div className="space-y-4">
+            <ScrollArea className="max-h-72 rounded-md border">
+              <ul className="divide-y">
+                {availableVenues.map(venue => {
+                  const isSelected = venue.id in adjustments
+                  const adjustmentError = adjustmentErrors.get(venue.id)
+                  return (
+                    <li key={venue.id} className="space-y-1 p-3">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`template-venue-${venue.id}`}
+                            checked={isSelected}
+                            onCheckedChange={(checked) => toggleVenue(venue.id, checked === true)}
+                          />
+                          <Label htmlFor={`template-venue-${venue.id}`} className="font-normal">
+                            {venue.name}
+                          </Label>
+                        </div>
+                        {isSelected && (
+                          <div className="flex items-center gap-2">
+                            <Label htmlFor={`template-adjustment-${venue.id}`} className="text-sm text-muted-foreground">
+                              Adjust prices
+                            </Label>
+                            <Input
+                              id={`template-adjustment-${venue.id}`}
+                              type="number"
+                              step="1"
+                              className="h-8 w-20"
+                              value={adjustments[venue.id]}
+                              onChange={(event) =>
+                                setAdjustments(current => ({ ...current, [venue.id]: event.target.value }))
+                              }
+                            />
+                            <span className="text-sm text-muted-foreground">%</span>
+                          </div>
+                        )}
+                      </div>
+                      {adjustmentError && <p className="text-sm text-destructive">{adjustmentError}</p>}
+                    </li>
+                  )
+                })}
+              </ul>
+            </ScrollArea>
+            <div className="space-y-1">
+              <Label htmlFor="template-apply-reason">Reason</Label>
+              <Input
+                id="template-apply-reason"
+                value={reason}
+                placeholder={template ? `Applied template "${template.name}"` : undefined}
+                onChange={(event) => setReason(event.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Recorded in each venue&apos;s pricing history.</p>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline" className="border-green-500/40 text-green-700 dark:text-green-400">
+                {preview.applied} {preview.dryRun ? 'ready' : 'applied'}
+              </Badge>
+              {preview.failed > 0 && (
+                <Badge variant="outline" className="border-red-500/40 text-red-700 dark:text-red-400">
+                  {preview.failed} failed
+                </Badge>
+              )}
+            </div>
+            <ScrollArea className="h-80 rounded-md border">
+              <ul className="divide-y">
+                {preview.results.map(result => {
+                  const changes = result.before && result.after
+                    ? getChangedPricingFields(result.before, result.after)
+                    : undefined
+                  return (
+                    <li key={result.venueId} className="space-y-2 p-3 text-sm">
+                      <div className="flex items-center gap-2 font-medium">
+                        {result.success ? (
+                          <CheckCircle2 className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <XCircle className="h-4 w-4 text-destructive" />
+                        )}
+                        {venueName(result.venueId)}
+                      </div>
+                      {result.error && <p className="text-destructive">{result.error.message}</p>}
+                      {result.success && !result.before && result.after && (
+                        <p className="text-muted-foreground">
+                          Not priced yet; the template becomes its first pricing.
+                        </p>
+                      )}
+                      {changes && changes.length === 0 && (
+                        <p className="text-muted-foreground">Already matches the template.</p>
+                      )}
+                      {changes && changes.length > 0 && (
+                        <ul className="space-y-0.5 text-muted-foreground">
+                          {PRICING_FIELDS.filter(({ field }) => changes.includes(field)).map(
+                            ({ field, label, format: valueFormat }) => (
+                              <li key={field}>
+                                {label}: {formatValue(result.before![field], valueFormat)} →{' '}
+                                <span className="font-medium text-foreground">
+                                  {formatValue(result.after![field], valueFormat)}
+                                </span>
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            </ScrollArea>
+            {preview.dryRun && preview.failed > 0 && applicable > 0 && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <AlertCircle className="h-4 w-4" />
+                Venues that failed are skipped; the others are updated.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex gap-2">
+          {step === 'review' && !isDone && (
+            <Button variant="outline" disabled={isLoading} onClick={() => setStep('select')}>
+              Back
+            </Button>
+          )}
+          {step === 'select' && (
+            <Button disabled={targets.length === 0 || hasAdjustmentErrors || isLoading} onClick={handleReview}>
+              {isLoading ? 'Checking…' : 'Review changes'}
+            </Button>
+          )}
+          {step === 'review' && !isDone && (
+            <Button disabled={applicable === 0 || isLoading} onClick={handleApply}>
+              {isLoading ? 'Applying…' : `Apply to ${applicable} venue(s)`}
+            </Button>
+          )}
+          {isDone && <Button onClick={() => handleOpenChange(false)}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
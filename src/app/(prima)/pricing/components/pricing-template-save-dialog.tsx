@@ -0,0 +1,175 @@
+'use client'
+
+// Save a venue's pricing as a template for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { toPricingConfigInput } from '@/lib/pricing/pricing-versions'
+import { getApiError } from '@/lib/store/api-error'
+import { useCreatePricingTemplateMutation, useGetPricingConfigQuery } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import SelectDropdown from '@/components/select-dropdown'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { pricingTemplateFormSchema, type PricingTemplateFormValues } from '../data/schema'
+import { PricingTemplateSummary } from './pricing-template-summary'
+
+interface Props {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  defaultVenueId?: string
+}
+
+export function PricingTemplateSaveDialog({ open, onOpenChange, defaultVenueId }: Props) {
+  const { availableVenues } = useVenueContext()
+  const [createTemplate, { isLoading }] = useCreatePricingTemplateMutation()
+  const defaultValues: PricingTemplateFormValues = {
+    sourceVenueId: defaultVenueId ?? '',
+    name: '',
+    description: '',
+  }
+
+  const form = useForm<PricingTemplateFormValues>({
+    resolver: zodResolver(pricingTemplateFormSchema),
+    defaultValues,
+  })
+  const sourceVenueId = useWatch({ control: form.control, name: 'sourceVenueId' })
+  const { data: pricing, isFetching, error } = useGetPricingConfigQuery(
+    { venueId: sourceVenueId },
+    { skip: !sourceVenueId }
+  )
+
+  const closeDialog = (value: boolean) => {
+    onOpenChange(value)
+    form.reset(defaultValues)
+  }
+
+  const onSubmit = async ({ sourceVenueId, name, description }: PricingTemplateFormValues) => {
+    if (!pricing) return
+
+    try {
+      const template = await createTemplate({
+        name,
+        description: description?.trim() || undefined,
+        sourceVenueId,
+        config: toPricingConfigInput(pricing),
+      }).unwrap()
+      toast({
+        title: 'Template saved',
+        description: `"${template.name}" can now be applied to other venues.`,
+      })
+      closeDialog(false)
+    } catch (error) {
+      toast({
+        title: 'Could not save template',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={closeDialog}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader className="text-left">
+          <DialogTitle>New pricing template</DialogTitle>
+          <DialogDescription>
+            Copies the pricing a venue has in force today. Later changes to the venue don&apos;t
+            affect the template.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form id="pricing-template-form" onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="sourceVenueId"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Copy pricing from</FormLabel>
+                  <SelectDropdown
+                    isControlled
+                    defaultValue={field.value}
+                    onValueChange={field.onChange}
+                    placeholder="Select a venue"
+                    items={availableVenues.map(v => ({ label: v.name, value: v.id }))}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {sourceVenueId && (
+              <div className="rounded-md border bg-muted/40 p-3 text-sm">
+                {isFetching ? (
+                  <span className="text-muted-foreground">Loading pricing…</span>
+                ) : pricing ? (
+                  <PricingTemplateSummary config={pricing} />
+                ) : (
+                  <span className="text-destructive">
+                    {error && getApiError(error).code === 'HTTP_404'
+                      ? 'This venue has no pricing to copy.'
+                      : 'Failed to load this venue\'s pricing.'}
+                  </span>
+                )}
+              </div>
+            )}
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. Weekend rooftop" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} className="min-h-[72px]" />
+                  </FormControl>
+                  <FormDescription>Optional. When this setup works well.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </form>
+        </Form>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => closeDialog(false)}>
+            Cancel
+          </Button>
+          <Button form="pricing-template-form" type="submit" disabled={isLoading || isFetching || !pricing}>
+            {isLoading ? 'Saving…' : 'Save template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
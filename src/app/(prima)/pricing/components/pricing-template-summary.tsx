@@ -0,0 +1,20 @@
+'use client'
+
+// One-line pricing summary for PRIMA pricing templates
+// Based on RFC-006: Pricing Configuration
+
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import type { PricingConfigInput } from '@/types/data'
+
+export function PricingTemplateSummary({ config }: { config: PricingConfigInput }) {
+  const { formatAmount } = useDataMasking()
+
+  return (
+    <span className="text-muted-foreground">
+      Prime {formatAmount(config.primeBasePrice)} + {formatAmount(config.primePerPersonPrice)}/guest •
+      Non-Prime {formatAmount(config.nonPrimePerPersonPrice)}/guest • {config.platformFeePercentage}% fee •
+      Parties of {config.minimumPartySize}–{config.maximumPartySize}
+      {!config.isActive && ' • Inactive'}
+    </span>
+  )
+}
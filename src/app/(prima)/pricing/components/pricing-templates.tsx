@@ -0,0 +1,157 @@
+'use client'
+
+// Pricing templates for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { useState } from 'react'
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { AlertCircle, Copy, Layers, Plus, Trash2 } from 'lucide-react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useDeletePricingTemplateMutation, useGetPricingTemplatesQuery } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { ConfirmDialog } from '@/components/confirm-dialog'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import type { PricingTemplate } from '@/types/data'
+import { PricingTemplateApplyDialog } from './pricing-template-apply-dialog'
+import { PricingTemplateSaveDialog } from './pricing-template-save-dialog'
+import { PricingTemplateSummary } from './pricing-template-summary'
+
+export function PricingTemplates() {
+  const { hasPermission } = useAuth()
+  const { selectedVenue, isPortfolioView, availableVenues } = useVenueContext()
+  const { data: templates, isLoading, isError } = useGetPricingTemplatesQuery(undefined, {
+    skip: !hasPermission('READ_PRICING'),
+  })
+  const [deleteTemplate, { isLoading: isDeleting }] = useDeletePricingTemplateMutation()
+  const [isSaveOpen, setIsSaveOpen] = useState(false)
+  const [templateToApply, setTemplateToApply] = useState<PricingTemplate | null>(null)
+  const [templateToDelete, setTemplateToDelete] = useState<PricingTemplate | null>(null)
+  const canWrite = hasPermission('WRITE_PRICING')
+
+  if (!hasPermission('READ_PRICING')) return null
+
+  const handleDelete = async () => {
+    if (!templateToDelete) return
+
+    try {
+      await deleteTemplate(templateToDelete.id).unwrap()
+      toast({
+        title: 'Template deleted',
+        description: `"${templateToDelete.name}" was removed. Venues it was applied to keep their pricing.`,
+      })
+      setTemplateToDelete(null)
+    } catch (error) {
+      toast({
+        title: 'Could not delete template',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-3 space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+            <Layers className="h-5 w-5" />
+            Pricing templates
+          </CardTitle>
+          <CardDescription>
+            Save a venue&apos;s pricing and apply it to other venues in one step.
+          </CardDescription>
+        </div>
+        {canWrite && (
+          <Button size="sm" onClick={() => setIsSaveOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New template
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : isError || !templates ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load pricing templates.
+          </p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No templates yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {templates.map(template => {
+              const source = availableVenues.find(v => v.id === template.sourceVenueId)
+              return (
+                <li key={template.id} className="flex items-start justify-between gap-3 py-3 first:pt-0 last:pb-0">
+                  <div className="min-w-0 space-y-1 text-sm">
+                    <div className="font-medium">{template.name}</div>
+                    {template.description && (
+                      <p className="text-muted-foreground">{template.description}</p>
+                    )}
+                    <p>
+                      <PricingTemplateSummary config={template.config} />
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {source ? `From ${source.name} • ` : ''}
+                      {template.authorName} • {formatDistanceToNow(parseISO(template.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {canWrite && (
+                    <div className="flex shrink-0 items-center gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8"
+                        onClick={() => setTemplateToApply(template)}
+                      >
+                        <Copy className="h-4 w-4 mr-2" />
+                        Apply to venues
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        aria-label={`Delete ${template.name}`}
+                        onClick={() => setTemplateToDelete(template)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <PricingTemplateSaveDialog
+        key={isPortfolioView ? 'portfolio' : selectedVenue?.id}
+        open={isSaveOpen}
+        onOpenChange={setIsSaveOpen}
+        defaultVenueId={isPortfolioView ? undefined : selectedVenue?.id}
+      />
+      <PricingTemplateApplyDialog
+        template={templateToApply}
+        onOpenChange={(open) => !open && setTemplateToApply(null)}
+      />
+      <ConfirmDialog
+        open={templateToDelete !== null}
+        onOpenChange={(open) => !open && setTemplateToDelete(null)}
+        title="Delete template?"
+        desc={templateToDelete
+          ? `"${templateToDelete.name}" will no longer be available. Venues it was applied to keep their pricing.`
+          : ''}
+        confirmText="Delete"
+        destructive
+        isLoading={isDeleting}
+        handleConfirm={handleDelete}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,186 @@
+'use client'
+
+// Revenue impact simulator for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { AlertCircle, LineChart as LineChartIcon, Play } from 'lucide-react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { IMPACT_WEEK_OPTIONS } from '@/lib/pricing/revenue-impact'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { getApiError } from '@/lib/store/api-error'
+import { useSimulateRevenueImpactMutation } from '@/lib/store/api'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import type { PricingConfigInput, RevenueTotals } from '@/types/data'
+
+interface Props {
+  venueId: string
+  // Undefined while the form holds values that can't be priced
+  config: PricingConfigInput | undefined
+}
+
+const TOTALS: Array<{ key: keyof RevenueTotals; label: string; higherIsBetter: boolean }> = [
+  { key: 'revenue', label: 'Guest revenue', higherIsBetter: true },
+  { key: 'platformFees', label: 'Platform fees', higherIsBetter: false },
+  { key: 'commission', label: 'Commission cost', higherIsBetter: false },
+  { key: 'netToVenue', label: 'Net to venue', higherIsBetter: true },
+]
+
+export function RevenueImpact({ venueId, config }: Props) {
+  const { formatAmount } = useDataMasking()
+  const [weeks, setWeeks] = useState(IMPACT_WEEK_OPTIONS[1])
+  const [simulate, { data: impact, error, isLoading, originalArgs }] = useSimulateRevenueImpactMutation()
+
+  // A result only describes the draft it was run for
+  const isStale =
+    impact !== undefined &&
+    (JSON.stringify(originalArgs?.config) !== JSON.stringify(config) || originalArgs?.weeks !== weeks)
+
+  const formatDelta = (value: number) => {
+    if (Math.abs(value) < 0.005) return 'No change'
+    return `${value > 0 ? '+' : '−'}${formatAmount(Math.abs(value))}`
+  }
+
+  const chartData = impact?.byWeek.map(week => ({
+    week: format(parseISO(week.weekStart), 'MMM d'),
+    actual: Math.round(week.actual.revenue * 100) / 100,
+    projected: Math.round(week.projected.revenue * 100) / 100,
+  }))
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader className="space-y-3">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+              <LineChartIcon className="h-5 w-5" />
+              Revenue impact
+            </CardTitle>
+            <CardDescription>
+              Replays recent confirmed and completed bookings under the draft above, including
+              any dynamic pricing rules, and compares them with what was actually charged.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={weeks.toString()} onValueChange={(value) => setWeeks(Number(value))}>
+              <SelectTrigger className="h-9 w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMPACT_WEEK_OPTIONS.map(option => (
+                  <SelectItem key={option} value={option.toString()}>
+                    Last {option} weeks
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              className="h-9"
+              disabled={!config || isLoading}
+              onClick={() => config && simulate({ venueId, config, weeks })}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              {isLoading ? 'Simulating…' : 'Simulate'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : error ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {getApiError(error).message}
+          </p>
+        ) : !impact ? (
+          <p className="text-sm text-muted-foreground">
+            {config
+              ? 'Run a simulation to see how the draft would have performed.'
+              : 'Fix the highlighted fields to run a simulation.'}
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {impact.bookingCount} booking(s) from {format(parseISO(impact.from), 'MMM d')} to{' '}
+              {format(parseISO(impact.to), 'MMM d, yyyy')}
+              {impact.refusedCount > 0 &&
+                ` • ${impact.refusedCount} would have been refused under the draft and project to zero`}
+              {isStale && ' • The draft has changed since this run'}
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              {TOTALS.map(({ key, label, higherIsBetter }) => {
+                const delta = impact.projected[key] - impact.actual[key]
+                const isBetter = higherIsBetter ? delta > 0 : delta < 0
+                return (
+                  <div key={key} className="space-y-1 rounded-md border p-3">
+                    <div className="text-sm text-muted-foreground">{label}</div>
+                    <div className="text-xl font-semibold">{formatAmount(impact.projected[key])}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Actual {formatAmount(impact.actual[key])}
+                    </div>
+                    <div
+                      className={cn(
+                        'text-xs font-medium',
+                        Math.abs(delta) < 0.005
+                          ? 'text-muted-foreground'
+                          : isBetter ? 'text-green-600' : 'text-red-600'
+                      )}
+                    >
+                      {formatDelta(delta)}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" vertical={false} />
+                  <XAxis dataKey="week" className="text-xs" />
+                  <YAxis className="text-xs" tickFormatter={(value: number) => formatAmount(value)} />
+                  <Tooltip
+                    formatter={(value: number, name: string) => [
+                      formatAmount(value),
+                      name === 'projected' ? 'Projected' : 'Actual',
+                    ]}
+                    labelFormatter={(label) => `Week of ${label}`}
+                    contentStyle={{
+                      backgroundColor: 'var(--card)',
+                      border: '1px solid var(--border)',
+                      borderRadius: '6px',
+                    }}
+                  />
+                  <Legend formatter={(name) => (name === 'projected' ? 'Projected' : 'Actual')} />
+                  <Bar dataKey="actual" fill="var(--chart-2)" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="projected" fill="var(--chart-1)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,92 @@
+// Pricing form schema for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { z } from 'zod'
+import { format } from 'date-fns'
+import { getDynamicPricingRuleViolations } from '@/lib/pricing/dynamic-pricing'
+import { getPricingRuleViolations } from '@/lib/pricing/pricing-rules'
+import { MAX_TEMPLATE_NAME_LENGTH } from '@/lib/pricing/pricing-templates'
+
+const amount = (label: string) =>
+  z.coerce.number({ invalid_type_error: `${label} must be a number.` })
+
+export const pricingFormSchema = z
+  .object({
+    primeBasePrice: amount('Prime base price'),
+    primePerPersonPrice: amount('Prime per-person price'),
+    nonPrimePerPersonPrice: amount('Non-Prime per-person price'),
+    platformFeePercentage: amount('Platform fee'),
+    minimumPartySize: amount('Minimum party size'),
+    maximumPartySize: amount('Maximum party size'),
+    isActive: z.boolean(),
+    // Kept with the saved version in the pricing history
+    reason: z.string().optional(),
+    // yyyy-MM-dd; empty applies the change straight away
+    effectiveDate: z.string().optional(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.effectiveDate && values.effectiveDate <= format(new Date(), 'yyyy-MM-dd')) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['effectiveDate'],
+        message: 'Pick a date after today, or leave empty to apply now.',
+      })
+    }
+
+
+    getPricingRuleViolations(values).forEach(({ field, message }) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message })
+    })
+  })
+
+export type PricingFormValues = z.infer<typeof pricingFormSchema>
+
+const multiplier = z.coerce.number({ invalid_type_error: 'Multiplier must be a number.' })
+
+export const dynamicPricingFormSchema = z
+  .object({
+    isActive: z.boolean(),
+    // Sunday first
+    dayOfWeekMultipliers: z.array(multiplier),
+    timeWindows: z.array(
+      z.object({
+        label: z.string(),
+        startTime: z.string(),
+        endTime: z.string(),
+        multiplier,
+      })
+    ),
+    dateOverrides: z.array(
+      z.object({
+        date: z.string(),
+        label: z.string(),
+        multiplier,
+      })
+    ),
+    surgeTiers: z.array(
+      z.object({
+        minOccupancy: amount('Occupancy'),
+        multiplier,
+      })
+    ),
+    maxMultiplier: multiplier,
+  })
+  .superRefine((values, ctx) => {
+    getDynamicPricingRuleViolations(values).forEach(({ path, message }) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message })
+    })
+  })
+
+export type DynamicPricingFormValues = z.infer<typeof dynamicPricingFormSchema>
+
+export const pricingTemplateFormSchema = z.object({
+  sourceVenueId: z.string().min(1, 'Pick the venue to copy pricing from.'),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Give the template a name.')
+    .max(MAX_TEMPLATE_NAME_LENGTH, `Keep the name under ${MAX_TEMPLATE_NAME_LENGTH} characters.`),
+  description: z.string().optional(),
+})
+
+export type PricingTemplateFormValues = z.infer<typeof pricingTemplateFormSchema>
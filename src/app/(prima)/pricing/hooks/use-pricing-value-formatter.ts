@@ -0,0 +1,19 @@
+'use client'
+
+// Display formatting for pricing field values
+// Based on RFC-006: Pricing Configuration
+
+import type { PricingFieldFormat } from '@/lib/pricing/pricing-versions'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import type { PricingConfigInput } from '@/types/data'
+
+export function usePricingValueFormatter() {
+  const { formatAmount } = useDataMasking()
+
+  return (value: PricingConfigInput[keyof PricingConfigInput], valueFormat: PricingFieldFormat) => {
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+    if (valueFormat === 'currency') return formatAmount(value)
+    if (valueFormat === 'percentage') return `${value}%`
+    return value.toString()
+  }
+}
@@ -1,8 +1,8 @@
 // PRIMA Pricing Configuration Page
-// Based on RFC-001: Authentication & Base Infrastructure
-// This is a placeholder - will be fully implemented in RFC-006
+// Based on RFC-006: Pricing Configuration
 
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { PricingEditor } from './components/pricing-editor'
+import { PricingTemplates } from './components/pricing-templates'
 
 export default function PricingPage() {
   return (
@@ -10,29 +10,12 @@ export default function PricingPage() {
       <div>
         <h1 className="text-3xl font-bold text-foreground">Pricing Configuration</h1>
         <p className="text-muted-foreground">
-          Live pricing configuration with revenue impact analysis.
+          Set what guests pay at each venue, schedule changes ahead of time, see their effect on revenue before saving and share proven setups across venues with templates.
         </p>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>RFC-006: Pricing Configuration</CardTitle>
-          <CardDescription>
-            This module will be implemented in RFC-006 with live pricing forms,
-            impact analysis, and multi-venue pricing management.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-2 text-sm text-muted-foreground">
-            <p>• Live pricing forms with instant calculation preview</p>
-            <p>• Revenue and commission impact projections</p>
-            <p>• Multi-venue pricing configuration</p>
-            <p>• Business logic validation with helpful error messages</p>
-            <p>• Pricing history and rollback capabilities</p>
-            <p>• Prime/Non-Prime pricing scenarios</p>
-          </div>
-        </CardContent>
-      </Card>
+      <PricingEditor />
+      <PricingTemplates />
     </div>
   )
 }
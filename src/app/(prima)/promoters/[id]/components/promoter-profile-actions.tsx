@@ -0,0 +1,80 @@
+'use client'
+
+// Promoter profile actions for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useState } from 'react'
+import { MapPin, Send, UserCog } from 'lucide-react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useResendPromoterInvitationMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import type { Promoter } from '@/types/data'
+import { PromoterStatusDialog } from '../../components/promoter-status-dialog'
+import { PromoterVenueAccessDialog } from '../../components/promoter-venue-access-dialog'
+
+interface Props {
+  promoter: Promoter
+}
+
+export function PromoterProfileActions({ promoter }: Props) {
+  const { hasPermission } = useAuth()
+  const [open, setOpen] = useState<'status' | 'venues' | null>(null)
+  const [resendInvitation, { isLoading: isResending }] = useResendPromoterInvitationMutation()
+
+  if (!hasPermission('WRITE_PROMOTERS')) {
+    return null
+  }
+
+  const handleResend = async () => {
+    try {
+      await resendInvitation(promoter.id).unwrap()
+      toast({
+        title: 'Invitation resent',
+        description: `Sent again to ${promoter.email}.`,
+      })
+    } catch (error) {
+      toast({
+        title: 'Could not resend invitation',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {promoter.invitedAt && !promoter.invitationAcceptedAt && (
+          <Button variant="outline" onClick={handleResend} disabled={isResending}>
+            <Send className="h-4 w-4 mr-2" />
+            {isResending ? 'Sending…' : 'Resend invitation'}
+          </Button>
+        )}
+        <Button variant="outline" onClick={() => setOpen('venues')}>
+          <MapPin className="h-4 w-4 mr-2" />
+          Venue access
+        </Button>
+        <Button variant="outline" onClick={() => setOpen('status')}>
+          <UserCog className="h-4 w-4 mr-2" />
+          Change status
+        </Button>
+      </div>
+
+      {/* Remount on save so the forms start from the updated promoter */}
+      <PromoterStatusDialog
+        key={`status-${promoter.status}`}
+        promoter={promoter}
+        open={open === 'status'}
+        onOpenChange={(value) => setOpen(value ? 'status' : null)}
+      />
+      <PromoterVenueAccessDialog
+        key={`venues-${promoter.venueAccess.join()}`}
+        promoter={promoter}
+        open={open === 'venues'}
+        onOpenChange={(value) => setOpen(value ? 'venues' : null)}
+      />
+    </>
+  )
+}
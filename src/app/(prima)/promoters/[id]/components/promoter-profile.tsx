@@ -0,0 +1,217 @@
+'use client'
+
+// Promoter Profile Component for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { ArrowLeft, Mail, Phone } from 'lucide-react'
+import { getBookingAmount } from '@/lib/bookings/booking-amounts'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { useGetBookingsQuery, useGetPromoterQuery } from '@/lib/store/api'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  BookingStatusBadge,
+  BookingTypeBadge,
+} from '@/components/prima/booking-status-badge'
+import { PromoterSummaryCards, PromoterSummarySkeleton } from '@/components/prima/promoter-summary'
+import { PromoterTrendCharts } from '@/components/prima/promoter-trend-charts'
+import { PromoterStatusBadge } from '../../components/promoter-status-badge'
+import { PromoterTierSelect } from '../../components/promoter-tier-select'
+import { PromoterProfileActions } from './promoter-profile-actions'
+import { PromoterTierHistory } from './promoter-tier-history'
+
+interface Props {
+  id: string
+}
+
+const RECENT_BOOKINGS = 8
+
+export function PromoterProfile({ id }: Props) {
+  const { availableVenues } = useVenueContext()
+  const { maskBooking, maskPromoter, formatAmount } = useDataMasking()
+  const { data, isLoading, isError } = useGetPromoterQuery(id)
+  const promoter = data && maskPromoter(data)
+  const { data: bookings, isLoading: bookingsLoading } = useGetBookingsQuery({
+    promoterId: id,
+    sortBy: 'bookingDate',
+    sortOrder: 'desc',
+    limit: RECENT_BOOKINGS,
+  })
+
+  if (isLoading) {
+    return <PromoterSummarySkeleton />
+  }
+
+  if (isError || !promoter) {
+    return (
+      <div className="space-y-4 text-center py-12">
+        <p className="text-muted-foreground">Promoter not found.</p>
+        <Button variant="outline" asChild>
+          <Link href="/promoters">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to promoters
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const getVenueName = (venueId: string) =>
+    availableVenues.find(v => v.id === venueId)?.name ?? venueId
+
+  const isInvitationPending = !!promoter.invitedAt && !promoter.invitationAcceptedAt
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <Button variant="ghost" size="sm" className="-ml-3" asChild>
+          <Link href="/promoters">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Promoters
+          </Link>
+        </Button>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-bold tracking-tight">
+              {promoter.firstName} {promoter.lastName}
+            </h1>
+            <PromoterStatusBadge status={promoter.status} />
+            {isInvitationPending && <Badge variant="outline">Invitation pending</Badge>}
+            <PromoterTierSelect promoter={promoter} />
+          </div>
+          <PromoterProfileActions promoter={promoter} />
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Mail className="h-4 w-4" />
+            {promoter.email}
+          </span>
+          {promoter.phone && (
+            <span className="flex items-center gap-1">
+              <Phone className="h-4 w-4" />
+              {promoter.phone}
+            </span>
+          )}
+          <span>Joined {format(parseISO(promoter.joinedDate), 'MMM d, yyyy')}</span>
+          <span>Last active {format(parseISO(promoter.lastActiveDate), 'MMM d, yyyy')}</span>
+          {isInvitationPending && promoter.invitedAt && (
+            <span>Invited {format(parseISO(promoter.invitedAt), 'MMM d, yyyy')}</span>
+          )}
+        </div>
+        {promoter.statusReason && (
+          <p className="text-sm text-muted-foreground">
+            <span className="font-medium text-foreground">Status note:</span> {promoter.statusReason}
+            {promoter.statusChangedAt && ` (${format(parseISO(promoter.statusChangedAt), 'MMM d, yyyy')})`}
+          </p>
+        )}
+      </div>
+
+      <PromoterSummaryCards promoter={promoter} />
+
+      <PromoterTrendCharts promoterId={promoter.id} />
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="space-y-4 lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold">Recent bookings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Guest</TableHead>
+                    <TableHead>Venue</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bookingsLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6}>
+                        <Skeleton className="h-4 w-full" />
+                      </TableCell>
+                    </TableRow>
+                  ) : bookings && bookings.data.length > 0 ? (
+                    bookings.data.map(maskBooking).map(booking => (
+                      <TableRow key={booking.id}>
+                        <TableCell className="whitespace-nowrap">
+                          <Link
+                            href={`/bookings/${booking.id}`}
+                            className="font-medium hover:text-primary hover:underline"
+                          >
+                            {format(parseISO(booking.bookingDate), 'MMM dd, yyyy')}
+                          </Link>
+                          <span className="text-muted-foreground"> {booking.bookingTime}</span>
+                        </TableCell>
+                        <TableCell>{booking.guestName}</TableCell>
+                        <TableCell>{getVenueName(booking.venueId)}</TableCell>
+                        <TableCell>
+                          <BookingTypeBadge type={booking.type} />
+                        </TableCell>
+                        <TableCell>
+                          <BookingStatusBadge status={booking.status} />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatAmount(getBookingAmount(booking))}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-16 text-center text-muted-foreground">
+                        No bookings yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+              {bookings && bookings.pagination.total > bookings.data.length && (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  Latest {bookings.data.length} of {bookings.pagination.total} bookings.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold">Venue access</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {promoter.venueAccess.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No venues assigned.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {promoter.venueAccess.map(venueId => (
+                    <Badge key={venueId} variant="secondary">{getVenueName(venueId)}</Badge>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+          <PromoterTierHistory promoterId={promoter.id} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+'use client'
+
+// Commission tier history for a PRIMA promoter
+// Based on RFC-007: Promoter Management & Performance
+
+import { format, parseISO } from 'date-fns'
+import { AlertCircle } from 'lucide-react'
+import { useGetPromoterTierHistoryQuery } from '@/lib/store/api'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import type { PromoterTier } from '@/types/data'
+import { promoterTiers } from '../../data/data'
+
+interface Props {
+  promoterId: string
+}
+
+function tierLabel(tier: PromoterTier) {
+  return promoterTiers.find(t => t.value === tier)?.label ?? tier
+}
+
+export function PromoterTierHistory({ promoterId }: Props) {
+  const { data: history, isLoading, isError } = useGetPromoterTierHistoryQuery(promoterId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Tier history</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : isError || !history ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load tier history.
+          </p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tier changes recorded.</p>
+        ) : (
+          <ol className="relative space-y-4 border-l pl-6">
+            {history.map(change => (
+              <li key={change.id} className="relative text-sm">
+                <span className="absolute -left-[1.95rem] top-1 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                <div className="flex items-center gap-2 font-medium">
+                  {change.fromTier
+                    ? `${tierLabel(change.fromTier)} → ${tierLabel(change.toTier)}`
+                    : `Joined as ${tierLabel(change.toTier)}`}
+                  {change.source === 'TIER_REVIEW' && <Badge variant="outline">Tier review</Badge>}
+                </div>
+                {change.reason && <p className="text-muted-foreground">{change.reason}</p>}
+                <p className="text-xs text-muted-foreground">
+                  {change.actorName} • {format(parseISO(change.createdAt), 'MMM d, yyyy')}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,14 @@
+// PRIMA Promoter Profile Page
+// Based on RFC-007: Promoter Management & Performance
+
+import { PromoterProfile } from './components/promoter-profile'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+export default async function PromoterProfilePage({ params }: Props) {
+  const id = (await params).id
+
+  return <PromoterProfile id={id} />
+}
@@ -0,0 +1,112 @@
+'use client'
+
+// Overlaid performance charts for compared PRIMA promoters
+// Based on RFC-007: Promoter Management & Performance
+
+import { format, parseISO } from 'date-fns'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { formatRate } from '@/lib/promoters/promoter-metrics'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { PromoterComparison, PromoterComparisonMetric } from '@/types/data'
+
+interface Props {
+  comparison: PromoterComparison
+  getPromoterName: (promoterId: string) => string
+}
+
+// One colour per compared promoter, in the order they were picked
+export const COMPARISON_COLORS = [
+  'var(--chart-1)',
+  'var(--chart-2)',
+  'var(--chart-3)',
+  'var(--chart-4)',
+  'var(--chart-5)',
+]
+
+const tooltipStyle = {
+  backgroundColor: 'var(--card)',
+  border: '1px solid var(--border)',
+  borderRadius: '6px',
+}
+
+// Weeks are labelled by the day they start
+const BUCKET_FORMATS = { day: 'MMM d', week: 'MMM d', month: 'MMM yy' }
+
+export function ComparisonCharts({ comparison, getPromoterName }: Props) {
+  const { canViewFinancials, formatAmount } = useDataMasking()
+  const buckets = comparison.promoters[0]?.series.map(metrics => metrics.period.from) ?? []
+
+  // One row per bucket with a column per promoter, as recharts expects
+  const chartData = (metric: PromoterComparisonMetric) => buckets.map((from, index) => ({
+    bucket: format(parseISO(from), BUCKET_FORMATS[comparison.granularity]),
+    ...Object.fromEntries(comparison.promoters.map(p => [p.promoterId, p.series[index]?.[metric] ?? 0])),
+  }))
+
+  const charts: Array<{
+    metric: PromoterComparisonMetric
+    title: string
+    formatValue: (value: number) => string
+    isRate?: boolean
+  }> = [
+    // The revenue series would reveal amounts even with the axis hidden
+    ...(canViewFinancials
+      ? [{ metric: 'totalRevenue' as const, title: 'Revenue', formatValue: formatAmount }]
+      : []),
+    { metric: 'totalBookings', title: 'Bookings', formatValue: (value) => String(value) },
+    { metric: 'conversionRate', title: 'Conversion', formatValue: formatRate, isRate: true },
+    { metric: 'noShowRate', title: 'No-show rate', formatValue: formatRate, isRate: true },
+  ]
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      {charts.map(({ metric, title, formatValue, isRate }) => (
+        <Card key={metric}>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">{title}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData(metric)} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" vertical={false} />
+                  <XAxis dataKey="bucket" className="text-xs" minTickGap={16} />
+                  <YAxis
+                    className="text-xs"
+                    allowDecimals={isRate}
+                    domain={isRate ? [0, 1] : [0, 'auto']}
+                    tickFormatter={isRate ? (value: number) => `${Math.round(value * 100)}%` : formatValue}
+                  />
+                  <Tooltip
+                    formatter={(value: number, promoterId: string) => [formatValue(value), getPromoterName(promoterId)]}
+                    contentStyle={tooltipStyle}
+                  />
+                  <Legend formatter={(promoterId) => getPromoterName(promoterId)} />
+                  {comparison.promoters.map((p, index) => (
+                    <Line
+                      key={p.promoterId}
+                      type="monotone"
+                      dataKey={p.promoterId}
+                      stroke={COMPARISON_COLORS[index % COMPARISON_COLORS.length]}
+                      strokeWidth={2}
+                      dot={buckets.length <= 31 ? { r: 2 } : false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+// Head-to-head metric table for compared PRIMA promoters
+// Based on RFC-007: Promoter Management & Performance
+
+import { formatRate } from '@/lib/promoters/promoter-metrics'
+import { COMPARISON_METRICS } from '@/lib/promoters/promoter-comparison'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { cn } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { PromoterComparison, PromoterComparisonMetric } from '@/types/data'
+import { COMPARISON_COLORS } from './comparison-charts'
+
+interface Props {
+  comparison: PromoterComparison
+  getPromoterName: (promoterId: string) => string
+  venueName?: string
+}
+
+const METRIC_LABELS: Record<PromoterComparisonMetric, string> = {
+  totalRevenue: 'Revenue',
+  totalBookings: 'Bookings',
+  conversionRate: 'Conversion',
+  noShowRate: 'No-show rate',
+}
+
+function percentileClass(percentile: number) {
+  if (percentile >= 75) return 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+  if (percentile < 25) return 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300'
+  return undefined
+}
+
+export function ComparisonMetricsTable({ comparison, getPromoterName, venueName }: Props) {
+  const { canViewFinancials, formatAmount } = useDataMasking()
+  const metrics = COMPARISON_METRICS.filter(metric => metric !== 'totalRevenue' || canViewFinancials)
+
+  const formatValue = (metric: PromoterComparisonMetric, value: number) => ({
+    totalRevenue: () => formatAmount(value),
+    totalBookings: () => value.toString(),
+    conversionRate: () => formatRate(value),
+    noShowRate: () => formatRate(value),
+  }[metric]())
+
+  // Fewer no-shows is the better result
+  const getBest = (metric: PromoterComparisonMetric) => {
+    const values = comparison.promoters.map(p => p.metrics[metric])
+    return metric === 'noShowRate' ? Math.min(...values) : Math.max(...values)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Head to head</CardTitle>
+        <CardDescription>
+          Percentiles rank each promoter against all {comparison.populationSize} promoter(s)
+          {venueName ? ` with access to ${venueName}` : ' in the portfolio'} over the same dates.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Metric</TableHead>
+              {comparison.promoters.map((p, index) => (
+                <TableHead key={p.promoterId} className="text-right">
+                  <span className="inline-flex items-center gap-2">
+                    <span
+                      className="h-2.5 w-2.5 rounded-full"
+                      style={{ backgroundColor: COMPARISON_COLORS[index % COMPARISON_COLORS.length] }}
+                    />
+                    {getPromoterName(p.promoterId)}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {metrics.map(metric => {
+              const best = getBest(metric)
+
+              return (
+                <TableRow key={metric}>
+                  <TableCell className="font-medium">{METRIC_LABELS[metric]}</TableCell>
+                  {comparison.promoters.map(p => {
+                    const percentile = p.percentiles[metric]
+
+                    return (
+                      <TableCell key={p.promoterId} className="text-right whitespace-nowrap">
+                        <span className={cn(p.metrics[metric] === best && 'font-semibold')}>
+                          {formatValue(metric, p.metrics[metric])}
+                        </span>
+                        {percentile !== undefined && (
+                          <Badge variant="outline" className={cn('ml-2', percentileClass(percentile))}>
+                            P{percentile}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    )
+                  })}
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
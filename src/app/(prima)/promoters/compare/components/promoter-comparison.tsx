@@ -0,0 +1,196 @@
+'use client'
+
+// Promoter comparison for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { AlertCircle, ArrowLeft, X } from 'lucide-react'
+import {
+  MAX_COMPARED_PROMOTERS,
+  MIN_COMPARED_PROMOTERS,
+} from '@/lib/promoters/promoter-comparison'
+import {
+  getPromoterMetricsRange,
+  PROMOTER_METRICS_PERIODS,
+  type PromoterMetricsPeriod,
+} from '@/lib/promoters/promoter-metrics'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useGetAllPromotersQuery, useGetPromoterComparisonQuery } from '@/lib/store/api'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { DataTableDateFilter } from '../../../bookings/components/data-table-date-filter'
+import { ComparisonCharts, COMPARISON_COLORS } from './comparison-charts'
+import { ComparisonMetricsTable } from './comparison-metrics-table'
+
+interface Props {
+  promoterIds: string[]
+}
+
+// "activity" leaves the range to the API: the latest year the promoters were active
+type RangePreset = 'activity' | PromoterMetricsPeriod
+
+export function PromoterComparison({ promoterIds }: Props) {
+  const router = useRouter()
+  const { selectedVenue, selectedVenueId, isPortfolioView } = useVenueContext()
+  const [preset, setPreset] = useState<RangePreset>('activity')
+  const [customRange, setCustomRange] = useState<{ from: string; to: string }>()
+
+  const venueId = isPortfolioView ? undefined : selectedVenueId || undefined
+  const isValidSelection = promoterIds.length >= MIN_COMPARED_PROMOTERS &&
+    promoterIds.length <= MAX_COMPARED_PROMOTERS
+
+  const { data: promoters, isError: isPromotersError } = useGetAllPromotersQuery({})
+  const compared = promoters?.filter(p => promoterIds.includes(p.id)) ?? []
+  // IDs from an old link, or promoters that have since been removed
+  const missingIds = promoters ? promoterIds.filter(id => !promoters.some(p => p.id === id)) : []
+
+  // "All time" starts when the longest-standing compared promoter joined,
+  // so it waits for their profiles to load
+  const earliestJoined = compared.map(p => p.joinedDate).sort()[0]
+  const isWaitingForJoinDate = !customRange && preset === 'all' && !promoters
+  const range = customRange ?? (preset === 'activity' || !earliestJoined
+    ? undefined
+    : getPromoterMetricsRange(preset, { joinedDate: earliestJoined }))
+
+  const { data: comparison, isLoading, isFetching, error } = useGetPromoterComparisonQuery(
+    { promoterIds, venueId, ...range },
+    { skip: !isValidSelection || isWaitingForJoinDate || missingIds.length > 0 }
+  )
+
+  const getPromoterName = (promoterId: string) => {
+    const promoter = promoters?.find(p => p.id === promoterId)
+    return promoter ? `${promoter.firstName} ${promoter.lastName}` : promoterId
+  }
+
+  const removePromoter = (promoterId: string) =>
+    router.replace(`/promoters/compare?ids=${promoterIds.filter(id => id !== promoterId).join(',')}`)
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Button variant="ghost" size="sm" className="-ml-3" asChild>
+          <Link href="/promoters">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Promoters
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold text-foreground">Compare Promoters</h1>
+        <p className="text-muted-foreground">
+          {isPortfolioView || !selectedVenue
+            ? 'Performance across the portfolio, side by side.'
+            : `Performance at ${selectedVenue.name}, side by side.`}
+        </p>
+      </div>
+
+      {!isValidSelection ? (
+        <div className="space-y-4 rounded-md border py-12 text-center">
+          <p className="text-muted-foreground">
+            Pick {MIN_COMPARED_PROMOTERS} to {MAX_COMPARED_PROMOTERS} promoters on the leaderboard to compare them.
+          </p>
+          <Button variant="outline" asChild>
+            <Link href="/promoters">Go to leaderboard</Link>
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {promoterIds.map((promoterId, index) => (
+              <Badge key={promoterId} variant="secondary" className="gap-2 py-1 pl-2 pr-1">
+                <span
+                  className="h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: COMPARISON_COLORS[index % COMPARISON_COLORS.length] }}
+                />
+                <Link href={`/promoters/${promoterId}`} className="hover:underline">
+                  {getPromoterName(promoterId)}
+                </Link>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  disabled={promoterIds.length <= MIN_COMPARED_PROMOTERS}
+                  onClick={() => removePromoter(promoterId)}
+                  aria-label={`Remove ${getPromoterName(promoterId)}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </Badge>
+            ))}
+            <div className="flex items-center gap-2 sm:ml-auto">
+              <DataTableDateFilter title="Custom dates" value={customRange} onChange={setCustomRange} />
+              <Select
+                value={preset}
+                onValueChange={(value) => {
+                  setPreset(value as RangePreset)
+                  setCustomRange(undefined)
+                }}
+                disabled={!!customRange}
+              >
+                <SelectTrigger className="h-8 w-[190px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="activity">Latest year of activity</SelectItem>
+                  {PROMOTER_METRICS_PERIODS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {missingIds.length > 0 ? (
+            <p className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              Promoter not found: {missingIds.join(', ')}. Remove it from the comparison or pick others on the leaderboard.
+            </p>
+          ) : isWaitingForJoinDate && isPromotersError ? (
+            <p className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              Failed to load the promoters.
+            </p>
+          ) : isLoading || isWaitingForJoinDate ? (
+            <div className="space-y-4">
+              <Skeleton className="h-48 w-full" />
+              <div className="grid gap-4 lg:grid-cols-2">
+                <Skeleton className="h-80 w-full" />
+                <Skeleton className="h-80 w-full" />
+              </div>
+            </div>
+          ) : error || !comparison ? (
+            <p className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              {error ? getApiError(error).message : 'Failed to load the comparison.'}
+            </p>
+          ) : (
+            <div className={isFetching ? 'space-y-4 opacity-60' : 'space-y-4'}>
+              <p className="text-sm text-muted-foreground">
+                {format(parseISO(comparison.period.from), 'MMM d, yyyy')} –{' '}
+                {format(parseISO(comparison.period.to), 'MMM d, yyyy')}, by {comparison.granularity}.
+              </p>
+              <ComparisonMetricsTable
+                comparison={comparison}
+                getPromoterName={getPromoterName}
+                venueName={venueId ? selectedVenue?.name : undefined}
+              />
+              <ComparisonCharts comparison={comparison} getPromoterName={getPromoterName} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
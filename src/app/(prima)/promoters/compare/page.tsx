@@ -0,0 +1,14 @@
+// PRIMA Promoter Comparison Page
+// Based on RFC-007: Promoter Management & Performance
+
+import { PromoterComparison } from './components/promoter-comparison'
+
+interface Props {
+  searchParams: Promise<{ ids?: string }>
+}
+
+export default async function PromoterComparisonPage({ searchParams }: Props) {
+  const ids = ((await searchParams).ids ?? '').split(',').filter(Boolean)
+
+  return <PromoterComparison promoterIds={ids} />
+}
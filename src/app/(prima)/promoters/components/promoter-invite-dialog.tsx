@@ -0,0 +1,190 @@
+'use client'
+
+// Invite a new promoter for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useInvitePromoterMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import SelectDropdown from '@/components/select-dropdown'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { promoterTiers } from '../data/data'
+import { promoterInviteFormSchema, type PromoterInviteFormValues } from '../data/schema'
+import { PromoterVenueChecklist } from './promoter-venue-checklist'
+
+interface Props {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function PromoterInviteDialog({ open, onOpenChange }: Props) {
+  const { selectedVenueId, isPortfolioView } = useVenueContext()
+  const [invitePromoter, { isLoading }] = useInvitePromoterMutation()
+  const defaultValues: PromoterInviteFormValues = {
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: '',
+    tier: 'STANDARD',
+    // Start from the venue being worked on, if any
+    venueAccess: !isPortfolioView && selectedVenueId ? [selectedVenueId] : [],
+  }
+
+  const form = useForm<PromoterInviteFormValues>({
+    resolver: zodResolver(promoterInviteFormSchema),
+    defaultValues,
+  })
+
+  const closeDialog = (value: boolean) => {
+    onOpenChange(value)
+    form.reset(defaultValues)
+  }
+
+  const onSubmit = async (values: PromoterInviteFormValues) => {
+    try {
+      const promoter = await invitePromoter(values).unwrap()
+      toast({
+        title: 'Invitation sent',
+        description: `${promoter.firstName} ${promoter.lastName} will get an email at ${promoter.email}.`,
+      })
+      closeDialog(false)
+    } catch (error) {
+      toast({
+        title: 'Could not invite promoter',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={closeDialog}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader className="text-left">
+          <DialogTitle>Invite promoter</DialogTitle>
+          <DialogDescription>
+            They&apos;ll get an email to set up their account. Until they accept and you
+            activate them, they can&apos;t be assigned bookings.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form id="promoter-invite-form" onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="firstName"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>First name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="lastName"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Last name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="email" placeholder="name@example.com" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="tel" />
+                    </FormControl>
+                    <FormDescription>Optional.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="tier"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Starting tier</FormLabel>
+                  <SelectDropdown
+                    isControlled
+                    defaultValue={field.value}
+                    onValueChange={field.onChange}
+                    items={promoterTiers.map(({ label, value }) => ({ label, value }))}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="venueAccess"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Venue access</FormLabel>
+                  <PromoterVenueChecklist id="promoter-invite-venue" value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </form>
+        </Form>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => closeDialog(false)}>
+            Cancel
+          </Button>
+          <Button form="promoter-invite-form" type="submit" disabled={isLoading}>
+            {isLoading ? 'Sending…' : 'Send invitation'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,27 @@
+'use client'
+
+// Status badge for PRIMA promoters
+// Based on RFC-007: Promoter Management & Performance
+
+import { cn } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import type { PromoterStatus } from '@/types/data'
+import { promoterStatuses } from '../data/data'
+
+export function PromoterStatusBadge({ status }: { status: PromoterStatus }) {
+  const option = promoterStatuses.find(s => s.value === status)
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        'gap-1 whitespace-nowrap',
+        status === 'ACTIVE' && 'border-green-500/40 text-green-700 dark:text-green-400',
+        status === 'SUSPENDED' && 'border-red-500/40 text-red-700 dark:text-red-400'
+      )}
+    >
+      {option && <option.icon className="h-3.5 w-3.5" />}
+      {option?.label ?? status}
+    </Badge>
+  )
+}
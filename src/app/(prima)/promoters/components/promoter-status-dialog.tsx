@@ -0,0 +1,141 @@
+'use client'
+
+// Change a promoter's status for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { getApiError } from '@/lib/store/api-error'
+import { useUpdatePromoterStatusMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import SelectDropdown from '@/components/select-dropdown'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Textarea } from '@/components/ui/textarea'
+import type { Promoter } from '@/types/data'
+import { promoterStatuses } from '../data/data'
+import { promoterStatusFormSchema, type PromoterStatusFormValues } from '../data/schema'
+
+interface Props {
+  promoter: Promoter
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const STATUS_HINTS: Record<Promoter['status'], string> = {
+  ACTIVE: 'Can be assigned new bookings.',
+  INACTIVE: 'Keeps their history but can\'t be assigned new bookings.',
+  SUSPENDED: 'Blocked pending review. Use for policy or conduct issues.',
+}
+
+export function PromoterStatusDialog({ promoter, open, onOpenChange }: Props) {
+  const [updateStatus, { isLoading }] = useUpdatePromoterStatusMutation()
+  const options = promoterStatuses.filter(s => s.value !== promoter.status)
+  const defaultValues = { status: options[0].value, reason: '' }
+  const name = `${promoter.firstName} ${promoter.lastName}`
+
+  const form = useForm<PromoterStatusFormValues>({
+    resolver: zodResolver(promoterStatusFormSchema),
+    defaultValues,
+  })
+  const status = form.watch('status')
+
+  const closeDialog = (value: boolean) => {
+    onOpenChange(value)
+    form.reset(defaultValues)
+  }
+
+  const onSubmit = async (values: PromoterStatusFormValues) => {
+    try {
+      await updateStatus({ id: promoter.id, ...values }).unwrap()
+      toast({
+        title: 'Status updated',
+        description: `${name} is now ${promoterStatuses.find(s => s.value === values.status)?.label.toLowerCase()}.`,
+      })
+      closeDialog(false)
+    } catch (error) {
+      toast({
+        title: 'Could not change status',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={closeDialog}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader className="text-left">
+          <DialogTitle>Change status</DialogTitle>
+          <DialogDescription>
+            {name} is currently {promoterStatuses.find(s => s.value === promoter.status)?.label.toLowerCase()}.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form id="promoter-status-form" onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>New status</FormLabel>
+                  <SelectDropdown
+                    isControlled
+                    defaultValue={field.value}
+                    onValueChange={field.onChange}
+                    items={options.map(({ label, value }) => ({ label, value }))}
+                  />
+                  <FormDescription>{STATUS_HINTS[status]}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} className="min-h-[80px]" />
+                  </FormControl>
+                  <FormDescription>Shown on the promoter&apos;s profile.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </form>
+        </Form>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => closeDialog(false)}>
+            Cancel
+          </Button>
+          <Button
+            form="promoter-status-form"
+            type="submit"
+            variant={status === 'SUSPENDED' ? 'destructive' : 'default'}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Saving…' : 'Change status'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
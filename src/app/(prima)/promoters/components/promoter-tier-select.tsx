@@ -0,0 +1,75 @@
+'use client'
+
+// Inline commission tier change for PRIMA promoters
+// Based on RFC-007: Promoter Management & Performance
+
+import { useAuth } from '@/lib/auth/auth-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useUpdatePromoterTierMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { Promoter, PromoterTier } from '@/types/data'
+import { promoterTiers } from '../data/data'
+
+interface Props {
+  promoter: Promoter
+}
+
+export function PromoterTierSelect({ promoter }: Props) {
+  const { hasPermission } = useAuth()
+  const [updateTier, { isLoading }] = useUpdatePromoterTierMutation()
+  const current = promoterTiers.find(t => t.value === promoter.tier)
+  const name = `${promoter.firstName} ${promoter.lastName}`
+
+  if (!hasPermission('WRITE_PROMOTERS')) {
+    return (
+      <Badge variant="outline" className="gap-1 whitespace-nowrap">
+        {current && <current.icon className="h-3.5 w-3.5" />}
+        {current?.label ?? promoter.tier}
+      </Badge>
+    )
+  }
+
+  const handleChange = async (tier: PromoterTier) => {
+    if (tier === promoter.tier) return
+
+    try {
+      await updateTier({ id: promoter.id, tier }).unwrap()
+      toast({
+        title: 'Tier updated',
+        description: `${name} is now ${promoterTiers.find(t => t.value === tier)?.label ?? tier}.`,
+      })
+    } catch (error) {
+      toast({
+        title: 'Could not change tier',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Select value={promoter.tier} onValueChange={(value) => handleChange(value as PromoterTier)} disabled={isLoading}>
+      <SelectTrigger className="h-8 w-[130px]" aria-label={`Commission tier for ${name}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {promoterTiers.map(tier => (
+          <SelectItem key={tier.value} value={tier.value}>
+            <span className="flex items-center gap-2">
+              <tier.icon className="h-4 w-4 text-muted-foreground" />
+              {tier.label}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+// Edit a promoter's venue access for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { getApiError } from '@/lib/store/api-error'
+import { useUpdatePromoterVenueAccessMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormMessage,
+} from '@/components/ui/form'
+import type { Promoter } from '@/types/data'
+import {
+  promoterVenueAccessFormSchema,
+  type PromoterVenueAccessFormValues,
+} from '../data/schema'
+import { PromoterVenueChecklist } from './promoter-venue-checklist'
+
+interface Props {
+  promoter: Promoter
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function PromoterVenueAccessDialog({ promoter, open, onOpenChange }: Props) {
+  const { availableVenues } = useVenueContext()
+  const [updateVenueAccess, { isLoading }] = useUpdatePromoterVenueAccessMutation()
+
+  // Venues this user can't see stay assigned; only their own are editable here
+  const isVisible = (venueId: string) => availableVenues.some(v => v.id === venueId)
+  const hiddenVenues = promoter.venueAccess.filter(venueId => !isVisible(venueId))
+  const defaultValues = { venueAccess: promoter.venueAccess.filter(isVisible) }
+
+  const form = useForm<PromoterVenueAccessFormValues>({
+    // Hidden venues already satisfy the at-least-one rule
+    resolver: zodResolver(hiddenVenues.length > 0
+      ? z.object({ venueAccess: z.array(z.string()) })
+      : promoterVenueAccessFormSchema),
+    defaultValues,
+  })
+
+  const closeDialog = (value: boolean) => {
+    onOpenChange(value)
+    form.reset(defaultValues)
+  }
+
+  const onSubmit = async (values: PromoterVenueAccessFormValues) => {
+    try {
+      await updateVenueAccess({
+        id: promoter.id,
+        venueAccess: [...hiddenVenues, ...values.venueAccess],
+      }).unwrap()
+      toast({
+        title: 'Venue access updated',
+        description: `${promoter.firstName} ${promoter.lastName} can now book at ${hiddenVenues.length + values.venueAccess.length} venue(s).`,
+      })
+      closeDialog(false)
+    } catch (error) {
+      toast({
+        title: 'Could not update venue access',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={closeDialog}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader className="text-left">
+          <DialogTitle>Venue access</DialogTitle>
+          <DialogDescription>
+            Choose which venues {promoter.firstName} {promoter.lastName} can take bookings for.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form id="promoter-venue-access-form" onSubmit={form.handleSubmit(onSubmit)}>
+            <FormField
+              control={form.control}
+              name="venueAccess"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <PromoterVenueChecklist
+                    id="promoter-venue-access"
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                  {hiddenVenues.length > 0 && (
+                    <FormDescription>
+                      Also has access to {hiddenVenues.length} venue(s) you don&apos;t manage. Those are kept.
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </form>
+        </Form>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => closeDialog(false)}>
+            Cancel
+          </Button>
+          <Button form="promoter-venue-access-form" type="submit" disabled={isLoading}>
+            {isLoading ? 'Saving…' : 'Save access'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,39 @@
+'use client'
+
+// Venue access checklist for PRIMA promoter forms
+// Based on RFC-007: Promoter Management & Performance
+
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+
+interface Props {
+  id: string
+  value: string[]
+  onChange: (venueAccess: string[]) => void
+}
+
+export function PromoterVenueChecklist({ id, value, onChange }: Props) {
+  const { availableVenues } = useVenueContext()
+
+  return (
+    <div className="grid gap-2 rounded-md border p-3 sm:grid-cols-2">
+      {availableVenues.map(venue => (
+        <div key={venue.id} className="flex items-center space-x-2">
+          <Checkbox
+            id={`${id}-${venue.id}`}
+            checked={value.includes(venue.id)}
+            onCheckedChange={(checked) =>
+              onChange(checked === true
+                ? [...value, venue.id]
+                : value.filter(venueId => venueId !== venue.id))
+            }
+          />
+          <Label htmlFor={`${id}-${venue.id}`} className="font-normal">
+            {venue.name}
+          </Label>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+'use client'
+
+// Column definitions for the PRIMA promoter leaderboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { ColumnDef } from '@tanstack/react-table'
+import Link from 'next/link'
+import { formatRate } from '@/lib/promoters/promoter-metrics'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Skeleton } from '@/components/ui/skeleton'
+import type { PromoterMetrics } from '@/types/data'
+import { DataTableColumnHeader } from '../../bookings/components/data-table-column-header'
+import type { PromoterLeaderboardRow } from '../hooks/use-promoter-leaderboard'
+import { PromoterStatusBadge } from './promoter-status-badge'
+import { PromoterTierSelect } from './promoter-tier-select'
+
+type MetricKey = Exclude<keyof PromoterMetrics, 'promoterId' | 'period'>
+
+function MetricCell({ row, metric }: { row: PromoterLeaderboardRow; metric: MetricKey }) {
+  const { formatAmount } = useDataMasking()
+  const value = row.metrics?.[metric]
+
+  if (value === undefined) return <Skeleton className="ml-auto h-4 w-12" />
+
+  const formatted = {
+    totalBookings: () => value.toString(),
+    totalRevenue: () => formatAmount(value),
+    averageBookingValue: () => formatAmount(value),
+    conversionRate: () => formatRate(value),
+    noShowRate: () => formatRate(value),
+    cancellationRate: () => formatRate(value),
+  }[metric]()
+
+  return <div className="text-right whitespace-nowrap">{formatted}</div>
+}
+
+function metricColumn(metric: MetricKey, title: string): ColumnDef<PromoterLeaderboardRow> {
+  return {
+    id: metric,
+    accessorFn: (row) => row.metrics?.[metric],
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title={title} className="justify-end" />
+    ),
+    cell: ({ row }) => <MetricCell row={row.original} metric={metric} />,
+    // Promoters still loading sort after the rest, whichever the direction
+    sortUndefined: 'last',
+    sortDescFirst: true,
+  }
+}
+
+export const columns: ColumnDef<PromoterLeaderboardRow>[] = [
+  {
+    // Picks promoters to compare; there's no select-all since only a few can be
+    id: 'select',
+    header: () => null,
+    cell: ({ row }) => (
+      <Checkbox
+        checked={row.getIsSelected()}
+        disabled={!row.getCanSelect()}
+        onCheckedChange={(value) => row.toggleSelected(!!value)}
+        aria-label="Select to compare"
+        className="translate-y-[2px]"
+      />
+    ),
+    enableSorting: false,
+    enableHiding: false,
+  },
+  {
+    id: 'rank',
+    header: () => <div className="w-6">#</div>,
+    cell: ({ row, table }) => (
+      <div className="w-6 font-medium text-muted-foreground">
+        {table.getRowModel().rows.findIndex(r => r.id === row.id) + 1}
+      </div>
+    ),
+    enableSorting: false,
+    enableHiding: false,
+  },
+  {
+    id: 'name',
+    accessorFn: (row) => `${row.promoter.firstName} ${row.promoter.lastName}`,
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Promoter" />
+    ),
+    cell: ({ row }) => (
+      <div>
+        <div className="flex items-center gap-2">
+          <Link
+            href={`/promoters/${row.original.promoter.id}`}
+            className="font-medium whitespace-nowrap hover:text-primary hover:underline"
+          >
+            {row.original.promoter.firstName} {row.original.promoter.lastName}
+          </Link>
+          {row.original.promoter.invitedAt && !row.original.promoter.invitationAcceptedAt && (
+            <Badge variant="outline">Invited</Badge>
+          )}
+        </div>
+        <div className="text-sm text-muted-foreground">{row.original.promoter.email}</div>
+      </div>
+    ),
+    enableHiding: false,
+  },
+  {
+    id: 'tier',
+    accessorFn: (row) => row.promoter.tier,
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Tier" />
+    ),
+    cell: ({ row }) => <PromoterTierSelect promoter={row.original.promoter} />,
+    enableSorting: false,
+  },
+  {
+    id: 'status',
+    accessorFn: (row) => row.promoter.status,
+    header: ({ column }) => (
+      <DataTableColumnHeader column={column} title="Status" />
+    ),
+    cell: ({ row }) => <PromoterStatusBadge status={row.original.promoter.status} />,
+    enableSorting: false,
+  },
+  metricColumn('totalRevenue', 'Revenue'),
+  metricColumn('totalBookings', 'Bookings'),
+  metricColumn('averageBookingValue', 'Avg. value'),
+  metricColumn('conversionRate', 'Conversion'),
+  metricColumn('noShowRate', 'No-show rate'),
+  metricColumn('cancellationRate', 'Cancellation rate'),
+]
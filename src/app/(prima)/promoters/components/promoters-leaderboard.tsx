@@ -0,0 +1,233 @@
+'use client'
+
+// Promoter leaderboard for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  ColumnFiltersState,
+  RowSelectionState,
+  SortingState,
+  flexRender,
+  getCoreRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from '@tanstack/react-table'
+import { Cross2Icon } from '@radix-ui/react-icons'
+import { AlertCircle, GitCompareArrows } from 'lucide-react'
+import { MAX_COMPARED_PROMOTERS, MIN_COMPARED_PROMOTERS } from '@/lib/promoters/promoter-comparison'
+import {
+  PROMOTER_METRICS_PERIODS,
+  type PromoterMetricsPeriod,
+} from '@/lib/promoters/promoter-metrics'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { PromoterStatus, PromoterTier } from '@/types/data'
+import { DataTableFacetedFilter } from '../../bookings/components/data-table-faceted-filter'
+import { promoterStatuses, promoterTiers } from '../data/data'
+import { usePromoterLeaderboard } from '../hooks/use-promoter-leaderboard'
+import { columns } from './promoters-columns'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+export function PromotersLeaderboard() {
+  const { selectedVenueId, isPortfolioView } = useVenueContext()
+  const { canViewFinancials, canViewGuestContact } = useDataMasking()
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [period, setPeriod] = useState<PromoterMetricsPeriod>('90d')
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
+  // Ranking by revenue would reveal it
+  const [sorting, setSorting] = useState<SortingState>([
+    { id: canViewFinancials ? 'totalRevenue' : 'totalBookings', desc: true },
+  ])
+
+  const venueId = isPortfolioView ? undefined : selectedVenueId || undefined
+  const tier = columnFilters.find(f => f.id === 'tier')?.value as PromoterTier[] | undefined
+  const status = columnFilters.find(f => f.id === 'status')?.value as PromoterStatus[] | undefined
+
+  // Debounce search so every keystroke doesn't trigger a request
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  const {
+    rows,
+    isLoading,
+    isFetching,
+    isError,
+    isLoadingMetrics,
+    failedCount,
+  } = usePromoterLeaderboard({ venueId, tier, status, search: search || undefined }, period, venueId)
+
+  const compareIds = Object.keys(rowSelection).filter(id => rowSelection[id])
+
+  const table = useReactTable({
+    data: rows,
+    columns,
+    state: { sorting, columnFilters, rowSelection },
+    getRowId: (row) => row.promoter.id,
+    enableMultiSort: false,
+    manualFiltering: true,
+    // Selection is by promoter id, so it survives filtering and re-ranking
+    enableRowSelection: (row) => row.getIsSelected() || compareIds.length < MAX_COMPARED_PROMOTERS,
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    onRowSelectionChange: setRowSelection,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  })
+
+  const isFiltered = columnFilters.length > 0 || searchInput !== ''
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          placeholder={canViewGuestContact ? 'Search name or email...' : 'Search name...'}
+          value={searchInput}
+          onChange={(event) => setSearchInput(event.target.value)}
+          className="h-8 w-[150px] lg:w-[250px]"
+        />
+        <DataTableFacetedFilter column={table.getColumn('tier')} title="Tier" options={promoterTiers} />
+        <DataTableFacetedFilter column={table.getColumn('status')} title="Status" options={promoterStatuses} />
+        {isFiltered && (
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setColumnFilters([])
+              setSearchInput('')
+            }}
+            className="h-8 px-2 lg:px-3"
+          >
+            Reset
+            <Cross2Icon className="ml-2 h-4 w-4" />
+          </Button>
+        )}
+        <div className="flex items-center gap-2 sm:ml-auto">
+          {compareIds.length > 0 && (
+            <>
+              <Button variant="ghost" className="h-8 px-2" onClick={() => setRowSelection({})}>
+                Clear
+              </Button>
+              {compareIds.length < MIN_COMPARED_PROMOTERS ? (
+                <Button size="sm" className="h-8" disabled>
+                  <GitCompareArrows className="h-4 w-4 mr-2" />
+                  Pick one more to compare
+                </Button>
+              ) : (
+                <Button size="sm" className="h-8" asChild>
+                  <Link href={`/promoters/compare?ids=${compareIds.join(',')}`}>
+                    <GitCompareArrows className="h-4 w-4 mr-2" />
+                    Compare ({compareIds.length})
+                  </Link>
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+        <Select value={period} onValueChange={(value) => setPeriod(value as PromoterMetricsPeriod)}>
+          <SelectTrigger className="h-8 w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PROMOTER_METRICS_PERIODS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(header.column.columnDef.header, header.getContext())}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody className={(isFetching || isLoadingMetrics) && !isLoading ? 'opacity-60' : undefined}>
+            {isLoading ? (
+              [...Array(3)].map((_, i) => (
+                <TableRow key={i}>
+                  {columns.map((_, j) => (
+                    <TableCell key={j}>
+                      <Skeleton className="h-4 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : isError ? (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="h-24 text-center text-destructive">
+                  <AlertCircle className="h-5 w-5 mx-auto mb-1" />
+                  Failed to load promoters.
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows.length > 0 ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="h-24 text-center">
+                  No promoters match the current filters.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between px-2 text-sm text-muted-foreground">
+        <span>
+          {rows.length} promoter(s)
+          {venueId && ' with access to this venue'}
+          {` • select ${MIN_COMPARED_PROMOTERS}–${MAX_COMPARED_PROMOTERS} to compare`}
+        </span>
+        {failedCount > 0 && (
+          <span className="flex items-center gap-1 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Metrics failed to load for {failedCount} promoter(s).
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
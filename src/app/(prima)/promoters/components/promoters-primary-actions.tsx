@@ -0,0 +1,37 @@
+'use client'
+
+// Primary actions for the PRIMA promoters page
+// Based on RFC-007: Promoter Management & Performance
+
+import { useState } from 'react'
+import { UserPlus } from 'lucide-react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useVenueContext } from '@/lib/contexts/venue-context'
+import { Button } from '@/components/ui/button'
+import { PromoterInviteDialog } from './promoter-invite-dialog'
+
+export function PromotersPrimaryActions() {
+  const { hasPermission } = useAuth()
+  const { selectedVenueId, isPortfolioView } = useVenueContext()
+  const [open, setOpen] = useState(false)
+
+  if (!hasPermission('WRITE_PROMOTERS')) {
+    return null
+  }
+
+  return (
+    <>
+      <Button className="font-semibold" onClick={() => setOpen(true)}>
+        <UserPlus className="h-4 w-4 mr-2" />
+        Invite Promoter
+      </Button>
+
+      {/* Remount when the venue changes so venue access defaults to it */}
+      <PromoterInviteDialog
+        key={isPortfolioView ? 'portfolio' : selectedVenueId ?? 'none'}
+        open={open}
+        onOpenChange={setOpen}
+      />
+    </>
+  )
+}
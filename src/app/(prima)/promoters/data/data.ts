@@ -0,0 +1,57 @@
+// Promoter table option sets for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import {
+  IconCircleCheck,
+  IconCircleOff,
+  IconCrown,
+  IconStar,
+  IconUser,
+  IconUserPause,
+} from '@tabler/icons-react'
+import { PROMOTER_TIER_LABELS } from '@/lib/promoters/tier-evaluation'
+import type { PromoterStatus, PromoterTier } from '@/types/data'
+
+export const promoterTiers: {
+  value: PromoterTier
+  label: string
+  icon: React.ComponentType<{ className?: string }>
+}[] = [
+  {
+    value: 'STANDARD',
+    label: PROMOTER_TIER_LABELS.STANDARD,
+    icon: IconUser,
+  },
+  {
+    value: 'PREMIUM',
+    label: PROMOTER_TIER_LABELS.PREMIUM,
+    icon: IconStar,
+  },
+  {
+    value: 'VIP',
+    label: PROMOTER_TIER_LABELS.VIP,
+    icon: IconCrown,
+  },
+]
+
+export const promoterStatuses: {
+  value: PromoterStatus
+  label: string
+  icon: React.ComponentType<{ className?: string }>
+}[] = [
+  {
+    value: 'ACTIVE',
+    label: 'Active',
+    icon: IconCircleCheck,
+  },
+  {
+    value: 'INACTIVE',
+    label: 'Inactive',
+    icon: IconCircleOff,
+  },
+  {
+    value: 'SUSPENDED',
+    label: 'Suspended',
+    icon: IconUserPause,
+  },
+]
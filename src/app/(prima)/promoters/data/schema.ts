@@ -0,0 +1,91 @@
+// Promoter form schemas for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { z } from 'zod'
+import { getTierPolicyViolations } from '@/lib/promoters/tier-evaluation'
+import type { PromoterTierPolicyInput, PromoterTierThresholds } from '@/types/data'
+
+const venueAccess = z.array(z.string()).min(1, 'Give the promoter access to at least one venue.')
+
+export const promoterInviteFormSchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required.'),
+  lastName: z.string().trim().min(1, 'Last name is required.'),
+  email: z.string().trim().email('Enter a valid email address.'),
+  phone: z.string().trim(),
+  tier: z.enum(['STANDARD', 'PREMIUM', 'VIP'], {
+    required_error: 'Please choose a starting tier.',
+  }),
+  venueAccess,
+})
+
+export type PromoterInviteFormValues = z.infer<typeof promoterInviteFormSchema>
+
+export const promoterStatusFormSchema = z.object({
+  status: z.enum(['ACTIVE', 'INACTIVE', 'SUSPENDED'], {
+    required_error: 'Please choose a status.',
+  }),
+  reason: z.string().trim().min(1, 'Say why the status is changing.'),
+})
+
+export type PromoterStatusFormValues = z.infer<typeof promoterStatusFormSchema>
+
+export const promoterVenueAccessFormSchema = z.object({ venueAccess })
+
+export type PromoterVenueAccessFormValues = z.infer<typeof promoterVenueAccessFormSchema>
+
+const threshold = (label: string) =>
+  z.coerce.number({ invalid_type_error: `${label} must be a number.` })
+
+// Rates are percentages in the form; the API takes fractions
+const tierThresholds = z.object({
+  minRevenue: threshold('Revenue'),
+  minBookings: threshold('Bookings'),
+  minConversionRate: threshold('Conversion'),
+  maxNoShowRate: threshold('No-show rate'),
+})
+
+export function toTierPolicyInput(values: TierPolicyFormValues): PromoterTierPolicyInput {
+  const toFractions = (t: PromoterTierThresholds) => ({
+    ...t,
+    minConversionRate: t.minConversionRate / 100,
+    maxNoShowRate: t.maxNoShowRate / 100,
+  })
+
+  return {
+    windowDays: values.windowDays,
+    thresholds: {
+      PREMIUM: toFractions(values.thresholds.PREMIUM),
+      VIP: toFractions(values.thresholds.VIP),
+    },
+  }
+}
+
+export function toTierPolicyFormValues(policy: PromoterTierPolicyInput): TierPolicyFormValues {
+  // Rounded so 0.7 doesn't come back as 70.00000000000001
+  const toPercentages = (t: PromoterTierThresholds) => ({
+    ...t,
+    minConversionRate: Math.round(t.minConversionRate * 1000) / 10,
+    maxNoShowRate: Math.round(t.maxNoShowRate * 1000) / 10,
+  })
+
+  return {
+    windowDays: policy.windowDays,
+    thresholds: {
+      PREMIUM: toPercentages(policy.thresholds.PREMIUM),
+      VIP: toPercentages(policy.thresholds.VIP),
+    },
+  }
+}
+
+export const tierPolicyFormSchema = z
+  .object({
+    windowDays: z.coerce.number(),
+    thresholds: z.object({ PREMIUM: tierThresholds, VIP: tierThresholds }),
+  })
+  .superRefine((values, ctx) => {
+    getTierPolicyViolations(toTierPolicyInput(values)).forEach(message => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['thresholds'], message })
+    })
+  })
+
+export type TierPolicyFormValues = z.infer<typeof tierPolicyFormSchema>
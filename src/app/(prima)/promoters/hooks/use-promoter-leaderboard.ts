@@ -0,0 +1,44 @@
+'use client'
+
+// Period metrics for every promoter on the PRIMA leaderboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useMemo } from 'react'
+import type { PromoterMetricsPeriod } from '@/lib/promoters/promoter-metrics'
+import { useGetAllPromotersQuery, useGetPromoterMetricsBatchQuery } from '@/lib/store/api'
+import type { Promoter, PromoterFilters, PromoterMetrics } from '@/types/data'
+
+export interface PromoterLeaderboardRow {
+  promoter: Promoter
+  // Undefined until loaded, or when the promoter's metrics failed to load
+  metrics?: PromoterMetrics
+}
+
+// The leaderboard ranks everyone at once, so it loads every matching promoter
+// and their metrics in batches rather than a page at a time
+export function usePromoterLeaderboard(
+  filters: PromoterFilters,
+  period: PromoterMetricsPeriod,
+  venueId: string | undefined
+) {
+  const { data: promoters, isLoading, isFetching, isError } = useGetAllPromotersQuery(filters)
+  const promoterIds = useMemo(() => promoters?.map(p => p.id) ?? [], [promoters])
+  const {
+    data: metrics,
+    isFetching: isLoadingMetrics,
+    isError: isMetricsError,
+  } = useGetPromoterMetricsBatchQuery(
+    { promoterIds, period, venueId },
+    { skip: promoterIds.length === 0 }
+  )
+
+  const rows: PromoterLeaderboardRow[] = (promoters ?? []).map(promoter => ({
+    promoter,
+    metrics: isMetricsError ? undefined : metrics?.find(m => m.promoterId === promoter.id),
+  }))
+  const failedCount = isLoadingMetrics || (!metrics && !isMetricsError)
+    ? 0
+    : rows.filter(row => !row.metrics).length
+
+  return { rows, isLoading, isFetching, isError, isLoadingMetrics, failedCount }
+}
@@ -1,35 +1,34 @@
 // PRIMA Promoters Management Page
-// This is a placeholder - will be fully implemented in RFC-007
+// Based on RFC-007: Promoter Management & Performance
 
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import Link from 'next/link'
+import { ListChecks } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { PromotersLeaderboard } from './components/promoters-leaderboard'
+import { PromotersPrimaryActions } from './components/promoters-primary-actions'
 
 export default function PromotersPage() {
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">Promoter Management</h1>
-        <p className="text-muted-foreground">
-          Performance leaderboards and commission assignment.
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Promoter Management</h1>
+          <p className="text-muted-foreground">
+            Rank promoters by performance, invite new promoters and manage their tiers and venue access.
+          </p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" className="font-semibold" asChild>
+            <Link href="/promoters/tier-review">
+              <ListChecks className="h-4 w-4 mr-2" />
+              Tier Review
+            </Link>
+          </Button>
+          <PromotersPrimaryActions />
+        </div>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>RFC-007: Promoter Management & Performance</CardTitle>
-          <CardDescription>
-            Coming in RFC-007 after booking and pricing systems are implemented.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-2 text-sm text-muted-foreground">
-            <p>• Performance leaderboard with sortable metrics</p>
-            <p>• Commission tier assignment (Standard/Premium/VIP)</p>
-            <p>• Detailed promoter profiles with performance history</p>
-            <p>• Search and filtering by venue, tier, status</p>
-            <p>• Performance analytics and trend analysis</p>
-          </div>
-        </CardContent>
-      </Card>
+      <PromotersLeaderboard />
     </div>
   )
 }
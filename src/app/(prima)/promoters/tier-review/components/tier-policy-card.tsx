@@ -0,0 +1,118 @@
+'use client'
+
+// Promoter tier policy summary for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { AlertCircle, Pencil } from 'lucide-react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { formatRate } from '@/lib/promoters/promoter-metrics'
+import { GRADED_TIERS, TIER_THRESHOLD_LABELS } from '@/lib/promoters/tier-evaluation'
+import { useGetPromoterTierPolicyQuery } from '@/lib/store/api'
+import { formatCurrency } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { PromoterTierThresholds } from '@/types/data'
+import { promoterTiers } from '../../data/data'
+import { TierPolicyDialog } from './tier-policy-dialog'
+
+// Thresholds are policy, not promoter financials, so they aren't masked
+function formatThreshold(metric: keyof PromoterTierThresholds, value: number) {
+  switch (metric) {
+    case 'minRevenue':
+      return `≥ ${formatCurrency(value)}`
+    case 'minBookings':
+      return `≥ ${value}`
+    case 'minConversionRate':
+      return `≥ ${formatRate(value)}`
+    case 'maxNoShowRate':
+      return `≤ ${formatRate(value)}`
+  }
+}
+
+export function TierPolicyCard() {
+  const { hasPermission } = useAuth()
+  const [open, setOpen] = useState(false)
+  const { data: policy, isLoading, isError } = useGetPromoterTierPolicyQuery()
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg font-semibold">Tier policy</CardTitle>
+          <CardDescription>
+            {policy ? (
+              <>
+                Evaluated over the last {policy.windowDays} days of bookings. Last changed{' '}
+                {format(parseISO(policy.updatedAt), 'MMM d, yyyy')}
+                {policy.updatedBy && ` by ${policy.updatedBy}`}.
+              </>
+            ) : (
+              'Thresholds a promoter must meet to hold each tier.'
+            )}
+          </CardDescription>
+        </div>
+        {policy && hasPermission('WRITE_PROMOTERS') && (
+          <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : isError || !policy ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load the tier policy.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Threshold</TableHead>
+                {GRADED_TIERS.map(tier => (
+                  <TableHead key={tier} className="text-right">
+                    {promoterTiers.find(t => t.value === tier)?.label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(Object.keys(TIER_THRESHOLD_LABELS) as Array<keyof PromoterTierThresholds>).map(metric => (
+                <TableRow key={metric}>
+                  <TableCell>{TIER_THRESHOLD_LABELS[metric]}</TableCell>
+                  {GRADED_TIERS.map(tier => (
+                    <TableCell key={tier} className="text-right">
+                      {formatThreshold(metric, policy.thresholds[tier][metric])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {policy && (
+        <TierPolicyDialog
+          key={policy.updatedAt}
+          policy={policy}
+          open={open}
+          onOpenChange={setOpen}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,175 @@
+'use client'
+
+// Edit the promoter tier policy for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import {
+  GRADED_TIERS,
+  TIER_THRESHOLD_LABELS,
+  TIER_WINDOW_OPTIONS,
+} from '@/lib/promoters/tier-evaluation'
+import { getApiError } from '@/lib/store/api-error'
+import { useUpdatePromoterTierPolicyMutation } from '@/lib/store/api'
+import { toast } from '@/hooks/use-toast'
+import SelectDropdown from '@/components/select-dropdown'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import type { PromoterTierPolicy, PromoterTierThresholds } from '@/types/data'
+import { promoterTiers } from '../../data/data'
+import {
+  tierPolicyFormSchema,
+  toTierPolicyFormValues,
+  toTierPolicyInput,
+  type TierPolicyFormValues,
+} from '../../data/schema'
+
+interface Props {
+  policy: PromoterTierPolicy
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const THRESHOLD_UNITS: Record<keyof PromoterTierThresholds, string> = {
+  minRevenue: 'min $',
+  minBookings: 'min',
+  minConversionRate: 'min %',
+  maxNoShowRate: 'max %',
+}
+
+export function TierPolicyDialog({ policy, open, onOpenChange }: Props) {
+  const [updatePolicy, { isLoading }] = useUpdatePromoterTierPolicyMutation()
+  const defaultValues = toTierPolicyFormValues(policy)
+
+  const form = useForm<TierPolicyFormValues>({
+    resolver: zodResolver(tierPolicyFormSchema),
+    defaultValues,
+  })
+
+  const closeDialog = (value: boolean) => {
+    onOpenChange(value)
+    form.reset(defaultValues)
+  }
+
+  const onSubmit = async (values: TierPolicyFormValues) => {
+    try {
+      await updatePolicy(toTierPolicyInput(values)).unwrap()
+      toast({
+        title: 'Tier policy saved',
+        description: 'The review queue has been re-run against the new thresholds.',
+      })
+      onOpenChange(false)
+    } catch (error) {
+      toast({
+        title: 'Could not save tier policy',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={closeDialog}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader className="text-left">
+          <DialogTitle>Tier policy</DialogTitle>
+          <DialogDescription>
+            A promoter qualifies for the highest tier whose thresholds they meet over the
+            window. Standard has no thresholds.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form id="tier-policy-form" onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="windowDays"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel>Evaluation window</FormLabel>
+                  <SelectDropdown
+                    isControlled
+                    defaultValue={String(field.value)}
+                    onValueChange={(value) => field.onChange(Number(value))}
+                    items={TIER_WINDOW_OPTIONS.map(days => ({ label: `Last ${days} days`, value: String(days) }))}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-[1fr_repeat(2,minmax(0,8rem))] items-center gap-x-4 gap-y-2">
+              <span />
+              {GRADED_TIERS.map(tier => (
+                <span key={tier} className="text-sm font-medium">
+                  {promoterTiers.find(t => t.value === tier)?.label}
+                </span>
+              ))}
+              {(Object.keys(THRESHOLD_UNITS) as Array<keyof PromoterTierThresholds>).map(metric => (
+                <div key={metric} className="contents">
+                  <span className="text-sm">
+                    {TIER_THRESHOLD_LABELS[metric]}
+                    <span className="text-muted-foreground"> ({THRESHOLD_UNITS[metric]})</span>
+                  </span>
+                  {GRADED_TIERS.map(tier => (
+                    <FormField
+                      key={tier}
+                      control={form.control}
+                      name={`thresholds.${tier}.${metric}`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              type="number"
+                              min={0}
+                              step="any"
+                              aria-label={`${tier} ${TIER_THRESHOLD_LABELS[metric]}`}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            {form.formState.errors.thresholds?.message ? (
+              <p className="text-sm font-medium text-destructive">
+                {form.formState.errors.thresholds.message}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                VIP must ask at least as much as Premium on every threshold.
+              </p>
+            )}
+          </form>
+        </Form>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => closeDialog(false)}>
+            Cancel
+          </Button>
+          <Button form="tier-policy-form" type="submit" disabled={isLoading}>
+            {isLoading ? 'Saving…' : 'Save policy'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,258 @@
+'use client'
+
+// Promoter tier review queue for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { AlertCircle, ArrowDown, ArrowUp, Check, X } from 'lucide-react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { formatRate } from '@/lib/promoters/promoter-metrics'
+import { getApiError } from '@/lib/store/api-error'
+import {
+  useApplyPromoterTierChangesMutation,
+  useGetAllPromotersQuery,
+  useGetPromoterTierEvaluationQuery,
+} from '@/lib/store/api'
+import { cn } from '@/lib/utils'
+import { toast } from '@/hooks/use-toast'
+import { ConfirmDialog } from '@/components/confirm-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Textarea } from '@/components/ui/textarea'
+import type { PromoterTier, PromoterTierCheck, PromoterTierThresholds } from '@/types/data'
+import { promoterTiers } from '../../data/data'
+
+function tierLabel(tier: PromoterTier) {
+  return promoterTiers.find(t => t.value === tier)?.label ?? tier
+}
+
+function CheckCell({ check, formatValue }: { check?: PromoterTierCheck; formatValue: (value: number) => string }) {
+  if (!check) return <TableCell />
+
+  return (
+    <TableCell className="text-right whitespace-nowrap">
+      <div className={cn('flex items-center justify-end gap-1', !check.passed && 'text-destructive')}>
+        {check.passed ? <Check className="h-3 w-3 text-green-600" /> : <X className="h-3 w-3" />}
+        {formatValue(check.value)}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {check.metric === 'maxNoShowRate' ? 'max' : 'min'} {formatValue(check.threshold)}
+      </div>
+    </TableCell>
+  )
+}
+
+export function TierReviewQueue() {
+  const { hasPermission } = useAuth()
+  const { formatAmount, maskPromoterTierRecommendation } = useDataMasking()
+  const { data, isLoading, isFetching, isError } = useGetPromoterTierEvaluationQuery()
+  const { data: promoters } = useGetAllPromotersQuery({})
+  const [applyChanges, { isLoading: isApplying }] = useApplyPromoterTierChangesMutation()
+  const [selected, setSelected] = useState<string[]>([])
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [note, setNote] = useState('')
+
+  const canApply = hasPermission('WRITE_PROMOTERS')
+  const recommendations = data?.recommendations.map(maskPromoterTierRecommendation) ?? []
+  // Drop selections the latest evaluation no longer recommends
+  const approved = recommendations.filter(r => selected.includes(r.promoterId))
+  const allSelected = recommendations.length > 0 && approved.length === recommendations.length
+
+  const getPromoterName = (promoterId: string) => {
+    const promoter = promoters?.find(p => p.id === promoterId)
+    return promoter ? `${promoter.firstName} ${promoter.lastName}` : promoterId
+  }
+
+  const formatters: Record<keyof PromoterTierThresholds, (value: number) => string> = {
+    minRevenue: formatAmount,
+    minBookings: value => String(value),
+    minConversionRate: formatRate,
+    maxNoShowRate: formatRate,
+  }
+
+  const toggle = (promoterId: string, checked: boolean) =>
+    setSelected(current => checked
+      ? [...current, promoterId]
+      : current.filter(id => id !== promoterId))
+
+  const handleApply = async () => {
+    try {
+      const result = await applyChanges(approved.map(r => ({
+        promoterId: r.promoterId,
+        fromTier: r.currentTier,
+        toTier: r.recommendedTier,
+        // The recommendation's own summary is the audit reason unless a note is given
+        reason: note.trim() || r.summary,
+      }))).unwrap()
+      const failures = result.results.filter(r => !r.success)
+
+      toast({
+        title: `Applied ${result.applied} tier change(s)`,
+        description: failures.length > 0
+          ? `${failures.length} failed: ${failures.map(f => f.error?.message).join('; ')}`
+          : 'Each change is recorded in the promoter\'s tier history.',
+        variant: failures.length > 0 ? 'destructive' : 'default',
+      })
+      setSelected([])
+      setNote('')
+      setConfirmOpen(false)
+    } catch (error) {
+      toast({
+        title: 'Could not apply tier changes',
+        description: getApiError(error).message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg font-semibold">Proposed changes</CardTitle>
+          <CardDescription>
+            {data
+              ? `${data.evaluatedCount} active promoter(s) evaluated on bookings from ` +
+                `${format(parseISO(data.period.from), 'MMM d')} to ${format(parseISO(data.period.to), 'MMM d, yyyy')}.`
+              : 'Promotions and demotions the tier policy recommends.'}
+          </CardDescription>
+        </div>
+        {canApply && (
+          <Button disabled={approved.length === 0 || isFetching} onClick={() => setConfirmOpen(true)}>
+            Apply selected{approved.length > 0 && ` (${approved.length})`}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : isError || !data ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Failed to evaluate promoter tiers.
+          </p>
+        ) : recommendations.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Every active promoter already holds the tier their performance qualifies them for.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canApply && (
+                  <TableHead className="w-8">
+                    <Checkbox
+                      checked={allSelected || (approved.length > 0 && 'indeterminate')}
+                      onCheckedChange={(checked) =>
+                        setSelected(checked === true ? recommendations.map(r => r.promoterId) : [])
+                      }
+                      aria-label="Select all"
+                    />
+                  </TableHead>
+                )}
+                <TableHead>Promoter</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="text-right">Bookings</TableHead>
+                <TableHead className="text-right">Conversion</TableHead>
+                <TableHead className="text-right">No-shows</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recommendations.map(recommendation => {
+                const isPromotion = recommendation.direction === 'PROMOTION'
+                const check = (metric: keyof PromoterTierThresholds) =>
+                  recommendation.checks.find(c => c.metric === metric)
+
+                return (
+                  <TableRow
+                    key={recommendation.promoterId}
+                    data-state={selected.includes(recommendation.promoterId) && 'selected'}
+                  >
+                    {canApply && (
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(recommendation.promoterId)}
+                          onCheckedChange={(checked) => toggle(recommendation.promoterId, checked === true)}
+                          aria-label={`Select ${getPromoterName(recommendation.promoterId)}`}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <Link
+                        href={`/promoters/${recommendation.promoterId}`}
+                        className="font-medium whitespace-nowrap hover:text-primary hover:underline"
+                      >
+                        {getPromoterName(recommendation.promoterId)}
+                      </Link>
+                      <p className="text-xs text-muted-foreground">{recommendation.summary}</p>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <Badge
+                        variant="outline"
+                        className={isPromotion
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+                          : 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300'}
+                      >
+                        {isPromotion ? <ArrowUp className="h-3 w-3 mr-1" /> : <ArrowDown className="h-3 w-3 mr-1" />}
+                        {tierLabel(recommendation.currentTier)} → {tierLabel(recommendation.recommendedTier)}
+                      </Badge>
+                    </TableCell>
+                    <CheckCell check={check('minRevenue')} formatValue={formatters.minRevenue} />
+                    <CheckCell check={check('minBookings')} formatValue={formatters.minBookings} />
+                    <CheckCell check={check('minConversionRate')} formatValue={formatters.minConversionRate} />
+                    <CheckCell check={check('maxNoShowRate')} formatValue={formatters.maxNoShowRate} />
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title={`Apply ${approved.length} tier change(s)?`}
+        desc={
+          <ul className="list-disc space-y-1 pl-5">
+            {approved.map(r => (
+              <li key={r.promoterId}>
+                {getPromoterName(r.promoterId)}: {tierLabel(r.currentTier)} → {tierLabel(r.recommendedTier)}
+              </li>
+            ))}
+          </ul>
+        }
+        confirmText="Apply changes"
+        isLoading={isApplying}
+        handleConfirm={handleApply}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="tier-review-note">Note for the tier history</Label>
+          <Textarea
+            id="tier-review-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Optional. Each change is otherwise recorded with its recommendation."
+            className="min-h-[60px]"
+          />
+        </div>
+      </ConfirmDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,21 @@
+// PRIMA Promoter Tier Review Page
+// Based on RFC-007: Promoter Management & Performance
+
+import { TierPolicyCard } from './components/tier-policy-card'
+import { TierReviewQueue } from './components/tier-review-queue'
+
+export default function PromoterTierReviewPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Tier Review</h1>
+        <p className="text-muted-foreground">
+          Review the promotions and demotions recent performance calls for, and apply the ones you approve.
+        </p>
+      </div>
+
+      <TierReviewQueue />
+      <TierPolicyCard />
+    </div>
+  )
+}
@@ -22,6 +22,7 @@ import {
   GalleryVerticalEnd,
   BarChart3,
   Calendar,
+  Contact,
   CreditCard,
   DollarSign,
   Gift,
@@ -160,6 +161,12 @@ export const sidebarData: SidebarData = {
           icon: Calendar,
           description: "Manage reservations"
         },
+        {
+          title: "Guests",
+          url: "/guests",
+          icon: Contact,
+          description: "Guest profiles and regulars"
+        },
         {
           title: "Pricing",
           url: "/pricing",
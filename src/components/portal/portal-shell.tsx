@@ -0,0 +1,79 @@
+'use client'
+
+// Promoter Portal Shell Component for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+
+import Link from 'next/link'
+import { usePathname, useRouter } from 'next/navigation'
+import { LogOut } from 'lucide-react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { cn } from '@/lib/utils'
+import { Logo } from '@/components/logo'
+import { ThemeSwitch } from '@/components/theme-switch'
+import { Button } from '@/components/ui/button'
+
+interface PortalShellProps {
+  children: React.ReactNode
+}
+
+const PORTAL_NAV = [
+  { title: 'Overview', href: '/portal' },
+  { title: 'Bookings', href: '/portal/bookings' },
+  { title: 'Earnings', href: '/portal/earnings' },
+]
+
+export function PortalShell({ children }: PortalShellProps) {
+  const { user, logout } = useAuth()
+  const pathname = usePathname()
+  const router = useRouter()
+
+  const handleSignOut = () => {
+    logout()
+    router.push('/login')
+  }
+
+  return (
+    <div className="flex min-h-svh flex-col">
+      <header className="flex h-16 shrink-0 items-center gap-6 border-b px-4 md:px-6">
+        <Link href="/portal" className="flex items-center gap-2 font-semibold">
+          <Logo width={24} height={24} className="invert dark:invert-0" />
+          <span className="hidden sm:inline">PRIMA Promoter Portal</span>
+        </Link>
+
+        <nav className="flex items-center gap-4 text-sm">
+          {PORTAL_NAV.map(item => (
+            <Link
+              key={item.href}
+              href={item.href}
+              className={cn(
+                'text-muted-foreground transition-colors hover:text-foreground',
+                pathname === item.href && 'font-medium text-foreground'
+              )}
+            >
+              {item.title}
+            </Link>
+          ))}
+        </nav>
+
+        <div className="ml-auto flex items-center gap-2">
+          {user && (
+            <span className="hidden text-sm text-muted-foreground md:inline">
+              {user.firstName} {user.lastName}
+            </span>
+          )}
+          <ThemeSwitch />
+          <Button variant="ghost" size="sm" onClick={handleSignOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 md:p-6">
+        <div className="mx-auto max-w-6xl">
+          {children}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+// Booking Status Badge Component for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { Badge } from '@/components/ui/badge'
+import type { BookingStatus, BookingType } from '@/types/data'
+import { cn } from '@/lib/utils'
+
+interface BookingStatusBadgeProps {
+  status: BookingStatus
+  className?: string
+}
+
+interface BookingTypeBadgeProps {
+  type: BookingType
+  className?: string
+}
+
+const statusStyles: Record<BookingStatus, string> = {
+  PENDING: 'border-yellow-500/40 bg-yellow-500/10 text-yellow-700 dark:text-yellow-400',
+  CONFIRMED: 'border-green-500/40 bg-green-500/10 text-green-700 dark:text-green-400',
+  COMPLETED: 'border-blue-500/40 bg-blue-500/10 text-blue-700 dark:text-blue-400',
+  CANCELLED: 'border-red-500/40 bg-red-500/10 text-red-700 dark:text-red-400',
+  NO_SHOW: 'border-gray-500/40 bg-gray-500/10 text-gray-700 dark:text-gray-400',
+}
+
+export function BookingStatusBadge({ status, className }: BookingStatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn(statusStyles[status], className)}>
+      {status.replace('_', ' ')}
+    </Badge>
+  )
+}
+
+export function BookingTypeBadge({ type, className }: BookingTypeBadgeProps) {
+  return (
+    <Badge
+      variant={type === 'PRIME' ? 'default' : 'outline'}
+      className={cn(
+        type === 'PRIME'
+          ? 'bg-primary text-primary-foreground'
+          : 'bg-secondary text-secondary-foreground',
+        className
+      )}
+    >
+      {type.replace('_', ' ')}
+    </Badge>
+  )
+}
@@ -11,6 +11,7 @@ import { useVenueContext } from '@/lib/contexts/venue-context'
 const routeLabels: Record<string, string> = {
   '/overview': 'Overview',
   '/bookings': 'Bookings',
+  '/guests': 'Guests',
   '/pricing': 'Pricing',
   '/promoters': 'Promoters',
   '/finance': 'Finance',
@@ -20,12 +21,24 @@ const routeLabels: Record<string, string> = {
   '/settings': 'Settings',
 }
 
+// Static sub-routes; anything else below a section is a detail page
+const subRouteLabels: Record<string, string> = {
+  calendar: 'Calendar',
+  'tier-review': 'Tier Review',
+  compare: 'Compare',
+}
+
 export function PrimaBreadcrumb() {
   const pathname = usePathname()
   const { selectedVenue, isPortfolioView } = useVenueContext()
 
-  // Get the current page label
-  const currentPage = routeLabels[pathname] || 'Dashboard'
+  // Get the current page label from the top-level section, so nested
+  // routes such as /bookings/[id] still resolve to their module
+  const [section, ...subSegments] = pathname.split('/').filter(Boolean)
+  const sectionPath = `/${section ?? ''}`
+  const currentPage = routeLabels[sectionPath] || 'Dashboard'
+  const isNestedRoute = subSegments.length > 0
+  const subPage = subRouteLabels[subSegments[0]] || 'Details'
 
   return (
     <nav className="flex items-center space-x-1 px-4 py-2 text-sm text-muted-foreground">
@@ -39,9 +52,22 @@ export function PrimaBreadcrumb() {
       
       <ChevronRight className="h-4 w-4" />
       
-      <span className="text-foreground font-medium">
-        {currentPage}
-      </span>
+      {isNestedRoute ? (
+        <>
+          <Link
+            href={sectionPath}
+            className="hover:text-foreground transition-colors"
+          >
+            {currentPage}
+          </Link>
+          <ChevronRight className="h-4 w-4" />
+          <span className="text-foreground font-medium">{subPage}</span>
+        </>
+      ) : (
+        <span className="text-foreground font-medium">
+          {currentPage}
+        </span>
+      )}
       
       {!isPortfolioView && selectedVenue && (
         <>
@@ -0,0 +1,56 @@
+'use client'
+
+// No-show risk badge for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { Badge } from '@/components/ui/badge'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import type { NoShowRisk, NoShowRiskLevel } from '@/types/data'
+import { cn } from '@/lib/utils'
+
+interface NoShowRiskBadgeProps {
+  risk: NoShowRisk | undefined
+  className?: string
+}
+
+const riskStyles: Record<NoShowRiskLevel, string> = {
+  LOW: 'border-green-500/40 bg-green-500/10 text-green-700 dark:text-green-400',
+  MEDIUM: 'border-amber-500/40 bg-amber-500/10 text-amber-700 dark:text-amber-400',
+  HIGH: 'border-red-500/40 bg-red-500/10 text-red-700 dark:text-red-400',
+}
+
+// Past and closed bookings have no score and render nothing
+export function NoShowRiskBadge({ risk, className }: NoShowRiskBadgeProps) {
+  if (!risk) return null
+
+  return (
+    <TooltipProvider>
+      <Tooltip delayDuration={0}>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className={cn(riskStyles[risk.level], 'cursor-default', className)}>
+            {risk.level} {Math.round(risk.score * 100)}%
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <p className="mb-1 font-medium">No-show risk</p>
+          <ul className="space-y-0.5">
+            {risk.factors.map(factor => (
+              <li key={factor.label} className="flex justify-between gap-4">
+                <span>{factor.label}</span>
+                <span>
+                  {factor.impact > 0 ? '+' : '−'}
+                  {Math.round(Math.abs(factor.impact) * 100)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+
+// Lifetime summary cards for a PRIMA promoter
+// Based on RFC-007: Promoter Management & Performance
+//
+// Shared by the promoter profile and the promoter's own portal overview.
+
+import { format, parseISO } from 'date-fns'
+import { formatRate, getPromoterMetricsRange } from '@/lib/promoters/promoter-metrics'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import {
+  useGetAllPayoutsQuery,
+  useGetAllTransactionsQuery,
+  useGetPromoterMetricsQuery,
+} from '@/lib/store/api'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import type { Promoter } from '@/types/data'
+
+interface Props {
+  promoter: Promoter
+}
+
+function StatCard({ label, value, hint }: { label: string; value: React.ReactNode; hint?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{label}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{value}</div>
+        {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Page placeholder while the promoter loads: heading, summary cards and charts
+export function PromoterSummarySkeleton() {
+  return (
+    <div className="space-y-6">
+      <Skeleton className="h-8 w-64" />
+      <div className="grid gap-4 md:grid-cols-4">
+        {[...Array(4)].map((_, i) => (
+          <Skeleton key={i} className="h-28 w-full" />
+        ))}
+      </div>
+      <Skeleton className="h-64 w-full" />
+    </div>
+  )
+}
+
+export function PromoterSummaryCards({ promoter }: Props) {
+  const { maskPromoterMetrics, formatAmount } = useDataMasking()
+
+  // Lifetime figures: metrics from the day the promoter joined, and every
+  // page of their transactions and pending payouts
+  const range = getPromoterMetricsRange('all', promoter)
+  const { data: metricsData } = useGetPromoterMetricsQuery({ promoterId: promoter.id, ...range })
+  const { data: transactions } = useGetAllTransactionsQuery({ promoterId: promoter.id })
+  const { data: payouts } = useGetAllPayoutsQuery({ promoterId: promoter.id, status: 'PENDING' })
+
+  const metrics = metricsData && maskPromoterMetrics(metricsData)
+  const commissions = transactions?.filter(t => t.type === 'COMMISSION' && t.status === 'COMPLETED')
+  const commissionEarned = commissions?.reduce((sum, t) => sum + t.amount, 0)
+  const pendingPayout = payouts?.reduce((sum, p) => sum + p.amount, 0)
+  const nextPayout = payouts
+    ?.map(p => p.scheduledDate)
+    .sort()[0]
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <StatCard
+        label="Revenue since joining"
+        value={metrics ? formatAmount(metrics.totalRevenue) : '—'}
+        hint={metrics ? `Avg. ${formatAmount(metrics.averageBookingValue)} per converted booking` : undefined}
+      />
+      <StatCard
+        label="Bookings"
+        value={metrics?.totalBookings ?? '—'}
+        hint={metrics
+          ? `${formatRate(metrics.conversionRate)} converted • ${formatRate(metrics.noShowRate)} no-shows`
+          : undefined}
+      />
+      <StatCard
+        label="Commission earned"
+        value={commissionEarned !== undefined ? formatAmount(commissionEarned) : '—'}
+        hint={commissions ? `From ${commissions.length} paid commission(s)` : undefined}
+      />
+      <StatCard
+        label="Pending payouts"
+        value={pendingPayout !== undefined ? formatAmount(pendingPayout) : '—'}
+        hint={nextPayout ? `Next scheduled ${format(parseISO(nextPayout), 'MMM d, yyyy')}` : 'Nothing scheduled'}
+      />
+    </div>
+  )
+}
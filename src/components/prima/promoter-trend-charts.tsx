@@ -0,0 +1,152 @@
+'use client'
+
+// Monthly performance charts for a PRIMA promoter
+// Based on RFC-007: Promoter Management & Performance
+
+import { format, parseISO } from 'date-fns'
+import { AlertCircle } from 'lucide-react'
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { formatRate, PROMOTER_TREND_MONTHS } from '@/lib/promoters/promoter-metrics'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { useGetPromoterTrendsQuery } from '@/lib/store/api'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+
+interface Props {
+  promoterId: string
+}
+
+const SERIES_LABELS: Record<string, string> = {
+  revenue: 'Revenue',
+  bookings: 'Bookings',
+  conversionRate: 'Conversion',
+  noShowRate: 'No-show rate',
+}
+
+const tooltipStyle = {
+  backgroundColor: 'var(--card)',
+  border: '1px solid var(--border)',
+  borderRadius: '6px',
+}
+
+export function PromoterTrendCharts({ promoterId }: Props) {
+  const { canViewFinancials, formatAmount } = useDataMasking()
+  const { data: trends, isLoading, isError } = useGetPromoterTrendsQuery({
+    promoterId,
+    months: PROMOTER_TREND_MONTHS,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Skeleton className="h-80 w-full" />
+        <Skeleton className="h-80 w-full" />
+      </div>
+    )
+  }
+
+  if (isError || !trends) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-destructive">
+        <AlertCircle className="h-4 w-4" />
+        Failed to load performance history.
+      </p>
+    )
+  }
+
+  const chartData = trends.map(month => ({
+    month: format(parseISO(month.period.from), 'MMM yy'),
+    revenue: Math.round(month.totalRevenue * 100) / 100,
+    bookings: month.totalBookings,
+    conversionRate: month.conversionRate,
+    noShowRate: month.noShowRate,
+  }))
+  const range = trends.length > 0
+    ? `${format(parseISO(trends[0].period.from), 'MMM yyyy')} – ${format(parseISO(trends[trends.length - 1].period.from), 'MMM yyyy')}`
+    : ''
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Revenue & bookings</CardTitle>
+          <CardDescription>{range}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" vertical={false} />
+                <XAxis dataKey="month" className="text-xs" />
+                {canViewFinancials && (
+                  <YAxis yAxisId="revenue" className="text-xs" tickFormatter={(value: number) => formatAmount(value)} />
+                )}
+                <YAxis yAxisId="bookings" orientation="right" allowDecimals={false} className="text-xs" />
+                <Tooltip
+                  formatter={(value: number, name: string) => [
+                    name === 'revenue' ? formatAmount(value) : value,
+                    SERIES_LABELS[name] ?? name,
+                  ]}
+                  contentStyle={tooltipStyle}
+                />
+                <Legend formatter={(name) => SERIES_LABELS[name] ?? name} />
+                {/* The revenue series would reveal amounts even with the axis hidden */}
+                {canViewFinancials && (
+                  <Bar yAxisId="revenue" dataKey="revenue" fill="var(--chart-1)" radius={[4, 4, 0, 0]} />
+                )}
+                <Line
+                  yAxisId="bookings"
+                  type="monotone"
+                  dataKey="bookings"
+                  stroke="var(--chart-2)"
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Conversion & no-shows</CardTitle>
+          <CardDescription>Share of each month&apos;s bookings; months without bookings show 0%.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" vertical={false} />
+                <XAxis dataKey="month" className="text-xs" />
+                <YAxis
+                  className="text-xs"
+                  domain={[0, 1]}
+                  tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                />
+                <Tooltip
+                  formatter={(value: number, name: string) => [formatRate(value), SERIES_LABELS[name] ?? name]}
+                  contentStyle={tooltipStyle}
+                />
+                <Legend formatter={(name) => SERIES_LABELS[name] ?? name} />
+                <Line type="monotone" dataKey="conversionRate" stroke="var(--chart-1)" strokeWidth={2} dot={{ r: 3 }} />
+                <Line type="monotone" dataKey="noShowRate" stroke="var(--chart-4)" strokeWidth={2} dot={{ r: 3 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
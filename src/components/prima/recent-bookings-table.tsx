@@ -5,13 +5,16 @@
 
 import { memo } from 'react'
 import Link from 'next/link'
-import { format } from 'date-fns'
+import { format, parseISO } from 'date-fns'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { NoShowRiskBadge } from '@/components/prima/no-show-risk-badge'
 import { Eye, Calendar, Users } from 'lucide-react'
 import { useVenueContext } from '@/lib/contexts/venue-context'
+import { useDataMasking } from '@/lib/auth/use-data-masking'
+import { getBookingAmount } from '@/lib/bookings/booking-amounts'
 import type { Booking } from '@/types/data'
 import { cn } from '@/lib/utils'
 
@@ -58,6 +61,7 @@ const getStatusVariant = (status: Booking['status']) => {
 export const RecentBookingsTable = memo<RecentBookingsTableProps>(
   ({ bookings, loading = false, className }) => {
     const { isPortfolioView, selectedVenue } = useVenueContext()
+    const { maskBooking, formatAmount } = useDataMasking()
 
     if (loading) {
       return (
@@ -116,11 +120,12 @@ export const RecentBookingsTable = memo<RecentBookingsTableProps>(
                   <TableHead>Party Size</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Type</TableHead>
+                  <TableHead>Risk</TableHead>
                   <TableHead className="text-right">Amount</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {bookings.slice(0, 10).map((booking) => (
+                {bookings.slice(0, 10).map(maskBooking).map((booking) => (
                   <TableRow key={booking.id} className="hover:bg-muted/50">
                     <TableCell className="font-medium">
                       <div>
@@ -135,7 +140,7 @@ export const RecentBookingsTable = memo<RecentBookingsTableProps>(
                         <Calendar className="h-4 w-4 text-muted-foreground" />
                         <div>
                           <div className="font-medium">
-                            {format(new Date(booking.bookingDate), 'MMM dd')}
+                            {format(parseISO(booking.bookingDate), 'MMM dd')}
                           </div>
                           <div className="text-sm text-muted-foreground">
                             {booking.bookingTime}
@@ -166,8 +171,11 @@ export const RecentBookingsTable = memo<RecentBookingsTableProps>(
                         {booking.type.replace('_', ' ')}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      <NoShowRiskBadge risk={booking.noShowRisk} />
+                    </TableCell>
                     <TableCell className="text-right font-medium">
-                      ${booking.primeTotal.toLocaleString()}
+                      {formatAmount(getBookingAmount(booking))}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -4,8 +4,12 @@
 // Based on RFC-001: Authentication & Base Infrastructure
 
 import { createContext, useContext, useState, useEffect, useCallback } from 'react'
+import { useDispatch } from 'react-redux'
+import { primaApi } from '@/lib/store/api'
+import { setUser as setStoreUser } from '@/lib/store/slices/auth-slice'
+import type { AppDispatch } from '@/lib/store/store'
 import type { User, AuthContextType, AuthResult, Permission, DataAccessLevel, UserRoleId } from '@/types/auth'
-import { DEMO_USERS, USER_ROLES } from './demo-data'
+import { DEMO_USERS, STAFF_ROLE_IDS, USER_ROLES } from './demo-data'
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
@@ -16,6 +20,15 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const dispatch = useDispatch<AppDispatch>()
+
+  // Mirror the user into the store so API requests carry it, and drop any
+  // responses that were masked for the previous user or role
+  const applyUser = useCallback((nextUser: User | null) => {
+    setUser(nextUser)
+    dispatch(setStoreUser(nextUser))
+    dispatch(primaApi.util.resetApiState())
+  }, [dispatch])
 
   // Initialize auth state from localStorage on mount
   useEffect(() => {
@@ -23,7 +36,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const storedUser = localStorage.getItem('prima_user')
       if (storedUser) {
         const parsedUser = JSON.parse(storedUser)
-        setUser(parsedUser)
+        applyUser(parsedUser)
       }
     } catch (error) {
       // eslint-disable-next-line no-console
@@ -31,7 +44,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       localStorage.removeItem('prima_user')
     }
     setIsLoading(false)
-  }, [])
+  }, [applyUser])
 
   const login = useCallback(async (email: string, password: string): Promise<AuthResult> => {
     try {
@@ -49,10 +62,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
           lastName: demoUser.lastName,
           role: demoUser.role,
           venueAccess: demoUser.venueAccess,
+          promoterId: demoUser.promoterId,
           loginTime: new Date().toISOString()
         }
         
-        setUser(authUser)
+        applyUser(authUser)
         localStorage.setItem('prima_user', JSON.stringify(authUser))
         
         return { success: true, user: authUser }
@@ -64,20 +78,22 @@ export function AuthProvider({ children }: AuthProviderProps) {
       console.error('Login error:', error)
       return { success: false, error: 'Login failed. Please try again.' }
     }
-  }, [])
+  }, [applyUser])
 
   const logout = useCallback(() => {
-    setUser(null)
+    applyUser(null)
     localStorage.removeItem('prima_user')
-  }, [])
+  }, [applyUser])
 
+  // Staff can try each other's roles, but a promoter account is tied to its
+  // promoter record and staff accounts have none
   const switchRole = useCallback((roleId: UserRoleId) => {
-    if (user && USER_ROLES.some(role => role.id === roleId)) {
+    if (user && STAFF_ROLE_IDS.includes(user.role) && STAFF_ROLE_IDS.includes(roleId)) {
       const updatedUser = { ...user, role: roleId }
-      setUser(updatedUser)
+      applyUser(updatedUser)
       localStorage.setItem('prima_user', JSON.stringify(updatedUser))
     }
-  }, [user])
+  }, [user, applyUser])
 
   const hasPermission = useCallback((permission: Permission): boolean => {
     if (!user) return false
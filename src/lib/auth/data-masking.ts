@@ -0,0 +1,208 @@
+// Data masking helpers for PRIMA Partner Dashboard
+// Based on RFC-001: Authentication & Base Infrastructure
+//
+// Used by the API mocks to mask responses for the requesting user, and by
+// views as a second line of defence so nothing unmasked is ever rendered.
+
+import type { DataAccessLevel } from '@/types/auth'
+import type {
+  Booking,
+  BookingEvent,
+  Guest,
+  Payout,
+  Promoter,
+  PromoterComparisonEntry,
+  PromoterMetrics,
+  PromoterTierRecommendation,
+  RevenueImpact,
+  RevenueTotals,
+  Transaction,
+  WaitlistEntry,
+} from '@/types/data'
+
+// Shown in place of any amount the user isn't allowed to see
+export const HIDDEN_AMOUNT = '•••'
+
+// Roles below LIMITED never see raw guest contact details
+export function canViewGuestContact(level: DataAccessLevel): boolean {
+  return level === 'FULL' || level === 'LIMITED'
+}
+
+// Roles below LIMITED never see booking amounts or commissions
+export function canViewFinancials(level: DataAccessLevel): boolean {
+  return level === 'FULL' || level === 'LIMITED'
+}
+
+// john.smith@email.com -> j***@email.com
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split('@')
+  if (!domain) return '***'
+  return `${local.charAt(0)}***@${domain}`
+}
+
+// +1 (555) 444-4444 -> ***-4444
+export function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '')
+  if (digits.length < 4) return '***'
+  return `***-${digits.slice(-4)}`
+}
+
+// John Smith -> John S.
+export function maskName(name: string): string {
+  const [first, ...rest] = name.trim().split(/\s+/)
+  const last = rest.at(-1)
+  return last ? `${first} ${last.charAt(0).toUpperCase()}.` : first
+}
+
+export function maskBooking(booking: Booking, level: DataAccessLevel): Booking {
+  if (canViewGuestContact(level) && canViewFinancials(level)) return booking
+
+  const masked = { ...booking }
+
+  if (!canViewGuestContact(level)) {
+    // Enough of the name to greet the guest at the door, nothing more
+    masked.guestName = level === 'NONE' ? '***' : maskName(booking.guestName)
+    masked.guestEmail = level === 'NONE' ? '***' : maskEmail(booking.guestEmail)
+    masked.guestPhone = level === 'NONE' ? '***' : maskPhone(booking.guestPhone)
+  }
+
+  if (!canViewFinancials(level)) {
+    masked.primeTotal = 0
+    masked.nonPrimeTotal = 0
+    masked.commissionAmount = 0
+  }
+
+  return masked
+}
+
+// Waitlist entries carry guest contact details but no amounts
+export function maskWaitlistEntry(entry: WaitlistEntry, level: DataAccessLevel): WaitlistEntry {
+  if (canViewGuestContact(level)) return entry
+
+  return {
+    ...entry,
+    guestName: level === 'NONE' ? '***' : maskName(entry.guestName),
+    guestEmail: level === 'NONE' ? '***' : maskEmail(entry.guestEmail),
+    guestPhone: level === 'NONE' ? '***' : maskPhone(entry.guestPhone),
+  }
+}
+
+export function maskGuest<T extends Guest>(guest: T, level: DataAccessLevel): T {
+  if (canViewGuestContact(level) && canViewFinancials(level)) return guest
+
+  const masked = { ...guest }
+
+  if (!canViewGuestContact(level)) {
+    masked.name = level === 'NONE' ? '***' : maskName(guest.name)
+    masked.email = level === 'NONE' ? '***' : maskEmail(guest.email)
+    masked.phone = level === 'NONE' ? '***' : maskPhone(guest.phone)
+  }
+
+  if (!canViewFinancials(level)) {
+    masked.lifetimeSpend = 0
+  }
+
+  return masked
+}
+
+// Edits to guest contact fields carry the old and new values in the history
+export function maskBookingEvent(event: BookingEvent, level: DataAccessLevel): BookingEvent {
+  if (canViewGuestContact(level) || !event.changes) return event
+
+  const maskValue = (field: string, value: unknown) => {
+    if (typeof value !== 'string') return value
+    if (level === 'NONE') return '***'
+    if (field === 'guestName') return maskName(value)
+    if (field === 'guestEmail') return maskEmail(value)
+    if (field === 'guestPhone') return maskPhone(value)
+    return value
+  }
+
+  return {
+    ...event,
+    changes: event.changes.map(change => ({
+      ...change,
+      from: maskValue(change.field, change.from) as typeof change.from,
+      to: maskValue(change.field, change.to) as typeof change.to,
+    })),
+  }
+}
+
+export function maskPromoter(promoter: Promoter, level: DataAccessLevel): Promoter {
+  if (canViewGuestContact(level) && canViewFinancials(level)) return promoter
+
+  const masked = { ...promoter }
+
+  if (!canViewGuestContact(level)) {
+    masked.email = maskEmail(promoter.email)
+    masked.phone = maskPhone(promoter.phone)
+  }
+
+  if (!canViewFinancials(level)) {
+    masked.totalRevenue = 0
+    masked.averageBookingValue = 0
+  }
+
+  return masked
+}
+
+export function maskPromoterMetrics(metrics: PromoterMetrics, level: DataAccessLevel): PromoterMetrics {
+  return canViewFinancials(level)
+    ? metrics
+    : { ...metrics, totalRevenue: 0, averageBookingValue: 0 }
+}
+
+// Revenue per bucket and its rank would both give the amounts away
+export function maskPromoterComparisonEntry(
+  entry: PromoterComparisonEntry,
+  level: DataAccessLevel
+): PromoterComparisonEntry {
+  if (canViewFinancials(level)) return entry
+
+  const { totalRevenue: _revenue, ...percentiles } = entry.percentiles
+  return {
+    ...entry,
+    metrics: maskPromoterMetrics(entry.metrics, level),
+    percentiles,
+    series: entry.series.map(metrics => maskPromoterMetrics(metrics, level)),
+  }
+}
+
+// The revenue check carries the same figure as the metrics it came from
+export function maskPromoterTierRecommendation(
+  recommendation: PromoterTierRecommendation,
+  level: DataAccessLevel
+): PromoterTierRecommendation {
+  return canViewFinancials(level)
+    ? recommendation
+    : {
+        ...recommendation,
+        metrics: maskPromoterMetrics(recommendation.metrics, level),
+        checks: recommendation.checks.map(check =>
+          check.metric === 'minRevenue' ? { ...check, value: 0 } : check
+        ),
+      }
+}
+
+const HIDDEN_REVENUE_TOTALS: RevenueTotals = { revenue: 0, platformFees: 0, commission: 0, netToVenue: 0 }
+
+// Booking counts stay, every money figure goes
+export function maskRevenueImpact(impact: RevenueImpact, level: DataAccessLevel): RevenueImpact {
+  return canViewFinancials(level)
+    ? impact
+    : {
+        ...impact,
+        actual: HIDDEN_REVENUE_TOTALS,
+        projected: HIDDEN_REVENUE_TOTALS,
+        byWeek: impact.byWeek.map(week => ({
+          ...week,
+          actual: HIDDEN_REVENUE_TOTALS,
+          projected: HIDDEN_REVENUE_TOTALS,
+        })),
+      }
+}
+
+// Transactions and payouts carry no PII, only the amount is sensitive
+export function maskAmount<T extends Transaction | Payout>(record: T, level: DataAccessLevel): T {
+  return canViewFinancials(level) ? record : { ...record, amount: 0 }
+}
@@ -1,7 +1,7 @@
 // Demo users and role definitions for PRIMA Partner Dashboard
 // Based on RFC-001: Authentication & Base Infrastructure
 
-import type { UserRole, DemoUser, Permission } from '@/types/auth'
+import type { UserRole, UserRoleId, DemoUser, Permission } from '@/types/auth'
 
 // Role definitions with permissions and data access levels
 export const USER_ROLES: UserRole[] = [
@@ -48,9 +48,22 @@ export const USER_ROLES: UserRole[] = [
       // No pricing, incentives, commissions, team, or settings access
     ],
     dataAccess: 'MASKED'
+  },
+  {
+    id: 'PROMOTER',
+    name: 'Promoter',
+    description: 'Self-service portal for their own bookings, earnings and payouts',
+    // None of the staff permissions: every portal request is scoped to the
+    // promoter's own records instead
+    permissions: [],
+    dataAccess: 'LIMITED'
   }
 ]
 
+// Roles that work in the partner dashboard. Promoters only use the portal,
+// and demo role switching never crosses between the two.
+export const STAFF_ROLE_IDS: UserRoleId[] = ['ADMIN', 'MANAGER', 'COORDINATOR']
+
 // Demo venue IDs for multi-venue context
 export const DEMO_VENUE_IDS = [
   'venue-1', // Rooftop Lounge
@@ -87,6 +100,16 @@ export const DEMO_USERS: DemoUser[] = [
     lastName: 'Thompson',
     role: 'COORDINATOR',
     venueAccess: ['venue-1'] // Coordinator has access to 1 venue
+  },
+  {
+    id: 'user-promoter-1',
+    email: 'promoter@prima.com',
+    password: 'promoter123', // Demo only
+    firstName: 'Alex',
+    lastName: 'Johnson',
+    role: 'PROMOTER',
+    venueAccess: ['venue-1', 'venue-2', 'venue-3', 'venue-4'], // Same venues as their promoter record
+    promoterId: 'promoter-1'
   }
 ]
 
@@ -106,3 +129,8 @@ export function getDataAccessLevel(userRole: string) {
   const role = getRoleById(userRole)
   return role?.dataAccess || 'NONE'
 }
+
+// Helper function to get where a role lands after signing in
+export function getHomeRoute(roleId: UserRoleId) {
+  return roleId === 'PROMOTER' ? '/portal' : '/overview'
+}
@@ -6,12 +6,15 @@
 import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from './auth-context'
+import { getHomeRoute } from './demo-data'
 import { Skeleton } from '@/components/ui/skeleton'
-import type { Permission } from '@/types/auth'
+import type { Permission, UserRoleId } from '@/types/auth'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
   requiredPermission?: Permission
+  // Users in any other role are sent to their own home route
+  allowedRoles?: UserRoleId[]
   fallback?: React.ReactNode
   redirectTo?: string
 }
@@ -19,17 +22,21 @@ interface ProtectedRouteProps {
 export function ProtectedRoute({ 
   children, 
   requiredPermission,
+  allowedRoles,
   fallback = <div className="p-4 text-center text-muted-foreground">Access denied</div>,
   redirectTo = '/login'
 }: ProtectedRouteProps) {
-  const { isAuthenticated, hasPermission, isLoading } = useAuth()
+  const { user, isAuthenticated, hasPermission, isLoading } = useAuth()
   const router = useRouter()
+  const isRoleAllowed = !user || !allowedRoles || allowedRoles.includes(user.role)
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       router.push(redirectTo)
+    } else if (user && !isRoleAllowed) {
+      router.replace(getHomeRoute(user.role))
     }
-  }, [isAuthenticated, isLoading, router, redirectTo])
+  }, [isAuthenticated, isLoading, router, redirectTo, user, isRoleAllowed])
 
   // Show loading state while checking authentication
   if (isLoading) {
@@ -47,6 +54,11 @@ export function ProtectedRoute({
     return null
   }
 
+  // Redirect to the role's own home route if this area isn't for them
+  if (!isRoleAllowed) {
+    return null
+  }
+
   // Check for required permission
   if (requiredPermission && !hasPermission(requiredPermission)) {
     return <>{fallback}</>
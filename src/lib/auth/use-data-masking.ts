@@ -0,0 +1,56 @@
+'use client'
+
+// Data masking hook for PRIMA Partner Dashboard
+// Based on RFC-001: Authentication & Base Infrastructure
+
+import { useMemo } from 'react'
+import { formatCurrency } from '@/lib/utils'
+import type {
+  Booking,
+  Guest,
+  Promoter,
+  PromoterComparisonEntry,
+  PromoterMetrics,
+  PromoterTierRecommendation,
+  WaitlistEntry,
+} from '@/types/data'
+import { useAuth } from './auth-context'
+import {
+  canViewFinancials,
+  canViewGuestContact,
+  HIDDEN_AMOUNT,
+  maskBooking,
+  maskGuest,
+  maskPromoter,
+  maskPromoterComparisonEntry,
+  maskPromoterMetrics,
+  maskPromoterTierRecommendation,
+  maskWaitlistEntry,
+} from './data-masking'
+
+/**
+ * Masking bound to the signed-in user's data access level. The API already
+ * masks responses; views go through this as well so that cached or
+ * optimistically patched data is never shown unmasked.
+ */
+export function useDataMasking() {
+  const { getDataAccessLevel } = useAuth()
+  const level = getDataAccessLevel()
+
+  return useMemo(() => ({
+    level,
+    canViewGuestContact: canViewGuestContact(level),
+    canViewFinancials: canViewFinancials(level),
+    maskBooking: (booking: Booking) => maskBooking(booking, level),
+    maskGuest: <T extends Guest>(guest: T) => maskGuest(guest, level),
+    maskPromoter: (promoter: Promoter) => maskPromoter(promoter, level),
+    maskPromoterComparisonEntry: (entry: PromoterComparisonEntry) =>
+      maskPromoterComparisonEntry(entry, level),
+    maskPromoterMetrics: (metrics: PromoterMetrics) => maskPromoterMetrics(metrics, level),
+    maskPromoterTierRecommendation: (recommendation: PromoterTierRecommendation) =>
+      maskPromoterTierRecommendation(recommendation, level),
+    maskWaitlistEntry: (entry: WaitlistEntry) => maskWaitlistEntry(entry, level),
+    formatAmount: (value: number) =>
+      canViewFinancials(level) ? formatCurrency(value) : HIDDEN_AMOUNT,
+  }), [level])
+}
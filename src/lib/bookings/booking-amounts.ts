@@ -0,0 +1,9 @@
+// Booking amount helpers for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import type { Booking } from '@/types/data'
+
+// The amount a guest pays depends on which pricing model the booking used
+export function getBookingAmount(booking: Pick<Booking, 'type' | 'primeTotal' | 'nonPrimeTotal'>) {
+  return booking.type === 'PRIME' ? booking.primeTotal : booking.nonPrimeTotal
+}
@@ -0,0 +1,96 @@
+// Booking capacity aggregation for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import type { Booking, BookingStatus } from '@/types/data'
+
+// Cancelled bookings and no-shows don't take up seats
+const SEATED_STATUSES: BookingStatus[] = ['PENDING', 'CONFIRMED', 'COMPLETED']
+
+// Utilization at or above this share of capacity is flagged as nearly full
+export const NEAR_CAPACITY_THRESHOLD = 0.85
+
+export interface CapacitySlot {
+  date: string
+  time: string
+  bookings: Booking[]
+  guests: number
+  primeGuests: number
+  nonPrimeGuests: number
+  // Guests as a share of venue capacity; 0 when capacity is unknown
+  utilization: number
+  isOverCapacity: boolean
+}
+
+export interface CapacityDay {
+  date: string
+  // Ordered by time
+  slots: CapacitySlot[]
+  guests: number
+  primeGuests: number
+  nonPrimeGuests: number
+  // The busiest slot decides whether the night is over capacity
+  peakUtilization: number
+  isOverCapacity: boolean
+}
+
+export function occupiesCapacity(booking: Pick<Booking, 'status'>): boolean {
+  return SEATED_STATUSES.includes(booking.status)
+}
+
+function buildSlot(date: string, time: string, bookings: Booking[], capacity: number): CapacitySlot {
+  const seated = bookings.filter(occupiesCapacity)
+  const primeGuests = seated
+    .filter(b => b.type === 'PRIME')
+    .reduce((sum, b) => sum + b.partySize, 0)
+  const nonPrimeGuests = seated
+    .filter(b => b.type === 'NON_PRIME')
+    .reduce((sum, b) => sum + b.partySize, 0)
+  const guests = primeGuests + nonPrimeGuests
+  const utilization = capacity > 0 ? guests / capacity : 0
+
+  return {
+    date,
+    time,
+    bookings,
+    guests,
+    primeGuests,
+    nonPrimeGuests,
+    utilization,
+    isOverCapacity: capacity > 0 && guests > capacity,
+  }
+}
+
+/**
+ * Groups bookings by `bookingDate` and `bookingTime` and compares each slot's
+ * seated party sizes against the venue's capacity. Days without bookings are
+ * not included; callers decide which dates to render.
+ */
+export function buildCapacityDays(bookings: Booking[], capacity: number): Map<string, CapacityDay> {
+  const byDate = new Map<string, Map<string, Booking[]>>()
+
+  bookings.forEach(booking => {
+    const slots = byDate.get(booking.bookingDate) ?? new Map<string, Booking[]>()
+    slots.set(booking.bookingTime, [...(slots.get(booking.bookingTime) ?? []), booking])
+    byDate.set(booking.bookingDate, slots)
+  })
+
+  const days = new Map<string, CapacityDay>()
+
+  byDate.forEach((slotMap, date) => {
+    const slots = Array.from(slotMap.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([time, slotBookings]) => buildSlot(date, time, slotBookings, capacity))
+
+    days.set(date, {
+      date,
+      slots,
+      guests: slots.reduce((sum, s) => sum + s.guests, 0),
+      primeGuests: slots.reduce((sum, s) => sum + s.primeGuests, 0),
+      nonPrimeGuests: slots.reduce((sum, s) => sum + s.nonPrimeGuests, 0),
+      peakUtilization: Math.max(0, ...slots.map(s => s.utilization)),
+      isOverCapacity: slots.some(s => s.isOverCapacity),
+    })
+  })
+
+  return days
+}
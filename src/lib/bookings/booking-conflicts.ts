@@ -0,0 +1,135 @@
+// Booking conflict detection for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+//
+// Shared by the client (to warn on bookings already loaded) and the MSW
+// handlers (to serve `bookings/conflicts` and to refuse confirming a
+// conflicted booking until the conflict has been acknowledged).
+
+import { format, parseISO } from 'date-fns'
+import type { ApiError, Booking, BookingConflict, BookingStatus, Venue } from '@/types/data'
+import { buildCapacityDays, occupiesCapacity } from './booking-capacity'
+import { normalizeEmail, normalizePhone } from './guest-identity'
+
+export const BOOKING_CONFLICT = 'BOOKING_CONFLICT'
+
+// Only confirming commits the venue to a booking, so only that is gated
+export function requiresConflictAcknowledgement(status: BookingStatus): boolean {
+  return status === 'CONFIRMED'
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string | undefined) {
+  const groups = new Map<string, T[]>()
+  items.forEach(item => {
+    const key = getKey(item)
+    if (!key) return
+    groups.set(key, [...(groups.get(key) ?? []), item])
+  })
+  return groups
+}
+
+function findDuplicateGuests(bookings: Booking[]): BookingConflict[] {
+  const conflicts = new Map<string, BookingConflict>()
+
+  // A guest is the same if either the email or the phone matches
+  const byContact = [
+    groupBy(bookings, b => normalizeEmail(b.guestEmail) || undefined),
+    groupBy(bookings, b => normalizePhone(b.guestPhone) || undefined),
+  ]
+
+  byContact.forEach(groups => {
+    groups.forEach(group => {
+      if (group.length < 2) return
+
+      const bookingIds = group.map(b => b.id).sort()
+      const [{ venueId, bookingDate }] = group
+      const id = `DUPLICATE_GUEST:${bookingIds.join(',')}`
+      if (conflicts.has(id)) return
+
+      // Contact details stay out of the message; it is shown to masked roles too
+      conflicts.set(id, {
+        id,
+        type: 'DUPLICATE_GUEST',
+        venueId,
+        bookingDate,
+        bookingIds,
+        message: `The same guest has ${group.length} bookings on ${format(parseISO(bookingDate), 'MMM d')}.`,
+      })
+    })
+  })
+
+  return Array.from(conflicts.values())
+}
+
+function findOverCapacitySlots(bookings: Booking[], capacity: number): BookingConflict[] {
+  const conflicts: BookingConflict[] = []
+
+  buildCapacityDays(bookings, capacity).forEach(day => {
+    day.slots
+      .filter(slot => slot.isOverCapacity)
+      .forEach(slot => {
+        const [{ venueId }] = slot.bookings
+        conflicts.push({
+          id: `OVER_CAPACITY:${venueId}:${slot.date}:${slot.time}`,
+          type: 'OVER_CAPACITY',
+          venueId,
+          bookingDate: slot.date,
+          bookingTime: slot.time,
+          bookingIds: slot.bookings.filter(occupiesCapacity).map(b => b.id),
+          message: `${slot.guests} guests are booked at ${slot.time} against a capacity of ${capacity}.`,
+        })
+      })
+  })
+
+  return conflicts
+}
+
+/**
+ * Flags guests booked more than once on the same night at the same venue,
+ * and time slots whose combined party size exceeds the venue's capacity.
+ * Cancelled and no-show bookings are ignored; they hold no seats.
+ */
+export function detectBookingConflicts(
+  bookings: Booking[],
+  venues: Pick<Venue, 'id' | 'capacity'>[]
+): BookingConflict[] {
+  const active = bookings.filter(occupiesCapacity)
+  const conflicts: BookingConflict[] = []
+
+  groupBy(active, b => b.venueId).forEach((venueBookings, venueId) => {
+    const capacity = venues.find(v => v.id === venueId)?.capacity ?? 0
+
+    groupBy(venueBookings, b => b.bookingDate).forEach(nightBookings => {
+      conflicts.push(...findDuplicateGuests(nightBookings))
+    })
+    conflicts.push(...findOverCapacitySlots(venueBookings, capacity))
+  })
+
+  return conflicts
+}
+
+export function getConflictsForBooking(
+  conflicts: BookingConflict[],
+  bookingId: string
+): BookingConflict[] {
+  return conflicts.filter(conflict => conflict.bookingIds.includes(bookingId))
+}
+
+// Structured error returned when confirming a conflicted booking unacknowledged
+export function createBookingConflictError(
+  bookingId: string,
+  conflicts: BookingConflict[]
+): ApiError {
+  return {
+    message: conflicts.length === 1
+      ? `${conflicts[0].message} Review it before confirming.`
+      : `This booking has ${conflicts.length} unresolved conflicts. Review them before confirming.`,
+    code: BOOKING_CONFLICT,
+    details: { bookingId, conflicts },
+  }
+}
+
+export function getConflictsFromError(error: ApiError): BookingConflict[] {
+  return error.code === BOOKING_CONFLICT && Array.isArray(error.details?.conflicts)
+    ? (error.details.conflicts as BookingConflict[])
+    : []
+}
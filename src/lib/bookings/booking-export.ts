@@ -0,0 +1,122 @@
+// Booking export helpers for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import { canViewFinancials, maskBooking } from '@/lib/auth/data-masking'
+import type { DataAccessLevel } from '@/types/auth'
+import type { Booking } from '@/types/data'
+import { getBookingAmount } from './booking-amounts'
+
+export type BookingExportFormat = 'csv' | 'xlsx'
+
+export type BookingExportValue = string | number
+
+// Lookups used to turn ids into names in the exported file
+export interface BookingExportContext {
+  venueNames: Record<string, string>
+  promoterNames: Record<string, string>
+}
+
+export interface BookingExportColumn {
+  id: string
+  label: string
+  // Financial columns are dropped entirely for roles that can't see them
+  financial?: boolean
+  value: (booking: Booking, context: BookingExportContext) => BookingExportValue
+}
+
+export const BOOKING_EXPORT_COLUMNS: BookingExportColumn[] = [
+  { id: 'id', label: 'Booking ID', value: b => b.id },
+  { id: 'guestName', label: 'Guest', value: b => b.guestName },
+  { id: 'guestEmail', label: 'Email', value: b => b.guestEmail },
+  { id: 'guestPhone', label: 'Phone', value: b => b.guestPhone },
+  { id: 'venue', label: 'Venue', value: (b, ctx) => ctx.venueNames[b.venueId] ?? b.venueId },
+  { id: 'bookingDate', label: 'Date', value: b => b.bookingDate },
+  { id: 'bookingTime', label: 'Time', value: b => b.bookingTime },
+  { id: 'partySize', label: 'Party Size', value: b => b.partySize },
+  { id: 'status', label: 'Status', value: b => b.status },
+  { id: 'type', label: 'Type', value: b => b.type },
+  { id: 'promoter', label: 'Promoter', value: (b, ctx) => ctx.promoterNames[b.promoterId] ?? b.promoterId },
+  { id: 'primeTotal', label: 'Prime Total', financial: true, value: b => b.primeTotal },
+  { id: 'nonPrimeTotal', label: 'Non-Prime Total', financial: true, value: b => b.nonPrimeTotal },
+  { id: 'amount', label: 'Amount', financial: true, value: b => getBookingAmount(b) },
+  { id: 'commissionAmount', label: 'Commission', financial: true, value: b => b.commissionAmount },
+  { id: 'notes', label: 'Notes', value: b => b.notes ?? '' },
+  { id: 'createdAt', label: 'Created At', value: b => b.createdAt },
+]
+
+// Columns a user may pick from, given their data access level
+export function getExportableColumns(level: DataAccessLevel): BookingExportColumn[] {
+  return BOOKING_EXPORT_COLUMNS.filter(column => !column.financial || canViewFinancials(level))
+}
+
+/**
+ * Builds the header and rows for an export. Masking is applied here, not in
+ * the UI, so every format gets the same treatment; financial columns are
+ * filtered again in case a caller passed ids the role can't see.
+ */
+export function buildBookingExport(
+  bookings: Booking[],
+  columnIds: string[],
+  level: DataAccessLevel,
+  context: BookingExportContext
+): { header: string[]; rows: BookingExportValue[][] } {
+  const columns = getExportableColumns(level).filter(column => columnIds.includes(column.id))
+  const rows = bookings.map(booking => {
+    const visible = maskBooking(booking, level)
+    return columns.map(column => column.value(visible, context))
+  })
+
+  return { header: columns.map(column => column.label), rows }
+}
+
+// Spreadsheet apps execute text cells starting with these, so neutralize
+// them. Real numbers are written as they are; any text that merely looks
+// numeric, like a phone number, gets escaped too.
+function escapeCsvValue(value: BookingExportValue): string {
+  if (typeof value === 'number') return String(value)
+
+  const safe = /^[=@+\-\t\r]/.test(value) ? `'${value}` : value
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function toCsv(header: string[], rows: BookingExportValue[][]): string {
+  return [header, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n')
+}
+
+async function toXlsx(header: string[], rows: BookingExportValue[][]): Promise<Blob> {
+  // Loaded on demand; only exports need the spreadsheet writer
+  const { default: writeXlsxFile } = await import('write-excel-file/browser')
+
+  return writeXlsxFile(
+    [
+      header.map(label => ({ value: label, fontWeight: 'bold' as const })),
+      ...rows,
+    ],
+    { sheet: 'Bookings', stickyRowsCount: 1 }
+  ).toBlob()
+}
+
+export async function createBookingExportFile(
+  format: BookingExportFormat,
+  header: string[],
+  rows: BookingExportValue[][]
+): Promise<Blob> {
+  if (format === 'xlsx') {
+    return toXlsx(header, rows)
+  }
+  // Leading BOM so Excel opens UTF-8 names correctly
+  return new Blob(['\uFEFF', toCsv(header, rows)], { type: 'text/csv;charset=utf-8' })
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,110 @@
+// Booking CSV import helpers for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import type { BookingInput } from '@/types/data'
+
+export type BookingImportField = keyof BookingInput
+
+export interface BookingImportFieldDefinition {
+  field: BookingImportField
+  label: string
+  required: boolean
+  // Lower-cased header names recognized when auto-mapping columns
+  aliases: string[]
+}
+
+export const BOOKING_IMPORT_FIELDS: BookingImportFieldDefinition[] = [
+  { field: 'venueId', label: 'Venue ID', required: true, aliases: ['venueid', 'venue id', 'venue'] },
+  { field: 'promoterId', label: 'Promoter ID', required: true, aliases: ['promoterid', 'promoter id', 'promoter'] },
+  { field: 'guestName', label: 'Guest name', required: true, aliases: ['guestname', 'guest name', 'guest', 'name'] },
+  { field: 'guestEmail', label: 'Guest email', required: true, aliases: ['guestemail', 'guest email', 'email'] },
+  { field: 'guestPhone', label: 'Guest phone', required: true, aliases: ['guestphone', 'guest phone', 'phone'] },
+  { field: 'partySize', label: 'Party size', required: true, aliases: ['partysize', 'party size', 'party', 'guests'] },
+  { field: 'bookingDate', label: 'Date', required: true, aliases: ['bookingdate', 'booking date', 'date'] },
+  { field: 'bookingTime', label: 'Time', required: true, aliases: ['bookingtime', 'booking time', 'time'] },
+  { field: 'type', label: 'Type', required: true, aliases: ['type', 'booking type'] },
+  { field: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comments'] },
+]
+
+// Column index for each field; undefined means the field is not mapped
+export type BookingImportMapping = Partial<Record<BookingImportField, number>>
+
+/**
+ * Parses RFC 4180 CSV: quoted fields, escaped quotes and newlines inside
+ * quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let value = ''
+  let inQuotes = false
+
+  // Strip the BOM Excel writes at the start of UTF-8 files
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        value += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(value)
+      value = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(value)
+      rows.push(row)
+      row = []
+      value = ''
+    } else {
+      value += char
+    }
+  }
+
+  row.push(value)
+  rows.push(row)
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+// Guesses which column holds each field from the header row
+export function autoMapColumns(headers: string[]): BookingImportMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase().replace(/[_-]/g, ' '))
+  const mapping: BookingImportMapping = {}
+
+  BOOKING_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex(header =>
+      aliases.includes(header) || aliases.includes(header.replace(/\s/g, ''))
+    )
+    if (index !== -1) mapping[field] = index
+  })
+
+  return mapping
+}
+
+// Turns a CSV data row into raw field values using the column mapping
+export function applyMapping(
+  row: string[],
+  mapping: BookingImportMapping
+): Partial<Record<BookingImportField, string>> {
+  const values: Partial<Record<BookingImportField, string>> = {}
+
+  BOOKING_IMPORT_FIELDS.forEach(({ field }) => {
+    const index = mapping[field]
+    if (index !== undefined) values[field] = row[index]?.trim() ?? ''
+  })
+
+  return values
+}
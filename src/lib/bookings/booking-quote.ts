@@ -0,0 +1,90 @@
+// Booking price quotes for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+
+import type {
+  Booking,
+  CommissionRate,
+  PricingConfig,
+  PromoterTier,
+} from '@/types/data'
+import { getBookingAmount } from './booking-amounts'
+
+export interface BookingQuote {
+  primeTotal: number
+  nonPrimeTotal: number
+  // What the guest pays under the booking's type
+  amount: number
+  platformFee: number
+  commissionAmount: number
+  netToVenue: number
+}
+
+// Rounds to cents so quotes match what the API stores
+function roundCurrency(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+export function findCommissionRate(
+  rates: CommissionRate[] | undefined,
+  tier: PromoterTier | undefined
+): CommissionRate | undefined {
+  if (!rates || !tier) return undefined
+  return rates.find(rate => rate.isActive && rate.tier === tier)
+}
+
+/**
+ * Commission owed on a booking amount. A rate only applies when the amount
+ * falls inside its min/max booking value window.
+ */
+export function calculateCommission(amount: number, rate: CommissionRate | undefined) {
+  if (!rate || amount <= 0) return 0
+  if (rate.minBookingValue !== undefined && amount < rate.minBookingValue) return 0
+  if (rate.maxBookingValue !== undefined && amount > rate.maxBookingValue) return 0
+
+  return rate.type === 'PERCENTAGE'
+    ? roundCurrency(amount * (rate.value / 100))
+    : roundCurrency(rate.value)
+}
+
+/**
+ * Returns why a party size cannot be booked under a venue's pricing, or
+ * undefined when it can. Shared by the booking form and the API so both
+ * reject the same requests with the same wording.
+ */
+export function getPricingViolation(
+  partySize: number,
+  pricing: PricingConfig | undefined
+): string | undefined {
+  if (!pricing) return 'This venue has no pricing configured.'
+  if (!pricing.isActive) return 'Pricing for this venue is not active.'
+  if (partySize < pricing.minimumPartySize) {
+    return `Party size must be at least ${pricing.minimumPartySize}.`
+  }
+  if (partySize > pricing.maximumPartySize) {
+    return `Party size cannot exceed ${pricing.maximumPartySize}.`
+  }
+  return undefined
+}
+
+export function quoteBooking(
+  booking: Pick<Booking, 'type' | 'partySize'>,
+  pricing: PricingConfig,
+  rate: CommissionRate | undefined
+): BookingQuote {
+  const primeTotal = roundCurrency(
+    pricing.primeBasePrice + pricing.primePerPersonPrice * booking.partySize
+  )
+  const nonPrimeTotal = roundCurrency(pricing.nonPrimePerPersonPrice * booking.partySize)
+  const amount = getBookingAmount({ type: booking.type, primeTotal, nonPrimeTotal })
+  const platformFee = roundCurrency(amount * (pricing.platformFeePercentage / 100))
+  const commissionAmount = calculateCommission(amount, rate)
+
+  return {
+    primeTotal,
+    nonPrimeTotal,
+    amount,
+    platformFee,
+    commissionAmount,
+    netToVenue: roundCurrency(amount - platformFee - commissionAmount),
+  }
+}
@@ -0,0 +1,28 @@
+// Guest identity matching for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+//
+// Bookings have no guest id, so the same guest is recognised by email or
+// phone number, compared after normalizing formatting differences.
+
+import type { Booking } from '@/types/data'
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+// Compare the last ten digits so "+1 (555) 123-4567" matches "555.123.4567"
+export function normalizePhone(phone: string) {
+  return phone.replace(/\D/g, '').slice(-10)
+}
+
+export function isSameGuest(
+  a: Pick<Booking, 'guestEmail' | 'guestPhone'>,
+  b: Pick<Booking, 'guestEmail' | 'guestPhone'>
+): boolean {
+  const email = normalizeEmail(a.guestEmail)
+  const phone = normalizePhone(a.guestPhone)
+  return (
+    (email !== '' && email === normalizeEmail(b.guestEmail)) ||
+    (phone !== '' && phone === normalizePhone(b.guestPhone))
+  )
+}
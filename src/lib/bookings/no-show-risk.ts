@@ -0,0 +1,115 @@
+// No-show risk scoring for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+//
+// A transparent additive model rather than a trained one: every factor adds
+// or removes a fixed number of points from the promoter's track record, so
+// the badge can always explain itself.
+
+import { differenceInCalendarDays, getDay, parseISO, startOfDay } from 'date-fns'
+import type { Booking, NoShowRisk, NoShowRiskLevel, Promoter } from '@/types/data'
+import { isSameGuest } from './guest-identity'
+
+// Score at or above which a booking is flagged for each level
+export const NO_SHOW_RISK_THRESHOLDS: Record<Exclude<NoShowRiskLevel, 'LOW'>, number> = {
+  MEDIUM: 0.15,
+  HIGH: 0.3,
+}
+
+// Used when the promoter can't be found, roughly the portfolio average
+const DEFAULT_PROMOTER_BASELINE = 0.12
+
+export interface GuestHistory {
+  completed: number
+  noShows: number
+  cancellations: number
+}
+
+// Only bookings still ahead of us can be reconfirmed
+export function isUpcomingBooking(booking: Booking, now: Date): boolean {
+  return (
+    (booking.status === 'PENDING' || booking.status === 'CONFIRMED') &&
+    differenceInCalendarDays(parseISO(booking.bookingDate), now) >= 0
+  )
+}
+
+// How the same guest's earlier bookings turned out
+export function getGuestHistory(booking: Booking, bookings: Booking[]): GuestHistory {
+  const earlier = bookings.filter(other =>
+    other.id !== booking.id &&
+    other.bookingDate < booking.bookingDate &&
+    isSameGuest(other, booking)
+  )
+
+  return {
+    completed: earlier.filter(b => b.status === 'COMPLETED').length,
+    noShows: earlier.filter(b => b.status === 'NO_SHOW').length,
+    cancellations: earlier.filter(b => b.status === 'CANCELLED').length,
+  }
+}
+
+export function getNoShowRiskLevel(score: number): NoShowRiskLevel {
+  if (score >= NO_SHOW_RISK_THRESHOLDS.HIGH) return 'HIGH'
+  if (score >= NO_SHOW_RISK_THRESHOLDS.MEDIUM) return 'MEDIUM'
+  return 'LOW'
+}
+
+/**
+ * Scores an upcoming booking. Starts from the promoter's no-show rate plus
+ * half their cancellation rate (late cancellations tend to turn into
+ * no-shows), then adjusts for party size, lead time, night of the week and
+ * the guest's own history. Returns undefined for bookings that aren't
+ * upcoming.
+ */
+export function scoreNoShowRisk(
+  booking: Booking,
+  {
+    promoter,
+    guestHistory,
+    now = new Date(),
+  }: { promoter?: Promoter; guestHistory: GuestHistory; now?: Date }
+): NoShowRisk | undefined {
+  if (!isUpcomingBooking(booking, now)) return undefined
+
+  const factors: NoShowRisk['factors'] = []
+  const add = (label: string, impact: number) => {
+    if (impact !== 0) factors.push({ label, impact })
+  }
+
+  const baseline = promoter
+    ? promoter.noShowRate + promoter.cancellationRate / 2
+    : DEFAULT_PROMOTER_BASELINE
+  add(promoter ? 'Promoter track record' : 'Unknown promoter', baseline)
+
+  if (booking.partySize >= 8) add('Large party', 0.08)
+  else if (booking.partySize >= 6) add('Mid-size party', 0.04)
+
+  const leadDays = differenceInCalendarDays(
+    parseISO(booking.bookingDate),
+    startOfDay(parseISO(booking.createdAt))
+  )
+  if (leadDays >= 21) add('Booked 3+ weeks ahead', 0.08)
+  else if (leadDays >= 7) add('Booked 1+ week ahead', 0.04)
+  else if (leadDays <= 1) add('Booked for today or tomorrow', -0.04)
+
+  // Friday and Saturday guests are the likeliest to hold several reservations
+  const weekday = getDay(parseISO(booking.bookingDate))
+  if (weekday === 5 || weekday === 6) add('Weekend night', 0.03)
+
+  if (guestHistory.noShows > 0) {
+    add('Guest has missed bookings before', Math.min(guestHistory.noShows * 0.15, 0.3))
+  } else if (guestHistory.completed >= 2) {
+    add('Returning guest', -0.06)
+  }
+  if (guestHistory.cancellations > 0) {
+    add('Guest has cancelled before', Math.min(guestHistory.cancellations * 0.05, 0.1))
+  }
+
+  const total = factors.reduce((sum, factor) => sum + factor.impact, 0)
+  const score = Math.min(Math.max(total, 0), 1)
+
+  return {
+    score,
+    level: getNoShowRiskLevel(score),
+    factors: factors.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact)),
+  }
+}
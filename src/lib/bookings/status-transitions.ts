@@ -0,0 +1,49 @@
+// Booking status state machine for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+//
+// Shared by the client (to decide which actions to offer and to short-circuit
+// illegal mutations) and the MSW handlers (to reject them server-side), so the
+// two can never disagree about what a legal transition is.
+
+import type { ApiError, BookingStatus } from '@/types/data'
+
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['COMPLETED', 'NO_SHOW', 'CANCELLED'],
+  // Terminal states
+  COMPLETED: [],
+  CANCELLED: [],
+  NO_SHOW: [],
+}
+
+export const INVALID_STATUS_TRANSITION = 'INVALID_STATUS_TRANSITION'
+
+export function getAllowedTransitions(from: BookingStatus): BookingStatus[] {
+  return BOOKING_STATUS_TRANSITIONS[from] ?? []
+}
+
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return getAllowedTransitions(from).includes(to)
+}
+
+export function isTerminalStatus(status: BookingStatus): boolean {
+  return getAllowedTransitions(status).length === 0
+}
+
+// Structured error returned whenever a transition is rejected
+export function createInvalidTransitionError(
+  bookingId: string,
+  from: BookingStatus,
+  to: BookingStatus
+): ApiError {
+  return {
+    message: `Cannot change booking status from ${from} to ${to}`,
+    code: INVALID_STATUS_TRANSITION,
+    details: {
+      bookingId,
+      from,
+      to,
+      allowed: getAllowedTransitions(from),
+    },
+  }
+}
@@ -0,0 +1,86 @@
+// Waitlist ordering and promotion for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+//
+// Shared by the client (to show which waiting parties would fit) and the MSW
+// handlers (to promote them when a cancellation frees capacity).
+
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import type { ApiError, Booking, WaitlistEntry, WaitlistPriority } from '@/types/data'
+import { occupiesCapacity } from './booking-capacity'
+
+export const WAITLIST_SLOT_FULL = 'WAITLIST_SLOT_FULL'
+
+const PRIORITY_RANK: Record<WaitlistPriority, number> = {
+  HIGH: 0,
+  NORMAL: 1,
+  LOW: 2,
+}
+
+type Slot = Pick<Booking, 'venueId' | 'bookingDate' | 'bookingTime'>
+
+export function getSlotKey({ venueId, bookingDate, bookingTime }: Slot): string {
+  return `${venueId}:${bookingDate}:${bookingTime}`
+}
+
+// Highest priority first, then first come, first served
+export function compareWaitlistEntries(a: WaitlistEntry, b: WaitlistEntry): number {
+  return (
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+    a.createdAt.localeCompare(b.createdAt)
+  )
+}
+
+// Parties for past nights can't be seated any more
+export function isOpenWaitlistEntry(entry: WaitlistEntry, now: Date = new Date()): boolean {
+  return (
+    entry.status === 'WAITING' &&
+    differenceInCalendarDays(parseISO(entry.bookingDate), now) >= 0
+  )
+}
+
+export function getFreeSeats(slot: Slot, bookings: Booking[], capacity: number): number {
+  const key = getSlotKey(slot)
+  const seated = bookings
+    .filter(b => occupiesCapacity(b) && getSlotKey(b) === key)
+    .reduce((sum, b) => sum + b.partySize, 0)
+  return Math.max(0, capacity - seated)
+}
+
+/**
+ * Picks the waiting parties that fit into the seats still free in their slot,
+ * in priority order. A party too large for what's left is passed over so a
+ * smaller one behind it can still be seated; it keeps its place for the next
+ * cancellation.
+ */
+export function getPromotableEntries(
+  entries: WaitlistEntry[],
+  bookings: Booking[],
+  capacity: number,
+  now: Date = new Date()
+): WaitlistEntry[] {
+  const freeSeats = new Map<string, number>()
+
+  return entries
+    .filter(entry => isOpenWaitlistEntry(entry, now))
+    .sort(compareWaitlistEntries)
+    .filter(entry => {
+      const key = getSlotKey(entry)
+      const free = freeSeats.get(key) ?? getFreeSeats(entry, bookings, capacity)
+      if (entry.partySize > free) {
+        freeSeats.set(key, free)
+        return false
+      }
+      freeSeats.set(key, free - entry.partySize)
+      return true
+    })
+}
+
+export function createWaitlistSlotFullError(entry: WaitlistEntry, freeSeats: number): ApiError {
+  return {
+    message: freeSeats > 0
+      ? `Only ${freeSeats} seat(s) are free at ${entry.bookingTime}; this party needs ${entry.partySize}.`
+      : `${entry.bookingTime} is still fully booked.`,
+    code: WAITLIST_SLOT_FULL,
+    details: { waitlistEntryId: entry.id, freeSeats },
+  }
+}
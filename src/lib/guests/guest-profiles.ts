@@ -0,0 +1,121 @@
+// Guest profile derivation for PRIMA Partner Dashboard
+// Based on RFC-005: Booking Management System
+//
+// Shared by the API mocks, which serve guests, and anything on the client
+// that needs to roll bookings up per guest.
+
+import { getBookingAmount } from '@/lib/bookings/booking-amounts'
+import { normalizeEmail, normalizePhone } from '@/lib/bookings/guest-identity'
+import type { Booking, Guest } from '@/types/data'
+
+// Either threshold makes a guest a VIP regular
+export const VIP_MIN_VISITS = 3
+export const VIP_MIN_SPEND = 1000
+
+// Short, URL-safe and stable for a given key (FNV-1a)
+function hashKey(key: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+/**
+ * Groups bookings that belong to the same guest. Two bookings are the same
+ * guest when they share an email or a phone number, and that carries
+ * through: A and B sharing an email and B and C sharing a phone puts all
+ * three together.
+ */
+export function groupBookingsByGuest(bookings: Booking[]): Booking[][] {
+  const parent = bookings.map((_, index) => index)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+
+  const firstByKey = new Map<string, number>()
+  bookings.forEach((booking, index) => {
+    const keys = [
+      `email:${normalizeEmail(booking.guestEmail)}`,
+      `phone:${normalizePhone(booking.guestPhone)}`,
+    ].filter(key => !key.endsWith(':'))
+
+    keys.forEach(key => {
+      const first = firstByKey.get(key)
+      if (first === undefined) {
+        firstByKey.set(key, index)
+      } else {
+        parent[find(index)] = find(first)
+      }
+    })
+  })
+
+  const groups = new Map<number, Booking[]>()
+  bookings.forEach((booking, index) => {
+    const root = find(index)
+    groups.set(root, [...(groups.get(root) ?? []), booking])
+  })
+
+  return Array.from(groups.values())
+}
+
+// The lowest contact key in the group, so the id doesn't depend on order.
+// Merging two guests (a new booking linking them) gives the result one of
+// the two previous ids.
+export function getGuestId(bookings: Booking[]): string {
+  const [key] = bookings
+    .flatMap(b => [normalizeEmail(b.guestEmail), normalizePhone(b.guestPhone)])
+    .filter(Boolean)
+    .sort()
+  return `guest-${hashKey(key ?? bookings[0].id)}`
+}
+
+export function buildGuest(bookings: Booking[], today = new Date().toISOString().slice(0, 10)): Guest {
+  const byDate = [...bookings].sort((a, b) =>
+    `${a.bookingDate}T${a.bookingTime}`.localeCompare(`${b.bookingDate}T${b.bookingTime}`)
+  )
+  const latest = byDate[byDate.length - 1]
+  const completed = byDate.filter(b => b.status === 'COMPLETED')
+  const lifetimeSpend = completed.reduce((sum, b) => sum + getBookingAmount(b), 0)
+
+  const promoterCounts = new Map<string, number>()
+  byDate.forEach(b => promoterCounts.set(b.promoterId, (promoterCounts.get(b.promoterId) ?? 0) + 1))
+  // Ties go to the promoter who booked them most recently
+  const preferredPromoterId = Array.from(promoterCounts.entries())
+    .sort(([a, countA], [b, countB]) =>
+      countB - countA ||
+      byDate.findLastIndex(x => x.promoterId === b) - byDate.findLastIndex(x => x.promoterId === a)
+    )[0]?.[0]
+
+  const upcoming = byDate.find(b =>
+    b.bookingDate >= today && (b.status === 'PENDING' || b.status === 'CONFIRMED')
+  )
+
+  return {
+    id: getGuestId(bookings),
+    name: latest.guestName,
+    email: latest.guestEmail,
+    phone: latest.guestPhone,
+    bookingCount: bookings.length,
+    visits: completed.length,
+    noShows: byDate.filter(b => b.status === 'NO_SHOW').length,
+    cancellations: byDate.filter(b => b.status === 'CANCELLED').length,
+    lifetimeSpend,
+    averagePartySize: byDate.reduce((sum, b) => sum + b.partySize, 0) / byDate.length,
+    venueIds: Array.from(new Set(byDate.map(b => b.venueId))),
+    preferredPromoterId,
+    firstBookingDate: byDate[0].bookingDate,
+    lastVisitDate: completed[completed.length - 1]?.bookingDate,
+    nextBookingDate: upcoming?.bookingDate,
+    isVip: completed.length >= VIP_MIN_VISITS || lifetimeSpend >= VIP_MIN_SPEND,
+  }
+}
+
+export function buildGuests(bookings: Booking[]): Guest[] {
+  return groupBookingsByGuest(bookings).map(group => buildGuest(group))
+}
@@ -0,0 +1,222 @@
+// Dynamic pricing rules for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+//
+// Shared by the pricing page (to preview draft rules) and the MSW handlers
+// (to price bookings), so a previewed price is the price a booking gets.
+
+import { getDay, isValid, parseISO } from 'date-fns'
+import { occupiesCapacity } from '@/lib/bookings/booking-capacity'
+import { getSlotKey } from '@/lib/bookings/waitlist'
+import type {
+  Booking,
+  DynamicPricingRulesInput,
+  PriceRuleStep,
+  PricingConfig,
+} from '@/types/data'
+
+export const MIN_PRICE_MULTIPLIER = 0.5
+export const MAX_PRICE_MULTIPLIER = 3
+
+export const DAY_OF_WEEK_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+]
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export interface DynamicPricingRuleViolation {
+  path: Array<string | number>
+  message: string
+}
+
+// Rules for a venue that hasn't set any: every multiplier is neutral
+export function createDefaultDynamicPricingRules(): DynamicPricingRulesInput {
+  return {
+    isActive: false,
+    dayOfWeekMultipliers: DAY_OF_WEEK_LABELS.map(() => 1),
+    timeWindows: [],
+    dateOverrides: [],
+    surgeTiers: [],
+    maxMultiplier: 2,
+  }
+}
+
+export function formatMultiplier(multiplier: number): string {
+  return `×${multiplier.toFixed(2)}`
+}
+
+// Seated guests in a slot, leaving out the booking being re-priced
+export function getSlotOccupancy(
+  slot: Pick<Booking, 'venueId' | 'bookingDate' | 'bookingTime'>,
+  bookings: Booking[],
+  capacity: number,
+  excludeBookingId?: string
+): { seatedGuests: number; occupancy: number } {
+  const key = getSlotKey(slot)
+  const seatedGuests = bookings
+    .filter(b => b.id !== excludeBookingId && occupiesCapacity(b) && getSlotKey(b) === key)
+    .reduce((sum, b) => sum + b.partySize, 0)
+
+  return { seatedGuests, occupancy: capacity > 0 ? seatedGuests / capacity : 0 }
+}
+
+/**
+ * Resolves the combined multiplier for a date, time and occupancy. Precedence:
+ * a date override replaces the day-of-week and time-window multipliers, which
+ * otherwise stack; the highest surge tier reached applies on top of either;
+ * the product is capped at `maxMultiplier`. Every rule that matched is
+ * returned as a step so the preview can show what was overridden.
+ */
+export function resolvePriceMultiplier(
+  rules: DynamicPricingRulesInput | undefined,
+  slot: { date: string; time: string; occupancy: number }
+): { multiplier: number; steps: PriceRuleStep[] } {
+  if (!rules?.isActive) return { multiplier: 1, steps: [] }
+
+  const steps: PriceRuleStep[] = []
+  const override = rules.dateOverrides.find(o => o.date === slot.date)
+  if (override) {
+    steps.push({ kind: 'DATE_OVERRIDE', label: override.label, multiplier: override.multiplier, applied: true })
+  }
+
+  const day = getDay(parseISO(slot.date))
+  const dayMultiplier = rules.dayOfWeekMultipliers[day] ?? 1
+  if (dayMultiplier !== 1) {
+    steps.push({
+      kind: 'DAY_OF_WEEK',
+      label: DAY_OF_WEEK_LABELS[day],
+      multiplier: dayMultiplier,
+      applied: !override,
+    })
+  }
+
+  const timeWindow = rules.timeWindows.find(w => w.startTime <= slot.time && slot.time < w.endTime)
+  if (timeWindow) {
+    steps.push({
+      kind: 'TIME_WINDOW',
+      label: `${timeWindow.label} (${timeWindow.startTime}–${timeWindow.endTime})`,
+      multiplier: timeWindow.multiplier,
+      applied: !override,
+    })
+  }
+
+  const surge = [...rules.surgeTiers]
+    .sort((a, b) => b.minOccupancy - a.minOccupancy)
+    .find(tier => slot.occupancy * 100 >= tier.minOccupancy)
+  if (surge) {
+    steps.push({
+      kind: 'SURGE',
+      label: `${surge.minOccupancy}%+ of capacity booked`,
+      multiplier: surge.multiplier,
+      applied: true,
+    })
+  }
+
+  const combined = steps
+    .filter(step => step.applied)
+    .reduce((product, step) => product * step.multiplier, 1)
+
+  if (combined > rules.maxMultiplier) {
+    steps.push({
+      kind: 'CAP',
+      label: `Capped at ${formatMultiplier(rules.maxMultiplier)}`,
+      multiplier: rules.maxMultiplier / combined,
+      applied: true,
+    })
+    return { multiplier: rules.maxMultiplier, steps }
+  }
+
+  return { multiplier: combined, steps }
+}
+
+// Scales every guest-facing price; the platform fee stays a percentage of the result
+export function applyPriceMultiplier(pricing: PricingConfig, multiplier: number): PricingConfig {
+  if (multiplier === 1) return pricing
+
+  return {
+    ...pricing,
+    primeBasePrice: pricing.primeBasePrice * multiplier,
+    primePerPersonPrice: pricing.primePerPersonPrice * multiplier,
+    nonPrimePerPersonPrice: pricing.nonPrimePerPersonPrice * multiplier,
+  }
+}
+
+function isValidMultiplier(value: number) {
+  return Number.isFinite(value) && value >= MIN_PRICE_MULTIPLIER && value <= MAX_PRICE_MULTIPLIER
+}
+
+const MULTIPLIER_RANGE = `between ${MIN_PRICE_MULTIPLIER} and ${MAX_PRICE_MULTIPLIER}`
+
+export function getDynamicPricingRuleViolations(
+  rules: DynamicPricingRulesInput
+): DynamicPricingRuleViolation[] {
+  const violations: DynamicPricingRuleViolation[] = []
+  const add = (path: DynamicPricingRuleViolation['path'], message: string) =>
+    violations.push({ path, message })
+
+  const { maxMultiplier } = rules
+  if (!Number.isFinite(maxMultiplier) || maxMultiplier < 1 || maxMultiplier > MAX_PRICE_MULTIPLIER) {
+    add(['maxMultiplier'], `The cap must be between 1 and ${MAX_PRICE_MULTIPLIER}.`)
+  }
+
+  if (rules.dayOfWeekMultipliers.length !== DAY_OF_WEEK_LABELS.length) {
+    add(['dayOfWeekMultipliers'], 'Set a multiplier for every day of the week.')
+  }
+  rules.dayOfWeekMultipliers.forEach((multiplier, index) => {
+    if (!isValidMultiplier(multiplier)) {
+      add(['dayOfWeekMultipliers', index], `${DAY_OF_WEEK_LABELS[index]} must be ${MULTIPLIER_RANGE}.`)
+    }
+  })
+
+  rules.timeWindows.forEach((timeWindow, index) => {
+    if (!timeWindow.label.trim()) add(['timeWindows', index, 'label'], 'Give the time window a name.')
+    if (!TIME_OF_DAY.test(timeWindow.startTime)) add(['timeWindows', index, 'startTime'], 'Use HH:mm.')
+    if (!TIME_OF_DAY.test(timeWindow.endTime)) {
+      add(['timeWindows', index, 'endTime'], 'Use HH:mm.')
+    } else if (timeWindow.endTime <= timeWindow.startTime) {
+      add(['timeWindows', index, 'endTime'], 'The window must end after it starts.')
+    }
+    if (!isValidMultiplier(timeWindow.multiplier)) {
+      add(['timeWindows', index, 'multiplier'], `Multiplier must be ${MULTIPLIER_RANGE}.`)
+    }
+
+    // Overlapping windows would make the precedence ambiguous
+    const overlapping = rules.timeWindows.findIndex((other, otherIndex) =>
+      otherIndex < index && timeWindow.startTime < other.endTime && other.startTime < timeWindow.endTime
+    )
+    if (overlapping !== -1) {
+      add(['timeWindows', index, 'startTime'], `Overlaps "${rules.timeWindows[overlapping].label}".`)
+    }
+  })
+
+  rules.dateOverrides.forEach((override, index) => {
+    if (!override.label.trim()) add(['dateOverrides', index, 'label'], 'Name the holiday or event.')
+    if (!isValid(parseISO(override.date))) {
+      add(['dateOverrides', index, 'date'], 'Pick a date.')
+    } else if (rules.dateOverrides.findIndex(other => other.date === override.date) < index) {
+      add(['dateOverrides', index, 'date'], 'This date already has an override.')
+    }
+    if (!isValidMultiplier(override.multiplier)) {
+      add(['dateOverrides', index, 'multiplier'], `Multiplier must be ${MULTIPLIER_RANGE}.`)
+    }
+  })
+
+  rules.surgeTiers.forEach((tier, index) => {
+    if (!(tier.minOccupancy > 0 && tier.minOccupancy <= 100)) {
+      add(['surgeTiers', index, 'minOccupancy'], 'Occupancy must be above 0% and at most 100%.')
+    } else if (rules.surgeTiers.findIndex(other => other.minOccupancy === tier.minOccupancy) < index) {
+      add(['surgeTiers', index, 'minOccupancy'], 'Another tier already starts here.')
+    }
+    // Surge only ever raises prices
+    if (!isValidMultiplier(tier.multiplier) || tier.multiplier < 1) {
+      add(['surgeTiers', index, 'multiplier'], `Surge must be between 1 and ${MAX_PRICE_MULTIPLIER}.`)
+    }
+  })
+
+  return violations
+}
@@ -0,0 +1,59 @@
+// Pricing business rules for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+//
+// Shared by the pricing editor (as zod refinements) and the MSW handlers, so
+// a config the form accepts is one the API accepts, with the same wording.
+
+import type { PricingConfigInput } from '@/types/data'
+
+export const MAX_PLATFORM_FEE_PERCENTAGE = 30
+export const MAX_PARTY_SIZE = 50
+
+export interface PricingRuleViolation {
+  field: keyof PricingConfigInput
+  message: string
+}
+
+/**
+ * Checks the rules that hold between fields; per-field ranges are checked
+ * here too so the API can rely on this alone. Prime and Non-Prime totals are
+ * both linear in party size, so comparing them at the smallest and largest
+ * party covers every size in between.
+ */
+export function getPricingRuleViolations(config: PricingConfigInput): PricingRuleViolation[] {
+  const violations: PricingRuleViolation[] = []
+  const add = (field: PricingRuleViolation['field'], message: string) =>
+    violations.push({ field, message })
+
+  if (config.primeBasePrice < 0) add('primeBasePrice', 'Prime base price cannot be negative.')
+  if (config.primePerPersonPrice < 0) add('primePerPersonPrice', 'Prime per-person price cannot be negative.')
+  if (config.nonPrimePerPersonPrice <= 0) {
+    add('nonPrimePerPersonPrice', 'Non-Prime per-person price must be greater than zero.')
+  }
+
+  if (config.platformFeePercentage < 0 || config.platformFeePercentage > MAX_PLATFORM_FEE_PERCENTAGE) {
+    add('platformFeePercentage', `Platform fee must be between 0% and ${MAX_PLATFORM_FEE_PERCENTAGE}%.`)
+  }
+
+  if (!Number.isInteger(config.minimumPartySize) || config.minimumPartySize < 1) {
+    add('minimumPartySize', 'Minimum party size must be a whole number of at least 1.')
+  }
+  if (!Number.isInteger(config.maximumPartySize) || config.maximumPartySize > MAX_PARTY_SIZE) {
+    add('maximumPartySize', `Maximum party size must be a whole number no larger than ${MAX_PARTY_SIZE}.`)
+  } else if (config.maximumPartySize < config.minimumPartySize) {
+    add('maximumPartySize', 'Maximum party size cannot be below the minimum.')
+  }
+
+  // Prime is the premium product; it should never undercut Non-Prime
+  const undercutSize = [config.minimumPartySize, config.maximumPartySize].find(size =>
+    config.primeBasePrice + config.primePerPersonPrice * size < config.nonPrimePerPersonPrice * size
+  )
+  if (undercutSize !== undefined && violations.length === 0) {
+    add(
+      'primePerPersonPrice',
+      `Prime would cost less than Non-Prime for a party of ${undercutSize}.`
+    )
+  }
+
+  return violations
+}
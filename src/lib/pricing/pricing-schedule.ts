@@ -0,0 +1,41 @@
+// Pricing schedule resolution for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import type { PricingConfig } from '@/types/data'
+
+// The day (yyyy-MM-dd) a config starts applying. Scheduled configs are
+// stored at midnight UTC, so the date part is the whole story.
+export function getEffectiveDay(config: Pick<PricingConfig, 'effectiveDate'>): string {
+  return config.effectiveDate.slice(0, 10)
+}
+
+export function toEffectiveDate(day: string): string {
+  return `${day}T00:00:00Z`
+}
+
+// Every config a venue has had or will have, oldest effective date first
+export function getVenuePricingSchedule(configs: PricingConfig[], venueId: string): PricingConfig[] {
+  return configs
+    .filter(config => config.venueId === venueId)
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))
+}
+
+// The config in force on a date: the latest one that had taken effect by then
+export function resolvePricingConfig(
+  configs: PricingConfig[],
+  venueId: string,
+  date: string
+): PricingConfig | undefined {
+  return getVenuePricingSchedule(configs, venueId)
+    .filter(config => getEffectiveDay(config) <= date)
+    .at(-1)
+}
+
+// Configs that haven't taken effect yet, soonest first
+export function getUpcomingPricingConfigs(
+  configs: PricingConfig[],
+  venueId: string,
+  today: string
+): PricingConfig[] {
+  return getVenuePricingSchedule(configs, venueId).filter(config => getEffectiveDay(config) > today)
+}
@@ -0,0 +1,42 @@
+// Pricing template helpers for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import type { PricingConfigInput } from '@/types/data'
+
+// How far a single venue may be moved from the template when it's applied
+export const MAX_TEMPLATE_ADJUSTMENT_PERCENTAGE = 50
+
+export const MAX_TEMPLATE_NAME_LENGTH = 60
+
+function roundCurrency(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * The config a venue gets from a template after its adjustment. Only prices
+ * move; the platform fee, party size limits and active flag are copied as-is.
+ */
+export function applyTemplateAdjustment(
+  config: PricingConfigInput,
+  priceAdjustmentPercentage: number
+): PricingConfigInput {
+  if (priceAdjustmentPercentage === 0) return config
+
+  const factor = 1 + priceAdjustmentPercentage / 100
+  return {
+    ...config,
+    primeBasePrice: roundCurrency(config.primeBasePrice * factor),
+    primePerPersonPrice: roundCurrency(config.primePerPersonPrice * factor),
+    nonPrimePerPersonPrice: roundCurrency(config.nonPrimePerPersonPrice * factor),
+  }
+}
+
+export function getTemplateAdjustmentViolation(priceAdjustmentPercentage: number): string | undefined {
+  if (
+    !Number.isFinite(priceAdjustmentPercentage) ||
+    Math.abs(priceAdjustmentPercentage) > MAX_TEMPLATE_ADJUSTMENT_PERCENTAGE
+  ) {
+    return `Adjustment must be between −${MAX_TEMPLATE_ADJUSTMENT_PERCENTAGE}% and +${MAX_TEMPLATE_ADJUSTMENT_PERCENTAGE}%.`
+  }
+  return undefined
+}
@@ -0,0 +1,37 @@
+// Pricing version helpers for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import type { PricingConfig, PricingConfigInput } from '@/types/data'
+
+export type PricingFieldFormat = 'currency' | 'percentage' | 'number' | 'boolean'
+
+// Every editable pricing field, in the order the editor shows them
+export const PRICING_FIELDS: Array<{
+  field: keyof PricingConfigInput
+  label: string
+  format: PricingFieldFormat
+}> = [
+  { field: 'primeBasePrice', label: 'Prime base price', format: 'currency' },
+  { field: 'primePerPersonPrice', label: 'Prime per person', format: 'currency' },
+  { field: 'nonPrimePerPersonPrice', label: 'Non-Prime per person', format: 'currency' },
+  { field: 'platformFeePercentage', label: 'Platform fee', format: 'percentage' },
+  { field: 'minimumPartySize', label: 'Minimum party size', format: 'number' },
+  { field: 'maximumPartySize', label: 'Maximum party size', format: 'number' },
+  { field: 'isActive', label: 'Accepting bookings', format: 'boolean' },
+]
+
+// The editable part of a saved config, as stored on each version
+export function toPricingConfigInput(config: PricingConfig | PricingConfigInput): PricingConfigInput {
+  return Object.fromEntries(
+    PRICING_FIELDS.map(({ field }) => [field, config[field]])
+  ) as PricingConfigInput
+}
+
+export function getChangedPricingFields(
+  from: PricingConfigInput,
+  to: PricingConfigInput
+): Array<keyof PricingConfigInput> {
+  return PRICING_FIELDS
+    .map(({ field }) => field)
+    .filter(field => from[field] !== to[field])
+}
@@ -0,0 +1,117 @@
+// Revenue impact replay for PRIMA Partner Dashboard
+// Based on RFC-006: Pricing Configuration
+
+import { addDays, differenceInCalendarDays, format, parseISO, subDays } from 'date-fns'
+import { getBookingAmount } from '@/lib/bookings/booking-amounts'
+import { getPricingViolation, quoteBooking } from '@/lib/bookings/booking-quote'
+import type {
+  Booking,
+  BookingStatus,
+  CommissionRate,
+  PricingConfig,
+  RevenueImpact,
+  RevenueImpactWeek,
+  RevenueTotals,
+} from '@/types/data'
+import { applyPriceMultiplier } from './dynamic-pricing'
+
+// Only bookings that were (or will be) paid for count as revenue
+export const REVENUE_STATUSES: BookingStatus[] = ['CONFIRMED', 'COMPLETED']
+
+export const IMPACT_WEEK_OPTIONS = [4, 8, 12]
+export const MAX_IMPACT_WEEKS = 26
+
+export interface RevenueReplayContext {
+  // The pricing a booking was actually charged under, for its platform fee
+  getActualPricing: (booking: Booking) => PricingConfig | undefined
+  getCommissionRate: (booking: Booking) => CommissionRate | undefined
+  // Dynamic pricing multiplier the booking's slot would get
+  getMultiplier: (booking: Booking) => number
+}
+
+function emptyTotals(): RevenueTotals {
+  return { revenue: 0, platformFees: 0, commission: 0, netToVenue: 0 }
+}
+
+function addTotals(totals: RevenueTotals, revenue: number, platformFee: number, commission: number) {
+  totals.revenue += revenue
+  totals.platformFees += platformFee
+  totals.commission += commission
+  totals.netToVenue += revenue - platformFee - commission
+}
+
+/**
+ * The `weeks` of bookings to replay, ending on the venue's latest booking
+ * up to today rather than today itself, so a quiet spell doesn't leave
+ * nothing to replay.
+ */
+export function getReplayWindow(
+  bookingDates: string[],
+  weeks: number,
+  today: string
+): { from: string; to: string } {
+  const to = bookingDates.filter(date => date <= today).sort().at(-1) ?? today
+  return { from: format(subDays(parseISO(to), weeks * 7 - 1), 'yyyy-MM-dd'), to }
+}
+
+/**
+ * Re-prices each confirmed or completed booking in the window under the
+ * draft, keeping its type, party size and promoter. Actuals come from the
+ * stored totals; a booking the draft would refuse projects to zero.
+ */
+export function simulateRevenueImpact(
+  bookings: Booking[],
+  draft: PricingConfig,
+  window: { from: string; to: string; weeks: number },
+  context: RevenueReplayContext
+): Omit<RevenueImpact, 'venueId'> {
+  const actual = emptyTotals()
+  const projected = emptyTotals()
+  const byWeek: RevenueImpactWeek[] = Array.from({ length: window.weeks }, (_, index) => ({
+    weekStart: format(addDays(parseISO(window.from), index * 7), 'yyyy-MM-dd'),
+    bookings: 0,
+    actual: emptyTotals(),
+    projected: emptyTotals(),
+  }))
+  let refusedCount = 0
+
+  const replayed = bookings.filter(b =>
+    REVENUE_STATUSES.includes(b.status) && b.bookingDate >= window.from && b.bookingDate <= window.to
+  )
+
+  replayed.forEach(booking => {
+    const dayIndex = differenceInCalendarDays(parseISO(booking.bookingDate), parseISO(window.from))
+    const week = byWeek[Math.floor(dayIndex / 7)]
+    week.bookings += 1
+
+    const amount = getBookingAmount(booking)
+    const actualPricing = context.getActualPricing(booking)
+    const actualFee = actualPricing ? amount * (actualPricing.platformFeePercentage / 100) : 0
+    addTotals(actual, amount, actualFee, booking.commissionAmount)
+    addTotals(week.actual, amount, actualFee, booking.commissionAmount)
+
+    if (getPricingViolation(booking.partySize, draft)) {
+      refusedCount += 1
+      return
+    }
+
+    const quote = quoteBooking(
+      booking,
+      applyPriceMultiplier(draft, context.getMultiplier(booking)),
+      context.getCommissionRate(booking)
+    )
+    addTotals(projected, quote.amount, quote.platformFee, quote.commissionAmount)
+    addTotals(week.projected, quote.amount, quote.platformFee, quote.commissionAmount)
+  })
+
+  return {
+    from: window.from,
+    to: window.to,
+    weeks: window.weeks,
+    bookingCount: replayed.length,
+    refusedCount,
+    actual,
+    projected,
+    byWeek,
+  }
+}
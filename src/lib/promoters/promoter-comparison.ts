@@ -0,0 +1,110 @@
+// Promoter comparison for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+//
+// Shared by the API mocks, which build the comparison, and the comparison
+// view, which offers the same range presets the mocks default to.
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  max,
+  min,
+  parseISO,
+  startOfMonth,
+  subMonths,
+} from 'date-fns'
+import type {
+  Booking,
+  PromoterComparisonGranularity,
+  PromoterComparisonMetric,
+  PromoterMetrics,
+} from '@/types/data'
+import { computePromoterMetrics } from './promoter-metrics'
+
+export const MIN_COMPARED_PROMOTERS = 2
+export const MAX_COMPARED_PROMOTERS = 5
+
+export const COMPARISON_METRICS: PromoterComparisonMetric[] = [
+  'totalRevenue',
+  'totalBookings',
+  'conversionRate',
+  'noShowRate',
+]
+
+// Ranges up to a month are charted by day, up to half a year by week
+const MAX_DAILY_DAYS = 31
+const MAX_WEEKLY_DAYS = 183
+
+/**
+ * The 12 calendar months ending with the month of the latest booking up to
+ * today, matching the profile trends when no range is picked.
+ */
+export function getDefaultComparisonRange(
+  bookingDates: string[],
+  today = format(new Date(), 'yyyy-MM-dd')
+): { from: string; to: string } {
+  const latest = bookingDates.filter(date => date <= today).sort().at(-1) ?? today
+  const month = parseISO(latest)
+
+  return {
+    from: format(startOfMonth(subMonths(month, 11)), 'yyyy-MM-dd'),
+    to: format(endOfMonth(month), 'yyyy-MM-dd'),
+  }
+}
+
+/**
+ * Splits a range into the buckets it's charted in. Weeks run from the
+ * start of the range; months are calendar months clipped to it.
+ */
+export function getComparisonBuckets(period: { from: string; to: string }): {
+  granularity: PromoterComparisonGranularity
+  buckets: Array<{ from: string; to: string }>
+} {
+  const start = parseISO(period.from)
+  const end = parseISO(period.to)
+  const days = differenceInCalendarDays(end, start) + 1
+  const buckets: Array<{ from: string; to: string }> = []
+
+  if (days > MAX_WEEKLY_DAYS) {
+    for (let month = startOfMonth(start); month <= end; month = startOfMonth(addDays(endOfMonth(month), 1))) {
+      buckets.push({
+        from: format(max([month, start]), 'yyyy-MM-dd'),
+        to: format(min([endOfMonth(month), end]), 'yyyy-MM-dd'),
+      })
+    }
+    return { granularity: 'month', buckets }
+  }
+
+  const size = days > MAX_DAILY_DAYS ? 7 : 1
+  for (let day = start; day <= end; day = addDays(day, size)) {
+    buckets.push({
+      from: format(day, 'yyyy-MM-dd'),
+      to: format(min([addDays(day, size - 1), end]), 'yyyy-MM-dd'),
+    })
+  }
+  return { granularity: size === 7 ? 'week' : 'day', buckets }
+}
+
+export function getComparisonSeries(
+  bookings: Booking[],
+  promoterId: string,
+  buckets: Array<{ from: string; to: string }>,
+  venueId?: string
+): PromoterMetrics[] {
+  return buckets.map(bucket => computePromoterMetrics(bookings, promoterId, bucket, venueId))
+}
+
+/**
+ * Where a value sits in a population, 0-100. Ties count half, so a lone
+ * promoter or a population that's all equal lands on 50.
+ */
+export function getPercentileRank(value: number, population: number[], higherIsBetter = true): number {
+  if (population.length === 0) return 0
+
+  const below = population.filter(other => (higherIsBetter ? other < value : other > value)).length
+  const equal = population.filter(other => other === value).length
+
+  return Math.round(((below + equal / 2) / population.length) * 100)
+}
@@ -0,0 +1,110 @@
+// Promoter performance metrics for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+//
+// Shared by the API mocks, which serve metrics, and the leaderboard and
+// profile, which pick the period they cover.
+
+import { endOfMonth, format, parseISO, startOfMonth, subDays, subMonths } from 'date-fns'
+import { getBookingAmount } from '@/lib/bookings/booking-amounts'
+import { REVENUE_STATUSES } from '@/lib/pricing/revenue-impact'
+import type { Booking, Promoter, PromoterMetrics } from '@/types/data'
+
+export type PromoterMetricsPeriod = '30d' | '90d' | '12m' | 'all'
+
+export const PROMOTER_TREND_MONTHS = 12
+export const MAX_PROMOTER_TREND_MONTHS = 24
+// Promoters per batched metrics request, which keeps the id list in the URL short
+export const MAX_BATCHED_PROMOTER_METRICS = 100
+
+export const PROMOTER_METRICS_PERIODS: Array<{ value: PromoterMetricsPeriod; label: string }> = [
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: '12m', label: 'Last 12 months' },
+  { value: 'all', label: 'All time' },
+]
+
+/**
+ * The days (yyyy-MM-dd, inclusive) a period covers for one promoter. "All
+ * time" starts on the day they joined, so every range is bounded.
+ */
+export function getPromoterMetricsRange(
+  period: PromoterMetricsPeriod,
+  promoter: Pick<Promoter, 'joinedDate'>,
+  today = format(new Date(), 'yyyy-MM-dd')
+): { from: string; to: string } {
+  const end = parseISO(today)
+  const start = {
+    '30d': () => subDays(end, 29),
+    '90d': () => subDays(end, 89),
+    '12m': () => subMonths(end, 12),
+    all: () => parseISO(promoter.joinedDate),
+  }[period]()
+
+  return { from: format(start, 'yyyy-MM-dd'), to: today }
+}
+
+/**
+ * Rolls up the bookings a promoter brought in with a booking date in the
+ * range. Revenue counts confirmed and completed bookings only; rates are
+ * fractions of every booking in the range and zero when there are none.
+ */
+export function computePromoterMetrics(
+  bookings: Booking[],
+  promoterId: string,
+  period: { from: string; to: string },
+  venueId?: string
+): PromoterMetrics {
+  const inRange = bookings.filter(b =>
+    b.promoterId === promoterId &&
+    (!venueId || b.venueId === venueId) &&
+    b.bookingDate >= period.from &&
+    b.bookingDate <= period.to
+  )
+  const converted = inRange.filter(b => REVENUE_STATUSES.includes(b.status))
+  const totalRevenue = converted.reduce((sum, b) => sum + getBookingAmount(b), 0)
+  const rate = (count: number) => (inRange.length > 0 ? count / inRange.length : 0)
+
+  return {
+    promoterId,
+    totalBookings: inRange.length,
+    totalRevenue,
+    averageBookingValue: converted.length > 0 ? totalRevenue / converted.length : 0,
+    conversionRate: rate(converted.length),
+    noShowRate: rate(inRange.filter(b => b.status === 'NO_SHOW').length),
+    cancellationRate: rate(inRange.filter(b => b.status === 'CANCELLED').length),
+    period,
+  }
+}
+
+/**
+ * One set of metrics per calendar month, oldest first, for the `months`
+ * ending with the month of the promoter's latest booking up to today. Like
+ * the revenue replay, anchoring on activity rather than today keeps a quiet
+ * spell from leaving nothing to chart.
+ */
+export function getPromoterMonthlyMetrics(
+  bookings: Booking[],
+  promoterId: string,
+  months: number,
+  venueId?: string,
+  today = format(new Date(), 'yyyy-MM-dd')
+): PromoterMetrics[] {
+  const latest = bookings
+    .filter(b => b.promoterId === promoterId && (!venueId || b.venueId === venueId) && b.bookingDate <= today)
+    .map(b => b.bookingDate)
+    .sort()
+    .at(-1) ?? today
+  const lastMonth = startOfMonth(parseISO(latest))
+
+  return Array.from({ length: months }, (_, index) => {
+    const month = subMonths(lastMonth, months - 1 - index)
+    return computePromoterMetrics(bookings, promoterId, {
+      from: format(month, 'yyyy-MM-dd'),
+      to: format(endOfMonth(month), 'yyyy-MM-dd'),
+    }, venueId)
+  })
+}
+
+export function formatRate(rate: number) {
+  return `${(rate * 100).toFixed(1)}%`
+}
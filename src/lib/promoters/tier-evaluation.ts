@@ -0,0 +1,154 @@
+// Promoter tier evaluation for PRIMA Partner Dashboard
+// Based on RFC-007: Promoter Management & Performance
+//
+// Shared by the API mocks, which evaluate promoters for the review queue,
+// and the tier review page, which shows the thresholds behind each call.
+
+import { format, parseISO, subDays } from 'date-fns'
+import type {
+  PromoterMetrics,
+  PromoterTier,
+  PromoterTierCheck,
+  PromoterTierPolicy,
+  PromoterTierRecommendation,
+  PromoterTierThresholds,
+} from '@/types/data'
+import { formatRate } from './promoter-metrics'
+
+// Lowest first
+export const PROMOTER_TIER_ORDER: PromoterTier[] = ['STANDARD', 'PREMIUM', 'VIP']
+
+export const PROMOTER_TIER_LABELS: Record<PromoterTier, string> = {
+  STANDARD: 'Standard',
+  PREMIUM: 'Premium',
+  VIP: 'VIP',
+}
+
+export const TIER_WINDOW_OPTIONS = [30, 60, 90, 180]
+
+export const TIER_THRESHOLD_LABELS: Record<keyof PromoterTierThresholds, string> = {
+  minRevenue: 'Revenue',
+  minBookings: 'Bookings',
+  minConversionRate: 'Conversion',
+  maxNoShowRate: 'No-show rate',
+}
+
+export type GradedTier = Exclude<PromoterTier, 'STANDARD'>
+
+// The tiers a policy sets thresholds for
+export const GRADED_TIERS: GradedTier[] = ['PREMIUM', 'VIP']
+
+/**
+ * Reasons a policy can't be saved, empty when it's valid. A higher tier
+ * must ask at least as much as the one below it on every threshold.
+ */
+export function getTierPolicyViolations(policy: Pick<PromoterTierPolicy, 'windowDays' | 'thresholds'>): string[] {
+  const violations: string[] = []
+  const { PREMIUM, VIP } = policy.thresholds
+
+  if (!Number.isInteger(policy.windowDays) || policy.windowDays < 7 || policy.windowDays > 365) {
+    violations.push('The evaluation window must be between 7 and 365 days')
+  }
+
+  for (const [tier, thresholds] of Object.entries(policy.thresholds)) {
+    if (thresholds.minRevenue < 0 || thresholds.minBookings < 0) {
+      violations.push(`${tier} revenue and booking thresholds can't be negative`)
+    }
+    if ([thresholds.minConversionRate, thresholds.maxNoShowRate].some(rate => rate < 0 || rate > 1)) {
+      violations.push(`${tier} rates must be between 0% and 100%`)
+    }
+  }
+
+  if (
+    VIP.minRevenue < PREMIUM.minRevenue ||
+    VIP.minBookings < PREMIUM.minBookings ||
+    VIP.minConversionRate < PREMIUM.minConversionRate ||
+    VIP.maxNoShowRate > PREMIUM.maxNoShowRate
+  ) {
+    violations.push('VIP thresholds must be at least as demanding as PREMIUM ones')
+  }
+
+  return violations
+}
+
+/**
+ * The `windowDays` to evaluate, ending on the latest booking up to today.
+ * Like the revenue replay, anchoring on activity rather than today keeps a
+ * quiet spell from demoting everyone at once.
+ */
+export function getTierEvaluationWindow(
+  bookingDates: string[],
+  windowDays: number,
+  today: string
+): { from: string; to: string } {
+  const to = bookingDates.filter(date => date <= today).sort().at(-1) ?? today
+  return { from: format(subDays(parseISO(to), windowDays - 1), 'yyyy-MM-dd'), to }
+}
+
+export function checkTierThresholds(
+  metrics: PromoterMetrics,
+  thresholds: PromoterTierThresholds
+): PromoterTierCheck[] {
+  const { totalRevenue, totalBookings, conversionRate, noShowRate } = metrics
+  const { minRevenue, minBookings, minConversionRate, maxNoShowRate } = thresholds
+
+  return [
+    { metric: 'minRevenue', value: totalRevenue, threshold: minRevenue, passed: totalRevenue >= minRevenue },
+    { metric: 'minBookings', value: totalBookings, threshold: minBookings, passed: totalBookings >= minBookings },
+    {
+      metric: 'minConversionRate',
+      value: conversionRate,
+      threshold: minConversionRate,
+      passed: conversionRate >= minConversionRate,
+    },
+    { metric: 'maxNoShowRate', value: noShowRate, threshold: maxNoShowRate, passed: noShowRate <= maxNoShowRate },
+  ]
+}
+
+// The highest tier whose thresholds are all met
+export function getQualifiedTier(metrics: PromoterMetrics, policy: PromoterTierPolicy): PromoterTier {
+  return [...PROMOTER_TIER_ORDER]
+    .reverse()
+    .find(tier => tier === 'STANDARD' ||
+      checkTierThresholds(metrics, policy.thresholds[tier]).every(check => check.passed)) ?? 'STANDARD'
+}
+
+export function formatTierCheckValue(metric: keyof PromoterTierThresholds, value: number) {
+  return metric === 'minConversionRate' || metric === 'maxNoShowRate'
+    ? formatRate(value)
+    : value.toLocaleString()
+}
+
+/**
+ * Compares a promoter's tier with the one their metrics qualify for.
+ * Returns undefined when they already hold it.
+ */
+export function evaluatePromoterTier(
+  currentTier: PromoterTier,
+  metrics: PromoterMetrics,
+  policy: PromoterTierPolicy
+): PromoterTierRecommendation | undefined {
+  const recommendedTier = getQualifiedTier(metrics, policy)
+  if (recommendedTier === currentTier) return undefined
+
+  const isPromotion = PROMOTER_TIER_ORDER.indexOf(recommendedTier) > PROMOTER_TIER_ORDER.indexOf(currentTier)
+  // A demotion always comes from a graded tier, since STANDARD is the floor
+  const gradedTier = (isPromotion ? recommendedTier : currentTier) as GradedTier
+  const checks = checkTierThresholds(metrics, policy.thresholds[gradedTier])
+  // Names only; the numbers are in the checks, where they can be masked
+  const missed = checks
+    .filter(check => !check.passed)
+    .map(check => TIER_THRESHOLD_LABELS[check.metric].toLowerCase())
+
+  return {
+    promoterId: metrics.promoterId,
+    currentTier,
+    recommendedTier,
+    direction: isPromotion ? 'PROMOTION' : 'DEMOTION',
+    metrics,
+    checks,
+    summary: isPromotion
+      ? `Met every ${recommendedTier} threshold over the last ${policy.windowDays} days`
+      : `Below the ${currentTier} bar on ${missed.join(', ')} over the last ${policy.windowDays} days`,
+  }
+}
@@ -0,0 +1,36 @@
+// API error helpers for PRIMA Partner Dashboard
+// Based on RFC-002: Data Layer & State Management
+
+import type { ApiError } from '@/types/data'
+
+export function isApiError(value: unknown): value is ApiError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ApiError).message === 'string' &&
+    typeof (value as ApiError).code === 'string'
+  )
+}
+
+/**
+ * Normalizes whatever an RTK Query hook or `unwrap()` rejected with into an
+ * ApiError, so components can branch on `code` and show `message` directly.
+ */
+export function getApiError(error: unknown): ApiError {
+  if (typeof error === 'object' && error !== null) {
+    if ('data' in error && isApiError(error.data)) {
+      return error.data
+    }
+    if ('status' in error && typeof error.status === 'number') {
+      return {
+        message: `Request failed with status ${error.status}`,
+        code: `HTTP_${error.status}`,
+      }
+    }
+    if ('message' in error && typeof error.message === 'string') {
+      return { message: error.message, code: 'UNKNOWN_ERROR' }
+    }
+  }
+
+  return { message: 'Something went wrong. Please try again.', code: 'UNKNOWN_ERROR' }
+}
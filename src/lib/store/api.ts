@@ -1,48 +1,175 @@
 // RTK Query API configuration for PRIMA Partner Dashboard
 // Based on RFC-002: Data Layer & State Management
 
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react'
-import type { RootState } from './store'
+import {
+  createApi,
+  fetchBaseQuery,
+  type BaseQueryFn,
+  type FetchArgs,
+  type FetchBaseQueryError,
+} from '@reduxjs/toolkit/query/react'
+import type { AppDispatch, RootState } from './store'
+import { occupiesCapacity } from '@/lib/bookings/booking-capacity'
+import { canTransition, createInvalidTransitionError } from '@/lib/bookings/status-transitions'
+import {
+  MAX_BATCHED_PROMOTER_METRICS,
+  type PromoterMetricsPeriod,
+} from '@/lib/promoters/promoter-metrics'
 import type {
   Venue,
   Booking,
   Promoter,
   PricingConfig,
+  PricingConfigInput,
+  PricingVersion,
+  DynamicPricingRules,
+  DynamicPricingRulesInput,
+  PriceResolution,
+  RevenueImpact,
+  ApplyPricingTemplateResult,
+  PricingTemplate,
+  PricingTemplateInput,
+  PricingTemplateTarget,
   Transaction,
   Payout,
   Incentive,
   CommissionRate,
+  BookingConflict,
+  BookingEvent,
   BookingFilters,
+  BookingInput,
+  BookingQueryParams,
+  BulkBookingStatusResult,
+  BatchCreateBookingsResult,
+  Guest,
+  GuestNote,
+  GuestProfile,
+  GuestQueryParams,
   PromoterFilters,
+  WaitlistEntry,
+  WaitlistEntryInput,
+  WaitlistFilters,
   VenueMetrics,
+  PromoterInvitationInput,
+  PromoterComparison,
   PromoterMetrics,
+  PromoterTierChange,
+  PromoterTierChangeRequest,
+  PromoterTierEvaluation,
+  PromoterTierPolicy,
+  PromoterTierPolicyInput,
+  ApplyPromoterTierChangesResult,
   PortfolioMetrics,
   PaginatedResponse
 } from '@/types/data'
 
+// Records per page when fetching every page of a list at once
+const ALL_PAGES_PAGE_SIZE = 100
+
+function toPromoterSearchParams(params: PromoterFilters & { page?: number; limit?: number }) {
+  const searchParams = new URLSearchParams()
+  
+  if (params.tier) {
+    params.tier.forEach(tier => searchParams.append('tier', tier))
+  }
+  if (params.status) {
+    params.status.forEach(status => searchParams.append('status', status))
+  }
+  if (params.venueId) searchParams.set('venueId', params.venueId)
+  if (params.search) searchParams.set('search', params.search)
+  if (params.page) searchParams.set('page', params.page.toString())
+  if (params.limit) searchParams.set('limit', params.limit.toString())
+  
+  return searchParams
+}
+
+// Finds a booking in any cached getBooking/getBookings result
+function selectCachedBooking(state: RootState, id: string): Booking | undefined {
+  const single = primaApi.endpoints.getBooking.select(id)(state).data
+  if (single) return single
+
+  for (const args of primaApi.util.selectCachedArgsForQuery(state, 'getBookings')) {
+    const booking = primaApi.endpoints.getBookings.select(args)(state).data?.data
+      .find(b => b.id === id)
+    if (booking) return booking
+  }
+
+  return undefined
+}
+
+// Sends the signed-in user's token and active role with every request
+const rawBaseQuery = fetchBaseQuery({
+  baseUrl: '/api/prima',
+  prepareHeaders: (headers, { getState }) => {
+    // Add auth token if available
+    const state = getState() as RootState
+    const user = state.auth?.user
+    
+    if (user) {
+      headers.set('authorization', `Bearer ${user.id}`)
+      // Demo role switching changes the role without a new token
+      headers.set('x-prima-role', user.role)
+    }
+    
+    headers.set('content-type', 'application/json')
+    return headers
+  },
+})
+
+// Promoter accounts only ever see their own records, so every request they
+// make names their promoter, whatever the view asked for. The mock API
+// applies the same scope from the token.
+const baseQuery: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQueryError> = (
+  args,
+  api,
+  extraOptions
+) => {
+  const promoterId = (api.getState() as RootState).auth?.user?.promoterId
+  if (!promoterId) return rawBaseQuery(args, api, extraOptions)
+
+  const request = typeof args === 'string' ? { url: args } : args
+  const [path, search] = request.url.split('?')
+  const searchParams = new URLSearchParams(search)
+  searchParams.set('promoterId', promoterId)
+
+  return rawBaseQuery({ ...request, url: `${path}?${searchParams.toString()}` }, api, extraOptions)
+}
+
+// The first page tells us how many more to fetch; the rest go in parallel
+async function fetchAllPages<T>(
+  fetchPage: (page: number) => ReturnType<typeof baseQuery>
+): Promise<{ data: T[] } | { error: FetchBaseQueryError }> {
+  const first = await fetchPage(1)
+  if (first.error) return { error: first.error }
+
+  const { data, pagination } = first.data as PaginatedResponse<T>
+  const rest = await Promise.all(
+    Array.from({ length: Math.max(pagination.totalPages - 1, 0) }, (_, i) => fetchPage(i + 2))
+  )
+  const failed = rest.find(result => result.error)
+  if (failed?.error) return { error: failed.error }
+
+  return {
+    data: [...data, ...rest.flatMap(result => (result.data as PaginatedResponse<T>).data)]
+  }
+}
+
 // Base API configuration
 export const primaApi = createApi({
   reducerPath: 'primaApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api/prima',
-    prepareHeaders: (headers, { getState }) => {
-      // Add auth token if available
-      const state = getState() as RootState
-      const user = state.auth?.user
-      
-      if (user) {
-        headers.set('authorization', `Bearer ${user.id}`)
-      }
-      
-      headers.set('content-type', 'application/json')
-      return headers
-    },
-  }),
+  baseQuery,
   tagTypes: [
     'Venue',
     'Booking', 
+    'BookingHistory',
+    'Guest',
+    'Waitlist',
     'Promoter',
+    'PromoterTierPolicy',
     'Pricing',
+    'PricingHistory',
+    'PricingRules',
+    'PricingTemplate',
     'Transaction',
     'Payout',
     'Incentive',
@@ -62,7 +189,7 @@ export const primaApi = createApi({
     }),
 
     // ===== BOOKING ENDPOINTS =====
-    getBookings: builder.query<PaginatedResponse<Booking>, BookingFilters & { page?: number; limit?: number }>({
+    getBookings: builder.query<PaginatedResponse<Booking>, BookingQueryParams>({
       query: (params) => {
         const searchParams = new URLSearchParams()
         
@@ -79,12 +206,20 @@ export const primaApi = createApi({
           searchParams.set('to', params.dateRange.to)
         }
         if (params.search) searchParams.set('search', params.search)
+        if (params.risk) {
+          params.risk.forEach(level => searchParams.append('risk', level))
+        }
         if (params.page) searchParams.set('page', params.page.toString())
         if (params.limit) searchParams.set('limit', params.limit.toString())
+        if (params.sortBy) searchParams.set('sortBy', params.sortBy)
+        if (params.sortOrder) searchParams.set('sortOrder', params.sortOrder)
         
         return `bookings?${searchParams.toString()}`
       },
-      providesTags: ['Booking']
+      providesTags: (result) => [
+        ...(result?.data.map(({ id }) => ({ type: 'Booking' as const, id })) ?? []),
+        'Booking'
+      ]
     }),
 
     getBooking: builder.query<Booking, string>({
@@ -92,20 +227,97 @@ export const primaApi = createApi({
       providesTags: (_result, _error, id) => [{ type: 'Booking', id }]
     }),
 
-    updateBookingStatus: builder.mutation<Booking, { id: string; status: Booking['status'] }>({
-      query: ({ id, status }) => ({
-        url: `bookings/${id}/status`,
-        method: 'PATCH',
-        body: { status }
+    // Refetched whenever the booking itself is invalidated, since every booking
+    // mutation adds a history entry
+    getBookingHistory: builder.query<BookingEvent[], string>({
+      query: (id) => `bookings/${id}/history`,
+      providesTags: (_result, _error, id) => [
+        { type: 'Booking', id },
+        { type: 'BookingHistory', id }
+      ]
+    }),
+
+    addBookingNote: builder.mutation<BookingEvent, { id: string; note: string }>({
+      query: ({ id, note }) => ({
+        url: `bookings/${id}/notes`,
+        method: 'POST',
+        body: { note }
+      }),
+      invalidatesTags: (_result, _error, { id }) => [{ type: 'BookingHistory', id }]
+    }),
+
+    getBookingConflicts: builder.query<BookingConflict[], Pick<BookingFilters, 'venueId' | 'dateRange'>>({
+      query: ({ venueId, dateRange }) => {
+        const searchParams = new URLSearchParams()
+        if (venueId) searchParams.set('venueId', venueId)
+        if (dateRange) {
+          searchParams.set('from', dateRange.from)
+          searchParams.set('to', dateRange.to)
+        }
+        return `bookings/conflicts?${searchParams.toString()}`
+      },
+      // Cancelling any involved booking can resolve a conflict
+      providesTags: (result) => [
+        ...(result?.flatMap(({ bookingIds }) =>
+          bookingIds.map(id => ({ type: 'Booking' as const, id }))
+        ) ?? []),
+        'Booking'
+      ]
+    }),
+
+    createBooking: builder.mutation<Booking, BookingInput>({
+      query: (booking) => ({
+        url: 'bookings',
+        method: 'POST',
+        body: booking
+      }),
+      invalidatesTags: ['Booking', 'Guest', 'Metrics']
+    }),
+
+    batchCreateBookings: builder.mutation<BatchCreateBookingsResult, { bookings: BookingInput[]; dryRun?: boolean }>({
+      query: ({ bookings, dryRun = false }) => ({
+        url: 'bookings/batch',
+        method: 'POST',
+        body: { bookings, dryRun }
+      }),
+      // A dry run changes nothing, so there is nothing to refetch
+      invalidatesTags: (result) => result && !result.dryRun && result.created > 0
+        ? ['Booking', 'Guest', 'Metrics']
+        : []
+    }),
+
+    updateBooking: builder.mutation<Booking, { id: string; booking: BookingInput }>({
+      query: ({ id, booking }) => ({
+        url: `bookings/${id}`,
+        method: 'PUT',
+        body: booking
       }),
       invalidatesTags: (_result, _error, { id }) => [
         { type: 'Booking', id },
         'Booking',
+        'Guest',
+        'Waitlist',
         'Metrics'
-      ],
-      // Optimistic update
-      async onQueryStarted({ id, status }, { dispatch, queryFulfilled }) {
-        const patchResult = dispatch(
+      ]
+    }),
+
+    updateBookingStatus: builder.mutation<Booking, { id: string; status: Booking['status']; acknowledgeConflicts?: boolean }>({
+      async queryFn({ id, status, acknowledgeConflicts }, { getState, dispatch }, _extraOptions, baseQuery) {
+        // Reject illegal transitions before they reach the network. This has to
+        // run before the optimistic patch below, which is why the patch lives
+        // here rather than in onQueryStarted.
+        const current = selectCachedBooking(getState() as RootState, id)
+        if (current && !canTransition(current.status, status)) {
+          return {
+            error: {
+              status: 422,
+              data: createInvalidTransitionError(id, current.status, status)
+            }
+          }
+        }
+
+        // Optimistic update
+        const patchResult = (dispatch as AppDispatch)(
           primaApi.util.updateQueryData('getBooking', id, (draft) => {
             if (draft) {
               draft.status = status
@@ -113,33 +325,191 @@ export const primaApi = createApi({
             }
           })
         )
-        
+
+        const result = await baseQuery({
+          url: `bookings/${id}/status`,
+          method: 'PATCH',
+          body: { status, acknowledgeConflicts }
+        })
+
+        if (result.error) {
+          patchResult.undo()
+          return { error: result.error }
+        }
+
+        return { data: result.data as Booking }
+      },
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: 'Booking', id },
+        'Booking',
+        'Guest',
+        'Waitlist',
+        'Metrics'
+      ]
+    }),
+
+    bulkUpdateBookingStatus: builder.mutation<BulkBookingStatusResult, { ids: string[]; status: Booking['status']; acknowledgeConflicts?: boolean }>({
+      query: ({ ids, status, acknowledgeConflicts }) => ({
+        url: 'bookings/bulk-status',
+        method: 'POST',
+        body: { ids, status, acknowledgeConflicts }
+      }),
+      // Only refetch what actually changed; failed rows keep their cached state
+      invalidatesTags: (result, _error, { status }) => [
+        ...(result?.results
+          .filter(r => r.success)
+          .map(r => ({ type: 'Booking' as const, id: r.id })) ?? []),
+        // Freed seats may have promoted waitlisted parties into new bookings
+        ...(occupiesCapacity({ status }) ? [] : ['Booking' as const, 'Waitlist' as const]),
+        'Guest',
+        'Metrics'
+      ],
+      // Optimistic update across every cached getBookings page
+      async onQueryStarted({ ids, status }, { dispatch, getState, queryFulfilled }) {
+        const state = getState() as RootState
+        const previousStatuses = new Map<string, Booking['status']>()
+        const patches: Array<{ undo: () => void }> = []
+
+        for (const args of primaApi.util.selectCachedArgsForQuery(state, 'getBookings')) {
+          patches.push(dispatch(
+            primaApi.util.updateQueryData('getBookings', args, (draft) => {
+              draft.data.forEach(booking => {
+                if (!ids.includes(booking.id) || !canTransition(booking.status, status)) return
+                previousStatuses.set(booking.id, booking.status)
+                booking.status = status
+              })
+            })
+          ))
+        }
+
+        ids.forEach(id => {
+          patches.push(dispatch(
+            primaApi.util.updateQueryData('getBooking', id, (draft) => {
+              if (draft && canTransition(draft.status, status)) {
+                previousStatuses.set(id, draft.status)
+                draft.status = status
+              }
+            })
+          ))
+        })
+
         try {
-          await queryFulfilled
+          const { data } = await queryFulfilled
+          const failedIds = data.results.filter(r => !r.success).map(r => r.id)
+          if (failedIds.length === 0) return
+
+          // Roll back only the rows the server rejected
+          const restore = (booking: Booking) => {
+            const previous = previousStatuses.get(booking.id)
+            if (failedIds.includes(booking.id) && previous) {
+              booking.status = previous
+            }
+          }
+          for (const args of primaApi.util.selectCachedArgsForQuery(getState() as RootState, 'getBookings')) {
+            dispatch(primaApi.util.updateQueryData('getBookings', args, (draft) => {
+              draft.data.forEach(restore)
+            }))
+          }
+          failedIds.forEach(id => {
+            dispatch(primaApi.util.updateQueryData('getBooking', id, (draft) => {
+              if (draft) restore(draft)
+            }))
+          })
         } catch {
-          patchResult.undo()
+          patches.forEach(patch => patch.undo())
         }
       }
     }),
 
-    // ===== PROMOTER ENDPOINTS =====
-    getPromoters: builder.query<PaginatedResponse<Promoter>, PromoterFilters & { page?: number; limit?: number }>({
+    // ===== GUEST ENDPOINTS =====
+    getGuests: builder.query<PaginatedResponse<Guest>, GuestQueryParams>({
       query: (params) => {
         const searchParams = new URLSearchParams()
         
-        if (params.tier) {
-          params.tier.forEach(tier => searchParams.append('tier', tier))
-        }
-        if (params.status) {
-          params.status.forEach(status => searchParams.append('status', status))
-        }
         if (params.venueId) searchParams.set('venueId', params.venueId)
         if (params.search) searchParams.set('search', params.search)
+        if (params.vipOnly) searchParams.set('vipOnly', 'true')
         if (params.page) searchParams.set('page', params.page.toString())
         if (params.limit) searchParams.set('limit', params.limit.toString())
+        if (params.sortBy) searchParams.set('sortBy', params.sortBy)
+        if (params.sortOrder) searchParams.set('sortOrder', params.sortOrder)
+        
+        return `guests?${searchParams.toString()}`
+      },
+      providesTags: ['Guest']
+    }),
+
+    getGuest: builder.query<GuestProfile, string>({
+      query: (id) => `guests/${id}`,
+      providesTags: (_result, _error, id) => [{ type: 'Guest', id }]
+    }),
+
+    addGuestNote: builder.mutation<GuestNote, { id: string; note: string }>({
+      query: ({ id, note }) => ({
+        url: `guests/${id}/notes`,
+        method: 'POST',
+        body: { note }
+      }),
+      invalidatesTags: (_result, _error, { id }) => [{ type: 'Guest', id }]
+    }),
+
+    // ===== WAITLIST ENDPOINTS =====
+    getWaitlist: builder.query<WaitlistEntry[], WaitlistFilters>({
+      query: (params) => {
+        const searchParams = new URLSearchParams()
         
-        return `promoters?${searchParams.toString()}`
+        if (params.venueId) searchParams.set('venueId', params.venueId)
+        if (params.dateRange) {
+          searchParams.set('from', params.dateRange.from)
+          searchParams.set('to', params.dateRange.to)
+        }
+        if (params.status) {
+          params.status.forEach(status => searchParams.append('status', status))
+        }
+        
+        return `waitlist?${searchParams.toString()}`
       },
+      providesTags: ['Waitlist']
+    }),
+
+    addWaitlistEntry: builder.mutation<WaitlistEntry, WaitlistEntryInput>({
+      query: (entry) => ({
+        url: 'waitlist',
+        method: 'POST',
+        body: entry
+      }),
+      invalidatesTags: ['Waitlist']
+    }),
+
+    promoteWaitlistEntry: builder.mutation<Booking, string>({
+      query: (id) => ({
+        url: `waitlist/${id}/promote`,
+        method: 'POST'
+      }),
+      invalidatesTags: ['Waitlist', 'Booking', 'Guest', 'Metrics']
+    }),
+
+    removeWaitlistEntry: builder.mutation<WaitlistEntry, string>({
+      query: (id) => ({
+        url: `waitlist/${id}`,
+        method: 'DELETE'
+      }),
+      invalidatesTags: ['Waitlist']
+    }),
+
+    // ===== PROMOTER ENDPOINTS =====
+    getPromoters: builder.query<PaginatedResponse<Promoter>, PromoterFilters & { page?: number; limit?: number }>({
+      query: (params) => `promoters?${toPromoterSearchParams(params).toString()}`,
+      providesTags: ['Promoter']
+    }),
+
+    // Every promoter matching the filters, page by page, for views that rank
+    // them all at once
+    getAllPromoters: builder.query<Promoter[], PromoterFilters>({
+      queryFn: (filters, _api, _extraOptions, baseQuery) =>
+        fetchAllPages<Promoter>(page =>
+          baseQuery(`promoters?${toPromoterSearchParams({ ...filters, page, limit: ALL_PAGES_PAGE_SIZE })}`)
+        ),
       providesTags: ['Promoter']
     }),
 
@@ -148,11 +518,59 @@ export const primaApi = createApi({
       providesTags: (_result, _error, id) => [{ type: 'Promoter', id }]
     }),
 
-    updatePromoterTier: builder.mutation<Promoter, { id: string; tier: Promoter['tier'] }>({
-      query: ({ id, tier }) => ({
+    // Invited promoters start inactive, with zeroed stats, until they've accepted
+    invitePromoter: builder.mutation<Promoter, PromoterInvitationInput>({
+      query: (invitation) => ({
+        url: 'promoters',
+        method: 'POST',
+        body: invitation
+      }),
+      invalidatesTags: ['Promoter']
+    }),
+
+    resendPromoterInvitation: builder.mutation<Promoter, string>({
+      query: (id) => ({
+        url: `promoters/${id}/invitation`,
+        method: 'POST'
+      }),
+      invalidatesTags: (_result, _error, id) => [{ type: 'Promoter', id }]
+    }),
+
+    updatePromoterStatus: builder.mutation<Promoter, { id: string; status: Promoter['status']; reason: string }>({
+      query: ({ id, ...body }) => ({
+        url: `promoters/${id}/status`,
+        method: 'PATCH',
+        body
+      }),
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: 'Promoter', id },
+        'Promoter'
+      ]
+    }),
+
+    updatePromoterVenueAccess: builder.mutation<Promoter, { id: string; venueAccess: string[] }>({
+      query: ({ id, venueAccess }) => ({
+        url: `promoters/${id}/venues`,
+        method: 'PATCH',
+        body: { venueAccess }
+      }),
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: 'Promoter', id },
+        'Promoter'
+      ]
+    }),
+
+    // Newest first, starting from the tier the promoter joined on
+    getPromoterTierHistory: builder.query<PromoterTierChange[], string>({
+      query: (id) => `promoters/${id}/tier-history`,
+      providesTags: (_result, _error, id) => [{ type: 'Promoter', id }]
+    }),
+
+    updatePromoterTier: builder.mutation<Promoter, { id: string; tier: Promoter['tier']; reason?: string }>({
+      query: ({ id, tier, reason }) => ({
         url: `promoters/${id}/tier`,
         method: 'PATCH',
-        body: { tier }
+        body: { tier, reason }
       }),
       invalidatesTags: (_result, _error, { id }) => [
         { type: 'Promoter', id },
@@ -160,20 +578,173 @@ export const primaApi = createApi({
       ]
     }),
 
+    getPromoterTierPolicy: builder.query<PromoterTierPolicy, void>({
+      query: () => 'promoters/tier-policy',
+      providesTags: ['PromoterTierPolicy']
+    }),
+
+    updatePromoterTierPolicy: builder.mutation<PromoterTierPolicy, PromoterTierPolicyInput>({
+      query: (policy) => ({
+        url: 'promoters/tier-policy',
+        method: 'PUT',
+        body: policy
+      }),
+      invalidatesTags: ['PromoterTierPolicy']
+    }),
+
+    // Active promoters whose metrics over the policy window qualify them for another tier
+    getPromoterTierEvaluation: builder.query<PromoterTierEvaluation, void>({
+      query: () => 'promoters/tier-evaluation',
+      providesTags: ['PromoterTierPolicy', 'Promoter', 'Booking']
+    }),
+
+    // Each change is applied and audited on its own; failures don't stop the rest
+    applyPromoterTierChanges: builder.mutation<ApplyPromoterTierChangesResult, PromoterTierChangeRequest[]>({
+      query: (changes) => ({
+        url: 'promoters/tier-evaluation/apply',
+        method: 'POST',
+        body: { changes }
+      }),
+      invalidatesTags: ['Promoter']
+    }),
+
     // ===== PRICING ENDPOINTS =====
-    getPricingConfig: builder.query<PricingConfig, string>({
-      query: (venueId) => `pricing/${venueId}`,
+    // Pricing in force on a date (yyyy-MM-dd), today when omitted
+    getPricingConfig: builder.query<PricingConfig, { venueId: string; date?: string }>({
+      query: ({ venueId, date }) => date ? `pricing/${venueId}?date=${date}` : `pricing/${venueId}`,
+      providesTags: (_result, _error, { venueId }) => [{ type: 'Pricing', id: venueId }]
+    }),
+
+    // Live config first, then scheduled changes in the order they take effect
+    getPricingSchedule: builder.query<PricingConfig[], string>({
+      query: (venueId) => `pricing/${venueId}/schedule`,
       providesTags: (_result, _error, venueId) => [{ type: 'Pricing', id: venueId }]
     }),
 
-    updatePricingConfig: builder.mutation<PricingConfig, { venueId: string; config: Partial<PricingConfig> }>({
-      query: ({ venueId, config }) => ({
+    // Setting effectiveDate (yyyy-MM-dd, after today) schedules the change instead
+    updatePricingConfig: builder.mutation<PricingConfig, {
+      venueId: string
+      config: PricingConfigInput
+      reason?: string
+      effectiveDate?: string
+    }>({
+      query: ({ venueId, config, reason, effectiveDate }) => ({
         url: `pricing/${venueId}`,
         method: 'PUT',
-        body: config
+        body: { ...config, reason, effectiveDate }
       }),
       invalidatesTags: (_result, _error, { venueId }) => [
         { type: 'Pricing', id: venueId },
+        { type: 'PricingHistory', id: venueId },
+        'Pricing'
+      ]
+    }),
+
+    cancelScheduledPricing: builder.mutation<PricingConfig, { venueId: string; configId: string }>({
+      query: ({ venueId, configId }) => ({
+        url: `pricing/${venueId}/schedule/${configId}`,
+        method: 'DELETE'
+      }),
+      invalidatesTags: (_result, _error, { venueId }) => [{ type: 'Pricing', id: venueId }]
+    }),
+
+    getDynamicPricingRules: builder.query<DynamicPricingRules, string>({
+      query: (venueId) => `pricing/${venueId}/rules`,
+      providesTags: (_result, _error, venueId) => [{ type: 'PricingRules', id: venueId }]
+    }),
+
+    updateDynamicPricingRules: builder.mutation<DynamicPricingRules, { venueId: string; rules: DynamicPricingRulesInput }>({
+      query: ({ venueId, rules }) => ({
+        url: `pricing/${venueId}/rules`,
+        method: 'PUT',
+        body: rules
+      }),
+      invalidatesTags: (_result, _error, { venueId }) => [{ type: 'PricingRules', id: venueId }]
+    }),
+
+    // Demand surge depends on the slot's bookings, so this refetches when they change
+    getPriceResolution: builder.query<PriceResolution, {
+      venueId: string
+      date: string
+      time: string
+      // The booking being edited, so its own seats don't count as demand
+      excludeBookingId?: string
+    }>({
+      query: ({ venueId, date, time, excludeBookingId }) => {
+        const params = new URLSearchParams({ date, time })
+        if (excludeBookingId) params.set('excludeBookingId', excludeBookingId)
+        return `pricing/${venueId}/resolve?${params.toString()}`
+      },
+      providesTags: (_result, _error, { venueId }) => [{ type: 'PricingRules', id: venueId }, 'Booking']
+    }),
+
+    // Replays the venue's recent bookings under draft pricing; nothing is saved
+    simulateRevenueImpact: builder.mutation<RevenueImpact, { venueId: string; config: PricingConfigInput; weeks: number }>({
+      query: ({ venueId, config, weeks }) => ({
+        url: `pricing/${venueId}/impact`,
+        method: 'POST',
+        body: { config, weeks }
+      })
+    }),
+
+    getPricingTemplates: builder.query<PricingTemplate[], void>({
+      query: () => 'pricing/templates',
+      providesTags: ['PricingTemplate']
+    }),
+
+    createPricingTemplate: builder.mutation<PricingTemplate, PricingTemplateInput>({
+      query: (template) => ({
+        url: 'pricing/templates',
+        method: 'POST',
+        body: template
+      }),
+      invalidatesTags: ['PricingTemplate']
+    }),
+
+    deletePricingTemplate: builder.mutation<PricingTemplate, string>({
+      query: (id) => ({
+        url: `pricing/templates/${id}`,
+        method: 'DELETE'
+      }),
+      invalidatesTags: ['PricingTemplate']
+    }),
+
+    applyPricingTemplate: builder.mutation<ApplyPricingTemplateResult, {
+      templateId: string
+      targets: PricingTemplateTarget[]
+      reason?: string
+      dryRun: boolean
+    }>({
+      query: ({ templateId, ...body }) => ({
+        url: `pricing/templates/${templateId}/apply`,
+        method: 'POST',
+        body
+      }),
+      // A dry run changes nothing, so cached pricing stays valid
+      invalidatesTags: (result) => result && !result.dryRun
+        ? result.results
+          .filter(r => r.success)
+          .flatMap(({ venueId }) => [
+            { type: 'Pricing' as const, id: venueId },
+            { type: 'PricingHistory' as const, id: venueId }
+          ])
+        : []
+    }),
+
+    getPricingHistory: builder.query<PricingVersion[], string>({
+      query: (venueId) => `pricing/${venueId}/history`,
+      providesTags: (_result, _error, venueId) => [{ type: 'PricingHistory', id: venueId }]
+    }),
+
+    rollbackPricingConfig: builder.mutation<PricingConfig, { venueId: string; versionId: string; reason?: string }>({
+      query: ({ venueId, versionId, reason }) => ({
+        url: `pricing/${venueId}/rollback/${versionId}`,
+        method: 'POST',
+        body: { reason }
+      }),
+      invalidatesTags: (_result, _error, { venueId }) => [
+        { type: 'Pricing', id: venueId },
+        { type: 'PricingHistory', id: venueId },
         'Pricing'
       ]
     }),
@@ -184,9 +755,78 @@ export const primaApi = createApi({
       providesTags: (_result, _error, { venueId }) => [{ type: 'Metrics', id: `venue-${venueId}` }]
     }),
 
-    getPromoterMetrics: builder.query<PromoterMetrics, { promoterId: string; from: string; to: string }>({
-      query: ({ promoterId, from, to }) => `metrics/promoters/${promoterId}?from=${from}&to=${to}`,
-      providesTags: (_result, _error, { promoterId }) => [{ type: 'Metrics', id: `promoter-${promoterId}` }]
+    // Scoped to one venue's bookings when venueId is given
+    getPromoterMetrics: builder.query<PromoterMetrics, { promoterId: string; from: string; to: string; venueId?: string }>({
+      query: ({ promoterId, from, to, venueId }) => {
+        const params = new URLSearchParams({ from, to })
+        if (venueId) params.set('venueId', venueId)
+        return `metrics/promoters/${promoterId}?${params.toString()}`
+      },
+      providesTags: (_result, _error, { promoterId }) => [
+        { type: 'Metrics', id: `promoter-${promoterId}` },
+        'Booking'
+      ]
+    }),
+
+    // Each promoter's metrics over the period as it applies to them, in batches
+    // rather than a request per promoter
+    getPromoterMetricsBatch: builder.query<PromoterMetrics[], {
+      promoterIds: string[]
+      period: PromoterMetricsPeriod
+      venueId?: string
+    }>({
+      async queryFn({ promoterIds, period, venueId }, _api, _extraOptions, baseQuery) {
+        const batches = Array.from(
+          { length: Math.ceil(promoterIds.length / MAX_BATCHED_PROMOTER_METRICS) },
+          (_, i) => promoterIds.slice(i * MAX_BATCHED_PROMOTER_METRICS, (i + 1) * MAX_BATCHED_PROMOTER_METRICS)
+        )
+        const results = await Promise.all(batches.map(ids => {
+          const params = new URLSearchParams({ ids: ids.join(','), period })
+          if (venueId) params.set('venueId', venueId)
+          return baseQuery(`metrics/promoters?${params.toString()}`)
+        }))
+        const failed = results.find(result => result.error)
+        if (failed?.error) return { error: failed.error }
+
+        return { data: results.flatMap(result => result.data as PromoterMetrics[]) }
+      },
+      providesTags: (_result, _error, { promoterIds }) => [
+        ...promoterIds.map(id => ({ type: 'Metrics' as const, id: `promoter-${id}` })),
+        'Booking'
+      ]
+    }),
+
+    // Month by month, oldest first, ending with the promoter's latest active month
+    // Without from and to, covers the latest year the promoters were active
+    getPromoterComparison: builder.query<PromoterComparison, {
+      promoterIds: string[]
+      from?: string
+      to?: string
+      venueId?: string
+    }>({
+      query: ({ promoterIds, from, to, venueId }) => {
+        const params = new URLSearchParams({ ids: promoterIds.join(',') })
+        if (from && to) {
+          params.set('from', from)
+          params.set('to', to)
+        }
+        if (venueId) params.set('venueId', venueId)
+        return `metrics/promoters/compare?${params.toString()}`
+      },
+      providesTags: ['Promoter', 'Booking']
+    }),
+
+    getPromoterTrends: builder.query<PromoterMetrics[], { promoterId: string; months?: number; venueId?: string }>({
+      query: ({ promoterId, months, venueId }) => {
+        const params = new URLSearchParams()
+        if (months) params.set('months', months.toString())
+        if (venueId) params.set('venueId', venueId)
+        return `metrics/promoters/${promoterId}/trends?${params.toString()}`
+      },
+      providesTags: (_result, _error, { promoterId }) => [
+        { type: 'Metrics', id: `promoter-${promoterId}` },
+        'Booking'
+      ]
     }),
 
     getPortfolioMetrics: builder.query<PortfolioMetrics, { from: string; to: string; venueIds?: string[] }>({
@@ -237,6 +877,19 @@ export const primaApi = createApi({
       providesTags: ['Transaction']
     }),
 
+    // Every page at once, for totals that can't be taken from a single page
+    getAllTransactions: builder.query<Transaction[], { promoterId?: string; venueId?: string }>({
+      queryFn: (params, _api, _extraOptions, baseQuery) =>
+        fetchAllPages<Transaction>(page => {
+          const searchParams = new URLSearchParams({ page: page.toString(), limit: ALL_PAGES_PAGE_SIZE.toString() })
+          if (params.promoterId) searchParams.set('promoterId', params.promoterId)
+          if (params.venueId) searchParams.set('venueId', params.venueId)
+
+          return baseQuery(`transactions?${searchParams.toString()}`)
+        }),
+      providesTags: ['Transaction']
+    }),
+
     getPayouts: builder.query<PaginatedResponse<Payout>, { promoterId?: string; status?: Payout['status']; page?: number; limit?: number }>({
       query: (params) => {
         const searchParams = new URLSearchParams()
@@ -250,6 +903,18 @@ export const primaApi = createApi({
       providesTags: ['Payout']
     }),
 
+    getAllPayouts: builder.query<Payout[], { promoterId?: string; status?: Payout['status'] }>({
+      queryFn: (params, _api, _extraOptions, baseQuery) =>
+        fetchAllPages<Payout>(page => {
+          const searchParams = new URLSearchParams({ page: page.toString(), limit: ALL_PAGES_PAGE_SIZE.toString() })
+          if (params.promoterId) searchParams.set('promoterId', params.promoterId)
+          if (params.status) searchParams.set('status', params.status)
+
+          return baseQuery(`payouts?${searchParams.toString()}`)
+        }),
+      providesTags: ['Payout']
+    }),
+
     // ===== INCENTIVE ENDPOINTS =====
     getIncentives: builder.query<Incentive[], void>({
       query: () => 'incentives',
@@ -290,28 +955,76 @@ export const {
   
   // Booking hooks
   useGetBookingsQuery,
+  useLazyGetBookingsQuery,
   useGetBookingQuery,
+  useGetBookingConflictsQuery,
+  useGetBookingHistoryQuery,
+  useAddBookingNoteMutation,
+  useCreateBookingMutation,
+  useBatchCreateBookingsMutation,
+  useUpdateBookingMutation,
   useUpdateBookingStatusMutation,
+  useBulkUpdateBookingStatusMutation,
+  
+  // Guest hooks
+  useGetGuestsQuery,
+  useGetGuestQuery,
+  useAddGuestNoteMutation,
+  
+  // Waitlist hooks
+  useGetWaitlistQuery,
+  useAddWaitlistEntryMutation,
+  usePromoteWaitlistEntryMutation,
+  useRemoveWaitlistEntryMutation,
   
   // Promoter hooks
   useGetPromotersQuery,
+  useGetAllPromotersQuery,
+  useLazyGetAllPromotersQuery,
   useGetPromoterQuery,
+  useInvitePromoterMutation,
+  useResendPromoterInvitationMutation,
+  useUpdatePromoterStatusMutation,
+  useUpdatePromoterVenueAccessMutation,
+  useGetPromoterTierPolicyQuery,
+  useUpdatePromoterTierPolicyMutation,
+  useGetPromoterTierEvaluationQuery,
+  useApplyPromoterTierChangesMutation,
+  useGetPromoterTierHistoryQuery,
   useUpdatePromoterTierMutation,
   
   // Pricing hooks
   useGetPricingConfigQuery,
+  useLazyGetPricingConfigQuery,
+  useGetPricingScheduleQuery,
   useUpdatePricingConfigMutation,
+  useCancelScheduledPricingMutation,
+  useGetPricingHistoryQuery,
+  useRollbackPricingConfigMutation,
+  useGetDynamicPricingRulesQuery,
+  useUpdateDynamicPricingRulesMutation,
+  useGetPriceResolutionQuery,
+  useSimulateRevenueImpactMutation,
+  useGetPricingTemplatesQuery,
+  useCreatePricingTemplateMutation,
+  useDeletePricingTemplateMutation,
+  useApplyPricingTemplateMutation,
   
   // Metrics hooks
   useGetVenueMetricsQuery,
   useGetPromoterMetricsQuery,
+  useGetPromoterMetricsBatchQuery,
+  useGetPromoterComparisonQuery,
+  useGetPromoterTrendsQuery,
   useGetPortfolioMetricsQuery,
   useGetWeeklyTrendsQuery,
   useGetRecentBookingsQuery,
   
   // Financial hooks
   useGetTransactionsQuery,
+  useGetAllTransactionsQuery,
   useGetPayoutsQuery,
+  useGetAllPayoutsQuery,
   
   // Incentive hooks
   useGetIncentivesQuery,
@@ -4,8 +4,16 @@
 import type {
   Venue,
   Booking,
+  BookingEvent,
+  GuestNote,
+  WaitlistEntry,
   Promoter,
+  PromoterTierChange,
+  PromoterTierPolicy,
   PricingConfig,
+  PricingVersion,
+  DynamicPricingRules,
+  PricingTemplate,
   CommissionRate,
   VenueMetrics,
   PortfolioMetrics
@@ -139,6 +147,80 @@ export const mockPromoters: Promoter[] = [
   }
 ]
 
+// Every tier a promoter has held, starting with the one they joined on
+export const mockPromoterTierChanges: PromoterTierChange[] = [
+  {
+    id: 'tier-change-1',
+    promoterId: 'promoter-1',
+    toTier: 'STANDARD',
+    actorId: 'user-admin-1',
+    actorName: 'Sarah Chen',
+    actorRole: 'ADMIN',
+    createdAt: '2024-01-15T10:00:00Z'
+  },
+  {
+    id: 'tier-change-2',
+    promoterId: 'promoter-1',
+    fromTier: 'STANDARD',
+    toTier: 'PREMIUM',
+    actorId: 'user-admin-1',
+    actorName: 'Sarah Chen',
+    actorRole: 'ADMIN',
+    reason: 'Passed 50 bookings in the first quarter',
+    createdAt: '2024-04-02T09:00:00Z'
+  },
+  {
+    id: 'tier-change-3',
+    promoterId: 'promoter-1',
+    fromTier: 'PREMIUM',
+    toTier: 'VIP',
+    actorId: 'user-manager-1',
+    actorName: 'Michael Rodriguez',
+    actorRole: 'MANAGER',
+    reason: 'Top revenue across the portfolio for the summer',
+    createdAt: '2024-07-01T09:00:00Z'
+  },
+  {
+    id: 'tier-change-4',
+    promoterId: 'promoter-2',
+    toTier: 'STANDARD',
+    actorId: 'user-admin-1',
+    actorName: 'Sarah Chen',
+    actorRole: 'ADMIN',
+    createdAt: '2024-02-01T10:00:00Z'
+  },
+  {
+    id: 'tier-change-5',
+    promoterId: 'promoter-2',
+    fromTier: 'STANDARD',
+    toTier: 'PREMIUM',
+    actorId: 'user-manager-1',
+    actorName: 'Michael Rodriguez',
+    actorRole: 'MANAGER',
+    createdAt: '2024-06-03T09:00:00Z'
+  },
+  {
+    id: 'tier-change-6',
+    promoterId: 'promoter-3',
+    toTier: 'STANDARD',
+    actorId: 'user-admin-1',
+    actorName: 'Sarah Chen',
+    actorRole: 'ADMIN',
+    createdAt: '2024-03-01T10:00:00Z'
+  }
+]
+
+// Thresholds the tier review evaluates promoters against
+export const mockPromoterTierPolicy: PromoterTierPolicy = {
+  windowDays: 90,
+  thresholds: {
+    PREMIUM: { minRevenue: 5000, minBookings: 20, minConversionRate: 0.6, maxNoShowRate: 0.15 },
+    VIP: { minRevenue: 15000, minBookings: 50, minConversionRate: 0.7, maxNoShowRate: 0.1 }
+  },
+  updatedAt: '2024-07-01T09:00:00Z',
+  updatedBy: 'Sarah Chen'
+}
+
 // ===== BOOKING MOCK DATA =====
 export const mockBookings: Booking[] = [
   {
@@ -198,6 +280,88 @@ export const mockBookings: Booking[] = [
   }
 ]
 
+// ===== BOOKING HISTORY MOCK DATA =====
+export const mockBookingEvents: BookingEvent[] = [
+  {
+    id: 'event-1',
+    bookingId: 'booking-1',
+    type: 'CREATED',
+    actorId: 'user-coordinator-1',
+    actorName: 'Emma Thompson',
+    actorRole: 'COORDINATOR',
+    createdAt: '2024-09-18T10:00:00Z'
+  },
+  {
+    id: 'event-2',
+    bookingId: 'booking-2',
+    type: 'CREATED',
+    actorId: 'user-manager-1',
+    actorName: 'Michael Rodriguez',
+    actorRole: 'MANAGER',
+    createdAt: '2024-09-18T11:30:00Z'
+  },
+  {
+    id: 'event-3',
+    bookingId: 'booking-3',
+    type: 'CREATED',
+    actorId: 'user-admin-1',
+    actorName: 'Sarah Chen',
+    actorRole: 'ADMIN',
+    createdAt: '2024-09-18T14:15:00Z'
+  },
+  {
+    id: 'event-4',
+    bookingId: 'booking-1',
+    type: 'NOTE_ADDED',
+    actorId: 'user-coordinator-1',
+    actorName: 'Emma Thompson',
+    actorRole: 'COORDINATOR',
+    createdAt: '2024-09-18T10:05:00Z',
+    note: 'Guest asked for a table away from the speakers.'
+  }
+]
+
+// ===== GUEST MOCK DATA =====
+// Notes written on a guest rather than on one of their bookings
+export const mockGuestNotes: Array<GuestNote & { guestId: string }> = []
+
+// ===== WAITLIST MOCK DATA =====
+export const mockWaitlist: WaitlistEntry[] = [
+  {
+    id: 'waitlist-1',
+    venueId: 'venue-1',
+    promoterId: 'promoter-1',
+    guestName: 'Olivia Martinez',
+    guestEmail: 'olivia.martinez@email.com',
+    guestPhone: '+1 (555) 777-7777',
+    partySize: 4,
+    bookingDate: '2024-09-20',
+    bookingTime: '19:00',
+    type: 'PRIME',
+    priority: 'HIGH',
+    status: 'WAITING',
+    notes: 'Birthday dinner, flexible on table',
+    createdAt: '2024-09-18T12:00:00Z',
+    updatedAt: '2024-09-18T12:00:00Z'
+  },
+  {
+    id: 'waitlist-2',
+    venueId: 'venue-1',
+    promoterId: 'promoter-2',
+    guestName: 'Daniel Lee',
+    guestEmail: 'daniel.lee@email.com',
+    guestPhone: '+1 (555) 888-8888',
+    partySize: 2,
+    bookingDate: '2024-09-20',
+    bookingTime: '19:00',
+    type: 'NON_PRIME',
+    priority: 'NORMAL',
+    status: 'WAITING',
+    createdAt: '2024-09-18T13:20:00Z',
+    updatedAt: '2024-09-18T13:20:00Z'
+  }
+]
+
 // ===== PRICING MOCK DATA =====
 export const mockPricingConfigs: PricingConfig[] = [
   {
@@ -230,6 +394,112 @@ export const mockPricingConfigs: PricingConfig[] = [
   }
 ]
 
+// Every saved version of each venue's pricing, oldest first
+export const mockPricingVersions: PricingVersion[] = [
+  {
+    id: 'pricing-version-1',
+    venueId: 'venue-1',
+    version: 1,
+    config: {
+      primeBasePrice: 50,
+      primePerPersonPrice: 40,
+      nonPrimePerPersonPrice: 35,
+      platformFeePercentage: 5,
+      minimumPartySize: 2,
+      maximumPartySize: 10,
+      isActive: true
+    },
+    authorId: 'user-admin-1',
+    authorName: 'Sarah Chen',
+    authorRole: 'ADMIN',
+    createdAt: '2024-09-01T00:00:00Z',
+    reason: 'Opening pricing'
+  },
+  {
+    id: 'pricing-version-2',
+    venueId: 'venue-1',
+    version: 2,
+    config: {
+      primeBasePrice: 60,
+      primePerPersonPrice: 45,
+      nonPrimePerPersonPrice: 40,
+      platformFeePercentage: 5,
+      minimumPartySize: 2,
+      maximumPartySize: 12,
+      isActive: true
+    },
+    authorId: 'user-manager-1',
+    authorName: 'Michael Rodriguez',
+    authorRole: 'MANAGER',
+    createdAt: '2024-09-18T15:30:00Z',
+    reason: 'Autumn season rates and larger rooftop tables'
+  },
+  {
+    id: 'pricing-version-3',
+    venueId: 'venue-2',
+    version: 1,
+    config: {
+      primeBasePrice: 50,
+      primePerPersonPrice: 40,
+      nonPrimePerPersonPrice: 35,
+      platformFeePercentage: 5,
+      minimumPartySize: 2,
+      maximumPartySize: 10,
+      isActive: true
+    },
+    authorId: 'user-admin-1',
+    authorName: 'Sarah Chen',
+    authorRole: 'ADMIN',
+    createdAt: '2024-09-18T15:30:00Z',
+    reason: 'Opening pricing'
+  }
+]
+
+// Pricing setups saved for reuse across the portfolio
+export const mockPricingTemplates: PricingTemplate[] = [
+  {
+    id: 'pricing-template-1',
+    name: 'Autumn rooftop',
+    description: 'Rooftop Lounge\'s autumn rates with room for larger tables',
+    config: {
+      primeBasePrice: 60,
+      primePerPersonPrice: 45,
+      nonPrimePerPersonPrice: 40,
+      platformFeePercentage: 5,
+      minimumPartySize: 2,
+      maximumPartySize: 12,
+      isActive: true
+    },
+    sourceVenueId: 'venue-1',
+    authorName: 'Michael Rodriguez',
+    createdAt: '2024-09-18T16:00:00Z'
+  }
+]
+
+// Demand pricing layered on each venue's config; venues not listed have none
+export const mockDynamicPricingRules: DynamicPricingRules[] = [
+  {
+    venueId: 'venue-1',
+    isActive: true,
+    // Sunday first
+    dayOfWeekMultipliers: [1.1, 1, 0.9, 0.9, 1, 1.2, 1.25],
+    timeWindows: [
+      { label: 'Early seating', startTime: '17:00', endTime: '18:30', multiplier: 0.9 },
+      { label: 'Peak seating', startTime: '20:00', endTime: '22:00', multiplier: 1.1 }
+    ],
+    dateOverrides: [
+      { date: '2024-10-31', label: 'Halloween', multiplier: 1.3 },
+      { date: '2024-12-31', label: 'New Year\'s Eve', multiplier: 1.75 }
+    ],
+    surgeTiers: [
+      { minOccupancy: 70, multiplier: 1.1 },
+      { minOccupancy: 90, multiplier: 1.25 }
+    ],
+    maxMultiplier: 2,
+    updatedAt: '2024-09-18T15:30:00Z'
+  }
+]
+
 // ===== COMMISSION RATES MOCK DATA =====
 export const mockCommissionRates: CommissionRate[] = [
   {
@@ -2,22 +2,153 @@
 // Based on RFC-002: Data Layer & State Management
 
 import { http, HttpResponse } from 'msw'
+import { format } from 'date-fns'
 import {
   mockVenues,
   mockBookings,
+  mockBookingEvents,
+  mockGuestNotes,
+  mockWaitlist,
   mockPromoters,
+  mockPromoterTierChanges,
+  mockPromoterTierPolicy,
   mockPricingConfigs,
+  mockPricingVersions,
+  mockDynamicPricingRules,
+  mockPricingTemplates,
   mockCommissionRates,
   mockVenueMetrics,
   mockPortfolioMetrics
 } from './data'
 import type {
+  ApiError,
   Booking,
+  BookingEvent,
+  BookingFieldChange,
+  BookingInput,
+  BatchCreateBookingsResult,
+  Guest,
+  GuestNote,
+  GuestProfile,
+  BulkBookingStatusResult,
   Promoter,
+  PromoterInvitationInput,
+  PromoterComparison,
+  PromoterComparisonEntry,
+  PromoterStatus,
+  PromoterTierChangeRequest,
+  PromoterTierEvaluation,
+  PromoterTierPolicyInput,
+  ApplyPromoterTierChangesResult,
+  WaitlistEntry,
+  WaitlistEntryInput,
   PricingConfig,
+  PricingConfigInput,
+  PricingVersion,
+  DynamicPricingRulesInput,
+  PriceResolution,
+  RevenueImpact,
+  ApplyPricingTemplateResult,
+  PricingTemplate,
+  PricingTemplateInput,
+  PricingTemplateTarget,
   CommissionRate,
   PaginatedResponse
 } from '@/types/data'
+import {
+  canTransition,
+  createInvalidTransitionError,
+  isTerminalStatus
+} from '@/lib/bookings/status-transitions'
+import {
+  canViewFinancials,
+  canViewGuestContact,
+  maskAmount,
+  maskBooking,
+  maskBookingEvent,
+  maskGuest,
+  maskPromoter,
+  maskPromoterComparisonEntry,
+  maskPromoterMetrics,
+  maskPromoterTierRecommendation,
+  maskRevenueImpact,
+  maskWaitlistEntry
+} from '@/lib/auth/data-masking'
+import {
+  DEMO_USERS,
+  getDataAccessLevel,
+  getRoleById,
+  hasPermission,
+  STAFF_ROLE_IDS
+} from '@/lib/auth/demo-data'
+import type { DataAccessLevel, Permission, UserRoleId } from '@/types/auth'
+import {
+  findCommissionRate,
+  getPricingViolation,
+  quoteBooking
+} from '@/lib/bookings/booking-quote'
+import {
+  createBookingConflictError,
+  detectBookingConflicts,
+  getConflictsForBooking,
+  requiresConflictAcknowledgement
+} from '@/lib/bookings/booking-conflicts'
+import { getGuestHistory, scoreNoShowRisk } from '@/lib/bookings/no-show-risk'
+import { occupiesCapacity } from '@/lib/bookings/booking-capacity'
+import {
+  compareWaitlistEntries,
+  createWaitlistSlotFullError,
+  getFreeSeats,
+  getPromotableEntries,
+  getSlotKey
+} from '@/lib/bookings/waitlist'
+import { buildGuest, getGuestId, groupBookingsByGuest } from '@/lib/guests/guest-profiles'
+import { normalizeEmail } from '@/lib/bookings/guest-identity'
+import {
+  applyPriceMultiplier,
+  createDefaultDynamicPricingRules,
+  getDynamicPricingRuleViolations,
+  getSlotOccupancy,
+  resolvePriceMultiplier
+} from '@/lib/pricing/dynamic-pricing'
+import { getPricingRuleViolations } from '@/lib/pricing/pricing-rules'
+import {
+  applyTemplateAdjustment,
+  getTemplateAdjustmentViolation,
+  MAX_TEMPLATE_NAME_LENGTH
+} from '@/lib/pricing/pricing-templates'
+import { getReplayWindow, MAX_IMPACT_WEEKS, simulateRevenueImpact } from '@/lib/pricing/revenue-impact'
+import {
+  getEffectiveDay,
+  getUpcomingPricingConfigs,
+  resolvePricingConfig,
+  toEffectiveDate
+} from '@/lib/pricing/pricing-schedule'
+import { toPricingConfigInput } from '@/lib/pricing/pricing-versions'
+import {
+  computePromoterMetrics,
+  getPromoterMetricsRange,
+  getPromoterMonthlyMetrics,
+  MAX_BATCHED_PROMOTER_METRICS,
+  MAX_PROMOTER_TREND_MONTHS,
+  PROMOTER_METRICS_PERIODS,
+  type PromoterMetricsPeriod
+} from '@/lib/promoters/promoter-metrics'
+import {
+  COMPARISON_METRICS,
+  getComparisonBuckets,
+  getComparisonSeries,
+  getDefaultComparisonRange,
+  getPercentileRank,
+  MAX_COMPARED_PROMOTERS,
+  MIN_COMPARED_PROMOTERS
+} from '@/lib/promoters/promoter-comparison'
+import {
+  evaluatePromoterTier,
+  getTierEvaluationWindow,
+  getTierPolicyViolations,
+  PROMOTER_TIER_ORDER
+} from '@/lib/promoters/tier-evaluation'
 
 // Helper function to simulate network delay
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
@@ -43,6 +174,134 @@ function createPaginatedResponse<T>(
   }
 }
 
+// Helper function to sort records by a single field
+function sortRecords<T>(records: T[], field: keyof T, order: 'asc' | 'desc'): T[] {
+  const direction = order === 'desc' ? -1 : 1
+  
+  return [...records].sort((a, b) => {
+    const aValue = a[field]
+    const bValue = b[field]
+    
+    if (aValue === bValue) return 0
+    if (aValue === undefined || aValue === null) return 1
+    if (bValue === undefined || bValue === null) return -1
+    
+    if (typeof aValue === 'number' && typeof bValue === 'number') {
+      return (aValue - bValue) * direction
+    }
+    
+    return String(aValue).localeCompare(String(bValue)) * direction
+  })
+}
+
+// Helper function to find the demo user behind the bearer token
+function findRequestUser(request: Request) {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  return DEMO_USERS.find(u => u.id === token)
+}
+
+// Helper function to resolve the role a request acts as. Demo role switching
+// sends the active role alongside the token, but only between staff roles: a
+// promoter token is always a promoter, and a staff token can't claim to be one.
+function getRequestRoleId(request: Request): UserRoleId | undefined {
+  const user = findRequestUser(request)
+  
+  if (!user) return undefined
+  
+  const switchedRole = getRoleById(request.headers.get('x-prima-role') ?? '')?.id
+  const canSwitch = STAFF_ROLE_IDS.includes(user.role) && !!switchedRole && STAFF_ROLE_IDS.includes(switchedRole)
+  
+  return canSwitch ? switchedRole : user.role
+}
+
+// Helper function to find the promoter a promoter account is tied to. Every
+// request it makes is scoped to this promoter, whatever its query params say.
+function getRequestPromoterId(request: Request): string | undefined {
+  return getRequestRoleId(request) === 'PROMOTER' ? findRequestUser(request)?.promoterId : undefined
+}
+
+// Helper function to resolve the requesting user's data access level from
+// the bearer token. Unknown or missing tokens get no access to sensitive data.
+function getRequestAccessLevel(request: Request): DataAccessLevel {
+  const roleId = getRequestRoleId(request)
+  
+  return roleId ? getDataAccessLevel(roleId) : 'NONE'
+}
+
+// Helper function to describe who is making a request, for audit records
+function getRequestActor(request: Request) {
+  const user = findRequestUser(request)
+  
+  return {
+    id: user?.id ?? 'unknown',
+    name: user ? `${user.firstName} ${user.lastName}` : 'Unknown user',
+    role: getRequestRoleId(request)
+  }
+}
+
+// Helper function to reject a request when the role it's acting as lacks a
+// permission. Returns undefined when the request may go ahead.
+function requirePermission(request: Request, permission: Permission) {
+  const roleId = getRequestRoleId(request)
+  
+  if (roleId && hasPermission(roleId, permission)) return undefined
+  
+  return HttpResponse.json({
+    message: 'You don\'t have permission to do this',
+    code: 'FORBIDDEN'
+  } satisfies ApiError, { status: 403 })
+}
+
+// Endpoints a promoter account may call, all read-only. Where the path names
+// a promoter, it has to be their own.
+const PROMOTER_PORTAL_ROUTES: RegExp[] = [
+  /\/api\/prima\/venues$/,
+  /\/api\/prima\/bookings$/,
+  /\/api\/prima\/promoters\/([^/]+)$/,
+  /\/api\/prima\/metrics\/promoters\/([^/]+)(?:\/trends)?$/,
+  /\/api\/prima\/transactions$/,
+  /\/api\/prima\/payouts$/,
+  /\/api\/prima\/incentives$/
+]
+
+// Helper function to append an entry to a booking's audit history, attributed
+// to the requesting user and the role they are currently acting as
+function recordBookingEvent(
+  request: Request,
+  bookingId: string,
+  event: Pick<BookingEvent, 'type'> & Partial<Pick<BookingEvent, 'fromStatus' | 'toStatus' | 'conflictsAcknowledged' | 'changes' | 'note'>>
+): BookingEvent {
+  const actor = getRequestActor(request)
+  const entry: BookingEvent = {
+    ...event,
+    id: `event-${mockBookingEvents.length + 1}`,
+    bookingId,
+    actorId: actor.id,
+    actorName: actor.name,
+    actorRole: actor.role,
+    createdAt: new Date().toISOString()
+  }
+  
+  mockBookingEvents.push(entry)
+  return entry
+}
+
+// Fields a booking edit can change, in the order they're shown in history
+const BOOKING_INPUT_FIELDS: Array<keyof BookingInput> = [
+  'venueId', 'promoterId', 'guestName', 'guestEmail', 'guestPhone',
+  'partySize', 'bookingDate', 'bookingTime', 'type', 'notes'
+]
+
+// Helper function to list the fields an edit actually changes
+function diffBookingInput(booking: Booking, input: BookingInput): BookingFieldChange[] {
+  return BOOKING_INPUT_FIELDS
+    .filter(field => (booking[field] ?? '') !== (input[field] ?? ''))
+    .map(field => ({ field, from: booking[field], to: input[field] }))
+}
+
+// Booking fields that reveal amounts, and so can't be sorted on without them
+const FINANCIAL_BOOKING_FIELDS: Array<keyof Booking> = ['primeTotal', 'nonPrimeTotal', 'commissionAmount']
+
 // Helper function to find booking by ID
 function findBookingById(id: string): Booking | undefined {
   return mockBookings.find(booking => booking.id === id)
@@ -53,6 +312,233 @@ function findPromoterById(id: string): Promoter | undefined {
   return mockPromoters.find(promoter => promoter.id === id)
 }
 
+const PROMOTER_STATUSES: PromoterStatus[] = ['ACTIVE', 'INACTIVE', 'SUSPENDED']
+
+// Helper function to check a promoter's venue access list. Returns the error
+// response to send, or undefined when the list is valid.
+function getVenueAccessViolation(venueAccess: string[] | undefined) {
+  if (!Array.isArray(venueAccess) || venueAccess.length === 0) {
+    return HttpResponse.json({
+      message: 'Promoters need access to at least one venue',
+      code: 'VALIDATION_ERROR'
+    } satisfies ApiError, { status: 400 })
+  }
+  
+  const unknown = venueAccess.filter(id => !mockVenues.some(venue => venue.id === id))
+  if (unknown.length > 0) {
+    return HttpResponse.json({
+      message: `Unknown venue(s): ${unknown.join(', ')}`,
+      code: 'VENUE_NOT_FOUND'
+    } satisfies ApiError, { status: 400 })
+  }
+  
+  return undefined
+}
+
+// Helper function to resolve a slot's dynamic pricing multiplier from the
+// venue's rules and how full the slot already is
+function resolveSlotPrice(
+  slot: Pick<Booking, 'venueId' | 'bookingDate' | 'bookingTime'>,
+  excludeBookingId?: string
+): PriceResolution {
+  const capacity = mockVenues.find(v => v.id === slot.venueId)?.capacity ?? 0
+  const { seatedGuests, occupancy } = getSlotOccupancy(slot, mockBookings, capacity, excludeBookingId)
+  const { multiplier, steps } = resolvePriceMultiplier(
+    mockDynamicPricingRules.find(r => r.venueId === slot.venueId),
+    { date: slot.bookingDate, time: slot.bookingTime, occupancy }
+  )
+  
+  return {
+    venueId: slot.venueId,
+    date: slot.bookingDate,
+    time: slot.bookingTime,
+    seatedGuests,
+    capacity,
+    occupancy,
+    multiplier,
+    steps
+  }
+}
+
+// Helper function to validate booking input and price it from the venue's
+// pricing in force on the booking date, its dynamic pricing rules and the
+// promoter's commission tier. Pass the booking's id when re-pricing it so
+// its own seats don't count towards demand surge.
+function priceBookingInput(
+  input: BookingInput,
+  bookingId?: string
+): { error: ApiError } | { totals: Pick<Booking, 'primeTotal' | 'nonPrimeTotal' | 'commissionAmount'> } {
+  if (!input.guestName?.trim() || !input.guestEmail?.trim() || !input.bookingDate || !input.bookingTime) {
+    return { error: { message: 'Guest name, email, date and time are required', code: 'VALIDATION_ERROR' } }
+  }
+  
+  if (!mockVenues.some(venue => venue.id === input.venueId)) {
+    return { error: { message: `Venue ${input.venueId} not found`, code: 'VENUE_NOT_FOUND' } }
+  }
+  
+  const promoter = findPromoterById(input.promoterId)
+  if (!promoter || !promoter.venueAccess.includes(input.venueId)) {
+    return {
+      error: {
+        message: 'Promoter does not have access to this venue',
+        code: 'PROMOTER_NOT_ALLOWED',
+        details: { promoterId: input.promoterId, venueId: input.venueId }
+      }
+    }
+  }
+  
+  const pricing = resolvePricingConfig(mockPricingConfigs, input.venueId, input.bookingDate)
+  const violation = getPricingViolation(input.partySize, pricing)
+  if (violation || !pricing) {
+    return {
+      error: {
+        message: violation ?? `This venue has no pricing in force on ${input.bookingDate}.`,
+        code: 'PRICING_VIOLATION',
+        details: { venueId: input.venueId, partySize: input.partySize }
+      }
+    }
+  }
+  
+  const { multiplier } = resolveSlotPrice(input, bookingId)
+  const quote = quoteBooking(
+    input,
+    applyPriceMultiplier(pricing, multiplier),
+    findCommissionRate(mockCommissionRates, promoter.tier)
+  )
+  
+  return {
+    totals: {
+      primeTotal: quote.primeTotal,
+      nonPrimeTotal: quote.nonPrimeTotal,
+      commissionAmount: quote.commissionAmount
+    }
+  }
+}
+
+// Helper function to attach a no-show risk score to upcoming bookings
+function withNoShowRisk(booking: Booking): Booking {
+  const noShowRisk = scoreNoShowRisk(booking, {
+    promoter: findPromoterById(booking.promoterId),
+    guestHistory: getGuestHistory(booking, mockBookings)
+  })
+  return noShowRisk ? { ...booking, noShowRisk } : booking
+}
+
+// Helper function to find a derived guest and the bookings behind it
+function findGuestById(id: string): { guest: Guest; bookings: Booking[] } | undefined {
+  const bookings = groupBookingsByGuest(mockBookings).find(group => getGuestId(group) === id)
+  return bookings && { guest: buildGuest(bookings), bookings }
+}
+
+// Fields guests can't be sorted by without seeing amounts
+const FINANCIAL_GUEST_FIELDS: Array<keyof Guest> = ['lifetimeSpend']
+
+// Helper function to find the conflicts a booking is part of on its night
+function findBookingConflicts(booking: Booking) {
+  const sameNight = mockBookings.filter(b =>
+    b.venueId === booking.venueId && b.bookingDate === booking.bookingDate
+  )
+  return getConflictsForBooking(detectBookingConflicts(sameNight, mockVenues), booking.id)
+}
+
+// Helper function to turn a waitlist entry into a PENDING booking, priced from
+// the venue's current pricing rather than whatever applied when it was added
+function promoteWaitlistEntry(
+  request: Request,
+  entry: WaitlistEntry
+): { error: ApiError } | { booking: Booking } {
+  const { id, priority, status, createdAt, updatedAt, bookingId, promotedAt, ...input } = entry
+  const priced = priceBookingInput(input)
+  
+  if ('error' in priced) return priced
+  
+  const now = new Date().toISOString()
+  const booking: Booking = {
+    ...input,
+    ...priced.totals,
+    id: `booking-${Date.now()}-${id}`,
+    status: 'PENDING',
+    createdAt: now,
+    updatedAt: now
+  }
+  
+  mockBookings.push(booking)
+  recordBookingEvent(request, booking.id, { type: 'CREATED', note: 'Promoted from the waitlist' })
+  Object.assign(entry, { status: 'PROMOTED', bookingId: booking.id, promotedAt: now, updatedAt: now })
+  
+  return { booking }
+}
+
+// Helper function to seat waiting parties once seats free up in their slot.
+// Entries that no longer price (e.g. the promoter lost venue access) keep
+// waiting for someone to look at them.
+function promoteWaitlist(request: Request, slot: Pick<Booking, 'venueId' | 'bookingDate' | 'bookingTime'>) {
+  const venue = mockVenues.find(v => v.id === slot.venueId)
+  if (!venue) return
+  
+  const key = getSlotKey(slot)
+  getPromotableEntries(
+    mockWaitlist.filter(entry => getSlotKey(entry) === key),
+    mockBookings,
+    venue.capacity
+  ).forEach(entry => promoteWaitlistEntry(request, entry))
+}
+
+// Helper function to get today's date the way pricing is scheduled
+function getToday(): string {
+  return format(new Date(), 'yyyy-MM-dd')
+}
+
+// Helper function to save a venue's pricing and record it as a new version.
+// Without a future effective day the config in force today is updated;
+// with one, the change is scheduled (replacing any already set for that day).
+function savePricingConfig(
+  request: Request,
+  venueId: string,
+  input: PricingConfigInput,
+  version: Pick<PricingVersion, 'reason' | 'rolledBackFrom'>,
+  effectiveDay?: string
+): PricingConfig {
+  const now = new Date().toISOString()
+  const isScheduled = effectiveDay !== undefined && effectiveDay > getToday()
+  const existingConfig = isScheduled
+    ? mockPricingConfigs.find(c => c.venueId === venueId && getEffectiveDay(c) === effectiveDay)
+    : resolvePricingConfig(mockPricingConfigs, venueId, getToday())
+  
+  // Venues without pricing get their first config on save, in force from today
+  const updatedConfig: PricingConfig = {
+    id: existingConfig?.id ?? (isScheduled ? `pricing-${venueId}-${effectiveDay}` : `pricing-${venueId}`),
+    venueId,
+    effectiveDate: existingConfig?.effectiveDate ?? toEffectiveDate(isScheduled ? effectiveDay : getToday()),
+    createdAt: existingConfig?.createdAt ?? now,
+    ...toPricingConfigInput(input),
+    updatedAt: now
+  }
+  
+  const index = existingConfig ? mockPricingConfigs.indexOf(existingConfig) : -1
+  if (index === -1) {
+    mockPricingConfigs.push(updatedConfig)
+  } else {
+    mockPricingConfigs[index] = updatedConfig
+  }
+  
+  const actor = getRequestActor(request)
+  mockPricingVersions.push({
+    ...version,
+    id: `pricing-version-${mockPricingVersions.length + 1}`,
+    venueId,
+    version: mockPricingVersions.filter(v => v.venueId === venueId).length + 1,
+    config: toPricingConfigInput(input),
+    authorId: actor.id,
+    authorName: actor.name,
+    authorRole: actor.role,
+    createdAt: now,
+    ...(isScheduled && { effectiveDate: updatedConfig.effectiveDate })
+  })
+  
+  return updatedConfig
+}
+
 // Helper function to generate weekly trends data
 function generateWeeklyTrends(from: string, to: string, _venueId?: string) {
   const startDate = new Date(from)
@@ -68,221 +554,1557 @@ function generateWeeklyTrends(from: string, to: string, _venueId?: string) {
     const isWeekend = dayOfWeek === 0 || dayOfWeek === 6
     const baseMultiplier = isWeekend ? 1.5 : 1.0
     
-    // Add some randomness
-    const randomFactor = 0.8 + Math.random() * 0.4
+    // Add some randomness
+    const randomFactor = 0.8 + Math.random() * 0.4
+    
+    const revenue = Math.floor((isWeekend ? 8000 : 5000) * baseMultiplier * randomFactor)
+    const bookings = Math.floor((isWeekend ? 25 : 15) * baseMultiplier * randomFactor)
+    const diners = Math.floor(bookings * (3.5 + Math.random() * 1.5)) // 3.5-5 diners per booking
+    
+    trends.push({
+      date: date.toISOString().split('T')[0],
+      revenue,
+      bookings,
+      diners,
+    })
+  }
+  
+  return trends
+}
+
+export const handlers = [
+  // ===== PROMOTER PORTAL SCOPE =====
+  // Runs before every other handler and falls through (by returning nothing)
+  // unless a promoter account reaches outside the portal's own endpoints
+  http.all('*/api/prima/*', ({ request }) => {
+    if (getRequestRoleId(request) !== 'PROMOTER') return
+    
+    const promoterId = getRequestPromoterId(request)
+    const { pathname } = new URL(request.url)
+    const match = request.method === 'GET'
+      ? PROMOTER_PORTAL_ROUTES.map(route => pathname.match(route)).find(Boolean)
+      : undefined
+    
+    if (promoterId && match && (!match[1] || match[1] === promoterId)) return
+    
+    return HttpResponse.json({
+      message: 'You don\'t have permission to do this',
+      code: 'FORBIDDEN'
+    } satisfies ApiError, { status: 403 })
+  }),
+
+  // ===== VENUE ENDPOINTS =====
+  http.get('*/api/prima/venues', async ({ request }) => {
+    await delay(300)
+    const promoterId = getRequestPromoterId(request)
+    const promoter = promoterId ? findPromoterById(promoterId) : undefined
+    
+    // Promoters only see the venues they book for
+    return HttpResponse.json(promoter
+      ? mockVenues.filter(v => promoter.venueAccess.includes(v.id))
+      : mockVenues)
+  }),
+
+  http.get('*/api/prima/venues/:id', async ({ params }) => {
+    await delay(200)
+    const venue = mockVenues.find(v => v.id === params.id)
+    
+    if (!venue) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    return HttpResponse.json(venue)
+  }),
+
+  // ===== BOOKING ENDPOINTS =====
+  http.get('*/api/prima/bookings', async ({ request }) => {
+    await delay(400)
+    const url = new URL(request.url)
+    const page = parseInt(url.searchParams.get('page') || '1')
+    const limit = parseInt(url.searchParams.get('limit') || '10')
+    const status = url.searchParams.getAll('status')
+    const type = url.searchParams.getAll('type')
+    const venueId = url.searchParams.get('venueId')
+    const promoterId = getRequestPromoterId(request) ?? url.searchParams.get('promoterId')
+    const search = url.searchParams.get('search')
+    const from = url.searchParams.get('from')
+    const to = url.searchParams.get('to')
+    const risk = url.searchParams.getAll('risk')
+    const sortBy = url.searchParams.get('sortBy') as keyof Booking | null
+    const sortOrder = url.searchParams.get('sortOrder') === 'desc' ? 'desc' : 'asc'
+    const accessLevel = getRequestAccessLevel(request)
+
+    let filteredBookings = [...mockBookings]
+
+    // Apply filters
+    if (status.length > 0) {
+      filteredBookings = filteredBookings.filter(booking => status.includes(booking.status))
+    }
+    
+    if (type.length > 0) {
+      filteredBookings = filteredBookings.filter(booking => type.includes(booking.type))
+    }
+    
+    if (venueId) {
+      filteredBookings = filteredBookings.filter(booking => booking.venueId === venueId)
+    }
+    
+    if (promoterId) {
+      filteredBookings = filteredBookings.filter(booking => booking.promoterId === promoterId)
+    }
+    
+    if (search) {
+      const searchLower = search.toLowerCase()
+      // Searching by email would confirm contact details the user can't see
+      filteredBookings = filteredBookings.filter(booking =>
+        booking.guestName.toLowerCase().includes(searchLower) ||
+        (canViewGuestContact(accessLevel) && booking.guestEmail.toLowerCase().includes(searchLower))
+      )
+    }
+    
+    if (from && to) {
+      filteredBookings = filteredBookings.filter(booking => {
+        const bookingDate = new Date(booking.bookingDate)
+        const fromDate = new Date(from)
+        const toDate = new Date(to)
+        return bookingDate >= fromDate && bookingDate <= toDate
+      })
+    }
+    
+    filteredBookings = filteredBookings.map(withNoShowRisk)
+    
+    if (risk.length > 0) {
+      filteredBookings = filteredBookings.filter(booking =>
+        booking.noShowRisk && risk.includes(booking.noShowRisk.level)
+      )
+    }
+
+    // Ordering by an amount would leak it, so masked users get the default order
+    if (sortBy && (canViewFinancials(accessLevel) || !FINANCIAL_BOOKING_FIELDS.includes(sortBy))) {
+      filteredBookings = sortRecords(filteredBookings, sortBy, sortOrder)
+    }
+
+    const response = createPaginatedResponse(filteredBookings, page, limit)
+
+    return HttpResponse.json({
+      ...response,
+      data: response.data.map(booking => maskBooking(booking, accessLevel))
+    })
+  }),
+
+  http.post('*/api/prima/bookings', async ({ request }) => {
+    await delay(600)
+    const input = await request.json() as BookingInput
+    const priced = priceBookingInput(input)
+    
+    if ('error' in priced) {
+      return HttpResponse.json(priced.error, { status: 422 })
+    }
+    
+    const now = new Date().toISOString()
+    const booking: Booking = {
+      ...input,
+      ...priced.totals,
+      id: `booking-${Date.now()}`,
+      status: 'PENDING',
+      createdAt: now,
+      updatedAt: now
+    }
+    
+    mockBookings.push(booking)
+    recordBookingEvent(request, booking.id, { type: 'CREATED' })
+    
+    return HttpResponse.json(maskBooking(withNoShowRisk(booking), getRequestAccessLevel(request)), { status: 201 })
+  }),
+
+  http.post('*/api/prima/bookings/batch', async ({ request }) => {
+    await delay(800)
+    const { bookings, dryRun } = await request.json() as { bookings: BookingInput[]; dryRun: boolean }
+    const accessLevel = getRequestAccessLevel(request)
+    const now = new Date().toISOString()
+    
+    // Rows are validated independently; one bad row doesn't block the rest
+    const results: BatchCreateBookingsResult['results'] = bookings.map((input, index) => {
+      const priced = priceBookingInput(input)
+      
+      if ('error' in priced) {
+        return { index, success: false, error: priced.error }
+      }
+      
+      const booking: Booking = {
+        ...input,
+        ...priced.totals,
+        id: `booking-${Date.now()}-${index}`,
+        status: 'PENDING',
+        createdAt: now,
+        updatedAt: now
+      }
+      
+      if (!dryRun) {
+        mockBookings.push(booking)
+        recordBookingEvent(request, booking.id, { type: 'CREATED' })
+      }
+      
+      return { index, success: true, booking: maskBooking(withNoShowRisk(booking), accessLevel) }
+    })
+    
+    const created = results.filter(r => r.success).length
+    
+    return HttpResponse.json({
+      dryRun,
+      results,
+      created,
+      failed: results.length - created
+    } satisfies BatchCreateBookingsResult)
+  }),
+
+  http.post('*/api/prima/bookings/bulk-status', async ({ request }) => {
+    await delay(700)
+    const { ids, status, acknowledgeConflicts = false } = await request.json() as {
+      ids: string[]
+      status: Booking['status']
+      acknowledgeConflicts?: boolean
+    }
+    const accessLevel = getRequestAccessLevel(request)
+    
+    // Each booking succeeds or fails on its own so partial failures are reported
+    const results: BulkBookingStatusResult['results'] = ids.map(id => {
+      const booking = findBookingById(id)
+      
+      if (!booking) {
+        return {
+          id,
+          success: false,
+          error: { message: `Booking ${id} not found`, code: 'BOOKING_NOT_FOUND' }
+        }
+      }
+      
+      if (!canTransition(booking.status, status)) {
+        return {
+          id,
+          success: false,
+          error: createInvalidTransitionError(booking.id, booking.status, status)
+        }
+      }
+      
+      const conflicts = requiresConflictAcknowledgement(status) ? findBookingConflicts(booking) : []
+      if (conflicts.length > 0 && !acknowledgeConflicts) {
+        return {
+          id,
+          success: false,
+          error: createBookingConflictError(booking.id, conflicts)
+        }
+      }
+      
+      recordBookingEvent(request, booking.id, {
+        type: 'STATUS_CHANGED',
+        fromStatus: booking.status,
+        toStatus: status,
+        conflictsAcknowledged: conflicts.length > 0 || undefined
+      })
+      const wasSeated = occupiesCapacity(booking)
+      booking.status = status
+      booking.updatedAt = new Date().toISOString()
+      
+      if (wasSeated && !occupiesCapacity(booking)) {
+        promoteWaitlist(request, booking)
+      }
+      
+      return { id, success: true, booking: maskBooking(withNoShowRisk(booking), accessLevel) }
+    })
+    
+    const succeeded = results.filter(r => r.success).length
+    
+    return HttpResponse.json({
+      status,
+      results,
+      succeeded,
+      failed: results.length - succeeded
+    } satisfies BulkBookingStatusResult)
+  }),
+
+  // Recent bookings endpoint, also ahead of bookings/:id
+  http.get('*/api/prima/bookings/recent', async ({ request }) => {
+    await delay(200)
+    const url = new URL(request.url)
+    const venueId = url.searchParams.get('venueId')
+    const limit = parseInt(url.searchParams.get('limit') || '10')
+    
+    let recentBookings = [...mockBookings]
+    
+    if (venueId) {
+      recentBookings = recentBookings.filter(booking => booking.venueId === venueId)
+    }
+    
+    // Sort by creation date (most recent first) and limit
+    recentBookings = recentBookings
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, limit)
+    
+    const accessLevel = getRequestAccessLevel(request)
+    
+    return HttpResponse.json(recentBookings.map(booking => maskBooking(withNoShowRisk(booking), accessLevel)))
+  }),
+
+  // Registered ahead of bookings/:id so the path isn't read as an id
+  http.get('*/api/prima/bookings/conflicts', async ({ request }) => {
+    await delay(250)
+    const url = new URL(request.url)
+    const venueId = url.searchParams.get('venueId')
+    const from = url.searchParams.get('from')
+    const to = url.searchParams.get('to')
+
+    let bookings = [...mockBookings]
+
+    if (venueId) {
+      bookings = bookings.filter(booking => booking.venueId === venueId)
+    }
+
+    if (from && to) {
+      bookings = bookings.filter(booking => booking.bookingDate >= from && booking.bookingDate <= to)
+    }
+
+    return HttpResponse.json(detectBookingConflicts(bookings, mockVenues))
+  }),
+
+  http.get('*/api/prima/bookings/:id', async ({ params, request }) => {
+    await delay(200)
+    const booking = findBookingById(params.id as string)
+    
+    if (!booking) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    return HttpResponse.json(maskBooking(withNoShowRisk(booking), getRequestAccessLevel(request)))
+  }),
+
+  http.put('*/api/prima/bookings/:id', async ({ params, request }) => {
+    await delay(600)
+    const input = await request.json() as BookingInput
+    const booking = findBookingById(params.id as string)
+    
+    if (!booking) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    // Closed bookings are part of the financial record and stay as they were
+    if (isTerminalStatus(booking.status)) {
+      return HttpResponse.json({
+        message: `A ${booking.status.toLowerCase().replace('_', '-')} booking can no longer be edited`,
+        code: 'BOOKING_LOCKED',
+        details: { bookingId: booking.id, status: booking.status }
+      } satisfies ApiError, { status: 422 })
+    }
+    
+    // Masked users only ever saw masked contact details; never write those back
+    const accessLevel = getRequestAccessLevel(request)
+    const updates: BookingInput = canViewGuestContact(accessLevel)
+      ? input
+      : { ...input, guestName: booking.guestName, guestEmail: booking.guestEmail, guestPhone: booking.guestPhone }
+    const priced = priceBookingInput(updates, booking.id)
+    
+    if ('error' in priced) {
+      return HttpResponse.json(priced.error, { status: 422 })
+    }
+    
+    const changes = diffBookingInput(booking, updates)
+    if (changes.length > 0) {
+      recordBookingEvent(request, booking.id, { type: 'UPDATED', changes })
+    }
+    
+    const previous = { ...booking }
+    Object.assign(booking, updates, priced.totals, { updatedAt: new Date().toISOString() })
+    
+    // Moving a party elsewhere or shrinking it frees seats in its old slot
+    if (
+      occupiesCapacity(previous) &&
+      (getSlotKey(previous) !== getSlotKey(booking) || booking.partySize < previous.partySize)
+    ) {
+      promoteWaitlist(request, previous)
+    }
+    
+    return HttpResponse.json(maskBooking(withNoShowRisk(booking), accessLevel))
+  }),
+
+  http.patch('*/api/prima/bookings/:id/status', async ({ params, request }) => {
+    await delay(500)
+    const { status, acknowledgeConflicts = false } = await request.json() as {
+      status: Booking['status']
+      acknowledgeConflicts?: boolean
+    }
+    const booking = findBookingById(params.id as string)
+    
+    if (!booking) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    if (!canTransition(booking.status, status)) {
+      return HttpResponse.json(
+        createInvalidTransitionError(booking.id, booking.status, status),
+        { status: 422 }
+      )
+    }
+    
+    // Confirming a duplicate or an overbooked slot needs an explicit go-ahead
+    const conflicts = requiresConflictAcknowledgement(status) ? findBookingConflicts(booking) : []
+    if (conflicts.length > 0 && !acknowledgeConflicts) {
+      return HttpResponse.json(
+        createBookingConflictError(booking.id, conflicts),
+        { status: 409 }
+      )
+    }
+    
+    recordBookingEvent(request, booking.id, {
+      type: 'STATUS_CHANGED',
+      fromStatus: booking.status,
+      toStatus: status,
+      conflictsAcknowledged: conflicts.length > 0 || undefined
+    })
+    
+    // Update booking status
+    const wasSeated = occupiesCapacity(booking)
+    booking.status = status
+    booking.updatedAt = new Date().toISOString()
+    
+    // A cancellation hands its seats to the waitlist
+    if (wasSeated && !occupiesCapacity(booking)) {
+      promoteWaitlist(request, booking)
+    }
+    
+    return HttpResponse.json(maskBooking(withNoShowRisk(booking), getRequestAccessLevel(request)))
+  }),
+
+  http.get('*/api/prima/bookings/:id/history', async ({ params, request }) => {
+    await delay(250)
+    const booking = findBookingById(params.id as string)
+    
+    if (!booking) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    const accessLevel = getRequestAccessLevel(request)
+    
+    // Most recent first
+    const history = mockBookingEvents
+      .filter(event => event.bookingId === booking.id)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map(event => maskBookingEvent(event, accessLevel))
+    
+    return HttpResponse.json(history)
+  }),
+
+  http.post('*/api/prima/bookings/:id/notes', async ({ params, request }) => {
+    await delay(400)
+    const { note } = await request.json() as { note: string }
+    const booking = findBookingById(params.id as string)
+    
+    if (!booking) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    if (!note?.trim()) {
+      return HttpResponse.json({
+        message: 'A note cannot be empty',
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 422 })
+    }
+    
+    const event = recordBookingEvent(request, booking.id, { type: 'NOTE_ADDED', note: note.trim() })
+    
+    return HttpResponse.json(event, { status: 201 })
+  }),
+
+  // ===== GUEST ENDPOINTS =====
+  http.get('*/api/prima/guests', async ({ request }) => {
+    await delay(350)
+    const url = new URL(request.url)
+    const page = parseInt(url.searchParams.get('page') || '1')
+    const limit = parseInt(url.searchParams.get('limit') || '10')
+    const venueId = url.searchParams.get('venueId')
+    const search = url.searchParams.get('search')
+    const vipOnly = url.searchParams.get('vipOnly') === 'true'
+    const sortBy = url.searchParams.get('sortBy') as keyof Guest | null
+    const sortOrder = url.searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc'
+    const accessLevel = getRequestAccessLevel(request)
+    
+    let guests = groupBookingsByGuest(mockBookings).map(group => buildGuest(group))
+    
+    if (venueId) {
+      guests = guests.filter(guest => guest.venueIds.includes(venueId))
+    }
+    
+    if (vipOnly) {
+      guests = guests.filter(guest => guest.isVip)
+    }
+    
+    if (search) {
+      const searchLower = search.toLowerCase()
+      const searchDigits = search.replace(/\D/g, '')
+      // Contact details are only searchable by users who can see them
+      guests = guests.filter(guest =>
+        guest.name.toLowerCase().includes(searchLower) ||
+        (canViewGuestContact(accessLevel) && (
+          guest.email.toLowerCase().includes(searchLower) ||
+          (searchDigits.length >= 4 && guest.phone.replace(/\D/g, '').includes(searchDigits))
+        ))
+      )
+    }
+    
+    // Regulars first unless asked otherwise
+    const sortField = sortBy && (canViewFinancials(accessLevel) || !FINANCIAL_GUEST_FIELDS.includes(sortBy))
+      ? sortBy
+      : 'visits'
+    guests = sortRecords(guests, sortField, sortOrder)
+    
+    const response = createPaginatedResponse(guests, page, limit)
+    
+    return HttpResponse.json({
+      ...response,
+      data: response.data.map(guest => maskGuest(guest, accessLevel))
+    })
+  }),
+
+  http.get('*/api/prima/guests/:id', async ({ params, request }) => {
+    await delay(300)
+    const found = findGuestById(params.id as string)
+    
+    if (!found) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    const { guest, bookings } = found
+    const bookingIds = bookings.map(b => b.id)
+    const accessLevel = getRequestAccessLevel(request)
+    
+    // Guest notes, notes written on bookings and notes added to booking history
+    const notes: GuestNote[] = [
+      ...mockGuestNotes.filter(note => note.guestId === guest.id),
+      ...bookings
+        .filter(b => b.notes)
+        .map(b => ({ id: `${b.id}-notes`, note: b.notes!, createdAt: b.createdAt, bookingId: b.id })),
+      ...mockBookingEvents
+        .filter(event => event.type === 'NOTE_ADDED' && bookingIds.includes(event.bookingId))
+        .map(event => ({
+          id: event.id,
+          note: event.note ?? '',
+          createdAt: event.createdAt,
+          authorName: event.actorName,
+          bookingId: event.bookingId
+        }))
+    ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    
+    const profile: GuestProfile = {
+      ...guest,
+      bookings: sortRecords(bookings, 'bookingDate', 'desc')
+        .map(booking => maskBooking(withNoShowRisk(booking), accessLevel)),
+      // Drop the storage-only guestId from guest notes
+      notes: notes.map(({ id, note, createdAt, authorName, bookingId }) => ({ id, note, createdAt, authorName, bookingId }))
+    }
+    
+    return HttpResponse.json(maskGuest(profile, accessLevel))
+  }),
+
+  http.post('*/api/prima/guests/:id/notes', async ({ params, request }) => {
+    await delay(400)
+    const { note } = await request.json() as { note: string }
+    const found = findGuestById(params.id as string)
+    
+    if (!found) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    if (!note?.trim()) {
+      return HttpResponse.json({
+        message: 'A note cannot be empty',
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 422 })
+    }
+    
+    const user = findRequestUser(request)
+    const entry = {
+      id: `guest-note-${mockGuestNotes.length + 1}`,
+      guestId: found.guest.id,
+      note: note.trim(),
+      createdAt: new Date().toISOString(),
+      authorName: user ? `${user.firstName} ${user.lastName}` : 'Unknown user'
+    }
+    mockGuestNotes.push(entry)
+    
+    return HttpResponse.json(entry, { status: 201 })
+  }),
+
+  // ===== WAITLIST ENDPOINTS =====
+  http.get('*/api/prima/waitlist', async ({ request }) => {
+    await delay(250)
+    const url = new URL(request.url)
+    const venueId = url.searchParams.get('venueId')
+    const from = url.searchParams.get('from')
+    const to = url.searchParams.get('to')
+    const status = url.searchParams.getAll('status')
+    const accessLevel = getRequestAccessLevel(request)
+    
+    let entries = [...mockWaitlist]
+    
+    if (venueId) {
+      entries = entries.filter(entry => entry.venueId === venueId)
+    }
+    
+    if (from && to) {
+      entries = entries.filter(entry => entry.bookingDate >= from && entry.bookingDate <= to)
+    }
+    
+    if (status.length > 0) {
+      entries = entries.filter(entry => status.includes(entry.status))
+    }
+    
+    // Slot by slot, in the order parties will be offered a table
+    entries.sort((a, b) =>
+      a.bookingDate.localeCompare(b.bookingDate) ||
+      a.bookingTime.localeCompare(b.bookingTime) ||
+      compareWaitlistEntries(a, b)
+    )
+    
+    return HttpResponse.json(entries.map(entry => maskWaitlistEntry(entry, accessLevel)))
+  }),
+
+  http.post('*/api/prima/waitlist', async ({ request }) => {
+    await delay(500)
+    const { priority, ...input } = await request.json() as WaitlistEntryInput
+    const priced = priceBookingInput(input)
+    
+    if ('error' in priced) {
+      return HttpResponse.json(priced.error, { status: 422 })
+    }
+    
+    if (!['HIGH', 'NORMAL', 'LOW'].includes(priority)) {
+      return HttpResponse.json({
+        message: 'Priority must be HIGH, NORMAL or LOW',
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 422 })
+    }
+    
+    // The waitlist is for sold-out slots; anything else should just be booked
+    const venue = mockVenues.find(v => v.id === input.venueId)!
+    const freeSeats = getFreeSeats(input, mockBookings, venue.capacity)
+    if (input.partySize <= freeSeats) {
+      return HttpResponse.json({
+        message: `${input.bookingTime} still has ${freeSeats} free seat(s); create a booking instead.`,
+        code: 'SLOT_AVAILABLE',
+        details: { freeSeats }
+      } satisfies ApiError, { status: 422 })
+    }
+    
+    const now = new Date().toISOString()
+    const entry: WaitlistEntry = {
+      ...input,
+      id: `waitlist-${Date.now()}`,
+      priority,
+      status: 'WAITING',
+      createdAt: now,
+      updatedAt: now
+    }
+    
+    mockWaitlist.push(entry)
+    
+    return HttpResponse.json(maskWaitlistEntry(entry, getRequestAccessLevel(request)), { status: 201 })
+  }),
+
+  http.post('*/api/prima/waitlist/:id/promote', async ({ params, request }) => {
+    await delay(500)
+    const entry = mockWaitlist.find(e => e.id === params.id)
+    
+    if (!entry) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    if (entry.status !== 'WAITING') {
+      return HttpResponse.json({
+        message: `This party is no longer waiting (${entry.status.toLowerCase()})`,
+        code: 'WAITLIST_ENTRY_CLOSED',
+        details: { waitlistEntryId: entry.id, status: entry.status }
+      } satisfies ApiError, { status: 422 })
+    }
+    
+    const venue = mockVenues.find(v => v.id === entry.venueId)
+    const freeSeats = venue ? getFreeSeats(entry, mockBookings, venue.capacity) : 0
+    if (entry.partySize > freeSeats) {
+      return HttpResponse.json(createWaitlistSlotFullError(entry, freeSeats), { status: 409 })
+    }
+    
+    const promoted = promoteWaitlistEntry(request, entry)
+    
+    if ('error' in promoted) {
+      return HttpResponse.json(promoted.error, { status: 422 })
+    }
+    
+    return HttpResponse.json(
+      maskBooking(withNoShowRisk(promoted.booking), getRequestAccessLevel(request)),
+      { status: 201 }
+    )
+  }),
+
+  http.delete('*/api/prima/waitlist/:id', async ({ params, request }) => {
+    await delay(300)
+    const entry = mockWaitlist.find(e => e.id === params.id)
+    
+    if (!entry) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    if (entry.status !== 'WAITING') {
+      return HttpResponse.json({
+        message: `This party is no longer waiting (${entry.status.toLowerCase()})`,
+        code: 'WAITLIST_ENTRY_CLOSED',
+        details: { waitlistEntryId: entry.id, status: entry.status }
+      } satisfies ApiError, { status: 422 })
+    }
+    
+    // Kept rather than deleted so promotions and removals stay traceable
+    Object.assign(entry, { status: 'CANCELLED', updatedAt: new Date().toISOString() })
+    
+    return HttpResponse.json(maskWaitlistEntry(entry, getRequestAccessLevel(request)))
+  }),
+
+  // ===== PROMOTER ENDPOINTS =====
+  http.get('*/api/prima/promoters', async ({ request }) => {
+    await delay(350)
+    const url = new URL(request.url)
+    const page = parseInt(url.searchParams.get('page') || '1')
+    const limit = parseInt(url.searchParams.get('limit') || '10')
+    const tier = url.searchParams.getAll('tier')
+    const status = url.searchParams.getAll('status')
+    const venueId = url.searchParams.get('venueId')
+    const search = url.searchParams.get('search')
+
+    let filteredPromoters = [...mockPromoters]
+
+    // Apply filters
+    if (tier.length > 0) {
+      filteredPromoters = filteredPromoters.filter(promoter => tier.includes(promoter.tier))
+    }
+    
+    if (status.length > 0) {
+      filteredPromoters = filteredPromoters.filter(promoter => status.includes(promoter.status))
+    }
+    
+    if (venueId) {
+      filteredPromoters = filteredPromoters.filter(promoter => 
+        promoter.venueAccess.includes(venueId)
+      )
+    }
+    
+    const accessLevel = getRequestAccessLevel(request)
+    
+    if (search) {
+      const searchLower = search.toLowerCase()
+      // Searching by email would confirm contact details the user can't see
+      filteredPromoters = filteredPromoters.filter(promoter =>
+        promoter.firstName.toLowerCase().includes(searchLower) ||
+        promoter.lastName.toLowerCase().includes(searchLower) ||
+        (canViewGuestContact(accessLevel) && promoter.email.toLowerCase().includes(searchLower))
+      )
+    }
+
+    const response = createPaginatedResponse(filteredPromoters, page, limit)
+
+    return HttpResponse.json({
+      ...response,
+      data: response.data.map(promoter => maskPromoter(promoter, accessLevel))
+    })
+  }),
+
+  // Tier review routes are registered first so "tier-policy" isn't read as a promoter id
+  http.get('*/api/prima/promoters/tier-policy', async () => {
+    await delay(200)
+    return HttpResponse.json(mockPromoterTierPolicy)
+  }),
+
+  http.put('*/api/prima/promoters/tier-policy', async ({ request }) => {
+    await delay(400)
+    const forbidden = requirePermission(request, 'WRITE_PROMOTERS')
+    if (forbidden) return forbidden
+    
+    const input = await request.json() as PromoterTierPolicyInput
+    const violations = getTierPolicyViolations(input)
+    
+    if (violations.length > 0) {
+      return HttpResponse.json({
+        message: violations[0],
+        code: 'VALIDATION_ERROR',
+        details: { violations }
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    Object.assign(mockPromoterTierPolicy, {
+      windowDays: input.windowDays,
+      thresholds: input.thresholds,
+      updatedAt: new Date().toISOString(),
+      updatedBy: getRequestActor(request).name
+    })
+    
+    return HttpResponse.json(mockPromoterTierPolicy)
+  }),
+
+  http.get('*/api/prima/promoters/tier-evaluation', async ({ request }) => {
+    await delay(500)
+    const level = getRequestAccessLevel(request)
+    const period = getTierEvaluationWindow(
+      mockBookings.map(b => b.bookingDate),
+      mockPromoterTierPolicy.windowDays,
+      getToday()
+    )
+    const evaluated = mockPromoters.filter(p => p.status === 'ACTIVE')
+    const recommendations = evaluated.flatMap(promoter => {
+      const metrics = computePromoterMetrics(mockBookings, promoter.id, period)
+      const recommendation = evaluatePromoterTier(promoter.tier, metrics, mockPromoterTierPolicy)
+      return recommendation ? [maskPromoterTierRecommendation(recommendation, level)] : []
+    })
+    
+    // Promotions first, then the biggest moves
+    const rank = (r: typeof recommendations[number]) =>
+      (r.direction === 'PROMOTION' ? 0 : 10) -
+      Math.abs(PROMOTER_TIER_ORDER.indexOf(r.recommendedTier) - PROMOTER_TIER_ORDER.indexOf(r.currentTier))
+    recommendations.sort((a, b) => rank(a) - rank(b))
+    
+    return HttpResponse.json({
+      policy: mockPromoterTierPolicy,
+      period,
+      evaluatedCount: evaluated.length,
+      recommendations
+    } satisfies PromoterTierEvaluation)
+  }),
+
+  http.post('*/api/prima/promoters/tier-evaluation/apply', async ({ request }) => {
+    await delay(700)
+    const forbidden = requirePermission(request, 'WRITE_PROMOTERS')
+    if (forbidden) return forbidden
+    
+    const { changes } = await request.json() as { changes: PromoterTierChangeRequest[] }
+    const actor = getRequestActor(request)
+    const level = getRequestAccessLevel(request)
+    
+    // Each promoter succeeds or fails on its own so partial failures are reported
+    const results: ApplyPromoterTierChangesResult['results'] = changes.map(change => {
+      const promoter = findPromoterById(change.promoterId)
+      if (!promoter) {
+        return {
+          promoterId: change.promoterId,
+          success: false,
+          error: { message: `Promoter ${change.promoterId} not found`, code: 'PROMOTER_NOT_FOUND' }
+        }
+      }
+      
+      if (!PROMOTER_TIER_ORDER.includes(change.toTier)) {
+        return {
+          promoterId: promoter.id,
+          success: false,
+          error: { message: `Unknown tier ${change.toTier}`, code: 'VALIDATION_ERROR' }
+        }
+      }
+      
+      // Someone changed the tier since the review was loaded
+      if (promoter.tier !== change.fromTier) {
+        return {
+          promoterId: promoter.id,
+          success: false,
+          error: {
+            message: `${promoter.firstName} ${promoter.lastName} is now ${promoter.tier}; re-run the review`,
+            code: 'TIER_CHANGED'
+          }
+        }
+      }
+      
+      const now = new Date().toISOString()
+      mockPromoterTierChanges.push({
+        id: `tier-change-${Date.now()}-${promoter.id}`,
+        promoterId: promoter.id,
+        fromTier: promoter.tier,
+        toTier: change.toTier,
+        actorId: actor.id,
+        actorName: actor.name,
+        actorRole: actor.role,
+        reason: change.reason?.trim() || undefined,
+        source: 'TIER_REVIEW',
+        createdAt: now
+      })
+      promoter.tier = change.toTier
+      promoter.updatedAt = now
+      
+      return { promoterId: promoter.id, success: true, promoter: maskPromoter(promoter, level) }
+    })
+    
+    const applied = results.filter(r => r.success).length
+    
+    return HttpResponse.json({
+      results,
+      applied,
+      failed: results.length - applied
+    } satisfies ApplyPromoterTierChangesResult)
+  }),
+
+  http.get('*/api/prima/promoters/:id', async ({ params, request }) => {
+    await delay(200)
+    const promoter = findPromoterById(params.id as string)
+    
+    if (!promoter) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    return HttpResponse.json(maskPromoter(promoter, getRequestAccessLevel(request)))
+  }),
+
+  http.post('*/api/prima/promoters', async ({ request }) => {
+    await delay(500)
+    const forbidden = requirePermission(request, 'WRITE_PROMOTERS')
+    if (forbidden) return forbidden
+    
+    const input = await request.json() as PromoterInvitationInput
+    const firstName = input.firstName?.trim()
+    const lastName = input.lastName?.trim()
+    const email = input.email?.trim()
+    
+    if (!firstName || !lastName || !email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return HttpResponse.json({
+        message: 'First name, last name and a valid email are required',
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    if (!PROMOTER_TIER_ORDER.includes(input.tier)) {
+      return HttpResponse.json({
+        message: `Unknown tier ${input.tier}`,
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    const venueViolation = getVenueAccessViolation(input.venueAccess)
+    if (venueViolation) return venueViolation
+    
+    if (mockPromoters.some(p => normalizeEmail(p.email) === normalizeEmail(email))) {
+      return HttpResponse.json({
+        message: `A promoter with email ${email} already exists`,
+        code: 'PROMOTER_EXISTS'
+      } satisfies ApiError, { status: 409 })
+    }
+    
+    const actor = getRequestActor(request)
+    const now = new Date().toISOString()
+    // Invited promoters stay inactive until they've accepted and a manager activates them
+    const promoter: Promoter = {
+      id: `promoter-${Date.now()}`,
+      firstName,
+      lastName,
+      email,
+      phone: input.phone?.trim() ?? '',
+      tier: input.tier,
+      status: 'INACTIVE',
+      venueAccess: input.venueAccess,
+      totalBookings: 0,
+      totalRevenue: 0,
+      averageBookingValue: 0,
+      conversionRate: 0,
+      noShowRate: 0,
+      cancellationRate: 0,
+      joinedDate: now,
+      lastActiveDate: now,
+      invitedAt: now,
+      createdAt: now,
+      updatedAt: now
+    }
+    mockPromoters.push(promoter)
+    mockPromoterTierChanges.push({
+      id: `tier-change-${Date.now()}`,
+      promoterId: promoter.id,
+      toTier: promoter.tier,
+      actorId: actor.id,
+      actorName: actor.name,
+      actorRole: actor.role,
+      createdAt: now
+    })
+    
+    return HttpResponse.json(maskPromoter(promoter, getRequestAccessLevel(request)), { status: 201 })
+  }),
+
+  http.post('*/api/prima/promoters/:id/invitation', async ({ params, request }) => {
+    await delay(400)
+    const forbidden = requirePermission(request, 'WRITE_PROMOTERS')
+    if (forbidden) return forbidden
+    
+    const promoter = findPromoterById(params.id as string)
+    
+    if (!promoter) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    if (!promoter.invitedAt || promoter.invitationAcceptedAt) {
+      return HttpResponse.json({
+        message: `${promoter.firstName} ${promoter.lastName} has no pending invitation`,
+        code: 'INVITATION_NOT_PENDING'
+      } satisfies ApiError, { status: 409 })
+    }
+    
+    promoter.invitedAt = new Date().toISOString()
+    promoter.updatedAt = promoter.invitedAt
+    
+    return HttpResponse.json(maskPromoter(promoter, getRequestAccessLevel(request)))
+  }),
+
+  http.patch('*/api/prima/promoters/:id/status', async ({ params, request }) => {
+    await delay(400)
+    const forbidden = requirePermission(request, 'WRITE_PROMOTERS')
+    if (forbidden) return forbidden
+    
+    const { status, reason } = await request.json() as { status: PromoterStatus; reason: string }
+    const promoter = findPromoterById(params.id as string)
+    
+    if (!promoter) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    if (!PROMOTER_STATUSES.includes(status) || !reason?.trim()) {
+      return HttpResponse.json({
+        message: 'A valid status and a reason for the change are required',
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    if (status === promoter.status) {
+      return HttpResponse.json({
+        message: `${promoter.firstName} ${promoter.lastName} is already ${status.toLowerCase()}`,
+        code: 'STATUS_UNCHANGED'
+      } satisfies ApiError, { status: 409 })
+    }
+    
+    const now = new Date().toISOString()
+    Object.assign(promoter, {
+      status,
+      statusReason: reason.trim(),
+      statusChangedAt: now,
+      updatedAt: now
+    })
+    
+    return HttpResponse.json(maskPromoter(promoter, getRequestAccessLevel(request)))
+  }),
+
+  http.patch('*/api/prima/promoters/:id/venues', async ({ params, request }) => {
+    await delay(400)
+    const forbidden = requirePermission(request, 'WRITE_PROMOTERS')
+    if (forbidden) return forbidden
+    
+    const { venueAccess } = await request.json() as Pick<Promoter, 'venueAccess'>
+    const promoter = findPromoterById(params.id as string)
+    
+    if (!promoter) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    const venueViolation = getVenueAccessViolation(venueAccess)
+    if (venueViolation) return venueViolation
+    
+    // Existing bookings keep their venue; access only limits new ones
+    promoter.venueAccess = venueAccess
+    promoter.updatedAt = new Date().toISOString()
+    
+    return HttpResponse.json(maskPromoter(promoter, getRequestAccessLevel(request)))
+  }),
+
+  http.get('*/api/prima/promoters/:id/tier-history', async ({ params }) => {
+    await delay(200)
+    const promoter = findPromoterById(params.id as string)
+    
+    if (!promoter) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    // Newest first
+    const history = mockPromoterTierChanges
+      .filter(change => change.promoterId === promoter.id)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    
+    return HttpResponse.json(history)
+  }),
+
+  http.patch('*/api/prima/promoters/:id/tier', async ({ params, request }) => {
+    await delay(400)
+    const forbidden = requirePermission(request, 'WRITE_PROMOTERS')
+    if (forbidden) return forbidden
+    
+    const { tier, reason } = await request.json() as { tier: Promoter['tier']; reason?: string }
+    const promoter = findPromoterById(params.id as string)
+    
+    if (!promoter) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    if (!PROMOTER_TIER_ORDER.includes(tier)) {
+      return HttpResponse.json({
+        message: `Unknown tier ${tier}`,
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    // Setting the same tier again isn't a change worth recording
+    if (tier !== promoter.tier) {
+      const actor = getRequestActor(request)
+      const now = new Date().toISOString()
+      mockPromoterTierChanges.push({
+        id: `tier-change-${Date.now()}`,
+        promoterId: promoter.id,
+        fromTier: promoter.tier,
+        toTier: tier,
+        actorId: actor.id,
+        actorName: actor.name,
+        actorRole: actor.role,
+        reason: reason?.trim() || undefined,
+        createdAt: now
+      })
+      promoter.tier = tier
+      promoter.updatedAt = now
+    }
+    
+    return HttpResponse.json(maskPromoter(promoter, getRequestAccessLevel(request)))
+  }),
+
+  // ===== PRICING ENDPOINTS =====
+  // Templates are registered first so "templates" isn't read as a venue id
+  http.get('*/api/prima/pricing/templates', async ({ request }) => {
+    await delay(250)
+    const forbidden = requirePermission(request, 'READ_PRICING')
+    if (forbidden) return forbidden
+    
+    // Newest first
+    const templates = [...mockPricingTemplates].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    
+    return HttpResponse.json(templates)
+  }),
+
+  http.post('*/api/prima/pricing/templates', async ({ request }) => {
+    await delay(500)
+    const forbidden = requirePermission(request, 'WRITE_PRICING')
+    if (forbidden) return forbidden
+    
+    const input = await request.json() as PricingTemplateInput
+    const name = input.name?.trim()
+    
+    if (!name || name.length > MAX_TEMPLATE_NAME_LENGTH) {
+      return HttpResponse.json({
+        message: `Template name is required and must be at most ${MAX_TEMPLATE_NAME_LENGTH} characters`,
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    if (mockPricingTemplates.some(t => t.name.toLowerCase() === name.toLowerCase())) {
+      return HttpResponse.json({
+        message: `A template named "${name}" already exists`,
+        code: 'PRICING_TEMPLATE_EXISTS'
+      } satisfies ApiError, { status: 409 })
+    }
+    
+    const violations = getPricingRuleViolations(input.config)
+    if (violations.length > 0) {
+      return HttpResponse.json({
+        message: violations[0].message,
+        code: 'PRICING_RULE_VIOLATION',
+        details: { violations }
+      } satisfies ApiError, { status: 422 })
+    }
+    
+    const template: PricingTemplate = {
+      id: `pricing-template-${Date.now()}`,
+      name,
+      description: input.description?.trim() || undefined,
+      config: toPricingConfigInput(input.config),
+      sourceVenueId: input.sourceVenueId,
+      authorName: getRequestActor(request).name,
+      createdAt: new Date().toISOString()
+    }
+    mockPricingTemplates.push(template)
+    
+    return HttpResponse.json(template, { status: 201 })
+  }),
+
+  http.delete('*/api/prima/pricing/templates/:id', async ({ params, request }) => {
+    await delay(300)
+    const forbidden = requirePermission(request, 'WRITE_PRICING')
+    if (forbidden) return forbidden
+    
+    const index = mockPricingTemplates.findIndex(t => t.id === params.id)
+    
+    if (index === -1) {
+      return HttpResponse.json({
+        message: `Pricing template ${params.id} not found`,
+        code: 'PRICING_TEMPLATE_NOT_FOUND'
+      } satisfies ApiError, { status: 404 })
+    }
+    
+    const [removed] = mockPricingTemplates.splice(index, 1)
     
-    const revenue = Math.floor((isWeekend ? 8000 : 5000) * baseMultiplier * randomFactor)
-    const bookings = Math.floor((isWeekend ? 25 : 15) * baseMultiplier * randomFactor)
-    const diners = Math.floor(bookings * (3.5 + Math.random() * 1.5)) // 3.5-5 diners per booking
+    return HttpResponse.json(removed)
+  }),
+
+  http.post('*/api/prima/pricing/templates/:id/apply', async ({ params, request }) => {
+    await delay(800)
+    const forbidden = requirePermission(request, 'WRITE_PRICING')
+    if (forbidden) return forbidden
     
-    trends.push({
-      date: date.toISOString().split('T')[0],
-      revenue,
-      bookings,
-      diners,
+    const { targets, reason, dryRun } = await request.json() as {
+      targets: PricingTemplateTarget[]
+      reason?: string
+      dryRun: boolean
+    }
+    const template = mockPricingTemplates.find(t => t.id === params.id)
+    
+    if (!template) {
+      return HttpResponse.json({
+        message: `Pricing template ${params.id} not found`,
+        code: 'PRICING_TEMPLATE_NOT_FOUND'
+      } satisfies ApiError, { status: 404 })
+    }
+    
+    // Each venue succeeds or fails on its own so partial failures are reported
+    const results: ApplyPricingTemplateResult['results'] = targets.map(target => {
+      const { venueId, priceAdjustmentPercentage } = target
+      if (!mockVenues.some(venue => venue.id === venueId)) {
+        return {
+          venueId,
+          success: false,
+          error: { message: `Venue ${venueId} not found`, code: 'VENUE_NOT_FOUND' }
+        }
+      }
+      
+      const current = resolvePricingConfig(mockPricingConfigs, venueId, getToday())
+      const before = current && toPricingConfigInput(current)
+      
+      const adjustmentViolation = getTemplateAdjustmentViolation(priceAdjustmentPercentage)
+      if (adjustmentViolation) {
+        return {
+          venueId,
+          success: false,
+          before,
+          error: { message: adjustmentViolation, code: 'VALIDATION_ERROR' }
+        }
+      }
+      
+      // Rounding an adjusted price can break a rule the template itself passes
+      const after = applyTemplateAdjustment(template.config, priceAdjustmentPercentage)
+      const violations = getPricingRuleViolations(after)
+      if (violations.length > 0) {
+        return {
+          venueId,
+          success: false,
+          before,
+          after,
+          error: { message: violations[0].message, code: 'PRICING_RULE_VIOLATION', details: { violations } }
+        }
+      }
+      
+      if (!dryRun) {
+        savePricingConfig(request, venueId, after, {
+          reason: reason?.trim() || `Applied template "${template.name}"`
+        })
+      }
+      
+      return { venueId, success: true, before, after }
     })
-  }
-  
-  return trends
-}
-
-export const handlers = [
-  // ===== VENUE ENDPOINTS =====
-  http.get('*/api/prima/venues', async () => {
-    await delay(300)
-    return HttpResponse.json(mockVenues)
+    
+    const applied = results.filter(r => r.success).length
+    
+    return HttpResponse.json({
+      dryRun,
+      results,
+      applied,
+      failed: results.length - applied
+    } satisfies ApplyPricingTemplateResult)
   }),
 
-  http.get('*/api/prima/venues/:id', async ({ params }) => {
-    await delay(200)
-    const venue = mockVenues.find(v => v.id === params.id)
+  http.get('*/api/prima/pricing/:venueId', async ({ params, request }) => {
+    await delay(250)
+    // Booking forms quote from the venue's pricing, so booking staff can read it too
+    const forbidden = requirePermission(request, 'READ_PRICING') && requirePermission(request, 'READ_BOOKINGS')
+    if (forbidden) return forbidden
     
-    if (!venue) {
+    // Defaults to the pricing in force today
+    const date = new URL(request.url).searchParams.get('date') ?? getToday()
+    const config = resolvePricingConfig(mockPricingConfigs, params.venueId as string, date)
+    
+    if (!config) {
       return new HttpResponse(null, { status: 404 })
     }
     
-    return HttpResponse.json(venue)
+    return HttpResponse.json(config)
   }),
 
-  // ===== BOOKING ENDPOINTS =====
-  http.get('*/api/prima/bookings', async ({ request }) => {
-    await delay(400)
-    const url = new URL(request.url)
-    const page = parseInt(url.searchParams.get('page') || '1')
-    const limit = parseInt(url.searchParams.get('limit') || '10')
-    const status = url.searchParams.getAll('status')
-    const type = url.searchParams.getAll('type')
-    const venueId = url.searchParams.get('venueId')
-    const promoterId = url.searchParams.get('promoterId')
-    const search = url.searchParams.get('search')
-    const from = url.searchParams.get('from')
-    const to = url.searchParams.get('to')
-
-    let filteredBookings = [...mockBookings]
-
-    // Apply filters
-    if (status.length > 0) {
-      filteredBookings = filteredBookings.filter(booking => status.includes(booking.status))
-    }
+  http.put('*/api/prima/pricing/:venueId', async ({ params, request }) => {
+    await delay(600)
+    const forbidden = requirePermission(request, 'WRITE_PRICING')
+    if (forbidden) return forbidden
     
-    if (type.length > 0) {
-      filteredBookings = filteredBookings.filter(booking => type.includes(booking.type))
+    const { reason, effectiveDate, ...input } = await request.json() as PricingConfigInput & {
+      reason?: string
+      effectiveDate?: string
     }
+    const venueId = params.venueId as string
     
-    if (venueId) {
-      filteredBookings = filteredBookings.filter(booking => booking.venueId === venueId)
+    if (!mockVenues.some(venue => venue.id === venueId)) {
+      return HttpResponse.json({
+        message: `Venue ${venueId} not found`,
+        code: 'VENUE_NOT_FOUND'
+      } satisfies ApiError, { status: 404 })
     }
     
-    if (promoterId) {
-      filteredBookings = filteredBookings.filter(booking => booking.promoterId === promoterId)
+    if (effectiveDate && effectiveDate <= getToday()) {
+      return HttpResponse.json({
+        message: 'A scheduled change must start after today.',
+        code: 'VALIDATION_ERROR',
+        details: { effectiveDate }
+      } satisfies ApiError, { status: 400 })
     }
     
-    if (search) {
-      const searchLower = search.toLowerCase()
-      filteredBookings = filteredBookings.filter(booking =>
-        booking.guestName.toLowerCase().includes(searchLower) ||
-        booking.guestEmail.toLowerCase().includes(searchLower)
-      )
+    const violations = getPricingRuleViolations(input)
+    if (violations.length > 0) {
+      return HttpResponse.json({
+        message: violations[0].message,
+        code: 'PRICING_RULE_VIOLATION',
+        details: { violations }
+      } satisfies ApiError, { status: 422 })
     }
     
-    if (from && to) {
-      filteredBookings = filteredBookings.filter(booking => {
-        const bookingDate = new Date(booking.bookingDate)
-        const fromDate = new Date(from)
-        const toDate = new Date(to)
-        return bookingDate >= fromDate && bookingDate <= toDate
-      })
-    }
-
-    return HttpResponse.json(createPaginatedResponse(filteredBookings, page, limit))
+    const config = savePricingConfig(
+      request,
+      venueId,
+      input,
+      { reason: reason?.trim() || undefined },
+      effectiveDate
+    )
+    
+    return HttpResponse.json(config)
   }),
 
-  http.get('*/api/prima/bookings/:id', async ({ params }) => {
-    await delay(200)
-    const booking = findBookingById(params.id as string)
+  http.get('*/api/prima/pricing/:venueId/schedule', async ({ params, request }) => {
+    await delay(250)
+    const forbidden = requirePermission(request, 'READ_PRICING')
+    if (forbidden) return forbidden
     
-    if (!booking) {
-      return new HttpResponse(null, { status: 404 })
-    }
+    const venueId = params.venueId as string
+    const today = getToday()
+    const current = resolvePricingConfig(mockPricingConfigs, venueId, today)
     
-    return HttpResponse.json(booking)
+    // What's live now, then every change still to come
+    return HttpResponse.json([
+      ...(current ? [current] : []),
+      ...getUpcomingPricingConfigs(mockPricingConfigs, venueId, today)
+    ])
   }),
 
-  http.patch('*/api/prima/bookings/:id/status', async ({ params, request }) => {
-    await delay(500)
-    const { status } = await request.json() as { status: Booking['status'] }
-    const booking = findBookingById(params.id as string)
+  http.delete('*/api/prima/pricing/:venueId/schedule/:configId', async ({ params, request }) => {
+    await delay(400)
+    const forbidden = requirePermission(request, 'WRITE_PRICING')
+    if (forbidden) return forbidden
     
-    if (!booking) {
-      return new HttpResponse(null, { status: 404 })
+    const index = mockPricingConfigs.findIndex(c =>
+      c.id === params.configId && c.venueId === params.venueId
+    )
+    
+    if (index === -1) {
+      return HttpResponse.json({
+        message: `Scheduled pricing ${params.configId} not found`,
+        code: 'PRICING_NOT_FOUND'
+      } satisfies ApiError, { status: 404 })
     }
     
-    // Update booking status
-    booking.status = status
-    booking.updatedAt = new Date().toISOString()
+    // Bookings may already have been priced from it
+    if (getEffectiveDay(mockPricingConfigs[index]) <= getToday()) {
+      return HttpResponse.json({
+        message: 'This pricing has already taken effect and can no longer be cancelled.',
+        code: 'PRICING_ALREADY_EFFECTIVE'
+      } satisfies ApiError, { status: 409 })
+    }
+    
+    const [cancelled] = mockPricingConfigs.splice(index, 1)
     
-    return HttpResponse.json(booking)
+    return HttpResponse.json(cancelled)
   }),
 
-  // ===== PROMOTER ENDPOINTS =====
-  http.get('*/api/prima/promoters', async ({ request }) => {
-    await delay(350)
-    const url = new URL(request.url)
-    const page = parseInt(url.searchParams.get('page') || '1')
-    const limit = parseInt(url.searchParams.get('limit') || '10')
-    const tier = url.searchParams.getAll('tier')
-    const status = url.searchParams.getAll('status')
-    const venueId = url.searchParams.get('venueId')
-    const search = url.searchParams.get('search')
-
-    let filteredPromoters = [...mockPromoters]
+  http.get('*/api/prima/pricing/:venueId/rules', async ({ params, request }) => {
+    await delay(250)
+    const forbidden = requirePermission(request, 'READ_PRICING')
+    if (forbidden) return forbidden
+    
+    const venueId = params.venueId as string
+    const rules = mockDynamicPricingRules.find(r => r.venueId === venueId)
+    
+    return HttpResponse.json(rules ?? { venueId, ...createDefaultDynamicPricingRules() })
+  }),
 
-    // Apply filters
-    if (tier.length > 0) {
-      filteredPromoters = filteredPromoters.filter(promoter => tier.includes(promoter.tier))
-    }
+  http.put('*/api/prima/pricing/:venueId/rules', async ({ params, request }) => {
+    await delay(500)
+    const forbidden = requirePermission(request, 'WRITE_PRICING')
+    if (forbidden) return forbidden
     
-    if (status.length > 0) {
-      filteredPromoters = filteredPromoters.filter(promoter => status.includes(promoter.status))
+    const input = await request.json() as DynamicPricingRulesInput
+    const venueId = params.venueId as string
+    
+    if (!mockVenues.some(venue => venue.id === venueId)) {
+      return HttpResponse.json({
+        message: `Venue ${venueId} not found`,
+        code: 'VENUE_NOT_FOUND'
+      } satisfies ApiError, { status: 404 })
     }
     
-    if (venueId) {
-      filteredPromoters = filteredPromoters.filter(promoter => 
-        promoter.venueAccess.includes(venueId)
-      )
+    const violations = getDynamicPricingRuleViolations(input)
+    if (violations.length > 0) {
+      return HttpResponse.json({
+        message: violations[0].message,
+        code: 'PRICING_RULE_VIOLATION',
+        details: { violations }
+      } satisfies ApiError, { status: 422 })
     }
     
-    if (search) {
-      const searchLower = search.toLowerCase()
-      filteredPromoters = filteredPromoters.filter(promoter =>
-        promoter.firstName.toLowerCase().includes(searchLower) ||
-        promoter.lastName.toLowerCase().includes(searchLower) ||
-        promoter.email.toLowerCase().includes(searchLower)
-      )
+    const rules = {
+      venueId,
+      isActive: input.isActive,
+      dayOfWeekMultipliers: input.dayOfWeekMultipliers,
+      timeWindows: input.timeWindows,
+      dateOverrides: input.dateOverrides,
+      surgeTiers: input.surgeTiers,
+      maxMultiplier: input.maxMultiplier,
+      updatedAt: new Date().toISOString()
     }
-
-    return HttpResponse.json(createPaginatedResponse(filteredPromoters, page, limit))
+    const index = mockDynamicPricingRules.findIndex(r => r.venueId === venueId)
+    if (index === -1) {
+      mockDynamicPricingRules.push(rules)
+    } else {
+      mockDynamicPricingRules[index] = rules
+    }
+    
+    return HttpResponse.json(rules)
   }),
 
-  http.get('*/api/prima/promoters/:id', async ({ params }) => {
+  http.get('*/api/prima/pricing/:venueId/resolve', async ({ params, request }) => {
     await delay(200)
-    const promoter = findPromoterById(params.id as string)
+    const forbidden = requirePermission(request, 'READ_PRICING')
+    if (forbidden) return forbidden
     
-    if (!promoter) {
-      return new HttpResponse(null, { status: 404 })
+    const url = new URL(request.url)
+    const bookingDate = url.searchParams.get('date')
+    const bookingTime = url.searchParams.get('time')
+    
+    if (!bookingDate || !bookingTime) {
+      return HttpResponse.json({
+        message: 'Date and time are required',
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
     }
     
-    return HttpResponse.json(promoter)
+    const resolution = resolveSlotPrice(
+      { venueId: params.venueId as string, bookingDate, bookingTime },
+      url.searchParams.get('excludeBookingId') ?? undefined
+    )
+    
+    return HttpResponse.json(resolution)
   }),
 
-  http.patch('*/api/prima/promoters/:id/tier', async ({ params, request }) => {
-    await delay(400)
-    const { tier } = await request.json() as { tier: Promoter['tier'] }
-    const promoter = findPromoterById(params.id as string)
+  http.post('*/api/prima/pricing/:venueId/impact', async ({ params, request }) => {
+    await delay(700)
+    const forbidden = requirePermission(request, 'WRITE_PRICING')
+    if (forbidden) return forbidden
     
-    if (!promoter) {
-      return new HttpResponse(null, { status: 404 })
+    const { config: input, weeks } = await request.json() as { config: PricingConfigInput; weeks: number }
+    const venueId = params.venueId as string
+    
+    if (!mockVenues.some(venue => venue.id === venueId)) {
+      return HttpResponse.json({
+        message: `Venue ${venueId} not found`,
+        code: 'VENUE_NOT_FOUND'
+      } satisfies ApiError, { status: 404 })
     }
     
-    // Update promoter tier
-    promoter.tier = tier
-    promoter.updatedAt = new Date().toISOString()
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_IMPACT_WEEKS) {
+      return HttpResponse.json({
+        message: `Weeks must be a whole number between 1 and ${MAX_IMPACT_WEEKS}`,
+        code: 'VALIDATION_ERROR',
+        details: { weeks }
+      } satisfies ApiError, { status: 400 })
+    }
     
-    return HttpResponse.json(promoter)
+    const violations = getPricingRuleViolations(input)
+    if (violations.length > 0) {
+      return HttpResponse.json({
+        message: violations[0].message,
+        code: 'PRICING_RULE_VIOLATION',
+        details: { violations }
+      } satisfies ApiError, { status: 422 })
+    }
+    
+    const venueBookings = mockBookings.filter(b => b.venueId === venueId)
+    const { from, to } = getReplayWindow(venueBookings.map(b => b.bookingDate), weeks, getToday())
+    const now = new Date().toISOString()
+    const draft: PricingConfig = {
+      ...toPricingConfigInput(input),
+      id: 'draft',
+      venueId,
+      effectiveDate: toEffectiveDate(getToday()),
+      createdAt: now,
+      updatedAt: now
+    }
+    
+    // The venue's current dynamic pricing rules apply to the draft too
+    const impact = simulateRevenueImpact(venueBookings, draft, { from, to, weeks }, {
+      getActualPricing: booking => resolvePricingConfig(mockPricingConfigs, venueId, booking.bookingDate),
+      getCommissionRate: booking =>
+        findCommissionRate(mockCommissionRates, findPromoterById(booking.promoterId)?.tier),
+      getMultiplier: booking => resolveSlotPrice(booking, booking.id).multiplier
+    })
+    
+    return HttpResponse.json(maskRevenueImpact({ venueId, ...impact } satisfies RevenueImpact, getRequestAccessLevel(request)))
   }),
 
-  // ===== PRICING ENDPOINTS =====
-  http.get('*/api/prima/pricing/:venueId', async ({ params }) => {
+  http.get('*/api/prima/pricing/:venueId/history', async ({ params, request }) => {
     await delay(250)
-    const config = mockPricingConfigs.find(c => c.venueId === params.venueId)
+    const forbidden = requirePermission(request, 'READ_PRICING')
+    if (forbidden) return forbidden
     
-    if (!config) {
-      return new HttpResponse(null, { status: 404 })
-    }
+    // Most recent first
+    const versions = mockPricingVersions
+      .filter(v => v.venueId === params.venueId)
+      .sort((a, b) => b.version - a.version)
     
-    return HttpResponse.json(config)
+    return HttpResponse.json(versions)
   }),
 
-  http.put('*/api/prima/pricing/:venueId', async ({ params, request }) => {
-    await delay(600)
-    const updates = await request.json() as Partial<PricingConfig>
-    const existingConfig = mockPricingConfigs.find(c => c.venueId === params.venueId)
+  http.post('*/api/prima/pricing/:venueId/rollback/:versionId', async ({ params, request }) => {
+    await delay(500)
+    const forbidden = requirePermission(request, 'WRITE_PRICING')
+    if (forbidden) return forbidden
     
-    if (!existingConfig) {
-      return new HttpResponse(null, { status: 404 })
+    const { reason } = await request.json() as { reason?: string }
+    const target = mockPricingVersions.find(v =>
+      v.id === params.versionId && v.venueId === params.venueId
+    )
+    
+    if (!target) {
+      return HttpResponse.json({
+        message: `Pricing version ${params.versionId} not found`,
+        code: 'PRICING_VERSION_NOT_FOUND'
+      } satisfies ApiError, { status: 404 })
     }
     
-    // Update pricing config
-    const updatedConfig = {
-      ...existingConfig,
-      ...updates,
-      updatedAt: new Date().toISOString()
+    // Rules may have tightened since the version was saved
+    const violations = getPricingRuleViolations(target.config)
+    if (violations.length > 0) {
+      return HttpResponse.json({
+        message: `Version ${target.version} no longer passes validation: ${violations[0].message}`,
+        code: 'PRICING_RULE_VIOLATION',
+        details: { violations }
+      } satisfies ApiError, { status: 422 })
     }
     
-    const index = mockPricingConfigs.findIndex(c => c.venueId === params.venueId)
-    mockPricingConfigs[index] = updatedConfig
+    const config = savePricingConfig(request, target.venueId, target.config, {
+      reason: reason?.trim() || `Rolled back to version ${target.version}`,
+      rolledBackFrom: target.version
+    })
     
-    return HttpResponse.json(updatedConfig)
+    return HttpResponse.json(config)
   }),
 
   // ===== METRICS ENDPOINTS =====
@@ -306,6 +2128,162 @@ export const handlers = [
     return HttpResponse.json(metrics)
   }),
 
+  // One request for many promoters' metrics, each over the period as it
+  // applies to them ("all time" starts on each promoter's own join date)
+  http.get('*/api/prima/metrics/promoters', async ({ request }) => {
+    await delay(350)
+    const url = new URL(request.url)
+    const ids = (url.searchParams.get('ids') ?? '').split(',').filter(Boolean)
+    const period = url.searchParams.get('period') as PromoterMetricsPeriod | null
+    const venueId = url.searchParams.get('venueId')
+    
+    if (!period || !PROMOTER_METRICS_PERIODS.some(p => p.value === period)) {
+      return HttpResponse.json({
+        message: 'A valid period is required',
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    if (ids.length > MAX_BATCHED_PROMOTER_METRICS) {
+      return HttpResponse.json({
+        message: `At most ${MAX_BATCHED_PROMOTER_METRICS} promoters can be requested at once`,
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    const accessLevel = getRequestAccessLevel(request)
+    // Unknown ids are left out rather than failing the whole batch
+    const metrics = ids
+      .map(id => findPromoterById(id))
+      .filter((promoter): promoter is Promoter => !!promoter)
+      .map(promoter => computePromoterMetrics(
+        mockBookings,
+        promoter.id,
+        getPromoterMetricsRange(period, promoter),
+        venueId || undefined
+      ))
+    
+    return HttpResponse.json(metrics.map(m => maskPromoterMetrics(m, accessLevel)))
+  }),
+
+  // Registered before the single-promoter route so "compare" isn't read as a promoter id
+  http.get('*/api/prima/metrics/promoters/compare', async ({ request }) => {
+    await delay(500)
+    const url = new URL(request.url)
+    const ids = [...new Set((url.searchParams.get('ids') ?? '').split(',').filter(Boolean))]
+    const from = url.searchParams.get('from')
+    const to = url.searchParams.get('to')
+    const venueId = url.searchParams.get('venueId') || undefined
+    
+    if (ids.length < MIN_COMPARED_PROMOTERS || ids.length > MAX_COMPARED_PROMOTERS) {
+      return HttpResponse.json({
+        message: `Pick between ${MIN_COMPARED_PROMOTERS} and ${MAX_COMPARED_PROMOTERS} promoters to compare`,
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    const missing = ids.filter(id => !findPromoterById(id))
+    if (missing.length > 0) {
+      return HttpResponse.json({
+        message: `Promoter(s) not found: ${missing.join(', ')}`,
+        code: 'PROMOTER_NOT_FOUND'
+      } satisfies ApiError, { status: 404 })
+    }
+    
+    // Without a range, show the latest year the compared promoters were active
+    const period = from && to
+      ? { from, to }
+      : getDefaultComparisonRange(
+        mockBookings.filter(b => ids.includes(b.promoterId)).map(b => b.bookingDate),
+        getToday()
+      )
+    
+    if (period.from > period.to) {
+      return HttpResponse.json({
+        message: 'A period with from on or before to is required',
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    // Percentiles rank against everyone who can book at the venue over the same period
+    const population = mockPromoters
+      .filter(p => !venueId || p.venueAccess.includes(venueId))
+      .map(p => computePromoterMetrics(mockBookings, p.id, period, venueId))
+    const { granularity, buckets } = getComparisonBuckets(period)
+    const level = getRequestAccessLevel(request)
+    
+    const promoters = ids.map(id => {
+      const metrics = computePromoterMetrics(mockBookings, id, period, venueId)
+      const percentiles = Object.fromEntries(COMPARISON_METRICS.map(metric => [
+        metric,
+        getPercentileRank(metrics[metric], population.map(p => p[metric]), metric !== 'noShowRate')
+      ]))
+      
+      return maskPromoterComparisonEntry({
+        promoterId: id,
+        metrics,
+        percentiles,
+        series: getComparisonSeries(mockBookings, id, buckets, venueId)
+      } satisfies PromoterComparisonEntry, level)
+    })
+    
+    return HttpResponse.json({
+      period,
+      granularity,
+      populationSize: population.length,
+      promoters
+    } satisfies PromoterComparison)
+  }),
+
+  http.get('*/api/prima/metrics/promoters/:promoterId', async ({ params, request }) => {
+    await delay(300)
+    const url = new URL(request.url)
+    const from = url.searchParams.get('from')
+    const to = url.searchParams.get('to')
+    const venueId = url.searchParams.get('venueId')
+    const promoter = findPromoterById(params.promoterId as string)
+    
+    if (!promoter) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    if (!from || !to || from > to) {
+      return HttpResponse.json({
+        message: 'A period with from on or before to is required',
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    // Derived from bookings so metrics follow every booking change
+    const metrics = computePromoterMetrics(mockBookings, promoter.id, { from, to }, venueId || undefined)
+    
+    return HttpResponse.json(maskPromoterMetrics(metrics, getRequestAccessLevel(request)))
+  }),
+
+  http.get('*/api/prima/metrics/promoters/:promoterId/trends', async ({ params, request }) => {
+    await delay(350)
+    const url = new URL(request.url)
+    const months = parseInt(url.searchParams.get('months') || '12')
+    const venueId = url.searchParams.get('venueId')
+    const promoter = findPromoterById(params.promoterId as string)
+    
+    if (!promoter) {
+      return new HttpResponse(null, { status: 404 })
+    }
+    
+    if (!Number.isInteger(months) || months < 1 || months > MAX_PROMOTER_TREND_MONTHS) {
+      return HttpResponse.json({
+        message: `Months must be between 1 and ${MAX_PROMOTER_TREND_MONTHS}`,
+        code: 'VALIDATION_ERROR'
+      } satisfies ApiError, { status: 400 })
+    }
+    
+    const accessLevel = getRequestAccessLevel(request)
+    const trends = getPromoterMonthlyMetrics(mockBookings, promoter.id, months, venueId || undefined)
+    
+    return HttpResponse.json(trends.map(metrics => maskPromoterMetrics(metrics, accessLevel)))
+  }),
+
   http.get('*/api/prima/metrics/portfolio', async ({ request }) => {
     await delay(400)
     const url = new URL(request.url)
@@ -344,27 +2322,6 @@ export const handlers = [
     return HttpResponse.json(trends)
   }),
 
-  // Recent bookings endpoint
-  http.get('*/api/prima/bookings/recent', async ({ request }) => {
-    await delay(200)
-    const url = new URL(request.url)
-    const venueId = url.searchParams.get('venueId')
-    const limit = parseInt(url.searchParams.get('limit') || '10')
-    
-    let recentBookings = [...mockBookings]
-    
-    if (venueId) {
-      recentBookings = recentBookings.filter(booking => booking.venueId === venueId)
-    }
-    
-    // Sort by creation date (most recent first) and limit
-    recentBookings = recentBookings
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-      .slice(0, limit)
-    
-    return HttpResponse.json(recentBookings)
-  }),
-
   // ===== COMMISSION ENDPOINTS =====
   http.get('*/api/prima/commissions/rates', async () => {
     await delay(200)
@@ -399,7 +2356,7 @@ export const handlers = [
     const url = new URL(request.url)
     const page = parseInt(url.searchParams.get('page') || '1')
     const limit = parseInt(url.searchParams.get('limit') || '10')
-    const promoterId = url.searchParams.get('promoterId')
+    const promoterId = getRequestPromoterId(request) ?? url.searchParams.get('promoterId')
     const venueId = url.searchParams.get('venueId')
     
     // Mock transactions based on bookings
@@ -427,7 +2384,13 @@ export const handlers = [
       filteredTransactions = filteredTransactions.filter(t => t.venueId === venueId)
     }
     
-    return HttpResponse.json(createPaginatedResponse(filteredTransactions, page, limit))
+    const response = createPaginatedResponse(filteredTransactions, page, limit)
+    const accessLevel = getRequestAccessLevel(request)
+    
+    return HttpResponse.json({
+      ...response,
+      data: response.data.map(transaction => maskAmount(transaction, accessLevel))
+    })
   }),
 
   // ===== PAYOUT ENDPOINTS =====
@@ -436,7 +2399,7 @@ export const handlers = [
     const url = new URL(request.url)
     const page = parseInt(url.searchParams.get('page') || '1')
     const limit = parseInt(url.searchParams.get('limit') || '10')
-    const promoterId = url.searchParams.get('promoterId')
+    const promoterId = getRequestPromoterId(request) ?? url.searchParams.get('promoterId')
     const status = url.searchParams.get('status')
     
     // Mock payouts based on promoters
@@ -460,11 +2423,17 @@ export const handlers = [
       filteredPayouts = filteredPayouts.filter(p => p.status === status)
     }
     
-    return HttpResponse.json(createPaginatedResponse(filteredPayouts, page, limit))
+    const response = createPaginatedResponse(filteredPayouts, page, limit)
+    const accessLevel = getRequestAccessLevel(request)
+    
+    return HttpResponse.json({
+      ...response,
+      data: response.data.map(payout => maskAmount(payout, accessLevel))
+    })
   }),
 
   // ===== INCENTIVE ENDPOINTS =====
-  http.get('*/api/prima/incentives', async () => {
+  http.get('*/api/prima/incentives', async ({ request }) => {
     await delay(250)
     // Mock incentives
     const incentives = [
@@ -486,7 +2455,30 @@ export const handlers = [
       }
     ]
     
-    return HttpResponse.json(incentives)
+    const promoterId = getRequestPromoterId(request)
+    
+    if (!promoterId) {
+      return HttpResponse.json(incentives)
+    }
+    
+    // A promoter sees the incentives they're in, with their own progress
+    // towards each from the bookings they brought in at its venues
+    return HttpResponse.json(incentives
+      .filter(incentive => incentive.promoterIds.includes(promoterId))
+      .map(incentive => {
+        const metrics = computePromoterMetrics(
+          mockBookings.filter(b => incentive.venueIds.includes(b.venueId)),
+          promoterId,
+          { from: incentive.startDate.slice(0, 10), to: incentive.endDate.slice(0, 10) }
+        )
+        const progress = {
+          BOOKING_TARGET: metrics.totalBookings,
+          REVENUE_TARGET: metrics.totalRevenue,
+          CONVERSION_TARGET: metrics.conversionRate
+        }[incentive.type]
+        
+        return { ...incentive, promoterIds: [promoterId], currentProgress: progress }
+      }))
   }),
 
   http.post('*/api/prima/incentives', async ({ request }) => {
@@ -1,7 +1,7 @@
 // Authentication types for PRIMA Partner Dashboard
 // Based on RFC-001: Authentication & Base Infrastructure
 
-export type UserRoleId = 'ADMIN' | 'MANAGER' | 'COORDINATOR'
+export type UserRoleId = 'ADMIN' | 'MANAGER' | 'COORDINATOR' | 'PROMOTER'
 
 export type Permission = 
   | 'READ_BOOKINGS'
@@ -38,6 +38,7 @@ export interface User {
   lastName: string
   role: UserRoleId
   venueAccess: string[] // Array of venue IDs user has access to
+  promoterId?: string // Set for promoter accounts, which only see their own records
   loginTime: string
 }
 
@@ -49,6 +50,7 @@ export interface DemoUser {
   lastName: string
   role: UserRoleId
   venueAccess: string[]
+  promoterId?: string
 }
 
 export interface AuthResult {
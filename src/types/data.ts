@@ -1,6 +1,8 @@
 // Core data models for PRIMA Partner Dashboard
 // Based on RFC-002: Data Layer & State Management
 
+import type { UserRoleId } from './auth'
+
 // ===== VENUE TYPES =====
 export interface Venue {
   id: string
@@ -38,10 +40,98 @@ export interface Booking {
   nonPrimeTotal: number
   commissionAmount: number
   notes?: string
+  // Computed by the API for upcoming bookings only; never stored
+  noShowRisk?: NoShowRisk
+  createdAt: string
+  updatedAt: string
+}
+
+export type NoShowRiskLevel = 'LOW' | 'MEDIUM' | 'HIGH'
+
+export interface NoShowRisk {
+  // Estimated probability the party doesn't arrive, 0-1
+  score: number
+  level: NoShowRiskLevel
+  // What moved the score, largest effect first; impact is in score points
+  factors: Array<{ label: string; impact: number }>
+}
+
+// Fields a user supplies when creating or editing a booking. Totals and
+// commission are always computed server-side from the venue's pricing.
+export type BookingInput = Pick<
+  Booking,
+  | 'venueId'
+  | 'promoterId'
+  | 'guestName'
+  | 'guestEmail'
+  | 'guestPhone'
+  | 'partySize'
+  | 'bookingDate'
+  | 'bookingTime'
+  | 'type'
+  | 'notes'
+>
+
+// ===== GUEST TYPES =====
+// Guests aren't stored; they are derived from bookings that share a
+// normalized email or phone number
+export interface Guest {
+  id: string
+  // Taken from the guest's most recent booking
+  name: string
+  email: string
+  phone: string
+  bookingCount: number
+  // Completed bookings
+  visits: number
+  noShows: number
+  cancellations: number
+  // Sum of completed booking amounts
+  lifetimeSpend: number
+  averagePartySize: number
+  venueIds: string[]
+  // The promoter who has booked this guest most often
+  preferredPromoterId?: string
+  firstBookingDate: string
+  lastVisitDate?: string
+  nextBookingDate?: string
+  isVip: boolean
+}
+
+export interface GuestNote {
+  id: string
+  note: string
+  createdAt: string
+  authorName?: string
+  // Set when the note came from one of the guest's bookings
+  bookingId?: string
+}
+
+export interface GuestProfile extends Guest {
+  // Most recent first
+  bookings: Booking[]
+  notes: GuestNote[]
+}
+
+// ===== WAITLIST TYPES =====
+export type WaitlistStatus = 'WAITING' | 'PROMOTED' | 'CANCELLED'
+export type WaitlistPriority = 'HIGH' | 'NORMAL' | 'LOW'
+
+// A party waiting for a sold-out slot. It carries everything needed to book,
+// so it can become a PENDING booking as soon as enough seats free up.
+export interface WaitlistEntry extends BookingInput {
+  id: string
+  priority: WaitlistPriority
+  status: WaitlistStatus
   createdAt: string
   updatedAt: string
+  // Set once the entry has been promoted
+  bookingId?: string
+  promotedAt?: string
 }
 
+export type WaitlistEntryInput = BookingInput & Pick<WaitlistEntry, 'priority'>
+
 // ===== PROMOTER TYPES =====
 export type PromoterTier = 'STANDARD' | 'PREMIUM' | 'VIP'
 export type PromoterStatus = 'ACTIVE' | 'INACTIVE' | 'SUSPENDED'
@@ -63,10 +153,104 @@ export interface Promoter {
   cancellationRate: number
   joinedDate: string
   lastActiveDate: string
+  // Set for promoters onboarded from the dashboard; the invitation is
+  // pending until it's accepted
+  invitedAt?: string
+  invitationAcceptedAt?: string
+  // Why the promoter was last moved to their current status
+  statusReason?: string
+  statusChangedAt?: string
   createdAt: string
   updatedAt: string
 }
 
+// What a manager fills in to invite a new promoter; performance stats start at zero
+export type PromoterInvitationInput = Pick<
+  Promoter,
+  'firstName' | 'lastName' | 'email' | 'phone' | 'tier' | 'venueAccess'
+>
+
+// One change to a promoter's commission tier
+export interface PromoterTierChange {
+  id: string
+  promoterId: string
+  // Missing on the entry for the tier a promoter joined on
+  fromTier?: PromoterTier
+  toTier: PromoterTier
+  actorId: string
+  actorName: string
+  actorRole?: UserRoleId
+  reason?: string
+  // Set when the change was approved from the tier review queue
+  source?: 'TIER_REVIEW'
+  createdAt: string
+}
+
+// What a promoter must hit over the evaluation window to hold a tier
+export interface PromoterTierThresholds {
+  minRevenue: number
+  minBookings: number
+  // Fractions, like PromoterMetrics
+  minConversionRate: number
+  maxNoShowRate: number
+}
+
+// STANDARD has no bar; a promoter qualifies for the highest tier whose
+// thresholds they meet
+export interface PromoterTierPolicy {
+  windowDays: number
+  thresholds: Record<Exclude<PromoterTier, 'STANDARD'>, PromoterTierThresholds>
+  updatedAt: string
+  updatedBy?: string
+}
+
+export type PromoterTierPolicyInput = Pick<PromoterTierPolicy, 'windowDays' | 'thresholds'>
+
+export interface PromoterTierCheck {
+  metric: keyof PromoterTierThresholds
+  value: number
+  threshold: number
+  passed: boolean
+}
+
+export interface PromoterTierRecommendation {
+  promoterId: string
+  currentTier: PromoterTier
+  recommendedTier: PromoterTier
+  direction: 'PROMOTION' | 'DEMOTION'
+  metrics: PromoterMetrics
+  // Against the recommended tier for a promotion, the current tier for a demotion
+  checks: PromoterTierCheck[]
+  summary: string
+}
+
+export interface PromoterTierEvaluation {
+  policy: PromoterTierPolicy
+  period: { from: string; to: string }
+  // Active promoters only; invited, inactive and suspended ones are skipped
+  evaluatedCount: number
+  recommendations: PromoterTierRecommendation[]
+}
+
+// An approved recommendation. fromTier guards against applying a stale one.
+export interface PromoterTierChangeRequest {
+  promoterId: string
+  fromTier: PromoterTier
+  toTier: PromoterTier
+  reason?: string
+}
+
+export interface ApplyPromoterTierChangesResult {
+  results: Array<{
+    promoterId: string
+    success: boolean
+    promoter?: Promoter
+    error?: ApiError
+  }>
+  applied: number
+  failed: number
+}
+
 // ===== PRICING TYPES =====
 export interface PricingConfig {
   id: string
@@ -78,11 +262,170 @@ export interface PricingConfig {
   minimumPartySize: number
   maximumPartySize: number
   isActive: boolean
+  // When this config starts applying; a venue can hold several, and the one
+  // in force on a date is the latest that had taken effect by then
   effectiveDate: string
   createdAt: string
   updatedAt: string
 }
 
+// Fields a user edits on a venue's pricing; ids and timestamps are server-set
+export type PricingConfigInput = Pick<
+  PricingConfig,
+  | 'primeBasePrice'
+  | 'primePerPersonPrice'
+  | 'nonPrimePerPersonPrice'
+  | 'platformFeePercentage'
+  | 'minimumPartySize'
+  | 'maximumPartySize'
+  | 'isActive'
+>
+
+// One saved state of a venue's pricing. Versions are never edited; a rollback
+// saves the older config again as a new version.
+export interface PricingVersion {
+  id: string
+  venueId: string
+  // Counts up from 1 per venue
+  version: number
+  config: PricingConfigInput
+  authorId: string
+  authorName: string
+  authorRole?: UserRoleId
+  createdAt: string
+  reason?: string
+  // Set when this version was created by rolling back to an earlier one
+  rolledBackFrom?: number
+  // Set when this version was saved as a scheduled change rather than going live
+  effectiveDate?: string
+}
+
+// A named pricing setup that can be applied to any venue in the portfolio
+export interface PricingTemplate {
+  id: string
+  name: string
+  description?: string
+  config: PricingConfigInput
+  // The venue whose pricing the template was copied from
+  sourceVenueId?: string
+  authorName: string
+  createdAt: string
+}
+
+export type PricingTemplateInput = Pick<PricingTemplate, 'name' | 'description' | 'config' | 'sourceVenueId'>
+
+// Applying a template to one venue; every price moves by the adjustment
+export interface PricingTemplateTarget {
+  venueId: string
+  priceAdjustmentPercentage: number
+}
+
+export interface ApplyPricingTemplateResult {
+  // When true nothing was saved; results show what would have changed
+  dryRun: boolean
+  results: Array<{
+    venueId: string
+    success: boolean
+    // Pricing in force today, if the venue had any
+    before?: PricingConfigInput
+    after?: PricingConfigInput
+    error?: ApiError
+  }>
+  applied: number
+  failed: number
+}
+
+// A multiplier between two times of day (HH:mm); start inclusive, end exclusive
+export interface PricingTimeWindow {
+  label: string
+  startTime: string
+  endTime: string
+  multiplier: number
+}
+
+// Holiday or event pricing for one date. Replaces the day-of-week and
+// time-window multipliers; demand surge still applies on top.
+export interface PricingDateOverride {
+  date: string
+  label: string
+  multiplier: number
+}
+
+// Applies once a slot's seated guests reach this share (%) of venue capacity
+export interface PricingSurgeTier {
+  minOccupancy: number
+  multiplier: number
+}
+
+// Multipliers layered on whichever PricingConfig is in force on a date
+export interface DynamicPricingRules {
+  venueId: string
+  isActive: boolean
+  // Indexed by day of week, Sunday first
+  dayOfWeekMultipliers: number[]
+  timeWindows: PricingTimeWindow[]
+  dateOverrides: PricingDateOverride[]
+  surgeTiers: PricingSurgeTier[]
+  // Upper bound on the combined multiplier
+  maxMultiplier: number
+  updatedAt?: string
+}
+
+export type DynamicPricingRulesInput = Omit<DynamicPricingRules, 'venueId' | 'updatedAt'>
+
+export type PriceRuleKind = 'DATE_OVERRIDE' | 'DAY_OF_WEEK' | 'TIME_WINDOW' | 'SURGE' | 'CAP'
+
+// One rule considered while resolving a price, in precedence order
+export interface PriceRuleStep {
+  kind: PriceRuleKind
+  label: string
+  multiplier: number
+  // False when a higher-precedence rule replaced this one
+  applied: boolean
+}
+
+// The dynamic multiplier for one venue slot, and the demand behind it
+export interface PriceResolution {
+  venueId: string
+  date: string
+  time: string
+  seatedGuests: number
+  capacity: number
+  // Seated guests as a share of capacity, 0-1
+  occupancy: number
+  multiplier: number
+  steps: PriceRuleStep[]
+}
+
+export interface RevenueTotals {
+  revenue: number
+  platformFees: number
+  commission: number
+  netToVenue: number
+}
+
+export interface RevenueImpactWeek {
+  // First day of the 7-day bucket
+  weekStart: string
+  bookings: number
+  actual: RevenueTotals
+  projected: RevenueTotals
+}
+
+// A venue's recent bookings replayed under draft pricing, next to what they actually paid
+export interface RevenueImpact {
+  venueId: string
+  from: string
+  to: string
+  weeks: number
+  bookingCount: number
+  // Bookings the draft would have refused (party size limits or inactive pricing)
+  refusedCount: number
+  actual: RevenueTotals
+  projected: RevenueTotals
+  byWeek: RevenueImpactWeek[]
+}
+
 // ===== FINANCIAL TYPES =====
 export interface Transaction {
   id: string
@@ -162,6 +505,75 @@ export interface ApiError {
   details?: Record<string, unknown>
 }
 
+export interface BulkBookingStatusResult {
+  status: BookingStatus
+  results: Array<{
+    id: string
+    success: boolean
+    booking?: Booking
+    error?: ApiError
+  }>
+  succeeded: number
+  failed: number
+}
+
+export interface BatchCreateBookingsResult {
+  // When true nothing was persisted; results show what would have happened
+  dryRun: boolean
+  results: Array<{
+    // Position of the row in the submitted batch
+    index: number
+    success: boolean
+    booking?: Booking
+    error?: ApiError
+  }>
+  created: number
+  failed: number
+}
+
+export type BookingEventType = 'CREATED' | 'UPDATED' | 'STATUS_CHANGED' | 'NOTE_ADDED'
+
+export interface BookingFieldChange {
+  field: keyof BookingInput
+  from?: BookingInput[keyof BookingInput]
+  to?: BookingInput[keyof BookingInput]
+}
+
+// One entry in a booking's audit history; entries are never edited
+export interface BookingEvent {
+  id: string
+  bookingId: string
+  type: BookingEventType
+  actorId: string
+  actorName: string
+  // The role the actor was acting as at the time; missing when the request
+  // carried no recognised token
+  actorRole?: UserRoleId
+  createdAt: string
+  // STATUS_CHANGED only
+  fromStatus?: BookingStatus
+  toStatus?: BookingStatus
+  conflictsAcknowledged?: boolean
+  // UPDATED only
+  changes?: BookingFieldChange[]
+  // NOTE_ADDED only
+  note?: string
+}
+
+export type BookingConflictType = 'DUPLICATE_GUEST' | 'OVER_CAPACITY'
+
+export interface BookingConflict {
+  // Stable across refetches, derived from the type and the slot or guest
+  id: string
+  type: BookingConflictType
+  venueId: string
+  bookingDate: string
+  // Only set for capacity conflicts, which are per time slot
+  bookingTime?: string
+  bookingIds: string[]
+  message: string
+}
+
 // ===== FILTER TYPES =====
 export interface BookingFilters {
   status?: BookingStatus[]
@@ -173,6 +585,16 @@ export interface BookingFilters {
     to: string
   }
   search?: string
+  risk?: NoShowRiskLevel[]
+}
+
+export type SortOrder = 'asc' | 'desc'
+
+export interface BookingQueryParams extends BookingFilters {
+  page?: number
+  limit?: number
+  sortBy?: keyof Booking
+  sortOrder?: SortOrder
 }
 
 export interface PromoterFilters {
@@ -182,6 +604,29 @@ export interface PromoterFilters {
   search?: string
 }
 
+export interface GuestFilters {
+  // Guests who have booked at this venue; their stats still span all venues
+  venueId?: string
+  search?: string
+  vipOnly?: boolean
+}
+
+export interface GuestQueryParams extends GuestFilters {
+  page?: number
+  limit?: number
+  sortBy?: keyof Guest
+  sortOrder?: SortOrder
+}
+
+export interface WaitlistFilters {
+  venueId?: string
+  dateRange?: {
+    from: string
+    to: string
+  }
+  status?: WaitlistStatus[]
+}
+
 export interface VenueFilters {
   type?: Venue['type'][]
   isActive?: boolean
@@ -218,6 +663,28 @@ export interface PromoterMetrics {
   }
 }
 
+export type PromoterComparisonMetric = 'totalRevenue' | 'totalBookings' | 'conversionRate' | 'noShowRate'
+
+export type PromoterComparisonGranularity = 'day' | 'week' | 'month'
+
+export interface PromoterComparisonEntry {
+  promoterId: string
+  metrics: PromoterMetrics
+  // 0-100, the share of the population this promoter does at least as well
+  // as; fewer no-shows rank higher. Revenue is left out when amounts are masked.
+  percentiles: Partial<Record<PromoterComparisonMetric, number>>
+  // One set of metrics per bucket, oldest first
+  series: PromoterMetrics[]
+}
+
+export interface PromoterComparison {
+  period: { from: string; to: string }
+  granularity: PromoterComparisonGranularity
+  // Promoters with access to the venue, or every promoter for the portfolio
+  populationSize: number
+  promoters: PromoterComparisonEntry[]
+}
+
 // ===== PORTFOLIO TYPES =====
 export interface PortfolioMetrics {
   totalRevenue: number